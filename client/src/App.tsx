@@ -32,6 +32,11 @@ import HRDocuments from "@/pages/company-admin/hr/documents";
 import HRLeave from "@/pages/company-admin/hr/leave";
 import HRAttendance from "@/pages/company-admin/hr/attendance";
 import HRProbation from "@/pages/company-admin/hr/probation";
+import HROffboarding from "@/pages/company-admin/hr/offboarding";
+import HREmployeeBin from "@/pages/company-admin/hr/bin";
+import HRHeadcount from "@/pages/company-admin/hr/headcount";
+import HRPositions from "@/pages/company-admin/hr/positions";
+import HRDocumentReview from "@/pages/company-admin/hr/document-review";
 import EmployeeList from "@/pages/company-admin/employees/EmployeeList";
 import AddEmployee from "@/pages/company-admin/employees/AddEmployee";
 import EmployeeProfile from "@/pages/company-admin/employees/EmployeeProfile";
@@ -44,6 +49,8 @@ import NotFound from "@/pages/not-found";
 import PayrollDashboard from "@/pages/payroll/dashboard";
 import SalaryProcessing from "@/pages/payroll/salary-processing";
 import Payslips from "@/pages/payroll/payslips";
+import Gratuity from "@/pages/payroll/gratuity";
+import SalaryRevisions from "@/pages/payroll/salary-revisions";
 import TaxManagement from "@/pages/payroll/tax-management";
 
 // Finance Module Pages
@@ -170,9 +177,14 @@ function HRRoutes() {
         
         {/* HR Operations */}
         <Route path="/hr/documents" component={HRDocuments} />
+        <Route path="/hr/documents/review" component={HRDocumentReview} />
         <Route path="/hr/leave-management" component={HRLeave} />
         <Route path="/hr/attendance" component={HRAttendance} />
         <Route path="/hr/probation-tracking" component={HRProbation} />
+        <Route path="/hr/offboarding" component={HROffboarding} />
+        <Route path="/hr/bin" component={HREmployeeBin} />
+        <Route path="/hr/positions" component={HRPositions} />
+        <Route path="/hr/headcount" component={HRHeadcount} />
         
         {/* Company-scoped HR routes */}
         <Route path="/:companySlug/hr/dashboard" component={HRDashboard} />
@@ -187,9 +199,14 @@ function HRRoutes() {
         <Route path="/:companySlug/hr/departments/:id/edit" component={EditDepartment} />
         <Route path="/:companySlug/hr/departments/:id" component={DepartmentDetails} />
         <Route path="/:companySlug/hr/documents" component={HRDocuments} />
+        <Route path="/:companySlug/hr/documents/review" component={HRDocumentReview} />
         <Route path="/:companySlug/hr/leave-management" component={HRLeave} />
         <Route path="/:companySlug/hr/attendance" component={HRAttendance} />
         <Route path="/:companySlug/hr/probation-tracking" component={HRProbation} />
+        <Route path="/:companySlug/hr/offboarding" component={HROffboarding} />
+        <Route path="/:companySlug/hr/bin" component={HREmployeeBin} />
+        <Route path="/:companySlug/hr/positions" component={HRPositions} />
+        <Route path="/:companySlug/hr/headcount" component={HRHeadcount} />
         
         {/* Legacy fallback routes */}
         <Route path="/company-admin/hr/dashboard" component={HRDashboard} />
@@ -204,9 +221,14 @@ function HRRoutes() {
         <Route path="/company-admin/hr/departments/:id/edit" component={EditDepartment} />
         <Route path="/company-admin/hr/departments/:id" component={DepartmentDetails} />
         <Route path="/company-admin/hr/documents" component={HRDocuments} />
+        <Route path="/company-admin/hr/documents/review" component={HRDocumentReview} />
         <Route path="/company-admin/hr/leave" component={HRLeave} />
         <Route path="/company-admin/hr/attendance" component={HRAttendance} />
         <Route path="/company-admin/hr/probation" component={HRProbation} />
+        <Route path="/company-admin/hr/offboarding" component={HROffboarding} />
+        <Route path="/company-admin/hr/bin" component={HREmployeeBin} />
+        <Route path="/company-admin/hr/positions" component={HRPositions} />
+        <Route path="/company-admin/hr/headcount" component={HRHeadcount} />
       </Switch>
     </HRModuleLayout>
   );
@@ -221,18 +243,24 @@ function PayrollRoutes() {
         <Route path="/payroll/dashboard" component={PayrollDashboard} />
         <Route path="/payroll/salary-processing" component={SalaryProcessing} />
         <Route path="/payroll/payslips" component={Payslips} />
+        <Route path="/payroll/gratuity" component={Gratuity} />
+        <Route path="/payroll/salary-revisions" component={SalaryRevisions} />
         <Route path="/payroll/tax-management" component={TaxManagement} />
         
         {/* Company-scoped Payroll routes */}
         <Route path="/:companySlug/payroll/dashboard" component={PayrollDashboard} />
         <Route path="/:companySlug/payroll/salary-processing" component={SalaryProcessing} />
         <Route path="/:companySlug/payroll/payslips" component={Payslips} />
+        <Route path="/:companySlug/payroll/gratuity" component={Gratuity} />
+        <Route path="/:companySlug/payroll/salary-revisions" component={SalaryRevisions} />
         <Route path="/:companySlug/payroll/tax-management" component={TaxManagement} />
         
         {/* Legacy fallback routes */}
         <Route path="/company-admin/payroll/dashboard" component={PayrollDashboard} />
         <Route path="/company-admin/payroll/salary-processing" component={SalaryProcessing} />
         <Route path="/company-admin/payroll/payslips" component={Payslips} />
+        <Route path="/company-admin/payroll/gratuity" component={Gratuity} />
+        <Route path="/company-admin/payroll/salary-revisions" component={SalaryRevisions} />
         <Route path="/company-admin/payroll/tax-management" component={TaxManagement} />
       </Switch>
     </PayrollModuleLayout>
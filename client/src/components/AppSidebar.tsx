@@ -1,4 +1,4 @@
-import { Users, Building2, UserPlus, Settings, BarChart3, Calendar, FileText, LogOut, User, ArrowLeft } from "lucide-react";
+import { Users, Building2, UserPlus, UserMinus, Settings, BarChart3, Calendar, FileText, LogOut, User, ArrowLeft, Trash2, TrendingUp, Briefcase, FileCheck } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useQuery } from "@tanstack/react-query";
@@ -34,11 +34,21 @@ const hrMenuItems = [
     icon: Building2,
     url: "/hr/departments",
   },
+  {
+    title: "Positions",
+    icon: Briefcase,
+    url: "/hr/positions",
+  },
   {
     title: "Documents",
     icon: FileText,
     url: "/hr/documents",
   },
+  {
+    title: "Document Review",
+    icon: FileCheck,
+    url: "/hr/documents/review",
+  },
   {
     title: "Leave Management",
     icon: Calendar,
@@ -54,6 +64,21 @@ const hrMenuItems = [
     icon: Settings,
     url: "/hr/probation",
   },
+  {
+    title: "Headcount",
+    icon: TrendingUp,
+    url: "/hr/headcount",
+  },
+  {
+    title: "Offboarding",
+    icon: UserMinus,
+    url: "/hr/offboarding",
+  },
+  {
+    title: "Employee Bin",
+    icon: Trash2,
+    url: "/hr/bin",
+  },
 ];
 
 export function AppSidebar() {
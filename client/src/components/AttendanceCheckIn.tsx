@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Clock, LogIn, LogOut, MapPin } from "lucide-react";
+import type { AttendanceRecord } from "@shared/schema";
+
+interface MyAttendance {
+  today: AttendanceRecord | null;
+  records: AttendanceRecord[];
+}
+
+function getCurrentPosition(): Promise<{ latitude: number; longitude: number; accuracy: number }> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("Location is not available in this browser"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+      }),
+      () => reject(new Error("Allow location access to check in or out")),
+      { enableHighAccuracy: true, timeout: 15000 }
+    );
+  });
+}
+
+export function formatTime(value: string | Date | null | undefined): string {
+  if (!value) return '--:--';
+  return new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export function formatMinutes(minutes: number | null | undefined): string {
+  if (minutes == null) return '-';
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+export default function AttendanceCheckIn() {
+  const { toast } = useToast();
+  const [breakMinutes, setBreakMinutes] = useState("");
+
+  const { data: myAttendance, isError } = useQuery<MyAttendance>({
+    queryKey: ["/api/attendance/me"],
+  });
+
+  const today = myAttendance?.today;
+
+  const punchMutation = useMutation({
+    mutationFn: async (action: 'check-in' | 'check-out') => {
+      const coordinates = await getCurrentPosition();
+      // Leaving the break blank applies the rostered shift's break
+      const body = action === 'check-out' && breakMinutes !== ''
+        ? { ...coordinates, breakMinutes: parseInt(breakMinutes) || 0 }
+        : coordinates;
+      const response = await apiRequest('POST', `/api/attendance/${action}`, body);
+      return await response.json();
+    },
+    onSuccess: (_data: AttendanceRecord, action) => {
+      toast({
+        title: action === 'check-in' ? "Checked In" : "Checked Out",
+        description: action === 'check-in'
+          ? "Your arrival and location have been recorded."
+          : "Your working hours for today have been recorded.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Attendance Failed",
+        description: error.message || "Could not record attendance.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Accounts without an employee profile have nothing to check in
+  if (isError) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="card-attendance-check-in">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Clock className="h-5 w-5 text-primary" />
+          Today's Attendance
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Check In</p>
+            <p className="font-medium" data-testid="text-check-in-time">{formatTime(today?.checkIn)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Check Out</p>
+            <p className="font-medium" data-testid="text-check-out-time">{formatTime(today?.checkOut)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Worked</p>
+            <p className="font-medium" data-testid="text-worked-hours">{formatMinutes(today?.totalHours)}</p>
+          </div>
+        </div>
+
+        {!today?.checkIn ? (
+          <Button
+            className="w-full"
+            onClick={() => punchMutation.mutate('check-in')}
+            disabled={punchMutation.isPending}
+            data-testid="button-check-in"
+          >
+            <LogIn className="w-4 h-4 mr-2" />
+            {punchMutation.isPending ? "Locating..." : "Check In"}
+          </Button>
+        ) : !today.checkOut ? (
+          <div className="flex items-end gap-2">
+            <div className="space-y-1 w-32">
+              <Label htmlFor="break-minutes">Break (min)</Label>
+              <Input
+                id="break-minutes"
+                type="number"
+                min="0"
+                value={breakMinutes}
+                placeholder="Shift"
+                onChange={(e) => setBreakMinutes(e.target.value)}
+                data-testid="input-break-minutes"
+              />
+            </div>
+            <Button
+              className="flex-1"
+              variant="outline"
+              onClick={() => punchMutation.mutate('check-out')}
+              disabled={punchMutation.isPending}
+              data-testid="button-check-out"
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              {punchMutation.isPending ? "Locating..." : "Check Out"}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">You have completed today's attendance.</p>
+        )}
+
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          <MapPin className="w-3 h-3" />
+          Your location is recorded when you check in and out.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
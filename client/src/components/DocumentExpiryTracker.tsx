@@ -0,0 +1,212 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, BellRing, CalendarClock } from "lucide-react";
+
+type ExpiryBucket = 'EXPIRED' | 'WITHIN_30' | 'WITHIN_60' | 'WITHIN_90';
+
+interface ExpiringDocument {
+  employeeId: string;
+  employeeCode: string;
+  employeeName: string;
+  documentKey: string;
+  documentType: string;
+  documentNumber: string | null;
+  expiryDate: string;
+  daysLeft: number;
+  bucket: ExpiryBucket;
+  lastReminderDays: number | null;
+}
+
+interface DocumentExpiryReport {
+  asOf: string;
+  counts: Record<ExpiryBucket, number>;
+  documents: ExpiringDocument[];
+}
+
+interface DocumentExpiryTrackerProps {
+  companySlug?: string;
+}
+
+const BUCKETS: Array<{ value: ExpiryBucket; label: string; className: string }> = [
+  { value: 'EXPIRED', label: 'Expired', className: 'text-red-600' },
+  { value: 'WITHIN_30', label: 'Within 30 days', className: 'text-orange-600' },
+  { value: 'WITHIN_60', label: 'Within 60 days', className: 'text-yellow-600' },
+  { value: 'WITHIN_90', label: 'Within 90 days', className: 'text-blue-600' },
+];
+
+function describeDaysLeft(daysLeft: number): string {
+  if (daysLeft < 0) return `${-daysLeft} day${daysLeft === -1 ? '' : 's'} ago`;
+  if (daysLeft === 0) return 'Today';
+  return `${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+}
+
+export default function DocumentExpiryTracker({ companySlug }: DocumentExpiryTrackerProps) {
+  const { toast } = useToast();
+  const companyQuery = companySlug ? `?companySlug=${companySlug}` : '';
+  const [bucket, setBucket] = useState<ExpiryBucket | null>(null);
+  const [reminderDays, setReminderDays] = useState("");
+
+  const { data: report, isLoading } = useQuery<DocumentExpiryReport>({
+    queryKey: [`/api/document-expiry${companyQuery}`],
+  });
+
+  const { data: settings } = useQuery<{ reminderDays: number[] }>({
+    queryKey: [`/api/document-expiry/settings${companyQuery}`],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setReminderDays(settings.reminderDays.join(', '));
+    }
+  }, [settings]);
+
+  const parsedReminderDays = reminderDays
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean)
+    .map(Number);
+  const reminderDaysValid = parsedReminderDays.length > 0 &&
+    parsedReminderDays.every(days => Number.isInteger(days) && days >= 1 && days <= 365);
+
+  const settingsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', '/api/document-expiry/settings', { reminderDays: parsedReminderDays, companySlug });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Reminder Schedule Saved",
+        description: "HR and employees will be reminded at the new lead times.",
+      });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/document-expiry/settings") });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Could not save the reminder schedule.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const documents = (report?.documents || []).filter(document => !bucket || document.bucket === bucket);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {BUCKETS.map(option => (
+          <Card
+            key={option.value}
+            className={`hover-elevate cursor-pointer ${bucket === option.value ? 'ring-2 ring-primary' : ''}`}
+            onClick={() => setBucket(bucket === option.value ? null : option.value)}
+            data-testid={`card-expiry-${option.value.toLowerCase()}`}
+          >
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{option.label}</CardTitle>
+              {option.value === 'EXPIRED'
+                ? <AlertTriangle className="h-4 w-4 text-red-500" />
+                : <CalendarClock className="h-4 w-4 text-muted-foreground" />}
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${option.className}`}>{report?.counts[option.value] ?? 0}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Expiring Documents</CardTitle>
+          <CardDescription>
+            Visas, Emirates IDs, passports, work permits, labor cards and uploaded documents of current employees
+            {bucket ? ` · ${BUCKETS.find(option => option.value === bucket)?.label.toLowerCase()}` : ''}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Checking expiry dates...</p>
+          ) : documents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No documents expire within the next 90 days.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Document</TableHead>
+                  <TableHead>Expiry Date</TableHead>
+                  <TableHead>Days Left</TableHead>
+                  <TableHead>Last Reminder</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {documents.map(document => (
+                  <TableRow key={`${document.employeeId}-${document.documentKey}`} data-testid={`row-expiry-${document.employeeId}-${document.documentKey}`}>
+                    <TableCell>
+                      <p className="font-medium">{document.employeeName}</p>
+                      <p className="text-xs text-muted-foreground">{document.employeeCode}</p>
+                    </TableCell>
+                    <TableCell>
+                      <p>{document.documentType}</p>
+                      {document.documentNumber && <p className="text-xs text-muted-foreground">{document.documentNumber}</p>}
+                    </TableCell>
+                    <TableCell>{document.expiryDate}</TableCell>
+                    <TableCell>
+                      <Badge variant={document.bucket === 'EXPIRED' ? 'destructive' : document.bucket === 'WITHIN_30' ? 'secondary' : 'outline'}>
+                        {describeDaysLeft(document.daysLeft)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {document.lastReminderDays === null
+                        ? '—'
+                        : document.lastReminderDays === 0 ? 'Expiry notice' : `${document.lastReminderDays}-day reminder`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            Reminder Schedule
+          </CardTitle>
+          <CardDescription>
+            HR and the employee are emailed when a document comes within each lead time, and once more when it expires.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="reminder-days">Days before expiry</Label>
+            <Input
+              id="reminder-days"
+              value={reminderDays}
+              onChange={(e) => setReminderDays(e.target.value)}
+              placeholder="90, 60, 30"
+              className="w-64"
+              data-testid="input-reminder-days"
+            />
+          </div>
+          <Button
+            onClick={() => settingsMutation.mutate()}
+            disabled={!reminderDaysValid || settingsMutation.isPending}
+            data-testid="button-save-reminder-days"
+          >
+            {settingsMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, Eye, FileCheck, RotateCcw, X } from "lucide-react";
+import type { EmployeeDocument } from "@shared/schema";
+
+type ReviewQueueDocument = EmployeeDocument & {
+  employeeCode: string | null;
+  employeeName: string | null;
+  uploadedByName: string | null;
+  approvedByName: string | null;
+};
+
+type ReviewAction = 'approve' | 'reject' | 'request-resubmission';
+
+interface DocumentReviewQueueProps {
+  companySlug?: string;
+}
+
+export const APPROVAL_STATUS_LABELS: Record<string, string> = {
+  PENDING: "Pending review",
+  APPROVED: "Approved",
+  REJECTED: "Rejected",
+  RESUBMISSION_REQUESTED: "Resubmission requested",
+};
+
+export function getApprovalStatusBadge(status: string | null) {
+  switch (status) {
+    case 'APPROVED':
+      return <Badge className="bg-green-100 text-green-800">Approved</Badge>;
+    case 'REJECTED':
+      return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
+    case 'RESUBMISSION_REQUESTED':
+      return <Badge className="bg-orange-100 text-orange-800">Resubmission requested</Badge>;
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-800">Pending review</Badge>;
+  }
+}
+
+const ACTION_LABELS: Record<Exclude<ReviewAction, 'approve'>, { title: string; button: string }> = {
+  'reject': { title: "Reject Document", button: "Reject" },
+  'request-resubmission': { title: "Request Resubmission", button: "Request Resubmission" },
+};
+
+export default function DocumentReviewQueue({ companySlug }: DocumentReviewQueueProps) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState("PENDING");
+  const [returning, setReturning] = useState<{ document: ReviewQueueDocument; action: Exclude<ReviewAction, 'approve'> } | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: documents = [], isLoading } = useQuery<ReviewQueueDocument[]>({
+    queryKey: ["/api/employee-documents/review-queue", status, companySlug],
+    queryFn: async () => {
+      const params = new URLSearchParams({ status, ...(companySlug ? { companySlug } : {}) });
+      const response = await apiRequest('GET', `/api/employee-documents/review-queue?${params}`);
+      return await response.json();
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action, comments }: { id: string; action: ReviewAction; comments?: string }) => {
+      const response = await apiRequest('POST', `/api/employee-documents/${id}/${action}`, { comments });
+      return await response.json();
+    },
+    onSuccess: (_document: EmployeeDocument, { action }) => {
+      toast({
+        title: action === 'approve' ? "Document Approved" : action === 'reject' ? "Document Rejected" : "Resubmission Requested",
+        description: action === 'approve'
+          ? "The document has been verified."
+          : "The uploader has been emailed the reason.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/employee-documents/review-queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/employee-documents"] });
+      setReturning(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Review Failed",
+        description: error.message || "Could not update the document.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const openReturnDialog = (document: ReviewQueueDocument, action: Exclude<ReviewAction, 'approve'>) => {
+    setReason("");
+    setReturning({ document, action });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <FileCheck className="w-5 h-5" />
+            Review Queue
+          </CardTitle>
+          <CardDescription>
+            Documents uploaded for employees, oldest first. Rejections and resubmission requests are emailed to the uploader.
+          </CardDescription>
+        </div>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-56" data-testid="select-review-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(APPROVAL_STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+            <SelectItem value="ALL">All</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading documents...</p>
+        ) : documents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No documents to show.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Document</TableHead>
+                <TableHead>Employee</TableHead>
+                <TableHead>Uploaded</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {documents.map(document => (
+                <TableRow key={document.id} data-testid={`row-review-document-${document.id}`}>
+                  <TableCell>
+                    <p className="font-medium">{document.fileName}</p>
+                    <p className="text-xs text-muted-foreground">{document.documentType}</p>
+                  </TableCell>
+                  <TableCell>
+                    <p>{document.employeeName || document.employeeCode || 'Unknown employee'}</p>
+                    <p className="text-xs text-muted-foreground">{document.employeeCode}</p>
+                  </TableCell>
+                  <TableCell>
+                    <p>{document.uploadDate ? new Date(document.uploadDate).toLocaleDateString('en-GB') : '—'}</p>
+                    <p className="text-xs text-muted-foreground">{document.uploadedByName || '—'}</p>
+                  </TableCell>
+                  <TableCell>
+                    {getApprovalStatusBadge(document.approvalStatus)}
+                    {document.approvalStatus !== 'PENDING' && (
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        {document.approvedByName || '—'}{document.comments ? ` · ${document.comments}` : ''}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => window.open(`/api/files/${document.id}`, '_blank')}
+                      data-testid={`button-open-document-${document.id}`}
+                    >
+                      <Eye className="w-4 h-4" />
+                    </Button>
+                    {document.approvalStatus === 'PENDING' && (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => reviewMutation.mutate({ id: document.id, action: 'approve' })}
+                          disabled={reviewMutation.isPending}
+                          data-testid={`button-approve-document-${document.id}`}
+                        >
+                          <Check className="w-4 h-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openReturnDialog(document, 'request-resubmission')}
+                          disabled={reviewMutation.isPending}
+                          data-testid={`button-resubmit-document-${document.id}`}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Resubmit
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={() => openReturnDialog(document, 'reject')}
+                          disabled={reviewMutation.isPending}
+                          data-testid={`button-reject-document-${document.id}`}
+                        >
+                          <X className="w-4 h-4 mr-1" />
+                          Reject
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!returning} onOpenChange={(open) => !open && setReturning(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{returning ? ACTION_LABELS[returning.action].title : ''}</DialogTitle>
+            <DialogDescription>
+              {returning?.document.fileName} · the reason is emailed to {returning?.document.uploadedByName || 'the uploader'}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review-reason">Reason</Label>
+            <Textarea
+              id="review-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. The scan is cut off at the bottom"
+              data-testid="input-review-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReturning(null)} data-testid="button-cancel-review">
+              Cancel
+            </Button>
+            <Button
+              variant={returning?.action === 'reject' ? "destructive" : "default"}
+              onClick={() => returning && reviewMutation.mutate({ id: returning.document.id, action: returning.action, comments: reason.trim() })}
+              disabled={reviewMutation.isPending || !reason.trim()}
+              data-testid="button-submit-review"
+            >
+              {reviewMutation.isPending ? "Saving..." : returning ? ACTION_LABELS[returning.action].button : ''}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
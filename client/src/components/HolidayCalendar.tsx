@@ -0,0 +1,355 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CalendarDays, Download, Plus, Trash2 } from "lucide-react";
+import type { CompanyHoliday, WorkCalendarSettings } from "@shared/schema";
+
+const WEEK_DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const EMIRATES = ['Abu Dhabi', 'Dubai', 'Sharjah', 'Ajman', 'Umm Al Quwain', 'Ras Al Khaimah', 'Fujairah'];
+const ALL_EMIRATES = 'ALL';
+
+interface HolidayCalendarProps {
+  canManage: boolean;
+}
+
+export default function HolidayCalendar({ canManage }: HolidayCalendarProps) {
+  const { toast } = useToast();
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [weekendDays, setWeekendDays] = useState<number[]>([6, 0]);
+  const [companyEmirate, setCompanyEmirate] = useState<string>(ALL_EMIRATES);
+  const [isHolidayDialogOpen, setIsHolidayDialogOpen] = useState(false);
+  const [holidayName, setHolidayName] = useState("");
+  const [holidayDate, setHolidayDate] = useState("");
+  const [holidayEmirate, setHolidayEmirate] = useState<string>(ALL_EMIRATES);
+
+  const { data: holidays = [], isLoading } = useQuery<CompanyHoliday[]>({
+    queryKey: ["/api/holidays", { year }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/holidays?year=${year}`);
+      return await response.json();
+    },
+  });
+
+  const { data: workCalendar } = useQuery<WorkCalendarSettings>({
+    queryKey: ["/api/work-calendar"],
+  });
+
+  useEffect(() => {
+    if (workCalendar) {
+      setWeekendDays(workCalendar.weekendDays || [6, 0]);
+      setCompanyEmirate(workCalendar.emirate || ALL_EMIRATES);
+    }
+  }, [workCalendar]);
+
+  const invalidateHolidays = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/holidays"] });
+  };
+
+  const saveWorkCalendarMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', '/api/work-calendar', {
+        weekendDays,
+        emirate: companyEmirate === ALL_EMIRATES ? undefined : companyEmirate,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Working Week Saved",
+        description: "Leave, attendance and payroll day counts now use the updated weekend.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/work-calendar"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Could not save the working week.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const preloadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/holidays/preload', { year });
+      return await response.json();
+    },
+    onSuccess: (data: { holidaysAdded: number }) => {
+      toast({
+        title: "Federal Holidays Added",
+        description: data.holidaysAdded > 0
+          ? `${data.holidaysAdded} UAE federal holidays added for ${year}. Adjust lunar dates once they are announced.`
+          : `All known UAE federal holidays for ${year} are already on the calendar.`,
+      });
+      invalidateHolidays();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Preload Failed",
+        description: error.message || "Could not add the federal holidays.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const createHolidayMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/holidays', {
+        name: holidayName,
+        date: holidayDate,
+        type: holidayEmirate === ALL_EMIRATES ? 'COMPANY' : 'EMIRATE',
+        emirate: holidayEmirate === ALL_EMIRATES ? undefined : holidayEmirate,
+      });
+      return await response.json();
+    },
+    onSuccess: (holiday: CompanyHoliday) => {
+      toast({
+        title: "Holiday Added",
+        description: `"${holiday.name}" is now excluded from working days.`,
+      });
+      setIsHolidayDialogOpen(false);
+      setHolidayName("");
+      setHolidayDate("");
+      setHolidayEmirate(ALL_EMIRATES);
+      invalidateHolidays();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Create Failed",
+        description: error.message || "Could not add the holiday.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteHolidayMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/holidays/${id}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Holiday Removed",
+        description: "The date counts as a working day again.",
+      });
+      invalidateHolidays();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Could not remove the holiday.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const toggleWeekendDay = (day: number) => {
+    setWeekendDays(current => current.includes(day) ? current.filter(d => d !== day) : [...current, day]);
+  };
+
+  const handleCreateHoliday = () => {
+    if (!holidayName.trim() || !holidayDate) {
+      toast({
+        title: "Invalid Holiday",
+        description: "Enter a name and a date.",
+        variant: "destructive",
+      });
+      return;
+    }
+    createHolidayMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-4">
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Working Week</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Weekend Days</Label>
+              <div className="flex flex-wrap gap-2">
+                {WEEK_DAYS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    size="sm"
+                    variant={weekendDays.includes(day) ? "default" : "outline"}
+                    onClick={() => toggleWeekendDay(day)}
+                    data-testid={`button-weekend-day-${day}`}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2 max-w-xs">
+              <Label>Emirate</Label>
+              <Select value={companyEmirate} onValueChange={setCompanyEmirate}>
+                <SelectTrigger data-testid="select-company-emirate">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_EMIRATES}>Federal holidays only</SelectItem>
+                  {EMIRATES.map(emirate => (
+                    <SelectItem key={emirate} value={emirate}>{emirate}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Holidays declared for this emirate also apply to the company.
+              </p>
+            </div>
+            <Button
+              onClick={() => saveWorkCalendarMutation.mutate()}
+              disabled={saveWorkCalendarMutation.isPending}
+              data-testid="button-save-work-calendar"
+            >
+              {saveWorkCalendarMutation.isPending ? "Saving..." : "Save Working Week"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Public Holidays {year}</span>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setYear(year - 1)} data-testid="button-holidays-prev-year">
+                {year - 1}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setYear(year + 1)} data-testid="button-holidays-next-year">
+                {year + 1}
+              </Button>
+              {canManage && (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => preloadMutation.mutate()}
+                    disabled={preloadMutation.isPending}
+                    data-testid="button-preload-holidays"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    UAE Federal Holidays
+                  </Button>
+                  <Button size="sm" onClick={() => setIsHolidayDialogOpen(true)} data-testid="button-add-holiday">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Holiday
+                  </Button>
+                </>
+              )}
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading holidays...</p>
+          ) : holidays.length === 0 ? (
+            <div className="text-center py-8">
+              <CalendarDays className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No holidays on the calendar for {year}.</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {holidays.map(holiday => (
+                <div
+                  key={holiday.id}
+                  className="flex items-center justify-between border rounded-md p-3"
+                  data-testid={`row-holiday-${holiday.id}`}
+                >
+                  <div>
+                    <p className="font-medium">{holiday.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {new Date(`${holiday.date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long' })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{holiday.emirate || holiday.type}</Badge>
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={deleteHolidayMutation.isPending}
+                        onClick={() => deleteHolidayMutation.mutate(holiday.id)}
+                        data-testid={`button-delete-holiday-${holiday.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isHolidayDialogOpen} onOpenChange={setIsHolidayDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Holiday</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="holiday-name">Name</Label>
+              <Input
+                id="holiday-name"
+                value={holidayName}
+                onChange={(e) => setHolidayName(e.target.value)}
+                placeholder="e.g. Company Foundation Day"
+                data-testid="input-holiday-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holiday-date">Date</Label>
+              <Input
+                id="holiday-date"
+                type="date"
+                value={holidayDate}
+                onChange={(e) => setHolidayDate(e.target.value)}
+                data-testid="input-holiday-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              <Select value={holidayEmirate} onValueChange={setHolidayEmirate}>
+                <SelectTrigger data-testid="select-holiday-emirate">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_EMIRATES}>All emirates</SelectItem>
+                  {EMIRATES.map(emirate => (
+                    <SelectItem key={emirate} value={emirate}>{emirate} only</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsHolidayDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreateHoliday}
+              disabled={createHolidayMutation.isPending}
+              data-testid="button-save-holiday"
+            >
+              {createHolidayMutation.isPending ? "Saving..." : "Save Holiday"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
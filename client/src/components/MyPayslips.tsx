@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Download, FileText } from "lucide-react";
+
+interface PayslipSummary {
+  id: string;
+  month: string;
+  grossSalary: string | null;
+  overtimeAmount: string | null;
+  leaveDeduction: string | null;
+  netSalary: string | null;
+}
+
+/**
+ * Payslips come back as PDF files, so they are downloaded outside apiRequest
+ */
+export async function downloadPayslip(payrollItemId: string, fallbackName: string) {
+  const res = await fetch(`/api/payslips/${payrollItemId}/download`, { credentials: 'include' });
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+  const fileName = res.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || fallbackName;
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString('en-AE', { month: 'long', year: 'numeric' });
+}
+
+export default function MyPayslips() {
+  const { toast } = useToast();
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const { data: payslips = [], isLoading } = useQuery<PayslipSummary[]>({
+    queryKey: ["/api/payslips/me"],
+  });
+
+  const handleDownload = async (payslip: PayslipSummary) => {
+    setDownloadingId(payslip.id);
+    try {
+      await downloadPayslip(payslip.id, `Payslip-${payslip.month}.pdf`);
+    } catch (error: any) {
+      toast({
+        title: "Download Failed",
+        description: error.message || "Could not download the payslip.",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="w-5 h-5" />
+          My Payslips
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading payslips...</p>
+        ) : payslips.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Payslips appear here once payroll is approved.</p>
+        ) : (
+          <div className="space-y-3">
+            {payslips.map(payslip => (
+              <div
+                key={payslip.id}
+                className="flex items-center justify-between border rounded-md p-3"
+                data-testid={`payslip-${payslip.month}`}
+              >
+                <div>
+                  <p className="font-medium">{formatMonth(payslip.month)}</p>
+                  <p className="text-sm text-muted-foreground">
+                    Net pay AED {Number(payslip.netSalary || 0).toLocaleString('en-AE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleDownload(payslip)}
+                  disabled={downloadingId === payslip.id}
+                  data-testid={`button-download-payslip-${payslip.month}`}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  {downloadingId === payslip.id ? "Downloading..." : "Download"}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
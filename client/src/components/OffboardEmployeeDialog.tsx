@@ -0,0 +1,145 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Employee } from "@shared/schema";
+
+interface OffboardEmployeeDialogProps {
+  employee: Employee | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function OffboardEmployeeDialog({ employee, open, onOpenChange }: OffboardEmployeeDialogProps) {
+  const { toast } = useToast();
+  const [separationType, setSeparationType] = useState<'RESIGNATION' | 'TERMINATION'>('RESIGNATION');
+  const [noticeDate, setNoticeDate] = useState(new Date().toISOString().slice(0, 10));
+  const [noticePeriodDays, setNoticePeriodDays] = useState(30);
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setSeparationType('RESIGNATION');
+      setNoticeDate(new Date().toISOString().slice(0, 10));
+      setNoticePeriodDays(30);
+      setReason("");
+    }
+  }, [open]);
+
+  const offboardMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/employees/${employee?.id}/offboarding`, {
+        separationType,
+        noticeDate,
+        noticePeriodDays,
+        reason: reason || undefined,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Offboarding Started",
+        description: "Track the checklist and final settlement under Offboarding.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/offboardings"] });
+      // Employee lists are keyed by URL, some with a companySlug query string
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/employees") });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Offboarding Failed",
+        description: error.message || "Could not start offboarding.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Offboard Employee</DialogTitle>
+          <DialogDescription>
+            Record the resignation or termination of <strong>{employee?.personalInfo?.name}</strong>.
+            Their record and history are kept; the login is deactivated when offboarding is completed.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Separation Type</Label>
+            <Select value={separationType} onValueChange={(value) => setSeparationType(value as 'RESIGNATION' | 'TERMINATION')}>
+              <SelectTrigger data-testid="select-separation-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="RESIGNATION">Resignation</SelectItem>
+                <SelectItem value="TERMINATION">Termination by employer</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="notice-date">Notice Date</Label>
+              <Input
+                id="notice-date"
+                type="date"
+                value={noticeDate}
+                onChange={(e) => setNoticeDate(e.target.value)}
+                data-testid="input-notice-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="notice-period">Notice Period (days)</Label>
+              <Input
+                id="notice-period"
+                type="number"
+                min={0}
+                max={90}
+                value={noticePeriodDays}
+                onChange={(e) => setNoticePeriodDays(parseInt(e.target.value) || 0)}
+                data-testid="input-notice-period"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="separation-reason">Reason</Label>
+            <Textarea
+              id="separation-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Optional"
+              data-testid="input-separation-reason"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-offboard">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => offboardMutation.mutate()}
+            disabled={offboardMutation.isPending || !employee || !noticeDate}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            data-testid="button-confirm-offboard"
+          >
+            {offboardMutation.isPending ? "Starting..." : "Start Offboarding"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
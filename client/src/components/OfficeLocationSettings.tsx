@@ -0,0 +1,313 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Building2, Crosshair, Plus, Trash2 } from "lucide-react";
+import type { AttendancePolicySettings, OfficeLocation } from "@shared/schema";
+
+export default function OfficeLocationSettings() {
+  const { toast } = useToast();
+  const [policy, setPolicy] = useState<Required<AttendancePolicySettings>>({
+    officeOutsideFence: 'FLAG',
+    hybridOutsideFence: 'ALLOW',
+  });
+  const [isLocationDialogOpen, setIsLocationDialogOpen] = useState(false);
+  const [locationName, setLocationName] = useState("");
+  const [latitude, setLatitude] = useState("");
+  const [longitude, setLongitude] = useState("");
+  const [radiusMeters, setRadiusMeters] = useState("200");
+
+  const { data: locations = [], isLoading } = useQuery<OfficeLocation[]>({
+    queryKey: ["/api/office-locations"],
+  });
+
+  const { data: savedPolicy } = useQuery<Required<AttendancePolicySettings>>({
+    queryKey: ["/api/attendance-policy"],
+  });
+
+  useEffect(() => {
+    if (savedPolicy) {
+      setPolicy(savedPolicy);
+    }
+  }, [savedPolicy]);
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', '/api/attendance-policy', policy);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Attendance Policy Saved",
+        description: "New check-ins follow the updated geofence rules.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance-policy"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Could not save the attendance policy.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const createLocationMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/office-locations', {
+        name: locationName,
+        latitude: parseFloat(latitude),
+        longitude: parseFloat(longitude),
+        radiusMeters: parseInt(radiusMeters),
+      });
+      return await response.json();
+    },
+    onSuccess: (location: OfficeLocation) => {
+      toast({
+        title: "Office Site Added",
+        description: `Check-ins within ${location.radiusMeters}m of "${location.name}" count as in the office.`,
+      });
+      setIsLocationDialogOpen(false);
+      setLocationName("");
+      setLatitude("");
+      setLongitude("");
+      setRadiusMeters("200");
+      queryClient.invalidateQueries({ queryKey: ["/api/office-locations"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Create Failed",
+        description: error.message || "Could not add the office site.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteLocationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/office-locations/${id}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Office Site Removed",
+        description: "The site no longer counts for check-ins.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/office-locations"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Could not remove the office site.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const fillCurrentPosition = () => {
+    navigator.geolocation?.getCurrentPosition(
+      (position) => {
+        setLatitude(position.coords.latitude.toFixed(6));
+        setLongitude(position.coords.longitude.toFixed(6));
+      },
+      () => toast({
+        title: "Location Unavailable",
+        description: "Allow location access or enter the coordinates manually.",
+        variant: "destructive",
+      })
+    );
+  };
+
+  const handleCreateLocation = () => {
+    if (!locationName.trim() || isNaN(parseFloat(latitude)) || isNaN(parseFloat(longitude)) || !(parseInt(radiusMeters) > 0)) {
+      toast({
+        title: "Invalid Office Site",
+        description: "Enter a name, coordinates and a radius in metres.",
+        variant: "destructive",
+      });
+      return;
+    }
+    createLocationMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Geofence Policy</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Office employees outside every site</Label>
+              <Select
+                value={policy.officeOutsideFence}
+                onValueChange={(value) => setPolicy({ ...policy, officeOutsideFence: value as 'FLAG' | 'REJECT' })}
+              >
+                <SelectTrigger data-testid="select-office-outside-fence">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="FLAG">Allow and flag as exception</SelectItem>
+                  <SelectItem value="REJECT">Reject the check-in</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Hybrid employees outside every site</Label>
+              <Select
+                value={policy.hybridOutsideFence}
+                onValueChange={(value) => setPolicy({ ...policy, hybridOutsideFence: value as 'ALLOW' | 'FLAG' })}
+              >
+                <SelectTrigger data-testid="select-hybrid-outside-fence">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALLOW">Allow</SelectItem>
+                  <SelectItem value="FLAG">Allow and flag as exception</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Remote employees can check in from anywhere. Without office sites no geofence is applied.
+          </p>
+          <Button
+            onClick={() => savePolicyMutation.mutate()}
+            disabled={savePolicyMutation.isPending}
+            data-testid="button-save-attendance-policy"
+          >
+            {savePolicyMutation.isPending ? "Saving..." : "Save Policy"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Office Sites</span>
+            <Button size="sm" onClick={() => setIsLocationDialogOpen(true)} data-testid="button-add-office-location">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Site
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading office sites...</p>
+          ) : locations.length === 0 ? (
+            <div className="text-center py-8">
+              <Building2 className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No office sites defined yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {locations.map(location => (
+                <div
+                  key={location.id}
+                  className="flex items-center justify-between border rounded-md p-3"
+                  data-testid={`row-office-location-${location.id}`}
+                >
+                  <div>
+                    <p className="font-medium">{location.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{location.radiusMeters}m radius</Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={deleteLocationMutation.isPending}
+                      onClick={() => deleteLocationMutation.mutate(location.id)}
+                      data-testid={`button-delete-office-location-${location.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isLocationDialogOpen} onOpenChange={setIsLocationDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Office Site</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="office-name">Name</Label>
+              <Input
+                id="office-name"
+                value={locationName}
+                onChange={(e) => setLocationName(e.target.value)}
+                placeholder="e.g. Dubai Head Office"
+                data-testid="input-office-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="office-latitude">Latitude</Label>
+                <Input
+                  id="office-latitude"
+                  value={latitude}
+                  onChange={(e) => setLatitude(e.target.value)}
+                  placeholder="25.2048"
+                  data-testid="input-office-latitude"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="office-longitude">Longitude</Label>
+                <Input
+                  id="office-longitude"
+                  value={longitude}
+                  onChange={(e) => setLongitude(e.target.value)}
+                  placeholder="55.2708"
+                  data-testid="input-office-longitude"
+                />
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={fillCurrentPosition} data-testid="button-use-current-location">
+              <Crosshair className="w-4 h-4 mr-2" />
+              Use my current location
+            </Button>
+            <div className="space-y-2">
+              <Label htmlFor="office-radius">Radius (metres)</Label>
+              <Input
+                id="office-radius"
+                type="number"
+                min="10"
+                value={radiusMeters}
+                onChange={(e) => setRadiusMeters(e.target.value)}
+                data-testid="input-office-radius"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsLocationDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreateLocation}
+              disabled={createLocationMutation.isPending}
+              data-testid="button-save-office-location"
+            >
+              {createLocationMutation.isPending ? "Saving..." : "Save Site"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
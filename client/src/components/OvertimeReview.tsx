@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Timer, X } from "lucide-react";
+import { formatMinutes } from "@/components/AttendanceCheckIn";
+import type { Employee, OvertimeRecord } from "@shared/schema";
+
+const ALL_STATUSES = "ALL";
+
+interface OvertimeSummaryRow {
+  employeeId: string;
+  approvedRecords: number;
+  pendingRecords: number;
+  regularMinutes: number;
+  nightMinutes: number;
+  restDayMinutes: number;
+  amount: number;
+}
+
+interface OvertimeReviewProps {
+  employees: Employee[];
+  canViewSummary: boolean;
+}
+
+function formatAmount(amount: number | string): string {
+  return `AED ${Number(amount).toLocaleString('en-AE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function getStatusBadge(status: string | null) {
+  switch (status) {
+    case 'APPROVED':
+      return <Badge className="bg-green-100 text-green-800">Approved</Badge>;
+    case 'REJECTED':
+      return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-800">Pending</Badge>;
+  }
+}
+
+export default function OvertimeReview({ employees, canViewSummary }: OvertimeReviewProps) {
+  const { toast } = useToast();
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [status, setStatus] = useState(ALL_STATUSES);
+
+  const getEmployeeName = (employeeId: string) => {
+    const employee = employees.find(emp => emp.id === employeeId);
+    return employee?.personalInfo?.name || employee?.employeeCode || 'Unknown employee';
+  };
+
+  const { data: records = [], isLoading } = useQuery<OvertimeRecord[]>({
+    queryKey: ["/api/overtime", { month, status }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ month, ...(status !== ALL_STATUSES ? { status } : {}) });
+      const response = await apiRequest('GET', `/api/overtime?${params.toString()}`);
+      return await response.json();
+    },
+    enabled: !!month
+  });
+
+  const { data: summary } = useQuery<{ month: string; employees: OvertimeSummaryRow[] }>({
+    queryKey: ["/api/overtime/summary", { month }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/overtime/summary?month=${month}`);
+      return await response.json();
+    },
+    enabled: canViewSummary && !!month
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'approve' | 'reject' }) => {
+      const response = await apiRequest('POST', `/api/overtime/${id}/${action}`, {});
+      return await response.json();
+    },
+    onSuccess: (record: OvertimeRecord) => {
+      toast({
+        title: record.status === 'APPROVED' ? "Overtime Approved" : "Overtime Rejected",
+        description: record.status === 'APPROVED'
+          ? `${formatAmount(record.amount)} will be included in payroll.`
+          : "The overtime will not be paid.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/overtime"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/overtime/summary"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Review Failed",
+        description: error.message || "Could not review the overtime.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const summaryRows = summary?.employees || [];
+  const summaryTotal = summaryRows.reduce((total, row) => total + row.amount, 0);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="overtime-month">Month</Label>
+              <Input
+                id="overtime-month"
+                type="month"
+                value={month}
+                onChange={(e) => setMonth(e.target.value)}
+                data-testid="input-overtime-month"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger className="w-40" data-testid="select-overtime-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_STATUSES}>All</SelectItem>
+                  <SelectItem value="PENDING">Pending</SelectItem>
+                  <SelectItem value="APPROVED">Approved</SelectItem>
+                  <SelectItem value="REJECTED">Rejected</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Overtime Records</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading overtime...</p>
+          ) : records.length === 0 ? (
+            <div className="text-center py-8">
+              <Timer className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No overtime recorded for this month.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {records.map(record => (
+                <div
+                  key={record.id}
+                  className="flex items-center justify-between p-4 border rounded-lg"
+                  data-testid={`overtime-record-${record.id}`}
+                >
+                  <div>
+                    <h3 className="font-medium">{getEmployeeName(record.employeeId)}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {record.date} · worked {formatMinutes(record.workedMinutes)} of {formatMinutes(record.scheduledMinutes)} scheduled
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {!!record.regularMinutes && <span className="mr-3">Regular {formatMinutes(record.regularMinutes)} @125%</span>}
+                      {!!record.nightMinutes && <span className="mr-3">Night {formatMinutes(record.nightMinutes)} @150%</span>}
+                      {!!record.restDayMinutes && <span>Rest day {formatMinutes(record.restDayMinutes)} @150%</span>}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="font-medium">{formatAmount(record.amount)}</span>
+                    {getStatusBadge(record.status)}
+                    {record.status === 'PENDING' && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={reviewMutation.isPending}
+                          onClick={() => reviewMutation.mutate({ id: record.id, action: 'approve' })}
+                          data-testid={`button-approve-overtime-${record.id}`}
+                        >
+                          <Check className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={reviewMutation.isPending}
+                          onClick={() => reviewMutation.mutate({ id: record.id, action: 'reject' })}
+                          data-testid={`button-reject-overtime-${record.id}`}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {canViewSummary && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Payroll Summary</span>
+              <span className="text-base font-normal">{formatAmount(summaryTotal)}</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {summaryRows.length === 0 ? (
+              <p className="text-muted-foreground">No overtime for this month.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2">Employee</th>
+                      <th className="py-2">Regular</th>
+                      <th className="py-2">Night</th>
+                      <th className="py-2">Rest Day</th>
+                      <th className="py-2">Pending</th>
+                      <th className="py-2 text-right">Approved Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summaryRows.map(row => (
+                      <tr key={row.employeeId} className="border-b" data-testid={`overtime-summary-${row.employeeId}`}>
+                        <td className="py-2">{getEmployeeName(row.employeeId)}</td>
+                        <td className="py-2">{formatMinutes(row.regularMinutes)}</td>
+                        <td className="py-2">{formatMinutes(row.nightMinutes)}</td>
+                        <td className="py-2">{formatMinutes(row.restDayMinutes)}</td>
+                        <td className="py-2">{row.pendingRecords}</td>
+                        <td className="py-2 text-right">{formatAmount(row.amount)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
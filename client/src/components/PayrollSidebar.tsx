@@ -1,4 +1,4 @@
-import { Calendar, DollarSign, FileText, Calculator, TrendingUp } from "lucide-react";
+import { Calendar, DollarSign, FileText, Calculator, TrendingUp, Award, ArrowUpRight } from "lucide-react";
 import {
   Sidebar,
   SidebarContent,
@@ -27,6 +27,16 @@ const payrollItems = [
     url: "/payroll/payslips",
     icon: FileText,
   },
+  {
+    title: "Salary Revisions",
+    url: "/payroll/salary-revisions",
+    icon: ArrowUpRight,
+  },
+  {
+    title: "End of Service",
+    url: "/payroll/gratuity",
+    icon: Award,
+  },
   {
     title: "Tax Management",
     url: "/payroll/tax-management",
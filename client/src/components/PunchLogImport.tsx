@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Fingerprint, Upload } from "lucide-react";
+
+interface PunchLogReport {
+  dryRun: boolean;
+  fileName: string;
+  totalLines: number;
+  parsedPunches: number;
+  recordsCreated: number;
+  recordsUpdated: number;
+  invalidLines: { line: number; content: string; reason: string }[];
+  unmatchedCodes: { code: string; punches: number }[];
+  duplicatePunches: { code: string; employeeId: string; date: string; time: string; line: number }[];
+  incompleteDays: { code: string; employeeId: string; date: string }[];
+}
+
+// Multipart upload; apiRequest only sends JSON bodies
+async function uploadPunchLog(file: File, dryRun: boolean): Promise<PunchLogReport> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('dryRun', String(dryRun));
+  const res = await fetch('/api/attendance/import', {
+    method: 'POST',
+    body: formData,
+    credentials: 'include',
+  });
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+  return await res.json();
+}
+
+export default function PunchLogImport() {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<PunchLogReport | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => uploadPunchLog(file!, dryRun),
+    onSuccess: (result: PunchLogReport) => {
+      setReport(result);
+      toast({
+        title: result.dryRun ? "Preview Ready" : "Punch Log Imported",
+        description: `${result.recordsCreated} records ${result.dryRun ? 'to create' : 'created'}, ${result.recordsUpdated} ${result.dryRun ? 'to update' : 'updated'}.`,
+      });
+      if (!result.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ["/api/attendance"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/overtime"] });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Import Failed",
+        description: error.message || "Could not read the punch log.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Biometric Device Import</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="punch-log-file">Punch log (CSV, TXT or ZKTeco attlog)</Label>
+            <Input
+              id="punch-log-file"
+              type="file"
+              accept=".csv,.txt,.dat"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                setReport(null);
+              }}
+              data-testid="input-punch-log-file"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Device user IDs must match employee codes. The first and last punch of each day become the check-in and check-out;
+            scans within two minutes of each other are treated as duplicates.
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              disabled={!file || importMutation.isPending}
+              onClick={() => importMutation.mutate(true)}
+              data-testid="button-preview-punch-log"
+            >
+              Preview
+            </Button>
+            <Button
+              disabled={!file || importMutation.isPending}
+              onClick={() => importMutation.mutate(false)}
+              data-testid="button-import-punch-log"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {importMutation.isPending ? "Processing..." : "Import"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Reconciliation Report{report.dryRun ? ' (Preview)' : ''}</span>
+              <Badge variant="outline">{report.fileName}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Punches read</p>
+                <p className="text-2xl font-bold" data-testid="text-punches-read">{report.parsedPunches} / {report.totalLines}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Records {report.dryRun ? 'to create' : 'created'}</p>
+                <p className="text-2xl font-bold">{report.recordsCreated}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Records {report.dryRun ? 'to update' : 'updated'}</p>
+                <p className="text-2xl font-bold">{report.recordsUpdated}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Unmatched IDs</p>
+                <p className="text-2xl font-bold text-orange-600">{report.unmatchedCodes.length}</p>
+              </div>
+            </div>
+
+            {report.unmatchedCodes.length > 0 && (
+              <div>
+                <h3 className="font-medium mb-2">Unmatched device IDs</h3>
+                <div className="flex flex-wrap gap-2">
+                  {report.unmatchedCodes.map(entry => (
+                    <Badge key={entry.code} variant="outline" data-testid={`unmatched-code-${entry.code}`}>
+                      {entry.code} ({entry.punches} punches)
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {report.duplicatePunches.length > 0 && (
+              <div>
+                <h3 className="font-medium mb-2">Duplicate punches ignored ({report.duplicatePunches.length})</h3>
+                <div className="space-y-1 text-sm text-muted-foreground">
+                  {report.duplicatePunches.slice(0, 50).map(punch => (
+                    <p key={punch.line}>Line {punch.line}: {punch.code} on {punch.date} at {punch.time}</p>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {report.incompleteDays.length > 0 && (
+              <div>
+                <h3 className="font-medium mb-2">Days with a single punch ({report.incompleteDays.length})</h3>
+                <div className="space-y-1 text-sm text-muted-foreground">
+                  {report.incompleteDays.slice(0, 50).map(day => (
+                    <p key={`${day.employeeId}-${day.date}`}>{day.code} on {day.date}</p>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {report.invalidLines.length > 0 && (
+              <div>
+                <h3 className="font-medium mb-2">Unreadable lines ({report.invalidLines.length})</h3>
+                <div className="space-y-1 text-sm text-muted-foreground">
+                  {report.invalidLines.slice(0, 50).map(entry => (
+                    <p key={entry.line}>Line {entry.line}: {entry.reason} — <code>{entry.content}</code></p>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {report.unmatchedCodes.length === 0 && report.duplicatePunches.length === 0 &&
+              report.incompleteDays.length === 0 && report.invalidLines.length === 0 && (
+              <div className="text-center py-4">
+                <Fingerprint className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">Every punch was matched and paired.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
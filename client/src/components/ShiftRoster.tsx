@@ -0,0 +1,378 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ChevronLeft, ChevronRight, Moon, Plus, Trash2 } from "lucide-react";
+import type { Employee, ShiftAssignment, ShiftTemplate } from "@shared/schema";
+
+const REST_DAY = 'REST';
+const UNASSIGNED = 'NONE';
+
+function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// Monday of the week containing the date
+function startOfWeek(date: Date): Date {
+  const monday = new Date(date);
+  monday.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return monday;
+}
+
+interface ShiftRosterProps {
+  employees: Employee[];
+  canManageTemplates: boolean;
+}
+
+export default function ShiftRoster({ employees, canManageTemplates }: ShiftRosterProps) {
+  const { toast } = useToast();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
+  const [templateForm, setTemplateForm] = useState({
+    name: "",
+    startTime: "09:00",
+    endTime: "18:00",
+    gracePeriodMinutes: "15",
+    earlyLeaveGraceMinutes: "0",
+    breakMinutes: "60",
+  });
+
+  const weekDates = Array.from({ length: 7 }, (_, index) => {
+    const date = new Date(weekStart);
+    date.setDate(weekStart.getDate() + index);
+    return toDateKey(date);
+  });
+  const startDate = weekDates[0];
+  const endDate = weekDates[6];
+
+  const { data: templates = [] } = useQuery<ShiftTemplate[]>({
+    queryKey: ["/api/shift-templates"],
+  });
+
+  const { data: assignments = [] } = useQuery<ShiftAssignment[]>({
+    queryKey: ["/api/shift-roster", { startDate, endDate }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/shift-roster?startDate=${startDate}&endDate=${endDate}`);
+      return await response.json();
+    },
+  });
+
+  const createTemplateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/shift-templates', {
+        name: templateForm.name,
+        startTime: templateForm.startTime,
+        endTime: templateForm.endTime,
+        gracePeriodMinutes: parseInt(templateForm.gracePeriodMinutes) || 0,
+        earlyLeaveGraceMinutes: parseInt(templateForm.earlyLeaveGraceMinutes) || 0,
+        breakMinutes: parseInt(templateForm.breakMinutes) || 0,
+      });
+      return await response.json();
+    },
+    onSuccess: (template: ShiftTemplate) => {
+      toast({
+        title: "Shift Created",
+        description: `"${template.name}" can now be rostered.`,
+      });
+      setIsTemplateDialogOpen(false);
+      setTemplateForm({ ...templateForm, name: "" });
+      queryClient.invalidateQueries({ queryKey: ["/api/shift-templates"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Create Failed",
+        description: error.message || "Could not create the shift.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/shift-templates/${id}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Shift Removed",
+        description: "The shift can no longer be rostered.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/shift-templates"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Could not remove the shift.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ employeeId, date, shiftTemplateId }: { employeeId: string; date: string; shiftTemplateId: string | null }) => {
+      const response = await apiRequest('PUT', '/api/shift-roster', {
+        employeeId,
+        assignments: [{ date, shiftTemplateId }],
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shift-roster"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Roster Update Failed",
+        description: error.message || "Could not update the roster.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const getCellValue = (employeeId: string, date: string) => {
+    const assignment = assignments.find(a => a.employeeId === employeeId && a.date === date);
+    if (!assignment) return UNASSIGNED;
+    return assignment.shiftTemplateId || REST_DAY;
+  };
+
+  const shiftWeek = (days: number) => {
+    const next = new Date(weekStart);
+    next.setDate(weekStart.getDate() + days);
+    setWeekStart(next);
+  };
+
+  const handleCreateTemplate = () => {
+    if (!templateForm.name.trim() || !templateForm.startTime || !templateForm.endTime) {
+      toast({
+        title: "Invalid Shift",
+        description: "Enter a name, start time and end time.",
+        variant: "destructive",
+      });
+      return;
+    }
+    createTemplateMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Shift Templates</span>
+            {canManageTemplates && (
+              <Button size="sm" onClick={() => setIsTemplateDialogOpen(true)} data-testid="button-add-shift-template">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Shift
+              </Button>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {templates.length === 0 ? (
+            <p className="text-muted-foreground">No shifts defined yet. Attendance is recorded without late or early-leave checks.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {templates.map(template => (
+                <div key={template.id} className="border rounded-md p-3" data-testid={`card-shift-template-${template.id}`}>
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium flex items-center gap-1">
+                      {template.endTime <= template.startTime && <Moon className="w-4 h-4 text-indigo-500" />}
+                      {template.name}
+                    </p>
+                    {canManageTemplates && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={deleteTemplateMutation.isPending}
+                        onClick={() => deleteTemplateMutation.mutate(template.id)}
+                        data-testid={`button-delete-shift-template-${template.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">{template.startTime} – {template.endTime}</p>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    <Badge variant="outline">Grace {template.gracePeriodMinutes}m</Badge>
+                    <Badge variant="outline">Break {template.breakMinutes}m</Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Weekly Roster</span>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => shiftWeek(-7)} data-testid="button-roster-prev-week">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="text-sm font-normal">{startDate} – {endDate}</span>
+              <Button variant="outline" size="sm" onClick={() => shiftWeek(7)} data-testid="button-roster-next-week">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          {employees.length === 0 ? (
+            <p className="text-muted-foreground">No active employees to roster.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left p-2">Employee</th>
+                  {weekDates.map(date => (
+                    <th key={date} className="text-left p-2 whitespace-nowrap">
+                      {new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' })}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {employees.map(employee => (
+                  <tr key={employee.id} className="border-t" data-testid={`row-roster-${employee.id}`}>
+                    <td className="p-2 whitespace-nowrap">
+                      {employee.personalInfo?.name || employee.employeeCode}
+                    </td>
+                    {weekDates.map(date => (
+                      <td key={date} className="p-1 min-w-[130px]">
+                        <Select
+                          value={getCellValue(employee.id, date)}
+                          onValueChange={(value) => {
+                            if (value === UNASSIGNED) return;
+                            assignMutation.mutate({
+                              employeeId: employee.id,
+                              date,
+                              shiftTemplateId: value === REST_DAY ? null : value,
+                            });
+                          }}
+                        >
+                          <SelectTrigger className="h-8" data-testid={`select-roster-${employee.id}-${date}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNASSIGNED} disabled>Not rostered</SelectItem>
+                            <SelectItem value={REST_DAY}>Rest day</SelectItem>
+                            {templates.map(template => (
+                              <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isTemplateDialogOpen} onOpenChange={setIsTemplateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Shift</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="shift-name">Name</Label>
+              <Input
+                id="shift-name"
+                value={templateForm.name}
+                onChange={(e) => setTemplateForm({ ...templateForm, name: e.target.value })}
+                placeholder="e.g. Morning Shift"
+                data-testid="input-shift-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="shift-start">Start</Label>
+                <Input
+                  id="shift-start"
+                  type="time"
+                  value={templateForm.startTime}
+                  onChange={(e) => setTemplateForm({ ...templateForm, startTime: e.target.value })}
+                  data-testid="input-shift-start"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shift-end">End</Label>
+                <Input
+                  id="shift-end"
+                  type="time"
+                  value={templateForm.endTime}
+                  onChange={(e) => setTemplateForm({ ...templateForm, endTime: e.target.value })}
+                  data-testid="input-shift-end"
+                />
+              </div>
+            </div>
+            {templateForm.endTime && templateForm.endTime <= templateForm.startTime && (
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Moon className="w-3 h-3" />
+                Night shift: ends the following day.
+              </p>
+            )}
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="shift-grace">Late grace (min)</Label>
+                <Input
+                  id="shift-grace"
+                  type="number"
+                  min="0"
+                  value={templateForm.gracePeriodMinutes}
+                  onChange={(e) => setTemplateForm({ ...templateForm, gracePeriodMinutes: e.target.value })}
+                  data-testid="input-shift-grace"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shift-early-grace">Early grace (min)</Label>
+                <Input
+                  id="shift-early-grace"
+                  type="number"
+                  min="0"
+                  value={templateForm.earlyLeaveGraceMinutes}
+                  onChange={(e) => setTemplateForm({ ...templateForm, earlyLeaveGraceMinutes: e.target.value })}
+                  data-testid="input-shift-early-grace"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shift-break">Break (min)</Label>
+                <Input
+                  id="shift-break"
+                  type="number"
+                  min="0"
+                  value={templateForm.breakMinutes}
+                  onChange={(e) => setTemplateForm({ ...templateForm, breakMinutes: e.target.value })}
+                  data-testid="input-shift-break"
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsTemplateDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreateTemplate}
+              disabled={createTemplateMutation.isPending}
+              data-testid="button-save-shift-template"
+            >
+              {createTemplateMutation.isPending ? "Saving..." : "Save Shift"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, CheckCircle, Download } from "lucide-react";
+import type { PayrollRun, WpsSettings } from "@shared/schema";
+
+interface WpsValidationResult {
+  valid: boolean;
+  companyErrors: string[];
+  employeeErrors: { employeeId: string; employeeCode: string | null; name: string; errors: string[] }[];
+}
+
+interface WpsExportProps {
+  run: PayrollRun;
+}
+
+export default function WpsExport({ run }: WpsExportProps) {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<WpsSettings>({
+    molEstablishmentId: "",
+    employerBankRoutingCode: "",
+    employerReference: "",
+  });
+  const [isDownloading, setIsDownloading] = useState(false);
+  const canExport = run.status === 'APPROVED' || run.status === 'PAID';
+
+  const { data: savedSettings } = useQuery<WpsSettings>({
+    queryKey: ["/api/wps-settings"],
+  });
+
+  useEffect(() => {
+    if (savedSettings) {
+      setSettings(savedSettings);
+    }
+  }, [savedSettings]);
+
+  const { data: validation } = useQuery<WpsValidationResult>({
+    queryKey: ["/api/payroll-runs", run.id, "wps-validation"],
+    enabled: canExport
+  });
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', '/api/wps-settings', settings);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "WPS Settings Saved",
+        description: "New SIF files use the updated employer details.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/wps-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payroll-runs"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Could not save the WPS settings.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // The SIF comes back as a file, so it is downloaded outside apiRequest
+  const downloadSif = async () => {
+    setIsDownloading(true);
+    try {
+      const res = await fetch(`/api/payroll-runs/${run.id}/sif`, { credentials: 'include' });
+      if (!res.ok) {
+        const text = (await res.text()) || res.statusText;
+        throw new Error(`${res.status}: ${text}`);
+      }
+      const fileName = res.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `${run.month}.SIF`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: "Export Failed",
+        description: error.message || "Could not generate the SIF file.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>WPS Salary Information File</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="mol-establishment-id">MOL Establishment ID</Label>
+            <Input
+              id="mol-establishment-id"
+              value={settings.molEstablishmentId || ""}
+              onChange={(e) => setSettings({ ...settings, molEstablishmentId: e.target.value })}
+              placeholder="13 digits"
+              data-testid="input-mol-establishment-id"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="employer-routing-code">Employer Bank Routing Code</Label>
+            <Input
+              id="employer-routing-code"
+              value={settings.employerBankRoutingCode || ""}
+              onChange={(e) => setSettings({ ...settings, employerBankRoutingCode: e.target.value })}
+              placeholder="9 digits"
+              data-testid="input-employer-routing-code"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="employer-reference">Employer Reference</Label>
+            <Input
+              id="employer-reference"
+              value={settings.employerReference || ""}
+              onChange={(e) => setSettings({ ...settings, employerReference: e.target.value })}
+              placeholder="Optional"
+              data-testid="input-employer-reference"
+            />
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => saveSettingsMutation.mutate()}
+          disabled={saveSettingsMutation.isPending}
+          data-testid="button-save-wps-settings"
+        >
+          {saveSettingsMutation.isPending ? "Saving..." : "Save Employer Details"}
+        </Button>
+
+        {!canExport ? (
+          <p className="text-sm text-muted-foreground">The SIF file can be exported once this payroll run is approved.</p>
+        ) : validation && !validation.valid ? (
+          <div className="space-y-3" data-testid="wps-validation-errors">
+            {validation.companyErrors.map(error => (
+              <p key={error} className="text-sm text-red-600 flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" />
+                {error}
+              </p>
+            ))}
+            {validation.employeeErrors.map(entry => (
+              <div key={entry.employeeId} className="border rounded-md p-3">
+                <p className="font-medium">{entry.name}{entry.employeeCode ? ` (${entry.employeeCode})` : ''}</p>
+                {entry.errors.map(error => (
+                  <p key={error} className="text-sm text-red-600">• {error}</p>
+                ))}
+              </div>
+            ))}
+          </div>
+        ) : validation?.valid ? (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-green-600 flex items-center gap-2">
+              <CheckCircle className="w-4 h-4" />
+              All employees pass WPS validation.
+            </p>
+            <Button onClick={downloadSif} disabled={isDownloading} data-testid="button-download-sif">
+              <Download className="w-4 h-4 mr-2" />
+              {isDownloading ? "Generating..." : "Download SIF"}
+            </Button>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,10 +4,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Upload, FileText, X, Download, Trash2 } from "lucide-react";
+import { Upload, FileText, X, Download, Trash2, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { queryClient } from "@/lib/queryClient";
+import { getApprovalStatusBadge } from "@/components/DocumentReviewQueue";
 
 interface DocumentManagementProps {
   employeeId: string;
@@ -31,6 +32,7 @@ export default function DocumentManagement({ employeeId, companySlug }: Document
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
   const [selectedDocumentType, setSelectedDocumentType] = useState<string>("");
+  const [historyDocumentId, setHistoryDocumentId] = useState<string | null>(null);
 
   // Fetch employee documents
   const { data: employeeDocuments = [], isLoading } = useQuery({
@@ -39,6 +41,14 @@ export default function DocumentManagement({ employeeId, companySlug }: Document
     enabled: !!employeeId
   });
 
+  // Earlier uploads of a type stay on file as superseded versions
+  const currentDocuments = employeeDocuments.filter((doc: any) => doc.status !== 'SUPERSEDED');
+
+  const { data: versions = [], isLoading: versionsLoading } = useQuery<any[]>({
+    queryKey: ["/api/employee-documents", historyDocumentId, "versions"],
+    enabled: !!historyDocumentId
+  });
+
   // Delete document mutation
   const deleteMutation = useMutation({
     mutationFn: async (documentId: string) => {
@@ -49,7 +59,7 @@ export default function DocumentManagement({ employeeId, companySlug }: Document
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/employee-documents", employeeId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/employee-documents"] });
       toast({
         title: "Document deleted",
         description: "Document has been successfully deleted"
@@ -160,12 +170,15 @@ export default function DocumentManagement({ employeeId, companySlug }: Document
 
       setUploadProgress(100);
 
-      // Refresh the documents list
-      queryClient.invalidateQueries({ queryKey: ["/api/employee-documents", employeeId] });
+      // Refresh the documents list and version histories
+      queryClient.invalidateQueries({ queryKey: ["/api/employee-documents"] });
 
+      const uploaded = await completeResponse.json();
       toast({
         title: "Upload successful",
-        description: `${file.name} uploaded successfully`
+        description: uploaded.version > 1
+          ? `${file.name} uploaded as version ${uploaded.version}; the previous version is kept in the history`
+          : `${file.name} uploaded successfully`
       });
 
       // Reset the form
@@ -306,10 +319,10 @@ export default function DocumentManagement({ employeeId, companySlug }: Document
       {/* Existing Documents Section */}
       <Card>
         <CardHeader>
-          <CardTitle>Uploaded Documents ({employeeDocuments.length})</CardTitle>
+          <CardTitle>Uploaded Documents ({currentDocuments.length})</CardTitle>
         </CardHeader>
         <CardContent>
-          {employeeDocuments.length === 0 ? (
+          {currentDocuments.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               <FileText className="w-12 h-12 mx-auto mb-4 opacity-50" />
               <p>No documents uploaded yet</p>
@@ -317,44 +330,96 @@ export default function DocumentManagement({ employeeId, companySlug }: Document
             </div>
           ) : (
             <div className="space-y-3">
-              {employeeDocuments.map((doc: any) => (
-                <div key={doc.id} className="flex items-center justify-between p-3 border rounded-lg">
-                  <div className="flex items-center space-x-3 flex-1">
-                    <FileText className="w-5 h-5 text-muted-foreground" />
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium truncate" data-testid={`text-document-name-${doc.id}`}>
-                        {doc.fileName}
-                      </p>
-                      <div className="flex items-center space-x-2 text-xs text-muted-foreground">
-                        <span>{getDocumentTypeLabel(doc.documentType)}</span>
-                        <span>•</span>
-                        <span>{formatFileSize(doc.fileSize)}</span>
-                        <span>•</span>
-                        <span>Uploaded {formatDate(doc.uploadDate)}</span>
+              {currentDocuments.map((doc: any) => (
+                <div key={doc.id} className="p-3 border rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3 flex-1">
+                      <FileText className="w-5 h-5 text-muted-foreground" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate" data-testid={`text-document-name-${doc.id}`}>
+                          {doc.fileName}
+                        </p>
+                        <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                          <span>{getDocumentTypeLabel(doc.documentType)}</span>
+                          <span>•</span>
+                          <span>Version {doc.version ?? 1}</span>
+                          <span>•</span>
+                          <span>{formatFileSize(doc.fileSize)}</span>
+                          <span>•</span>
+                          <span>Uploaded {formatDate(doc.uploadDate)}</span>
+                        </div>
+                        {doc.approvalStatus !== 'PENDING' && doc.comments && (
+                          <p className="text-xs text-muted-foreground mt-1" data-testid={`text-document-review-comments-${doc.id}`}>
+                            {doc.comments}
+                          </p>
+                        )}
                       </div>
                     </div>
+                    <div className="flex items-center space-x-2">
+                      {getApprovalStatusBadge(doc.approvalStatus)}
+                      {(doc.version ?? 1) > 1 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setHistoryDocumentId(historyDocumentId === doc.id ? null : doc.id)}
+                          data-testid={`button-document-history-${doc.id}`}
+                        >
+                          <History className="w-4 h-4 mr-1" />
+                          History
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => window.open(`/api/files/${doc.id}`, '_blank')}
+                        data-testid={`button-view-document-${doc.id}`}
+                      >
+                        <Download className="w-4 h-4 mr-1" />
+                        View
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDeleteDocument(doc.id, doc.fileName)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-document-${doc.id}`}
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Delete
+                      </Button>
+                    </div>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => window.open(doc.fileUrl, '_blank')}
-                      data-testid={`button-view-document-${doc.id}`}
-                    >
-                      <Download className="w-4 h-4 mr-1" />
-                      View
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleDeleteDocument(doc.id, doc.fileName)}
-                      disabled={deleteMutation.isPending}
-                      data-testid={`button-delete-document-${doc.id}`}
-                    >
-                      <Trash2 className="w-4 h-4 mr-1" />
-                      Delete
-                    </Button>
-                  </div>
+                  {historyDocumentId === doc.id && (
+                    <div className="mt-3 border-t pt-3" data-testid={`list-document-versions-${doc.id}`}>
+                      {versionsLoading ? (
+                        <p className="text-xs text-muted-foreground">Loading version history...</p>
+                      ) : (
+                        <ul className="space-y-2">
+                          {versions.map((version: any) => (
+                            <li key={version.id} className="flex items-center justify-between text-xs">
+                              <div className="min-w-0">
+                                <p className="font-medium truncate">
+                                  Version {version.version ?? 1} · {version.fileName}
+                                </p>
+                                <p className="text-muted-foreground">
+                                  Uploaded {formatDate(version.uploadDate)} by {version.uploadedByName || 'unknown user'}
+                                  {version.status === 'SUPERSEDED' && ` · superseded ${formatDate(version.updatedAt)}`}
+                                </p>
+                              </div>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => window.open(`/api/files/${version.id}`, '_blank')}
+                                data-testid={`button-download-version-${version.id}`}
+                              >
+                                <Download className="w-4 h-4" />
+                              </Button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
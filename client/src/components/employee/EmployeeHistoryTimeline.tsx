@@ -0,0 +1,109 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History } from "lucide-react";
+import type { EmployeeHistoryEntry } from "@shared/schema";
+
+type TimelineEntry = EmployeeHistoryEntry & { changedByName: string | null };
+
+interface EmployeeHistoryTimelineProps {
+  employeeId: string;
+}
+
+// Readable labels for the top-level profile sections
+const SECTION_LABELS: Record<string, string> = {
+  personalInfo: "Personal",
+  contactInfo: "Contact",
+  employmentDetails: "Employment",
+  compensation: "Compensation",
+  probationInfo: "Probation",
+  visaInfo: "Visa",
+  emiratesIdInfo: "Emirates ID",
+  passportInfo: "Passport",
+  workPermitInfo: "Work Permit",
+  laborCardInfo: "Labour Card",
+  employeeCode: "Employee ID",
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  PROFILE_UPDATE: "Profile edit",
+  SALARY_REVISION: "Salary revision",
+  JOB_EVENT: "Job change",
+  POSITION_UPDATE: "Position update",
+};
+
+function formatFieldPath(fieldPath: string): string {
+  const [section, ...rest] = fieldPath.split('.');
+  const words = rest.map(part => part.replace(/([A-Z])/g, ' $1').replace(/^./, char => char.toUpperCase()));
+  return [SECTION_LABELS[section] || section, ...words].join(' › ');
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Entries saved in the same request share a timestamp and are shown as one change set
+function groupByChange(entries: TimelineEntry[]): TimelineEntry[][] {
+  const groups: TimelineEntry[][] = [];
+  for (const entry of entries) {
+    const last = groups[groups.length - 1];
+    if (last && String(last[0].changedAt) === String(entry.changedAt) && last[0].changedBy === entry.changedBy) {
+      last.push(entry);
+    } else {
+      groups.push([entry]);
+    }
+  }
+  return groups;
+}
+
+export default function EmployeeHistoryTimeline({ employeeId }: EmployeeHistoryTimelineProps) {
+  const { data: history = [], isLoading } = useQuery<TimelineEntry[]>({
+    queryKey: ["/api/employees", employeeId, "history"],
+    enabled: !!employeeId
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Change History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes have been recorded for this employee yet.</p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-6">
+            {groupByChange(history).map(group => (
+              <li key={group[0].id} className="ml-4" data-testid={`history-group-${group[0].id}`}>
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">{group[0].changedByName || 'System'}</span>
+                  <span className="text-muted-foreground">
+                    {group[0].changedAt ? new Date(group[0].changedAt).toLocaleString() : ''}
+                  </span>
+                  <Badge variant="outline">{SOURCE_LABELS[group[0].source || ''] || group[0].source}</Badge>
+                </div>
+                <ul className="mt-2 space-y-1 text-sm">
+                  {group.map(entry => (
+                    <li key={entry.id}>
+                      <span className="text-muted-foreground">{formatFieldPath(entry.fieldPath)}:</span>{' '}
+                      <span className="line-through text-muted-foreground">{formatValue(entry.oldValue)}</span>
+                      {' → '}
+                      <span>{formatValue(entry.newValue)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
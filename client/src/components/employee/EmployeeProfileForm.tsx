@@ -7,7 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
-import { CalendarIcon, Upload, User, Briefcase, CreditCard, ChevronLeft, ChevronRight, FileText, Users, Phone, Globe, ChevronsUpDown, Check, CalendarDays, RefreshCw } from "lucide-react";
+import { CalendarIcon, Upload, User, Briefcase, CreditCard, ChevronLeft, ChevronRight, FileText, Users, Phone, Globe, ChevronsUpDown, Check, CalendarDays, RefreshCw, AlertTriangle, ScanLine } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
@@ -17,6 +17,7 @@ import { Textarea } from "@/components/ui/textarea";
 import DocumentUpload from "./DocumentUpload";
 import { DateInput } from "@/components/ui/date-input";
 import { insertEmployeeSchema, type InsertEmployee } from "@shared/schema";
+import { parsePassportMrz, parseEmiratesIdNumber } from "@/lib/documentParsing";
 
 // Enhanced Date of Birth Field Component
 const DateOfBirthField = ({ value, onChange, error }: { value?: string, onChange: (value: string) => void, error?: string }) => {
@@ -248,12 +249,121 @@ const enhancedEmployeeSchema = z.object({
       bankName: z.string().min(1, "Bank name is required"),
       accountNumber: z.string().min(8, "Account number must be at least 8 digits"),
       iban: z.string().regex(/^AE[0-9]{21}$/, "IBAN must be in UAE format (AE + 21 digits)"),
+      routingCode: z.string().regex(/^[0-9]{9}$/, "Routing code must be 9 digits").or(z.literal("")).optional(),
     }),
   }),
 });
 
 type EnhancedEmployeeFormData = z.infer<typeof enhancedEmployeeSchema>;
 
+// A form field a passport MRZ can fill, with the value read from the passport
+type PassportAutofillField = {
+  path: "personalInfo.firstName" | "personalInfo.lastName" | "personalInfo.dob" | "personalInfo.nationality"
+    | "documents.passportInfo.number" | "documents.passportInfo.nationality" | "documents.passportInfo.expiryDate";
+  label: string;
+  value: string;
+};
+
+type PassportAutofillResult = {
+  filled: string[];
+  mismatches: Array<PassportAutofillField & { current: string }>;
+};
+
+// MRZ names are upper case
+const toNameCase = (value: string) => value.toLowerCase().replace(/\b\w/g, char => char.toUpperCase());
+
+const toDate = (value?: string): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+// Form values for an existing employee, so editing starts from what is stored
+const employeeToFormValues = (employee: any) => {
+  const [firstName = "", ...lastNameParts] = (employee.personalInfo?.name || "").split(" ");
+  const documentUrl = (url?: string) => url || "";
+  return {
+    personalInfo: {
+      firstName,
+      lastName: lastNameParts.join(" "),
+      fatherName: employee.personalInfo?.fatherName || "",
+      motherName: employee.personalInfo?.motherName || "",
+      dob: employee.personalInfo?.dob ? employee.personalInfo.dob.slice(0, 10) : "",
+      nationality: employee.personalInfo?.nationality || "",
+      religion: employee.personalInfo?.religion || "",
+      maritalStatus: employee.personalInfo?.maritalStatus || "single",
+      profilePhotoUrl: employee.personalInfo?.profilePhotoUrl || "",
+    },
+    contactInfo: {
+      personalEmail: employee.contactInfo?.personalEmail || undefined,
+      companyEmail: employee.contactInfo?.companyEmail || undefined,
+      uaePhone: employee.contactInfo?.uaePhone || "",
+      homeCountryPhone: employee.contactInfo?.homeCountryPhone || "",
+      uaeAddress: employee.contactInfo?.uaeAddress?.street || "",
+      homeCountryAddress: employee.contactInfo?.homeCountryAddress?.street || "",
+    },
+    employmentDetails: {
+      position: employee.employmentDetails?.position || "",
+      startDate: toDate(employee.employmentDetails?.startDate) || new Date(),
+      departmentId: employee.employmentDetails?.departmentId || "",
+      reportingManagerId: employee.employmentDetails?.reportingManagerId || "",
+      employmentStatus: employee.employmentDetails?.employmentStatus || "probation",
+      probationMonths: employee.employmentDetails?.probationMonths || 6,
+      probationEndDate: toDate(employee.employmentDetails?.probationEndDate),
+      contractType: employee.employmentDetails?.contractType || "permanent",
+      workLocation: employee.employmentDetails?.workLocation || "office",
+    },
+    documents: {
+      passportInfo: {
+        number: employee.passportInfo?.number || "",
+        nationality: employee.passportInfo?.nationality || "",
+        expiryDate: toDate(employee.passportInfo?.expiryDate),
+        placeOfIssue: employee.passportInfo?.placeOfIssue || "",
+        documentUrl: documentUrl(employee.passportInfo?.documents?.biodataPageUrl),
+      },
+      visaInfo: {
+        type: employee.visaInfo?.type || "",
+        number: employee.visaInfo?.number || "",
+        expiryDate: toDate(employee.visaInfo?.expiryDate),
+        sponsor: employee.visaInfo?.sponsor || "",
+        documentUrl: documentUrl(employee.visaInfo?.documents?.visaPageUrl),
+      },
+      emiratesIdInfo: {
+        idNumber: employee.emiratesIdInfo?.idNumber || "",
+        expiryDate: toDate(employee.emiratesIdInfo?.expiryDate),
+        documentUrl: documentUrl(employee.emiratesIdInfo?.documents?.frontUrl),
+      },
+      workPermitInfo: {
+        number: employee.workPermitInfo?.number || "",
+        expiryDate: toDate(employee.workPermitInfo?.expiryDate),
+        restrictions: employee.workPermitInfo?.restrictions || "",
+        documentUrl: documentUrl(employee.workPermitInfo?.documents?.workPermitUrl),
+      },
+      laborCardInfo: {
+        number: employee.laborCardInfo?.number || "",
+        expiryDate: toDate(employee.laborCardInfo?.expiryDate),
+        profession: employee.laborCardInfo?.profession || "",
+        documentUrl: documentUrl(employee.laborCardInfo?.documents?.laborCardUrl),
+      },
+    },
+    compensation: {
+      basicSalary: employee.compensation?.basicSalary || 0,
+      housingAllowance: employee.compensation?.housingAllowance || 0,
+      transportAllowance: employee.compensation?.transportAllowance || 0,
+      otherAllowance: employee.compensation?.otherAllowance || 0,
+      totalSalary: employee.compensation?.totalSalary || 0,
+      annualFlightAllowance: false,
+      medicalInsurance: "basic" as const,
+      bankDetails: {
+        bankName: employee.compensation?.bankDetails?.bankName || "",
+        accountNumber: employee.compensation?.bankDetails?.accountNumber || "",
+        iban: employee.compensation?.bankDetails?.iban || "",
+        routingCode: employee.compensation?.bankDetails?.routingCode || "",
+      },
+    },
+  };
+};
+
 interface EmployeeProfileFormProps {
   employee?: any;
   departments: Array<{ id: string; name: string }>;
@@ -279,11 +389,20 @@ export default function EmployeeProfileForm({
   const [isEmployeeIdLoading, setIsEmployeeIdLoading] = useState(false);
   const [employeeIdError, setEmployeeIdError] = useState("");
   const [documentUploads, setDocumentUploads] = useState<{[key: string]: string}>({});
+  const [passportMrz, setPassportMrz] = useState("");
+  const [passportMrzError, setPassportMrzError] = useState("");
+  const [passportAutofill, setPassportAutofill] = useState<PassportAutofillResult | null>(null);
+  const [emiratesIdError, setEmiratesIdError] = useState("");
+  const [emiratesIdWarning, setEmiratesIdWarning] = useState("");
 
   const totalSteps = 5;
+  const isEditing = !!employee;
 
   // Auto-generate Employee ID on component mount using smart API
   useEffect(() => {
+    // Existing employees keep their ID
+    if (isEditing) return;
+
     const generateSmartEmployeeId = async () => {
       setIsEmployeeIdLoading(true);
       try {
@@ -410,11 +529,21 @@ export default function EmployeeProfileForm({
           bankName: "emirates-nbd", // Set default bank
           accountNumber: "12345678901234", // Set minimum valid account number
           iban: "AE123456789012345678901", // Set valid UAE IBAN format
+          routingCode: "",
         },
       },
     }
   });
 
+  // Start from the stored profile when editing
+  useEffect(() => {
+    if (employee) {
+      form.reset(employeeToFormValues(employee));
+      setEmployeeId(employee.employeeCode || "");
+      setProfilePhoto(employee.personalInfo?.profilePhotoUrl || null);
+    }
+  }, [employee]);
+
 
   const steps = [
     {
@@ -605,6 +734,80 @@ export default function EmployeeProfileForm({
     }
   };
 
+  const setPassportAutofillValue = ({ path, value }: PassportAutofillField) => {
+    if (path === "documents.passportInfo.expiryDate") {
+      form.setValue(path, new Date(`${value}T00:00:00`), { shouldDirty: true });
+    } else {
+      form.setValue(path, value, { shouldDirty: true });
+    }
+  };
+
+  // Fill empty fields from the passport MRZ; fields that already hold something else are flagged instead
+  const handleReadPassportMrz = () => {
+    const result = parsePassportMrz(passportMrz);
+    if (!result.ok) {
+      setPassportMrzError(result.error);
+      setPassportAutofill(null);
+      return;
+    }
+    setPassportMrzError("");
+
+    const mrz = result.value;
+    const fields: PassportAutofillField[] = [
+      { path: "personalInfo.firstName", label: "First name", value: toNameCase(mrz.givenNames) },
+      { path: "personalInfo.lastName", label: "Last name", value: toNameCase(mrz.surname) },
+      { path: "personalInfo.dob", label: "Date of birth", value: mrz.dob },
+      { path: "documents.passportInfo.number", label: "Passport number", value: mrz.documentNumber },
+      { path: "documents.passportInfo.nationality", label: "Passport nationality", value: mrz.nationality },
+      { path: "documents.passportInfo.expiryDate", label: "Passport expiry date", value: mrz.expiryDate },
+    ];
+    if (countries.includes(mrz.nationality)) {
+      fields.push({ path: "personalInfo.nationality", label: "Nationality", value: mrz.nationality });
+    }
+
+    const autofill: PassportAutofillResult = { filled: [], mismatches: [] };
+    for (const field of fields.filter(field => field.value)) {
+      const currentValue = form.getValues(field.path);
+      const current = currentValue instanceof Date ? format(currentValue, "yyyy-MM-dd") : (currentValue || "").trim();
+      if (!current) {
+        setPassportAutofillValue(field);
+        autofill.filled.push(field.label);
+      } else if (current.toLowerCase() !== field.value.toLowerCase()) {
+        autofill.mismatches.push({ ...field, current });
+      }
+    }
+    setPassportAutofill(autofill);
+  };
+
+  const handleUsePassportValue = (field: PassportAutofillField) => {
+    setPassportAutofillValue(field);
+    setPassportAutofill(prev => prev && {
+      filled: [...prev.filled, field.label],
+      mismatches: prev.mismatches.filter(mismatch => mismatch.path !== field.path),
+    });
+  };
+
+  // Normalise a valid Emirates ID number and compare its year of birth with the date of birth entered
+  const handleEmiratesIdBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    setEmiratesIdWarning("");
+    if (!e.target.value.trim()) {
+      setEmiratesIdError("");
+      return;
+    }
+    const result = parseEmiratesIdNumber(e.target.value);
+    if (!result.ok) {
+      setEmiratesIdError(result.error);
+      return;
+    }
+    setEmiratesIdError("");
+    form.setValue("documents.emiratesIdInfo.idNumber", result.value.idNumber);
+
+    const dob = form.getValues("personalInfo.dob");
+    if (dob && Number(dob.slice(0, 4)) !== result.value.birthYear) {
+      setEmiratesIdWarning(`The ID number gives ${result.value.birthYear} as the year of birth, but the date of birth entered is ${dob}.`);
+    }
+  };
+
   const handleManualDateChange = (value: string) => {
     setManualDateInput(value);
     
@@ -638,15 +841,15 @@ export default function EmployeeProfileForm({
     return {
       companyId: "",
       employeeCode: employeeId,
-      slug: `${data.personalInfo.firstName?.toLowerCase().replace(/\s+/g, '-') || 'employee'}-${data.personalInfo.lastName?.toLowerCase().replace(/\s+/g, '-') || 'user'}-${Date.now()}`.replace(/[^a-z0-9-]/g, ''),
+      slug: employee?.slug || `${data.personalInfo.firstName?.toLowerCase().replace(/\s+/g, '-') || 'employee'}-${data.personalInfo.lastName?.toLowerCase().replace(/\s+/g, '-') || 'user'}-${Date.now()}`.replace(/[^a-z0-9-]/g, ''),
       personalInfo: {
         name: `${data.personalInfo.firstName} ${data.personalInfo.lastName}`,
-        preferredName: "",
+        preferredName: employee?.personalInfo?.preferredName || "",
         fatherName: data.personalInfo.fatherName || "",
         motherName: data.personalInfo.motherName || "",
         dob: data.personalInfo.dob ? toISOString(data.personalInfo.dob) : new Date().toISOString(),
         nationality: data.personalInfo.nationality || "",
-        languages: ["English"],
+        languages: employee?.personalInfo?.languages || ["English"],
         religion: data.personalInfo.religion || "",
         maritalStatus: data.personalInfo.maritalStatus || "single",
         profilePhotoUrl: profilePhoto || "",
@@ -654,7 +857,7 @@ export default function EmployeeProfileForm({
           const dateObj = typeof data.personalInfo.dob === 'string' ? new Date(data.personalInfo.dob) : data.personalInfo.dob;
           return new Date().getFullYear() - dateObj.getFullYear();
         })() : 0,
-        emergencyContact: {
+        emergencyContact: employee?.personalInfo?.emergencyContact || {
           name: "",
           relation: "",
           phone: "",
@@ -667,17 +870,19 @@ export default function EmployeeProfileForm({
         uaePhone: data.contactInfo.uaePhone || "",
         homeCountryPhone: data.contactInfo.homeCountryPhone || "",
         uaeAddress: {
-          street: data.contactInfo.uaeAddress || "",
           city: "",
           emirate: "",
-          poBox: ""
+          poBox: "",
+          ...employee?.contactInfo?.uaeAddress,
+          street: data.contactInfo.uaeAddress || "",
         },
         homeCountryAddress: {
-          street: data.contactInfo.homeCountryAddress || "",
           city: "",
           state: "",
           country: "",
-          postalCode: ""
+          postalCode: "",
+          ...employee?.contactInfo?.homeCountryAddress,
+          street: data.contactInfo.homeCountryAddress || "",
         }
       },
       employmentDetails: {
@@ -686,11 +891,12 @@ export default function EmployeeProfileForm({
         reportingManagerId: data.employmentDetails.reportingManagerId || "",
         startDate: toISOString(data.employmentDetails.startDate),
         employmentStatus: data.employmentDetails.employmentStatus || "probation",
-        employmentType: "full-time",
+        employmentType: employee?.employmentDetails?.employmentType || "full-time",
+        contractType: data.employmentDetails.contractType || "permanent",
         workLocation: data.employmentDetails.workLocation || "office",
         probationMonths: data.employmentDetails.probationMonths || 6,
         probationEndDate: toISOString(data.employmentDetails.probationEndDate),
-        tenure: "0"
+        tenure: employee?.employmentDetails?.tenure || "0"
       },
       compensation: {
         basicSalary: data.compensation.basicSalary || 0,
@@ -700,22 +906,22 @@ export default function EmployeeProfileForm({
         totalSalary: data.compensation.totalSalary || 0,
         benefits: {
           medicalInsurance: data.compensation.medicalInsurance === "basic" || data.compensation.medicalInsurance === "comprehensive" || data.compensation.medicalInsurance === "family",
-          lifeInsurance: false
+          lifeInsurance: employee?.compensation?.benefits?.lifeInsurance || false
         },
         bankDetails: {
           bankName: data.compensation.bankDetails?.bankName || "",
           accountNumber: data.compensation.bankDetails?.accountNumber || "",
-          iban: data.compensation.bankDetails?.iban || ""
-        },
-        endOfServiceGratuity: 0
+          iban: data.compensation.bankDetails?.iban || "",
+          routingCode: data.compensation.bankDetails?.routingCode || undefined
+        }
       },
       emiratesIdInfo: {
         idNumber: data.documents.emiratesIdInfo?.idNumber || "",
         expiryDate: toISOString(data.documents.emiratesIdInfo?.expiryDate),
-        status: "pending_renewal",
+        status: employee?.emiratesIdInfo?.status || "pending_renewal",
         documents: {
           frontUrl: data.documents.emiratesIdInfo?.documentUrl || "",
-          backUrl: ""
+          backUrl: employee?.emiratesIdInfo?.documents?.backUrl || ""
         }
       },
       visaInfo: {
@@ -723,10 +929,10 @@ export default function EmployeeProfileForm({
         number: data.documents.visaInfo?.number || "",
         expiryDate: toISOString(data.documents.visaInfo?.expiryDate),
         sponsor: data.documents.visaInfo?.sponsor || "",
-        status: "pending_renewal",
+        status: employee?.visaInfo?.status || "pending_renewal",
         documents: {
           visaPageUrl: data.documents.visaInfo?.documentUrl || "",
-          entryStampUrl: ""
+          entryStampUrl: employee?.visaInfo?.documents?.entryStampUrl || ""
         }
       },
       passportInfo: {
@@ -736,7 +942,7 @@ export default function EmployeeProfileForm({
         placeOfIssue: data.documents.passportInfo?.placeOfIssue || "",
         documents: {
           biodataPageUrl: data.documents.passportInfo?.documentUrl || "",
-          visaPagesUrls: []
+          visaPagesUrls: employee?.passportInfo?.documents?.visaPagesUrls || []
         }
       },
       workPermitInfo: {
@@ -1339,6 +1545,66 @@ export default function EmployeeProfileForm({
                   <FileText className="h-5 w-5" />
                   Passport Information
                 </h3>
+                <div className="space-y-2">
+                  <Label htmlFor="passportMrz">Machine-Readable Zone</Label>
+                  <Textarea
+                    id="passportMrz"
+                    value={passportMrz}
+                    onChange={(e) => setPassportMrz(e.target.value)}
+                    placeholder={"P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<\nL898902C36UTO7408122F1204159ZE184226B<<<<<10"}
+                    className="font-mono text-xs"
+                    rows={2}
+                    data-testid="input-passport-mrz"
+                  />
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-xs text-muted-foreground">
+                      Type or paste the two lines at the bottom of the photo page to fill in the passport and personal details
+                    </p>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={handleReadPassportMrz}
+                      disabled={!passportMrz.trim()}
+                      data-testid="button-read-passport-mrz"
+                    >
+                      <ScanLine className="mr-2 h-4 w-4" />
+                      Read MRZ
+                    </Button>
+                  </div>
+                  {passportMrzError && (
+                    <p className="text-sm text-destructive" data-testid="text-passport-mrz-error">{passportMrzError}</p>
+                  )}
+                  {passportAutofill && (
+                    <div className="rounded-md border p-3 space-y-2 text-sm" data-testid="passport-autofill-result">
+                      {passportAutofill.filled.length > 0 && (
+                        <p className="text-muted-foreground">Filled from the passport: {passportAutofill.filled.join(", ")}</p>
+                      )}
+                      {passportAutofill.mismatches.length > 0 ? (
+                        <>
+                          <p className="flex items-center gap-2 font-medium text-amber-700">
+                            <AlertTriangle className="h-4 w-4" />
+                            These details differ from the passport
+                          </p>
+                          <ul className="space-y-2">
+                            {passportAutofill.mismatches.map(mismatch => (
+                              <li key={mismatch.path} className="flex items-center justify-between gap-4" data-testid={`passport-mismatch-${mismatch.path}`}>
+                                <span>
+                                  {mismatch.label}: entered <span className="font-medium">{mismatch.current}</span>, passport shows <span className="font-medium">{mismatch.value}</span>
+                                </span>
+                                <Button type="button" variant="ghost" size="sm" onClick={() => handleUsePassportValue(mismatch)}>
+                                  Use passport value
+                                </Button>
+                              </li>
+                            ))}
+                          </ul>
+                        </>
+                      ) : passportAutofill.filled.length === 0 && (
+                        <p className="text-muted-foreground">The passport matches the details already entered.</p>
+                      )}
+                    </div>
+                  )}
+                </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div className="space-y-2">
                     <Label htmlFor="passportNumber">Passport Number *</Label>
@@ -1496,13 +1762,22 @@ export default function EmployeeProfileForm({
                     <Label htmlFor="emiratesIdNumber">Emirates ID Number *</Label>
                     <Input
                       id="emiratesIdNumber"
-                      {...form.register("documents.emiratesIdInfo.idNumber")}
+                      {...form.register("documents.emiratesIdInfo.idNumber", { onBlur: handleEmiratesIdBlur })}
                       placeholder="784-XXXX-XXXXXXX-X"
                       data-testid="input-emirates-id-number"
                     />
                     {form.formState.errors.documents?.emiratesIdInfo?.idNumber && (
                       <p className="text-sm text-destructive">{form.formState.errors.documents.emiratesIdInfo.idNumber.message}</p>
                     )}
+                    {emiratesIdError && (
+                      <p className="text-sm text-destructive" data-testid="text-emirates-id-error">{emiratesIdError}</p>
+                    )}
+                    {emiratesIdWarning && (
+                      <p className="flex items-center gap-2 text-sm text-amber-700" data-testid="text-emirates-id-warning">
+                        <AlertTriangle className="h-4 w-4 shrink-0" />
+                        {emiratesIdWarning}
+                      </p>
+                    )}
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="emiratesIdExpiry">Emirates ID Expiry Date *</Label>
@@ -1713,6 +1988,11 @@ export default function EmployeeProfileForm({
               {/* Salary Components */}
               <div className="space-y-4">
                 <h3 className="text-lg font-medium border-b pb-2">Salary Components</h3>
+                {isEditing && (
+                  <p className="text-sm text-muted-foreground" data-testid="text-salary-revision-note">
+                    Salary changes are made through a salary revision, which takes effect once approved.
+                  </p>
+                )}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div className="space-y-2">
                     <Label htmlFor="basicSalary">Basic Salary (AED) *</Label>
@@ -1720,6 +2000,7 @@ export default function EmployeeProfileForm({
                       id="basicSalary"
                       type="number"
                       {...form.register("compensation.basicSalary", { valueAsNumber: true })}
+                      readOnly={isEditing}
                       placeholder="Enter basic salary amount"
                       data-testid="input-basic-salary"
                     />
@@ -1734,6 +2015,7 @@ export default function EmployeeProfileForm({
                       id="housingAllowance"
                       type="number"
                       {...form.register("compensation.housingAllowance", { valueAsNumber: true })}
+                      readOnly={isEditing}
                       placeholder="Enter housing allowance"
                       data-testid="input-housing-allowance"
                     />
@@ -1748,6 +2030,7 @@ export default function EmployeeProfileForm({
                       id="transportAllowance"
                       type="number"
                       {...form.register("compensation.transportAllowance", { valueAsNumber: true })}
+                      readOnly={isEditing}
                       placeholder="Enter transport allowance"
                       data-testid="input-transport-allowance"
                     />
@@ -1762,6 +2045,7 @@ export default function EmployeeProfileForm({
                       id="otherAllowance"
                       type="number"
                       {...form.register("compensation.otherAllowance", { valueAsNumber: true })}
+                      readOnly={isEditing}
                       placeholder="Enter other allowances"
                       data-testid="input-other-allowance"
                     />
@@ -1877,6 +2161,19 @@ export default function EmployeeProfileForm({
                       <p className="text-sm text-destructive">{form.formState.errors.compensation.bankDetails.iban.message}</p>
                     )}
                   </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="routingCode">Bank Routing Code (WPS)</Label>
+                    <Input
+                      id="routingCode"
+                      {...form.register("compensation.bankDetails.routingCode")}
+                      placeholder="9-digit agent routing code"
+                      data-testid="input-routing-code"
+                    />
+                    {form.formState.errors.compensation?.bankDetails?.routingCode && (
+                      <p className="text-sm text-destructive">{form.formState.errors.compensation.bankDetails.routingCode.message}</p>
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
@@ -1956,7 +2253,9 @@ export default function EmployeeProfileForm({
                 disabled={isLoading || !isCurrentStepValidSync()}
                 data-testid="button-submit"
               >
-                {isLoading ? 'Creating Employee...' : 'Create Employee'}
+                {isEditing
+                  ? (isLoading ? 'Saving Changes...' : 'Save Changes')
+                  : (isLoading ? 'Creating Employee...' : 'Create Employee')}
               </Button>
             )}
           </div>
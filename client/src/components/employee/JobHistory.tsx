@@ -0,0 +1,302 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Briefcase } from "lucide-react";
+import type { Department, Employee, JobEvent } from "@shared/schema";
+
+interface JobHistoryProps {
+  employee: Employee;
+  companySlug: string;
+}
+
+const EVENT_TYPE_LABELS: Record<string, string> = {
+  PROMOTION: "Promotion",
+  TRANSFER: "Transfer",
+  DEMOTION: "Demotion",
+  POSITION_CHANGE: "Position change",
+  MANAGER_CHANGE: "Manager change",
+};
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  SCHEDULED: "secondary",
+  APPLIED: "default",
+  CANCELLED: "outline",
+};
+
+// Select values cannot be empty, so "none" stands for clearing the department or manager
+const NONE = "none";
+
+export default function JobHistory({ employee, companySlug }: JobHistoryProps) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [eventType, setEventType] = useState("PROMOTION");
+  const [effectiveDate, setEffectiveDate] = useState(new Date().toISOString().slice(0, 10));
+  const [toDepartmentId, setToDepartmentId] = useState(NONE);
+  const [toPosition, setToPosition] = useState("");
+  const [toManagerId, setToManagerId] = useState(NONE);
+  const [notes, setNotes] = useState("");
+
+  const { data: events = [], isLoading } = useQuery<JobEvent[]>({
+    queryKey: ["/api/employees", employee.id, "job-events"],
+    enabled: !!employee.id
+  });
+
+  const { data: departments = [] } = useQuery<Department[]>({
+    queryKey: [`/api/departments?companySlug=${companySlug}`],
+    enabled: !!companySlug
+  });
+
+  const { data: employees = [] } = useQuery<Employee[]>({
+    queryKey: [`/api/employees?companySlug=${companySlug}`],
+    enabled: !!companySlug
+  });
+
+  // Start from the current assignment each time the dialog opens
+  useEffect(() => {
+    if (dialogOpen) {
+      setEventType("PROMOTION");
+      setEffectiveDate(new Date().toISOString().slice(0, 10));
+      setToDepartmentId(employee.employmentDetails?.departmentId || NONE);
+      setToPosition(employee.employmentDetails?.position || "");
+      setToManagerId(employee.employmentDetails?.reportingManagerId || NONE);
+      setNotes("");
+    }
+  }, [dialogOpen, employee]);
+
+  const getDepartmentName = (departmentId: string | null) =>
+    departmentId ? departments.find(department => department.id === departmentId)?.name || 'Unknown department' : 'No department';
+  const getEmployeeName = (employeeId: string | null) =>
+    employeeId ? employees.find(other => other.id === employeeId)?.personalInfo?.name || 'Unknown employee' : 'No manager';
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/employees", employee.id, "job-events"] });
+    // Employee lists are keyed by URL, some with a companySlug query string
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/employees") });
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/employees/${employee.id}/job-events`, {
+        eventType,
+        effectiveDate,
+        toDepartmentId: toDepartmentId === NONE ? null : toDepartmentId,
+        toPosition: toPosition || null,
+        toManagerId: toManagerId === NONE ? null : toManagerId,
+        notes: notes || undefined,
+      });
+      return await response.json();
+    },
+    onSuccess: (event: JobEvent) => {
+      toast({
+        title: "Job Change Recorded",
+        description: event.status === 'APPLIED'
+          ? "The employment details have been updated."
+          : `The employment details will be updated on ${event.effectiveDate}.`,
+      });
+      invalidate();
+      setDialogOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Job Change Failed",
+        description: error.message || "Could not record the job change.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (eventId: string) => {
+      const response = await apiRequest('POST', `/api/job-events/${eventId}/cancel`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Job Change Cancelled",
+        description: "The scheduled change will not be applied.",
+      });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Cancel Failed",
+        description: error.message || "Could not cancel the job change.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const renderChange = (label: string, from: string, to: string) =>
+    from === to ? null : (
+      <li>
+        <span className="text-muted-foreground">{label}:</span>{' '}
+        <span className="line-through text-muted-foreground">{from}</span>
+        {' → '}
+        <span>{to}</span>
+      </li>
+    );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <Briefcase className="h-5 w-5" />
+          Job History
+        </CardTitle>
+        <Button size="sm" onClick={() => setDialogOpen(true)} disabled={!!employee.deletedAt} data-testid="button-record-job-event">
+          Record Job Change
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading job history...</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No promotions, transfers or manager changes have been recorded yet.</p>
+        ) : (
+          <ul className="space-y-4">
+            {events.map(event => (
+              <li key={event.id} className="border-b pb-4 last:border-0" data-testid={`job-event-${event.id}`}>
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">{EVENT_TYPE_LABELS[event.eventType] || event.eventType}</span>
+                  <span className="text-muted-foreground">effective {event.effectiveDate}</span>
+                  <Badge variant={STATUS_VARIANTS[event.status || 'SCHEDULED'] || "outline"}>{event.status}</Badge>
+                  {event.status === 'SCHEDULED' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="ml-auto text-destructive"
+                      onClick={() => cancelMutation.mutate(event.id)}
+                      disabled={cancelMutation.isPending}
+                      data-testid={`button-cancel-job-event-${event.id}`}
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+                <ul className="mt-2 space-y-1 text-sm">
+                  {renderChange("Department", getDepartmentName(event.fromDepartmentId), getDepartmentName(event.toDepartmentId))}
+                  {renderChange("Position", event.fromPosition || 'No position', event.toPosition || 'No position')}
+                  {renderChange("Manager", getEmployeeName(event.fromManagerId), getEmployeeName(event.toManagerId))}
+                </ul>
+                {event.notes && <p className="mt-1 text-xs text-muted-foreground">{event.notes}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Job Change</DialogTitle>
+            <DialogDescription>
+              Employment details are updated on the effective date. Future-dated changes can be cancelled until then.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Change</Label>
+                <Select value={eventType} onValueChange={setEventType}>
+                  <SelectTrigger data-testid="select-job-event-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(EVENT_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="job-event-effective-date">Effective Date</Label>
+                <Input
+                  id="job-event-effective-date"
+                  type="date"
+                  value={effectiveDate}
+                  onChange={(e) => setEffectiveDate(e.target.value)}
+                  data-testid="input-job-event-effective-date"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Department</Label>
+              <Select value={toDepartmentId} onValueChange={setToDepartmentId}>
+                <SelectTrigger data-testid="select-job-event-department">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No department</SelectItem>
+                  {departments.map(department => (
+                    <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="job-event-position">Position</Label>
+              <Input
+                id="job-event-position"
+                value={toPosition}
+                onChange={(e) => setToPosition(e.target.value)}
+                data-testid="input-job-event-position"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Reporting Manager</Label>
+              <Select value={toManagerId} onValueChange={setToManagerId}>
+                <SelectTrigger data-testid="select-job-event-manager">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No manager</SelectItem>
+                  {employees.filter(other => other.id !== employee.id).map(other => (
+                    <SelectItem key={other.id} value={other.id}>{other.personalInfo?.name || other.employeeCode}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="job-event-notes">Notes</Label>
+              <Textarea
+                id="job-event-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Optional"
+                data-testid="input-job-event-notes"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} data-testid="button-cancel-record-job-event">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => recordMutation.mutate()}
+              disabled={recordMutation.isPending || !effectiveDate}
+              data-testid="button-submit-job-event"
+            >
+              {recordMutation.isPending ? "Saving..." : "Record Change"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,294 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { TrendingUp } from "lucide-react";
+import type { Employee, SalaryRevision } from "@shared/schema";
+
+type SalaryRevisionEntry = SalaryRevision & { requestedByName: string | null; approvedByName: string | null };
+
+type SalaryComponentKey = 'basicSalary' | 'housingAllowance' | 'transportAllowance' | 'otherAllowance';
+
+interface SalaryHistoryProps {
+  employee: Employee;
+}
+
+const REVISION_REASON_LABELS: Record<string, string> = {
+  PROMOTION: "Promotion",
+  ANNUAL_INCREMENT: "Annual increment",
+  CORRECTION: "Correction",
+};
+
+const COMPONENT_LABELS: Record<SalaryComponentKey, string> = {
+  basicSalary: "Basic Salary",
+  housingAllowance: "Housing Allowance",
+  transportAllowance: "Transport Allowance",
+  otherAllowance: "Other Allowance",
+};
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  PENDING: "secondary",
+  APPROVED: "default",
+  REJECTED: "destructive",
+};
+
+const chartConfig = {
+  total: { label: "Total salary", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+function formatAmount(amount: number | string | null | undefined): string {
+  return `AED ${Number(amount || 0).toLocaleString('en-AE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatPercentageChange(percentageChange: string | null): string {
+  if (percentageChange === null) return '—';
+  const value = parseFloat(percentageChange);
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
+
+// Total salary at each approved change, starting from the salary before the first revision
+function buildChartData(employee: Employee, revisions: SalaryRevisionEntry[]) {
+  const approved = revisions
+    .filter(revision => revision.status === 'APPROVED')
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+  if (approved.length === 0) {
+    return [];
+  }
+  return [
+    { date: employee.employmentDetails?.startDate || 'Before', total: parseFloat(approved[0].previousTotal) },
+    ...approved.map(revision => ({ date: revision.effectiveDate, total: parseFloat(revision.newTotal) })),
+  ];
+}
+
+export default function SalaryHistory({ employee }: SalaryHistoryProps) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [effectiveDate, setEffectiveDate] = useState(new Date().toISOString().slice(0, 10));
+  const [reason, setReason] = useState("ANNUAL_INCREMENT");
+  const [salary, setSalary] = useState<Record<SalaryComponentKey, number>>({
+    basicSalary: 0,
+    housingAllowance: 0,
+    transportAllowance: 0,
+    otherAllowance: 0,
+  });
+  const [notes, setNotes] = useState("");
+
+  const { data: revisions = [], isLoading } = useQuery<SalaryRevisionEntry[]>({
+    queryKey: ["/api/employees", employee.id, "salary-revisions"],
+    enabled: !!employee.id
+  });
+
+  // Start from the current salary each time the dialog opens
+  useEffect(() => {
+    if (dialogOpen) {
+      setEffectiveDate(new Date().toISOString().slice(0, 10));
+      setReason("ANNUAL_INCREMENT");
+      setSalary({
+        basicSalary: employee.compensation?.basicSalary || 0,
+        housingAllowance: employee.compensation?.housingAllowance || 0,
+        transportAllowance: employee.compensation?.transportAllowance || 0,
+        otherAllowance: employee.compensation?.otherAllowance || 0,
+      });
+      setNotes("");
+    }
+  }, [dialogOpen, employee]);
+
+  const currentTotal = (employee.compensation?.basicSalary || 0) + (employee.compensation?.housingAllowance || 0) +
+    (employee.compensation?.transportAllowance || 0) + (employee.compensation?.otherAllowance || 0);
+  const newTotal = salary.basicSalary + salary.housingAllowance + salary.transportAllowance + salary.otherAllowance;
+
+  const proposeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/employees/${employee.id}/salary-revisions`, {
+        effectiveDate,
+        reason,
+        ...salary,
+        notes: notes || undefined,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Salary Revision Proposed",
+        description: "The revision takes effect once it has been approved.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/employees", employee.id, "salary-revisions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/salary-revisions"] });
+      setDialogOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Revision Failed",
+        description: error.message || "Could not propose the salary revision.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const chartData = buildChartData(employee, revisions);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          Salary History
+        </CardTitle>
+        <Button size="sm" onClick={() => setDialogOpen(true)} disabled={!!employee.deletedAt} data-testid="button-propose-salary-revision">
+          Propose Revision
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {chartData.length > 0 && (
+          <ChartContainer config={chartConfig} className="h-56 w-full" data-testid="chart-salary-history">
+            <LineChart data={chartData} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={80} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="total" type="stepAfter" stroke="var(--color-total)" strokeWidth={2} dot />
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading salary history...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No salary revisions have been recorded for this employee yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-2">Effective</th>
+                  <th className="py-2">Reason</th>
+                  <th className="py-2 text-right">Previous</th>
+                  <th className="py-2 text-right">New</th>
+                  <th className="py-2 text-right">Change</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2">Approver</th>
+                </tr>
+              </thead>
+              <tbody>
+                {revisions.map(revision => (
+                  <tr key={revision.id} className="border-b" data-testid={`row-salary-revision-${revision.id}`}>
+                    <td className="py-2">{revision.effectiveDate}</td>
+                    <td className="py-2">{REVISION_REASON_LABELS[revision.reason] || revision.reason}</td>
+                    <td className="py-2 text-right">{formatAmount(revision.previousTotal)}</td>
+                    <td className="py-2 text-right">{formatAmount(revision.newTotal)}</td>
+                    <td className="py-2 text-right">{formatPercentageChange(revision.percentageChange)}</td>
+                    <td className="py-2">
+                      <Badge variant={STATUS_VARIANTS[revision.status || 'PENDING'] || "outline"}>{revision.status}</Badge>
+                    </td>
+                    <td className="py-2">
+                      {revision.approvedByName || '—'}
+                      {revision.requestedByName && (
+                        <p className="text-xs text-muted-foreground">Proposed by {revision.requestedByName}</p>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Propose Salary Revision</DialogTitle>
+            <DialogDescription>
+              The new salary is paid from the effective date once the revision has been approved.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="revision-effective-date">Effective Date</Label>
+                <Input
+                  id="revision-effective-date"
+                  type="date"
+                  value={effectiveDate}
+                  onChange={(e) => setEffectiveDate(e.target.value)}
+                  data-testid="input-revision-effective-date"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Reason</Label>
+                <Select value={reason} onValueChange={setReason}>
+                  <SelectTrigger data-testid="select-revision-reason">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(REVISION_REASON_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {(Object.keys(COMPONENT_LABELS) as SalaryComponentKey[]).map(key => (
+                <div key={key} className="space-y-2">
+                  <Label htmlFor={`revision-${key}`}>{COMPONENT_LABELS[key]}</Label>
+                  <Input
+                    id={`revision-${key}`}
+                    type="number"
+                    min={0}
+                    value={salary[key]}
+                    onChange={(e) => setSalary({ ...salary, [key]: parseFloat(e.target.value) || 0 })}
+                    data-testid={`input-revision-${key}`}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground" data-testid="text-revision-change">
+              Total {formatAmount(currentTotal)} → {formatAmount(newTotal)}
+              {currentTotal > 0 && ` (${formatPercentageChange(((newTotal - currentTotal) / currentTotal * 100).toFixed(2))})`}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="revision-notes">Notes</Label>
+              <Textarea
+                id="revision-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Optional"
+                data-testid="input-revision-notes"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} data-testid="button-cancel-salary-revision">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => proposeMutation.mutate()}
+              disabled={proposeMutation.isPending || !effectiveDate || salary.basicSalary <= 0}
+              data-testid="button-submit-salary-revision"
+            >
+              {proposeMutation.isPending ? "Submitting..." : "Submit for Approval"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
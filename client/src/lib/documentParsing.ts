@@ -0,0 +1,205 @@
+// Parsing of the machine-readable data on passports (ICAO 9303 TD3) and Emirates IDs
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export interface PassportMrz {
+  documentNumber: string;
+  issuingCountryCode: string;
+  nationalityCode: string;
+  nationality: string; // country name when the code is known, otherwise the code itself
+  surname: string;
+  givenNames: string;
+  dob: string; // YYYY-MM-DD
+  sex: 'M' | 'F' | null;
+  expiryDate: string; // YYYY-MM-DD
+}
+
+export interface EmiratesIdNumber {
+  idNumber: string; // 784-YYYY-NNNNNNN-C
+  birthYear: number;
+}
+
+const TD3_LINE_LENGTH = 44;
+
+// ICAO 9303 nationality codes of the countries offered in the employee form
+const NATIONALITY_CODES: Record<string, string> = {
+  AFG: "Afghanistan", ALB: "Albania", DZA: "Algeria", ARG: "Argentina", ARM: "Armenia", AUS: "Australia",
+  AUT: "Austria", AZE: "Azerbaijan", BHR: "Bahrain", BGD: "Bangladesh", BLR: "Belarus", BEL: "Belgium",
+  BRA: "Brazil", BGR: "Bulgaria", KHM: "Cambodia", CAN: "Canada", CHL: "Chile", CHN: "China",
+  COL: "Colombia", HRV: "Croatia", CZE: "Czech Republic", DNK: "Denmark", EGY: "Egypt", EST: "Estonia",
+  ETH: "Ethiopia", FIN: "Finland", FRA: "France", GEO: "Georgia", D: "Germany", DEU: "Germany",
+  GHA: "Ghana", GRC: "Greece", HUN: "Hungary", ISL: "Iceland", IND: "India", IDN: "Indonesia",
+  IRN: "Iran", IRQ: "Iraq", IRL: "Ireland", ISR: "Israel", ITA: "Italy", JPN: "Japan",
+  JOR: "Jordan", KAZ: "Kazakhstan", KEN: "Kenya", KWT: "Kuwait", LVA: "Latvia", LBN: "Lebanon",
+  LBY: "Libya", LTU: "Lithuania", LUX: "Luxembourg", MYS: "Malaysia", MDV: "Maldives", MEX: "Mexico",
+  MAR: "Morocco", NPL: "Nepal", NLD: "Netherlands", NZL: "New Zealand", NGA: "Nigeria", NOR: "Norway",
+  OMN: "Oman", PAK: "Pakistan", PSE: "Palestine", PHL: "Philippines", POL: "Poland", PRT: "Portugal",
+  QAT: "Qatar", ROU: "Romania", RUS: "Russia", SAU: "Saudi Arabia", SGP: "Singapore", SVK: "Slovakia",
+  SVN: "Slovenia", ZAF: "South Africa", KOR: "South Korea", ESP: "Spain", LKA: "Sri Lanka", SDN: "Sudan",
+  SWE: "Sweden", CHE: "Switzerland", SYR: "Syria", THA: "Thailand", TUN: "Tunisia", TUR: "Turkey",
+  UKR: "Ukraine", ARE: "United Arab Emirates", GBR: "United Kingdom", USA: "United States", VNM: "Vietnam",
+  YEM: "Yemen",
+};
+
+/**
+ * ICAO 9303 check digit: characters weighted 7, 3, 1 in turn, digits at face value,
+ * A-Z as 10-35 and the filler "<" as 0, summed modulo 10
+ */
+export function mrzCheckDigit(value: string): number {
+  const weights = [7, 3, 1];
+  let sum = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    let charValue = 0;
+    if (char >= '0' && char <= '9') {
+      charValue = char.charCodeAt(0) - 48;
+    } else if (char >= 'A' && char <= 'Z') {
+      charValue = char.charCodeAt(0) - 55;
+    }
+    sum += charValue * weights[i % 3];
+  }
+  return sum % 10;
+}
+
+function isValidCheckDigit(value: string, checkDigit: string): boolean {
+  return /^\d$/.test(checkDigit) && mrzCheckDigit(value) === Number(checkDigit);
+}
+
+// MRZ dates are YYMMDD; birth dates in the future belong to the previous century
+function parseMrzDate(value: string, kind: 'birth' | 'expiry'): string | null {
+  if (!/^\d{6}$/.test(value)) {
+    return null;
+  }
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  const currentYy = new Date().getFullYear() % 100;
+  const year = kind === 'birth' && yy > currentYy ? 1900 + yy : 2000 + yy;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function mrzText(value: string): string {
+  return value.replace(/</g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse the two 44-character lines of a passport's machine-readable zone, as typed or pasted.
+ * Every check digit is verified, so a single misread character is caught.
+ */
+export function parsePassportMrz(input: string): ParseResult<PassportMrz> {
+  const lines = input
+    .toUpperCase()
+    .split(/\r?\n/)
+    .map(line => line.replace(/\s/g, ''))
+    .filter(Boolean);
+  // Pasted without the line break
+  if (lines.length === 1 && lines[0].length === TD3_LINE_LENGTH * 2) {
+    lines.splice(0, 1, lines[0].slice(0, TD3_LINE_LENGTH), lines[0].slice(TD3_LINE_LENGTH));
+  }
+  if (lines.length !== 2 || lines.some(line => line.length !== TD3_LINE_LENGTH)) {
+    return { ok: false, error: "A passport MRZ is two lines of 44 characters" };
+  }
+  const [line1, line2] = lines;
+  if (!/^[A-Z0-9<]+$/.test(line1 + line2)) {
+    return { ok: false, error: "The MRZ may only contain letters, digits and <" };
+  }
+  if (line1[0] !== 'P') {
+    return { ok: false, error: "The first line of a passport MRZ starts with P" };
+  }
+
+  const documentNumber = line2.slice(0, 9);
+  const birthDate = line2.slice(13, 19);
+  const expiryDate = line2.slice(21, 27);
+  const personalNumber = line2.slice(28, 42);
+  const composite = line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, 43);
+
+  if (!isValidCheckDigit(documentNumber, line2[9])) {
+    return { ok: false, error: "The passport number does not match its check digit" };
+  }
+  if (!isValidCheckDigit(birthDate, line2[19])) {
+    return { ok: false, error: "The date of birth does not match its check digit" };
+  }
+  if (!isValidCheckDigit(expiryDate, line2[27])) {
+    return { ok: false, error: "The expiry date does not match its check digit" };
+  }
+  // An empty personal number may carry a filler instead of a check digit
+  const emptyPersonalNumber = /^<+$/.test(personalNumber) && line2[42] === '<';
+  if (!emptyPersonalNumber && !isValidCheckDigit(personalNumber, line2[42])) {
+    return { ok: false, error: "The personal number does not match its check digit" };
+  }
+  if (!isValidCheckDigit(composite, line2[43])) {
+    return { ok: false, error: "The MRZ does not match its final check digit" };
+  }
+
+  const dob = parseMrzDate(birthDate, 'birth');
+  const expiry = parseMrzDate(expiryDate, 'expiry');
+  if (!dob || !expiry) {
+    return { ok: false, error: "The MRZ contains an invalid date" };
+  }
+
+  const [surname = '', givenNames = ''] = line1.slice(5).split('<<');
+  const nationalityCode = line2.slice(10, 13).replace(/</g, '');
+  const sex = line2[20];
+  return {
+    ok: true,
+    value: {
+      documentNumber: documentNumber.replace(/</g, ''),
+      issuingCountryCode: line1.slice(2, 5).replace(/</g, ''),
+      nationalityCode,
+      nationality: NATIONALITY_CODES[nationalityCode] || nationalityCode,
+      surname: mrzText(surname),
+      givenNames: mrzText(givenNames),
+      dob,
+      sex: sex === 'M' || sex === 'F' ? sex : null,
+      expiryDate: expiry,
+    },
+  };
+}
+
+/**
+ * Luhn checksum over a string of digits, true when the last digit checks the rest
+ */
+export function isValidLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Parse an Emirates ID number: 784, the holder's year of birth, a seven-digit serial and a
+ * Luhn check digit, with or without the dashes
+ */
+export function parseEmiratesIdNumber(input: string): ParseResult<EmiratesIdNumber> {
+  const digits = input.replace(/[\s-]/g, '');
+  if (!/^\d{15}$/.test(digits)) {
+    return { ok: false, error: "An Emirates ID number has 15 digits: 784-YYYY-NNNNNNN-C" };
+  }
+  if (!digits.startsWith('784')) {
+    return { ok: false, error: "An Emirates ID number starts with 784" };
+  }
+  const birthYear = Number(digits.slice(3, 7));
+  if (birthYear < 1900 || birthYear > new Date().getFullYear()) {
+    return { ok: false, error: "The Emirates ID number contains an invalid year of birth" };
+  }
+  if (!isValidLuhn(digits)) {
+    return { ok: false, error: "The Emirates ID number does not match its check digit" };
+  }
+  return {
+    ok: true,
+    value: {
+      idNumber: `${digits.slice(0, 3)}-${digits.slice(3, 7)}-${digits.slice(7, 14)}-${digits.slice(14)}`,
+      birthYear,
+    },
+  };
+}
@@ -1,15 +1,18 @@
 import { useParams, useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
 import EmployeeProfileForm from "@/components/employee/EmployeeProfileForm";
-import type { Employee, Department } from "@shared/schema";
+import type { Employee, Department, InsertEmployee } from "@shared/schema";
 
 export default function EditEmployee() {
   const { companySlug: paramSlug, employeeSlug } = useParams<{ companySlug?: string; employeeSlug: string }>();
   const [, setLocation] = useLocation();
   const { user } = useAuth();
+  const { toast } = useToast();
 
   // Resolve company slug from user data when not in URL (fallback routes)
   const { data: userSlugs } = useQuery<{companySlugs?: string[]}>({
@@ -71,15 +74,32 @@ export default function EditEmployee() {
     }
   };
 
-  const handleSubmit = async (data: any) => {
-    // Handle employee update submission
-    console.log("Updating employee with data:", data);
-    // Navigate back to employee profile after successful edit
-    if (companySlug) {
-      setLocation(`/${companySlug}/employees/${employeeSlug}`);
-    } else {
-      setLocation(`/company-admin/employees/${employeeSlug}`);
+  const updateEmployeeMutation = useMutation({
+    mutationFn: async (employeeData: InsertEmployee) => {
+      // Company, login and status are not editable here; the server ignores them
+      const { companyId, userId, status, ...updates } = employeeData;
+      const response = await apiRequest('PUT', `/api/employees/${employee?.id}`, { ...updates, companySlug });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Employee Updated",
+        description: "The changes have been saved and recorded in the employee's history.",
+      });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/employees") });
+      handleBack();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error Updating Employee",
+        description: error.message || "Failed to update employee. Please try again.",
+        variant: "destructive",
+      });
     }
+  });
+
+  const handleSubmit = (data: InsertEmployee) => {
+    updateEmployeeMutation.mutate(data);
   };
 
   const handleCancel = () => {
@@ -147,6 +167,7 @@ export default function EditEmployee() {
             employees={employees.map(emp => ({ id: emp.id, personalInfo: emp.personalInfo || {} }))}
             onSubmit={handleSubmit}
             onCancel={handleCancel}
+            isLoading={updateEmployeeMutation.isPending}
           />
         </div>
       </div>
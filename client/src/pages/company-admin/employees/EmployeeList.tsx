@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useParams } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -20,7 +20,7 @@ import {
   FileText,
   AlertTriangle,
   CheckCircle,
-  Trash2
+  UserMinus
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -29,16 +29,6 @@ import {
   DropdownMenuTrigger,
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog";
 import { 
   Select, 
   SelectContent, 
@@ -47,22 +37,20 @@ import {
   SelectValue 
 } from "@/components/ui/select";
 import { Link } from "wouter";
-import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import OffboardEmployeeDialog from "@/components/OffboardEmployeeDialog";
 import type { Employee, Department } from "@shared/schema";
 
 export default function EmployeeList() {
   const { user } = useAuth();
   const params = useParams<{ companySlug: string }>();
   const { companySlug } = params;
-  const { toast } = useToast();
 
   // Local state
   const [searchTerm, setSearchTerm] = useState("");
   const [departmentFilter, setDepartmentFilter] = useState("all");
   const [statusFilter, setStatusFilter] = useState("all");
-  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-  const [employeeToDelete, setEmployeeToDelete] = useState<Employee | null>(null);
+  const [offboardDialogOpen, setOffboardDialogOpen] = useState(false);
+  const [employeeToOffboard, setEmployeeToOffboard] = useState<Employee | null>(null);
 
   // Update query keys to include company context for cache isolation
   const companyContext = companySlug || 'default';
@@ -78,55 +66,13 @@ export default function EmployeeList() {
     enabled: !!user && ['SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'].includes(user?.role || '')
   });
 
-  // Delete employee mutation
-  const deleteEmployeeMutation = useMutation({
-    mutationFn: async (employeeId: string) => {
-      const response = await apiRequest('DELETE', `/api/employees/${employeeId}`);
-      return response;
-    },
-    onSuccess: () => {
-      toast({
-        title: "Employee Deleted",
-        description: "Employee has been successfully removed.",
-      });
-      
-      // Invalidate and refetch employees list
-      queryClient.invalidateQueries({ queryKey: [`/api/employees?companySlug=${companyContext}`] });
-      queryClient.invalidateQueries({ queryKey: ['/api/employees'] });
-      
-      // Close dialog and reset state
-      setDeleteDialogOpen(false);
-      setEmployeeToDelete(null);
-    },
-    onError: (error: any) => {
-      console.error('Failed to delete employee:', error);
-      toast({
-        title: "Error Deleting Employee",
-        description: error.message || "Failed to delete employee. Please try again.",
-        variant: "destructive",
-      });
-    }
-  });
-
   const handleLogout = () => {
     window.location.href = "/api/logout";
   };
 
-  // Delete confirmation handlers
-  const handleDeleteClick = (employee: Employee) => {
-    setEmployeeToDelete(employee);
-    setDeleteDialogOpen(true);
-  };
-
-  const handleDeleteConfirm = () => {
-    if (employeeToDelete) {
-      deleteEmployeeMutation.mutate(employeeToDelete.id);
-    }
-  };
-
-  const handleDeleteCancel = () => {
-    setDeleteDialogOpen(false);
-    setEmployeeToDelete(null);
+  const handleOffboardClick = (employee: Employee) => {
+    setEmployeeToOffboard(employee);
+    setOffboardDialogOpen(true);
   };
 
   if (!user || !['SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER'].includes(user?.role || '')) {
@@ -368,12 +314,12 @@ export default function EmployeeList() {
                             </DropdownMenuItem>
                             <DropdownMenuSeparator />
                             <DropdownMenuItem 
-                              onClick={() => handleDeleteClick(employee)}
+                              onClick={() => handleOffboardClick(employee)}
                               className="text-destructive focus:text-destructive"
-                              data-testid={`button-delete-${employee.id}`}
+                              data-testid={`button-offboard-${employee.id}`}
                             >
-                              <Trash2 className="w-4 h-4 mr-2" />
-                              Delete Employee
+                              <UserMinus className="w-4 h-4 mr-2" />
+                              Offboard Employee
                             </DropdownMenuItem>
                           </DropdownMenuContent>
                         </DropdownMenu>
@@ -472,36 +418,12 @@ export default function EmployeeList() {
           )}
     </div>
 
-    {/* Delete Confirmation Dialog */}
-    <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
-      <AlertDialogContent>
-        <AlertDialogHeader>
-          <AlertDialogTitle>Delete Employee</AlertDialogTitle>
-          <AlertDialogDescription>
-            Are you sure you want to delete{" "}
-            <strong>{employeeToDelete?.personalInfo?.name}</strong>? This action
-            cannot be undone and will permanently remove all employee data,
-            including employment history, documents, and records.
-          </AlertDialogDescription>
-        </AlertDialogHeader>
-        <AlertDialogFooter>
-          <AlertDialogCancel 
-            onClick={handleDeleteCancel}
-            data-testid="button-cancel-delete"
-          >
-            Cancel
-          </AlertDialogCancel>
-          <AlertDialogAction
-            onClick={handleDeleteConfirm}
-            disabled={deleteEmployeeMutation.isPending}
-            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-            data-testid="button-confirm-delete"
-          >
-            {deleteEmployeeMutation.isPending ? "Deleting..." : "Delete Employee"}
-          </AlertDialogAction>
-        </AlertDialogFooter>
-      </AlertDialogContent>
-    </AlertDialog>
+    {/* Offboarding Dialog */}
+    <OffboardEmployeeDialog
+      employee={employeeToOffboard}
+      open={offboardDialogOpen}
+      onOpenChange={setOffboardDialogOpen}
+    />
     </>
   );
 }
\ No newline at end of file
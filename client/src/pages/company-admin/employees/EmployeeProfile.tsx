@@ -6,8 +6,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ArrowLeft, Edit, FileText, User, Briefcase, Phone, MapPin, CreditCard, Calendar } from "lucide-react";
+import { ArrowLeft, Edit, FileText, User, Briefcase, Phone, MapPin, CreditCard, Calendar, History } from "lucide-react";
 import DocumentManagement from "@/components/employee/DocumentManagement";
+import EmployeeHistoryTimeline from "@/components/employee/EmployeeHistoryTimeline";
+import SalaryHistory from "@/components/employee/SalaryHistory";
+import JobHistory from "@/components/employee/JobHistory";
 import type { Employee, Department, Position } from "@shared/schema";
 
 export default function EmployeeProfile() {
@@ -60,6 +63,12 @@ export default function EmployeeProfile() {
     enabled: !!companySlug
   });
 
+  // Fetch employees to resolve the reporting manager ID to a name
+  const { data: companyEmployees = [] } = useQuery<Employee[]>({
+    queryKey: [`/api/employees?companySlug=${companySlug}`],
+    enabled: !!companySlug
+  });
+
 
   const handleBack = () => {
     setLocation(`/${companySlug}/employees`);
@@ -106,10 +115,15 @@ export default function EmployeeProfile() {
     return department ? department.name : 'Department not found';
   };
 
-  const getPositionName = (positionId?: string) => {
-    if (!positionId) return 'Not assigned';
-    const position = positions.find(p => p.id === positionId);
-    return position ? position.title : 'Position not found';
+  // Positions are stored as a title; older records may hold a position ID
+  const getPositionName = (position?: string) => {
+    if (!position) return 'Not assigned';
+    return positions.find(p => p.id === position)?.title || position;
+  };
+
+  const getManagerName = (managerId?: string) => {
+    if (!managerId) return 'No manager assigned';
+    return companyEmployees.find(e => e.id === managerId)?.personalInfo?.name || 'Manager not found';
   };
 
   const formatEmploymentType = (type?: string) => {
@@ -165,7 +179,7 @@ export default function EmployeeProfile() {
 
         {/* Profile Content */}
         <Tabs defaultValue="personal" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="personal" data-testid="tab-personal">
               <User className="h-4 w-4 mr-2" />
               Personal
@@ -186,6 +200,10 @@ export default function EmployeeProfile() {
               <FileText className="h-4 w-4 mr-2" />
               Documents
             </TabsTrigger>
+            <TabsTrigger value="history" data-testid="tab-history">
+              <History className="h-4 w-4 mr-2" />
+              History
+            </TabsTrigger>
           </TabsList>
 
           {/* Personal Information */}
@@ -239,7 +257,7 @@ export default function EmployeeProfile() {
                   </div>
                   <div>
                     <label className="text-sm font-medium text-muted-foreground">Position</label>
-                    <p className="text-sm" data-testid="text-position">{getPositionName(employee.employmentDetails?.positionId)}</p>
+                    <p className="text-sm" data-testid="text-position">{getPositionName(employee.employmentDetails?.position)}</p>
                   </div>
                   <div>
                     <label className="text-sm font-medium text-muted-foreground">Start Date</label>
@@ -251,7 +269,7 @@ export default function EmployeeProfile() {
                   </div>
                   <div>
                     <label className="text-sm font-medium text-muted-foreground">Manager</label>
-                    <p className="text-sm" data-testid="text-manager">{employee.employmentDetails?.managerId || 'No manager assigned'}</p>
+                    <p className="text-sm" data-testid="text-manager">{getManagerName(employee.employmentDetails?.reportingManagerId)}</p>
                   </div>
                   <div>
                     <label className="text-sm font-medium text-muted-foreground">Probation End</label>
@@ -295,6 +313,14 @@ export default function EmployeeProfile() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Job changes and salary revisions are managed by HR only */}
+            {['SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'].includes((user as any)?.role || '') && (
+              <>
+                <JobHistory employee={employee} companySlug={companySlug || ''} />
+                <SalaryHistory employee={employee} />
+              </>
+            )}
           </TabsContent>
 
           {/* Contact Information */}
@@ -425,6 +451,11 @@ export default function EmployeeProfile() {
               companySlug={companySlug || ''}
             />
           </TabsContent>
+
+          {/* Change History */}
+          <TabsContent value="history" className="space-y-6">
+            <EmployeeHistoryTimeline employeeId={employee.id} />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -1,78 +1,213 @@
+import { useState, useMemo } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Clock, Users, TrendingUp, Download, Calendar } from "lucide-react";
+import { Clock, Users, TrendingUp, Download, Calendar, MapPin, LogOut, AlertTriangle } from "lucide-react";
+import AttendanceCheckIn, { formatMinutes, formatTime } from "@/components/AttendanceCheckIn";
+import OfficeLocationSettings from "@/components/OfficeLocationSettings";
+import ShiftRoster from "@/components/ShiftRoster";
+import OvertimeReview from "@/components/OvertimeReview";
+import PunchLogImport from "@/components/PunchLogImport";
+import type { AttendanceException, AttendanceLocation, AttendanceRecord, Department, Employee, LeaveRequest } from "@shared/schema";
+
+const ALL_DEPARTMENTS = 'ALL';
+
+function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+async function fetchAttendance(params: Record<string, string>): Promise<AttendanceRecord[]> {
+  const response = await apiRequest('GET', `/api/attendance?${new URLSearchParams(params).toString()}`);
+  return await response.json();
+}
+
+function getOpenExceptions(record: AttendanceRecord): AttendanceException[] {
+  return (record.exceptions as AttendanceException[] | null || []).filter(exception => !exception.resolved);
+}
 
 export default function HRAttendance() {
   const { user } = useAuth();
+  const { toast } = useToast();
   const params = useParams<{ companySlug: string }>();
   const { companySlug } = params;
+  const today = toDateKey(new Date());
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [departmentId, setDepartmentId] = useState(ALL_DEPARTMENTS);
+  const canManageAttendance = ['SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'].includes((user as any)?.role || '');
 
-  // Mock attendance data - TODO: implement real attendance tracking
-  const attendanceStats = {
-    present: 142,
-    absent: 8,
-    late: 12,
-    onLeave: 6,
-    totalEmployees: 168,
-    averageHours: 8.2
-  };
+  const { data: todayRecords = [] } = useQuery<AttendanceRecord[]>({
+    queryKey: ["/api/attendance", { startDate: today, endDate: today }],
+    queryFn: () => fetchAttendance({ startDate: today, endDate: today }),
+    enabled: !!user
+  });
+
+  const { data: records = [], isLoading } = useQuery<AttendanceRecord[]>({
+    queryKey: ["/api/attendance", { startDate, endDate, departmentId }],
+    queryFn: () => fetchAttendance({
+      startDate,
+      endDate,
+      ...(departmentId !== ALL_DEPARTMENTS ? { departmentId } : {}),
+    }),
+    enabled: !!user && !!startDate && !!endDate && startDate <= endDate
+  });
+
+  // Flagged punches in the selected range that still need HR sign-off
+  const { data: flaggedRecords = [] } = useQuery<AttendanceRecord[]>({
+    queryKey: ["/api/attendance", { startDate, endDate, departmentId, flagged: true }],
+    queryFn: () => fetchAttendance({
+      startDate,
+      endDate,
+      flagged: 'true',
+      ...(departmentId !== ALL_DEPARTMENTS ? { departmentId } : {}),
+    }),
+    enabled: !!user && !!startDate && !!endDate && startDate <= endDate
+  });
 
-  const mockAttendanceRecords = [
-    {
-      id: '1',
-      employee: 'Ahmed Al Mansouri',
-      date: '2024-03-20',
-      checkIn: '09:15',
-      checkOut: '18:30',
-      hours: 8.25,
-      status: 'present',
-      overtime: 0.25
+  const openExceptionRecords = flaggedRecords.filter(record => getOpenExceptions(record).length > 0);
+
+  const resolveExceptionsMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/attendance/${id}/resolve-exceptions`, {});
+      return await response.json();
     },
-    {
-      id: '2',
-      employee: 'Sara Abdullah',
-      date: '2024-03-20',
-      checkIn: '08:45',
-      checkOut: '17:15',
-      hours: 8.5,
-      status: 'present',
-      overtime: 0
+    onSuccess: () => {
+      toast({
+        title: "Exception Resolved",
+        description: "The attendance record has been signed off.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance"] });
     },
-    {
-      id: '3',
-      employee: 'Mohammed Hassan',
-      date: '2024-03-20',
-      checkIn: '10:30',
-      checkOut: '19:00',
-      hours: 8.5,
-      status: 'late',
-      overtime: 0
+    onError: (error: any) => {
+      toast({
+        title: "Resolve Failed",
+        description: error.message || "Could not resolve the exception.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const { data: employees = [] } = useQuery<Employee[]>({
+    queryKey: ["/api/employees"],
+    enabled: !!user
+  });
+
+  const { data: departments = [] } = useQuery<Department[]>({
+    queryKey: ["/api/departments"],
+    enabled: !!user
+  });
+
+  const { data: leaveRequests = [] } = useQuery<LeaveRequest[]>({
+    queryKey: ["/api/leave-requests"],
+    enabled: !!user
+  });
+
+  const activeEmployees = employees.filter(emp => emp.status === 'ACTIVE');
+
+  const attendanceStats = useMemo(() => {
+    const present = todayRecords.filter(record => record.checkIn).length;
+    const checkedOut = todayRecords.filter(record => record.checkOut).length;
+    const onLeave = leaveRequests.filter(request =>
+      request.status === 'APPROVED' && request.startDate <= today && request.endDate >= today
+    ).length;
+    const completed = records.filter(record => record.totalHours != null);
+    const averageMinutes = completed.length > 0
+      ? Math.round(completed.reduce((sum, record) => sum + (record.totalHours || 0), 0) / completed.length)
+      : null;
+
+    return {
+      present,
+      checkedOut,
+      onLeave,
+      absent: Math.max(0, activeEmployees.length - present - onLeave),
+      totalEmployees: activeEmployees.length,
+      averageMinutes,
+    };
+  }, [todayRecords, records, leaveRequests, activeEmployees.length, today]);
+
+  // Per-day totals for the selected range
+  const dailyTotals = useMemo(() => {
+    const byDate = new Map<string, { present: number; totalMinutes: number; completed: number }>();
+    for (const record of records) {
+      const day = byDate.get(record.date) || { present: 0, totalMinutes: 0, completed: 0 };
+      if (record.checkIn) day.present++;
+      if (record.totalHours != null) {
+        day.totalMinutes += record.totalHours;
+        day.completed++;
+      }
+      byDate.set(record.date, day);
     }
-  ];
+    return Array.from(byDate.entries())
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([date, totals]) => ({ date, ...totals }));
+  }, [records]);
 
   if (!user) {
     return <div>Loading...</div>;
   }
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case 'present':
+  const getEmployeeName = (employeeId: string) => {
+    const employee = employees.find(emp => emp.id === employeeId);
+    return employee?.personalInfo?.name || employee?.employeeCode || 'Unknown employee';
+  };
+
+  const getStatusBadge = (record: AttendanceRecord) => {
+    if (record.checkIn && !record.checkOut) {
+      return <Badge className="bg-blue-600">Checked In</Badge>;
+    }
+    switch (record.status) {
+      case 'PRESENT':
         return <Badge className="bg-green-600">Present</Badge>;
-      case 'absent':
+      case 'ABSENT':
         return <Badge variant="destructive">Absent</Badge>;
-      case 'late':
+      case 'LATE':
         return <Badge variant="secondary" className="text-orange-600">Late</Badge>;
-      case 'leave':
+      case 'EARLY_LEAVE':
+        return <Badge variant="secondary" className="text-yellow-600">Left Early</Badge>;
+      case 'ON_LEAVE':
         return <Badge variant="outline">On Leave</Badge>;
       default:
-        return <Badge>{status}</Badge>;
+        return <Badge>{record.status}</Badge>;
     }
   };
 
+  const formatCoordinates = (location: AttendanceLocation | null) => {
+    const point = location?.checkIn;
+    if (!point) return null;
+    return `${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)}`;
+  };
+
+  const handleExport = () => {
+    const rows = [
+      ['Employee', 'Date', 'Check In', 'Check Out', 'Break (min)', 'Worked (min)', 'Status'],
+      ...records.map(record => [
+        getEmployeeName(record.employeeId),
+        record.date,
+        record.checkIn ? new Date(record.checkIn).toISOString() : '',
+        record.checkOut ? new Date(record.checkOut).toISOString() : '',
+        String(record.breakTime ?? ''),
+        String(record.totalHours ?? ''),
+        record.status || '',
+      ]),
+    ];
+    const csv = rows.map(row => row.map(value => `"${value.replace(/"/g, '""')}"`).join(',')).join('\n');
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `attendance-${startDate}-to-${endDate}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="p-6">
       <div className="flex items-center justify-between mb-8">
@@ -83,14 +218,15 @@ export default function HRAttendance() {
           </p>
         </div>
         <div className="flex space-x-2">
-          <Button variant="outline" data-testid="button-export-attendance">
+          <Button
+            variant="outline"
+            onClick={handleExport}
+            disabled={records.length === 0}
+            data-testid="button-export-attendance"
+          >
             <Download className="w-4 h-4 mr-2" />
             Export Report
           </Button>
-          <Button data-testid="button-attendance-settings">
-            <Clock className="w-4 h-4 mr-2" />
-            Settings
-          </Button>
         </div>
       </div>
 
@@ -103,7 +239,7 @@ export default function HRAttendance() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">{attendanceStats.present}</div>
-            <p className="text-xs text-muted-foreground">Currently in office</p>
+            <p className="text-xs text-muted-foreground">Checked in today</p>
           </CardContent>
         </Card>
 
@@ -120,12 +256,12 @@ export default function HRAttendance() {
 
         <Card className="hover-elevate">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Late Arrivals</CardTitle>
-            <Clock className="h-4 w-4 text-orange-500" />
+            <CardTitle className="text-sm font-medium">Checked Out</CardTitle>
+            <LogOut className="h-4 w-4 text-orange-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-orange-600">{attendanceStats.late}</div>
-            <p className="text-xs text-muted-foreground">Late today</p>
+            <div className="text-2xl font-bold text-orange-600">{attendanceStats.checkedOut}</div>
+            <p className="text-xs text-muted-foreground">Finished today</p>
           </CardContent>
         </Card>
 
@@ -157,82 +293,242 @@ export default function HRAttendance() {
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{attendanceStats.averageHours}</div>
-            <p className="text-xs text-muted-foreground">Daily average</p>
+            <div className="text-2xl font-bold">{formatMinutes(attendanceStats.averageMinutes)}</div>
+            <p className="text-xs text-muted-foreground">Per completed day</p>
           </CardContent>
         </Card>
       </div>
 
-      <Tabs defaultValue="today" className="space-y-4">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+        <AttendanceCheckIn />
+
+        <Card className="lg:col-span-2">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Filters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="attendance-start-date">From</Label>
+                <Input
+                  id="attendance-start-date"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  data-testid="input-attendance-start-date"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="attendance-end-date">To</Label>
+                <Input
+                  id="attendance-end-date"
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  data-testid="input-attendance-end-date"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Department</Label>
+                <Select value={departmentId} onValueChange={setDepartmentId}>
+                  <SelectTrigger data-testid="select-attendance-department">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                    {departments.map(department => (
+                      <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="records" className="space-y-4">
         <TabsList>
-          <TabsTrigger value="today">Today's Attendance</TabsTrigger>
-          <TabsTrigger value="weekly">Weekly Report</TabsTrigger>
-          <TabsTrigger value="monthly">Monthly Report</TabsTrigger>
+          <TabsTrigger value="records">Attendance Records</TabsTrigger>
+          <TabsTrigger value="daily">Daily Totals</TabsTrigger>
+          <TabsTrigger value="exceptions" data-testid="tab-attendance-exceptions">
+            Exceptions ({openExceptionRecords.length})
+          </TabsTrigger>
+          <TabsTrigger value="roster" data-testid="tab-shift-roster">Shifts & Roster</TabsTrigger>
+          <TabsTrigger value="overtime" data-testid="tab-overtime">Overtime</TabsTrigger>
+          {canManageAttendance && (
+            <>
+              <TabsTrigger value="import" data-testid="tab-device-import">Device Import</TabsTrigger>
+              <TabsTrigger value="sites" data-testid="tab-office-sites">Office Sites</TabsTrigger>
+            </>
+          )}
         </TabsList>
 
-        <TabsContent value="today" className="space-y-4">
+        <TabsContent value="records" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>Today's Attendance - March 20, 2024</CardTitle>
+              <CardTitle>
+                {startDate === endDate ? `Attendance - ${startDate}` : `Attendance - ${startDate} to ${endDate}`}
+              </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                {mockAttendanceRecords.map((record) => (
-                  <div 
-                    key={record.id} 
-                    className="flex items-center justify-between p-4 border rounded-lg"
-                    data-testid={`attendance-record-${record.id}`}
-                  >
-                    <div className="flex items-center space-x-4">
-                      <div>
-                        <h3 className="font-medium">{record.employee}</h3>
-                        <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-                          <span>In: {record.checkIn}</span>
-                          <span>Out: {record.checkOut}</span>
-                          <span>Hours: {record.hours}</span>
-                          {record.overtime > 0 && (
-                            <span className="text-blue-600">Overtime: {record.overtime}h</span>
+              {isLoading ? (
+                <p className="text-muted-foreground">Loading attendance...</p>
+              ) : records.length === 0 ? (
+                <div className="text-center py-8">
+                  <Clock className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">No attendance recorded for the selected period.</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {records.map((record) => (
+                    <div
+                      key={record.id}
+                      className="flex items-center justify-between p-4 border rounded-lg"
+                      data-testid={`attendance-record-${record.id}`}
+                    >
+                      <div className="flex items-center space-x-4">
+                        <div>
+                          <h3 className="font-medium">{getEmployeeName(record.employeeId)}</h3>
+                          <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                            <span>{record.date}</span>
+                            <span>In: {formatTime(record.checkIn)}</span>
+                            <span>Out: {formatTime(record.checkOut)}</span>
+                            <span>Break: {record.breakTime ?? 0}m</span>
+                            <span>Worked: {formatMinutes(record.totalHours)}</span>
+                            {(record.lateMinutes || 0) > 0 && (
+                              <span className="text-orange-600">Late: {record.lateMinutes}m</span>
+                            )}
+                            {(record.earlyLeaveMinutes || 0) > 0 && (
+                              <span className="text-yellow-600">Early: {record.earlyLeaveMinutes}m</span>
+                            )}
+                          </div>
+                          {formatCoordinates(record.location as AttendanceLocation | null) && (
+                            <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                              <MapPin className="w-3 h-3" />
+                              {formatCoordinates(record.location as AttendanceLocation | null)}
+                            </div>
                           )}
                         </div>
                       </div>
+                      <div className="flex items-center space-x-2">
+                        {getOpenExceptions(record).length > 0 && (
+                          <Badge variant="outline" className="text-orange-600 border-orange-600">
+                            <AlertTriangle className="w-3 h-3 mr-1" />
+                            Flagged
+                          </Badge>
+                        )}
+                        {getStatusBadge(record)}
+                      </div>
                     </div>
-                    <div className="flex items-center space-x-2">
-                      {getStatusBadge(record.status)}
-                      <Button variant="outline" size="sm">
-                        View Details
-                      </Button>
-                    </div>
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
 
-        <TabsContent value="weekly" className="space-y-4">
+        <TabsContent value="daily" className="space-y-4">
           <Card>
-            <CardContent className="text-center py-12">
-              <TrendingUp className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
-              <h3 className="text-lg font-semibold mb-2">Weekly Attendance Report</h3>
-              <p className="text-muted-foreground">
-                Comprehensive weekly attendance analytics and trends.
-              </p>
+            <CardHeader>
+              <CardTitle>Daily Totals</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {dailyTotals.length === 0 ? (
+                <div className="text-center py-8">
+                  <TrendingUp className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">No attendance recorded for the selected period.</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {dailyTotals.map(day => (
+                    <div
+                      key={day.date}
+                      className="flex items-center justify-between p-3 border rounded-md"
+                      data-testid={`row-daily-total-${day.date}`}
+                    >
+                      <span className="font-medium">{day.date}</span>
+                      <div className="flex items-center gap-6 text-sm text-muted-foreground">
+                        <span>Present: {day.present}</span>
+                        <span>Total: {formatMinutes(day.totalMinutes)}</span>
+                        <span>Average: {formatMinutes(day.completed > 0 ? Math.round(day.totalMinutes / day.completed) : null)}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
 
-        <TabsContent value="monthly" className="space-y-4">
+        <TabsContent value="exceptions" className="space-y-4">
           <Card>
-            <CardContent className="text-center py-12">
-              <Calendar className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
-              <h3 className="text-lg font-semibold mb-2">Monthly Attendance Report</h3>
-              <p className="text-muted-foreground">
-                Detailed monthly attendance statistics and performance metrics.
-              </p>
+            <CardHeader>
+              <CardTitle>Attendance Exceptions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {openExceptionRecords.length === 0 ? (
+                <div className="text-center py-8">
+                  <AlertTriangle className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">No open exceptions for the selected period.</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {openExceptionRecords.map(record => (
+                    <div
+                      key={record.id}
+                      className="flex items-center justify-between p-4 border rounded-lg"
+                      data-testid={`attendance-exception-${record.id}`}
+                    >
+                      <div>
+                        <h3 className="font-medium">{getEmployeeName(record.employeeId)}</h3>
+                        <p className="text-sm text-muted-foreground">{record.date}</p>
+                        {getOpenExceptions(record).map((exception, index) => (
+                          <p key={index} className="text-sm text-orange-600 flex items-center gap-1">
+                            <MapPin className="w-3 h-3" />
+                            {exception.message}
+                          </p>
+                        ))}
+                      </div>
+                      {canManageAttendance && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={resolveExceptionsMutation.isPending}
+                          onClick={() => resolveExceptionsMutation.mutate(record.id)}
+                          data-testid={`button-resolve-exception-${record.id}`}
+                        >
+                          Resolve
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="roster" className="space-y-4">
+          <ShiftRoster employees={activeEmployees} canManageTemplates={canManageAttendance} />
+        </TabsContent>
+
+        <TabsContent value="overtime" className="space-y-4">
+          <OvertimeReview employees={employees} canViewSummary={canManageAttendance} />
+        </TabsContent>
+
+        {canManageAttendance && (
+          <TabsContent value="import" className="space-y-4">
+            <PunchLogImport />
+          </TabsContent>
+        )}
+
+        {canManageAttendance && (
+          <TabsContent value="sites" className="space-y-4">
+            <OfficeLocationSettings />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
-}
\ No newline at end of file
+}
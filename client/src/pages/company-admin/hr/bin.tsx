@@ -0,0 +1,225 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { RotateCcw, Trash2 } from "lucide-react";
+import type { Employee } from "@shared/schema";
+
+type BinnedEmployee = Employee & { purgeDate: string | null };
+
+export default function HREmployeeBin() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [purgingEmployee, setPurgingEmployee] = useState<BinnedEmployee | null>(null);
+  const [retentionDays, setRetentionDays] = useState(365);
+
+  const { data: binnedEmployees = [], isLoading } = useQuery<BinnedEmployee[]>({
+    queryKey: ["/api/employees/bin"],
+    enabled: !!user
+  });
+
+  const { data: binSettings } = useQuery<{ retentionDays: number }>({
+    queryKey: ["/api/employee-bin/settings"],
+    enabled: !!user
+  });
+
+  useEffect(() => {
+    if (binSettings) {
+      setRetentionDays(binSettings.retentionDays);
+    }
+  }, [binSettings]);
+
+  const handleError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (employeeId: string) => {
+      const response = await apiRequest('POST', `/api/employees/${employeeId}/restore`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Employee Restored",
+        description: "The employee is active again and their login has been re-enabled.",
+      });
+      // Employee lists are keyed by URL, some with a companySlug query string
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/employees") });
+    },
+    onError: handleError("Restore Failed"),
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (employeeId: string) => {
+      const response = await apiRequest('DELETE', `/api/employees/${employeeId}/hard-delete`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Employee Permanently Deleted",
+        description: "The employee, their documents and stored files have been removed.",
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/employees/bin"] });
+      setPurgingEmployee(null);
+    },
+    onError: handleError("Permanent Delete Failed"),
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', '/api/employee-bin/settings', { retentionDays });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Retention Updated",
+        description: `Terminated employees are purged ${retentionDays} days after termination.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/employee-bin/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/employees/bin"] });
+    },
+    onError: handleError("Update Failed"),
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-foreground">Employee Bin</h2>
+        <p className="text-muted-foreground">
+          Terminated employees can be restored until their retention period ends, then they are permanently deleted
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Retention Period</CardTitle>
+          <CardDescription>
+            Permanent deletion removes the employee's records, documents and uploaded files. Payroll run totals are kept.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="retention-days">Days after termination</Label>
+            <Input
+              id="retention-days"
+              type="number"
+              min={30}
+              max={3650}
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(parseInt(e.target.value) || 0)}
+              className="w-40"
+              data-testid="input-retention-days"
+            />
+          </div>
+          <Button
+            onClick={() => settingsMutation.mutate()}
+            disabled={settingsMutation.isPending || retentionDays === binSettings?.retentionDays}
+            data-testid="button-save-retention"
+          >
+            {settingsMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading bin...</p>
+      ) : binnedEmployees.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <Trash2 className="w-10 h-10 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">The bin is empty.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="py-2">Employee</th>
+                    <th className="py-2">Terminated</th>
+                    <th className="py-2">Deleted Permanently On</th>
+                    <th className="py-2 text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {binnedEmployees.map(employee => (
+                    <tr key={employee.id} className="border-b" data-testid={`row-binned-employee-${employee.id}`}>
+                      <td className="py-2">
+                        <p className="font-medium">{employee.personalInfo?.name || employee.employeeCode}</p>
+                        <p className="text-xs text-muted-foreground">{employee.employeeCode}</p>
+                      </td>
+                      <td className="py-2">
+                        {employee.employmentDetails?.terminationDate ||
+                          (employee.deletedAt ? new Date(employee.deletedAt).toLocaleDateString() : '-')}
+                      </td>
+                      <td className="py-2">{employee.purgeDate || '-'}</td>
+                      <td className="py-2 text-right space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => restoreMutation.mutate(employee.id)}
+                          disabled={restoreMutation.isPending}
+                          data-testid={`button-restore-employee-${employee.id}`}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Restore
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={() => setPurgingEmployee(employee)}
+                          data-testid={`button-purge-employee-${employee.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 mr-1" />
+                          Delete Permanently
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={!!purgingEmployee} onOpenChange={(open) => !open && setPurgingEmployee(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Employee Permanently</AlertDialogTitle>
+            <AlertDialogDescription>
+              <strong>{purgingEmployee?.personalInfo?.name || purgingEmployee?.employeeCode}</strong> will be removed with
+              their leave, attendance and offboarding records, documents and uploaded files, and their login.
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-purge">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgingEmployee && purgeMutation.mutate(purgingEmployee.id)}
+              disabled={purgeMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-purge"
+            >
+              {purgeMutation.isPending ? "Deleting..." : "Delete Permanently"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -12,7 +12,7 @@ import {
   Calendar,
   Clock
 } from "lucide-react";
-import type { Employee, Department, Position } from "@shared/schema";
+import type { Employee, Department } from "@shared/schema";
 
 export default function HRDashboard() {
   const { user } = useAuth();
@@ -33,8 +33,8 @@ export default function HRDashboard() {
     enabled: !!user && ['COMPANY_ADMIN', 'HR_MANAGER'].includes(user?.role || '')
   });
 
-  const { data: positions = [] } = useQuery<Position[]>({
-    queryKey: ["/api/positions", companyContext],
+  const { data: vacancyReport } = useQuery<{ totals: { planned: number; filled: number; vacancies: number } }>({
+    queryKey: [`/api/positions/vacancies${companySlug ? `?companySlug=${companySlug}` : ''}`],
     enabled: !!user && ['COMPANY_ADMIN', 'HR_MANAGER'].includes(user?.role || '')
   });
 
@@ -42,7 +42,7 @@ export default function HRDashboard() {
   const stats = {
     totalEmployees: employees.length,
     activeDepartments: departments.length,
-    openPositions: positions.length,
+    openPositions: vacancyReport?.totals.vacancies ?? 0,
     probationEmployees: 5, // TODO: calculate from employee data
     pendingDocuments: 12, // TODO: calculate from documents
     leaveRequests: 3, // TODO: calculate from leave requests
@@ -120,7 +120,7 @@ export default function HRDashboard() {
               {stats.openPositions}
             </div>
             <p className="text-xs text-muted-foreground">
-              Available roles
+              Vacant seats against planned headcount
             </p>
           </CardContent>
         </Card>
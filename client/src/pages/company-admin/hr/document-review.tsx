@@ -0,0 +1,19 @@
+import { useParams } from "wouter";
+import DocumentReviewQueue from "@/components/DocumentReviewQueue";
+
+export default function HRDocumentReview() {
+  const { companySlug } = useParams<{ companySlug: string }>();
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-foreground">Document Review</h2>
+        <p className="text-muted-foreground">
+          Approve uploaded employee documents, or send them back with a reason
+        </p>
+      </div>
+
+      <DocumentReviewQueue companySlug={companySlug} />
+    </div>
+  );
+}
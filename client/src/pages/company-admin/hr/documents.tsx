@@ -11,6 +11,8 @@ import { FileText, Upload, Clock, CheckCircle, AlertTriangle, Search, Download,
 import { useQuery } from "@tanstack/react-query";
 import { useState } from "react";
 import { format } from "date-fns";
+import DocumentExpiryTracker from "@/components/DocumentExpiryTracker";
+import DocumentReviewQueue, { getApprovalStatusBadge } from "@/components/DocumentReviewQueue";
 
 export default function HRDocuments() {
   const { user } = useAuth();
@@ -37,15 +39,18 @@ export default function HRDocuments() {
     enabled: !!user
   });
 
+  // Expiry dates across employee records and uploaded documents
+  const { data: documentExpiry } = useQuery<{ counts: { EXPIRED: number } }>({
+    queryKey: [`/api/document-expiry${companySlug ? `?companySlug=${companySlug}` : ''}`],
+    enabled: !!user
+  });
+
   // Calculate document statistics from real data
   const documentStats = {
     total: documents.length,
-    pending: documents.filter((doc: any) => doc.status === 'pending').length,
-    approved: documents.filter((doc: any) => doc.status === 'approved').length,
-    expired: documents.filter((doc: any) => {
-      if (!doc.expiryDate) return false;
-      return new Date(doc.expiryDate) < new Date();
-    }).length
+    pending: documents.filter((doc: any) => doc.approvalStatus === 'PENDING').length,
+    approved: documents.filter((doc: any) => doc.approvalStatus === 'APPROVED').length,
+    expired: documentExpiry?.counts.EXPIRED ?? 0
   };
 
   // Document type configuration
@@ -242,14 +247,19 @@ export default function HRDocuments() {
       </div>
 
       {/* Document Management Tabs */}
-      <Tabs defaultValue="all" className="space-y-4">
+      <Tabs defaultValue="expiry" className="space-y-4">
         <TabsList>
+          <TabsTrigger value="expiry">Expiry Tracking ({documentStats.expired} expired)</TabsTrigger>
           <TabsTrigger value="all">All Documents ({filteredDocuments.length})</TabsTrigger>
           <TabsTrigger value="types">Document Types</TabsTrigger>
           <TabsTrigger value="pending">Pending Review ({documentStats.pending})</TabsTrigger>
-          <TabsTrigger value="expired">Expired ({documentStats.expired})</TabsTrigger>
         </TabsList>
 
+        {/* Expiry Tracking Tab */}
+        <TabsContent value="expiry" className="space-y-4">
+          <DocumentExpiryTracker companySlug={companySlug} />
+        </TabsContent>
+
         {/* All Documents Tab */}
         <TabsContent value="all" className="space-y-4">
           <Card>
@@ -291,11 +301,7 @@ export default function HRDocuments() {
                           {doc.uploadDate ? format(new Date(doc.uploadDate), "dd/MM/yyyy") : "-"}
                         </TableCell>
                         <TableCell>
-                          <Badge 
-                            variant={doc.status === 'approved' ? 'default' : doc.status === 'pending' ? 'secondary' : 'destructive'}
-                          >
-                            {doc.status || 'pending'}
-                          </Badge>
+                          {getApprovalStatusBadge(doc.approvalStatus)}
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-1">
@@ -363,56 +369,7 @@ export default function HRDocuments() {
 
         {/* Pending Documents Tab */}
         <TabsContent value="pending" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Documents Pending Review</CardTitle>
-            </CardHeader>
-            <CardContent>
-              {documentStats.pending > 0 ? (
-                <div className="space-y-4">
-                  <p className="text-sm text-muted-foreground">
-                    {documentStats.pending} documents require review and approval.
-                  </p>
-                  {/* Pending documents would be listed here */}
-                </div>
-              ) : (
-                <div className="text-center py-12">
-                  <CheckCircle className="w-16 h-16 mx-auto text-green-500 mb-4" />
-                  <h3 className="text-lg font-semibold mb-2">No Pending Documents</h3>
-                  <p className="text-muted-foreground">
-                    All documents are currently up to date.
-                  </p>
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        {/* Expired Documents Tab */}
-        <TabsContent value="expired" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Expired Documents</CardTitle>
-            </CardHeader>
-            <CardContent>
-              {documentStats.expired > 0 ? (
-                <div className="space-y-4">
-                  <p className="text-sm text-muted-foreground">
-                    {documentStats.expired} documents have expired and need renewal.
-                  </p>
-                  {/* Expired documents would be listed here */}
-                </div>
-              ) : (
-                <div className="text-center py-12">
-                  <CheckCircle className="w-16 h-16 mx-auto text-green-500 mb-4" />
-                  <h3 className="text-lg font-semibold mb-2">No Expired Documents</h3>
-                  <p className="text-muted-foreground">
-                    All documents are current and valid.
-                  </p>
-                </div>
-              )}
-            </CardContent>
-          </Card>
+          <DocumentReviewQueue companySlug={companySlug} />
         </TabsContent>
       </Tabs>
     </div>
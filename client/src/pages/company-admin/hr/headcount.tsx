@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface HeadcountCounts {
+  opening: number;
+  joiners: number;
+  leavers: number;
+  transfersIn: number;
+  transfersOut: number;
+  promotions: number;
+  closing: number;
+}
+
+interface HeadcountReport {
+  from: string;
+  to: string;
+  departments: (HeadcountCounts & { departmentId: string | null; departmentName: string })[];
+  totals: HeadcountCounts;
+}
+
+const COLUMNS: Array<{ key: keyof HeadcountCounts; label: string }> = [
+  { key: 'opening', label: 'Opening' },
+  { key: 'joiners', label: 'Joiners' },
+  { key: 'leavers', label: 'Leavers' },
+  { key: 'transfersIn', label: 'Transfers In' },
+  { key: 'transfersOut', label: 'Transfers Out' },
+  { key: 'promotions', label: 'Promotions' },
+  { key: 'closing', label: 'Closing' },
+];
+
+export default function HRHeadcount() {
+  const { user } = useAuth();
+  const today = new Date().toISOString().slice(0, 10);
+  const [from, setFrom] = useState(`${today.slice(0, 7)}-01`);
+  const [to, setTo] = useState(today);
+
+  const { data: report, isLoading } = useQuery<HeadcountReport>({
+    queryKey: ["/api/reports/headcount", from, to],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/reports/headcount?from=${from}&to=${to}`);
+      return await response.json();
+    },
+    enabled: !!user && !!from && !!to && from <= to
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-foreground">Headcount</h2>
+        <p className="text-muted-foreground">
+          Employees per department over a period, with joiners, leavers, transfers and promotions
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Period</CardTitle>
+          <CardDescription>Opening headcount is taken the day before the start date, closing headcount on the end date.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="headcount-from">From</Label>
+            <Input id="headcount-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-44" data-testid="input-headcount-from" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="headcount-to">To</Label>
+            <Input id="headcount-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-44" data-testid="input-headcount-to" />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Building report...</p>
+          ) : !report || report.departments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No departments or employees to report on.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="py-2">Department</th>
+                    {COLUMNS.map(column => (
+                      <th key={column.key} className="py-2 text-right">{column.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.departments.map(row => (
+                    <tr key={row.departmentId || 'unassigned'} className="border-b" data-testid={`row-headcount-${row.departmentId || 'unassigned'}`}>
+                      <td className="py-2 font-medium">{row.departmentName}</td>
+                      {COLUMNS.map(column => (
+                        <td key={column.key} className="py-2 text-right">{row[column.key]}</td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr className="font-semibold" data-testid="row-headcount-total">
+                    <td className="py-2">Total</td>
+                    {COLUMNS.map(column => (
+                      <td key={column.key} className="py-2 text-right">{report.totals[column.key]}</td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
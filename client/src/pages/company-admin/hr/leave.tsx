@@ -1,76 +1,282 @@
+import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Calendar, Clock, CheckCircle, XCircle, Plus } from "lucide-react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import HolidayCalendar from "@/components/HolidayCalendar";
+import { Calendar, Clock, CheckCircle, XCircle, Plus, Trash2, Inbox } from "lucide-react";
+import type { Employee, LeaveApprovalSettings, LeaveApprovalStep, LeaveRequest, LeaveType, LeaveTypeRules } from "@shared/schema";
+
+const APPROVAL_LEVEL_LABELS: Record<LeaveApprovalStep['level'], string> = {
+  REPORTING_MANAGER: 'Reporting Manager',
+  DEPARTMENT_MANAGER: 'Department Manager',
+  HR: 'HR',
+};
+
+function describeEntitlement(leaveType: LeaveType): string {
+  const rules = (leaveType.rules || {}) as LeaveTypeRules;
+  const carryOver = rules.carryOverCap ? ` Up to ${rules.carryOverCap} unused days carry over.` : '';
+  switch (rules.entitlement) {
+    case 'UAE_ANNUAL':
+      return `UAE Labour Law: 2 days/month after 6 months, 30 days/year after the first year.${carryOver}`;
+    case 'UAE_SICK':
+      return 'UAE Labour Law: 15 days full pay, 30 days half pay, 45 days unpaid after probation.';
+    case 'UAE_MATERNITY':
+      return 'UAE Labour Law: 45 days full pay and 15 days half pay.';
+    case 'UAE_PARENTAL':
+      return 'UAE Labour Law: 5 working days within 6 months of birth.';
+    default:
+      if (rules.paid === false) {
+        return `Up to ${leaveType.daysAllowed} days a year, deducted from salary in payroll.`;
+      }
+      return `Annual allowance for ${leaveType.name.toLowerCase()}.${carryOver}`;
+  }
+}
 
 export default function HRLeave() {
   const { user } = useAuth();
+  const { toast } = useToast();
   const params = useParams<{ companySlug: string }>();
   const { companySlug } = params;
+  const [isPolicyDialogOpen, setIsPolicyDialogOpen] = useState(false);
+  const [policyName, setPolicyName] = useState("");
+  const [policyDays, setPolicyDays] = useState("");
+  const [approvalSettings, setApprovalSettings] = useState<LeaveApprovalSettings>({});
+  const canManagePolicies = ['SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'].includes((user as any)?.role || '');
 
-  // Mock leave data - TODO: implement real leave management
-  const leaveStats = {
-    pending: 7,
-    approved: 23,
-    rejected: 2,
-    total: 32
+  const { data: leaveRequests = [], isLoading: requestsLoading } = useQuery<LeaveRequest[]>({
+    queryKey: ["/api/leave-requests"],
+    enabled: !!user
+  });
+
+  const { data: leaveTypes = [] } = useQuery<LeaveType[]>({
+    queryKey: ["/api/leave-types"],
+    enabled: !!user
+  });
+
+  const { data: employees = [] } = useQuery<Employee[]>({
+    queryKey: ["/api/employees"],
+    enabled: !!user
+  });
+
+  // Requests whose current approval step is waiting on this user
+  const { data: approvalInbox = [] } = useQuery<LeaveRequest[]>({
+    queryKey: ["/api/leave-requests/inbox"],
+    enabled: !!user
+  });
+
+  const { data: savedApprovalSettings } = useQuery<LeaveApprovalSettings>({
+    queryKey: ["/api/leave-settings"],
+    enabled: !!user && canManagePolicies
+  });
+
+  useEffect(() => {
+    if (savedApprovalSettings) {
+      setApprovalSettings(savedApprovalSettings);
+    }
+  }, [savedApprovalSettings]);
+
+  const invalidateLeaveQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/leave-requests"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/leave-requests/inbox"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/leave-types"] });
   };
 
-  const leaveTypes = [
-    { id: 'annual', name: 'Annual Leave', allowance: 30, color: 'blue' },
-    { id: 'sick', name: 'Sick Leave', allowance: 15, color: 'red' },
-    { id: 'maternity', name: 'Maternity Leave', allowance: 90, color: 'pink' },
-    { id: 'emergency', name: 'Emergency Leave', allowance: 5, color: 'orange' }
-  ];
-
-  const mockLeaveRequests = [
-    {
-      id: '1',
-      employee: 'Ahmed Al Mansouri',
-      type: 'Annual Leave',
-      startDate: '2024-03-15',
-      endDate: '2024-03-22',
-      days: 8,
-      status: 'pending',
-      reason: 'Family vacation'
+  // Approve / reject mutation
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'approve' | 'reject' }) => {
+      const response = await apiRequest('POST', `/api/leave-requests/${id}/${action}`, {});
+      return await response.json();
+    },
+    onSuccess: (data: LeaveRequest, variables) => {
+      const forwarded = variables.action === 'approve' && data.status === 'PENDING';
+      toast({
+        title: variables.action === 'approve' ? (forwarded ? "Approval Recorded" : "Leave Approved") : "Leave Rejected",
+        description: variables.action === 'approve'
+          ? (forwarded
+            ? "The request has moved on to the next approver."
+            : "The leave request has been approved and the balance updated.")
+          : "The leave request has been rejected.",
+      });
+      invalidateLeaveQueries();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Action Failed",
+        description: error.message || "Could not update the leave request.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Leave policy mutations
+  const createLeaveTypeMutation = useMutation({
+    mutationFn: async (data: { name: string; daysAllowed: number }) => {
+      const response = await apiRequest('POST', '/api/leave-types', data);
+      return await response.json();
+    },
+    onSuccess: (leaveType: LeaveType) => {
+      toast({
+        title: "Leave Policy Created",
+        description: `"${leaveType.name}" is now available for leave requests.`,
+      });
+      setIsPolicyDialogOpen(false);
+      setPolicyName("");
+      setPolicyDays("");
+      invalidateLeaveQueries();
     },
-    {
-      id: '2',
-      employee: 'Sara Abdullah',
-      type: 'Sick Leave',
-      startDate: '2024-03-20',
-      endDate: '2024-03-21',
-      days: 2,
-      status: 'approved',
-      reason: 'Medical appointment'
+    onError: (error: any) => {
+      toast({
+        title: "Create Failed",
+        description: error.message || "Could not create the leave policy.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const saveApprovalSettingsMutation = useMutation({
+    mutationFn: async (settings: LeaveApprovalSettings) => {
+      const response = await apiRequest('PUT', '/api/leave-settings', settings);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Approval Chain Updated",
+        description: "New leave requests will follow the updated approval chain.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/leave-settings"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Could not update the approval chain.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteLeaveTypeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/leave-types/${id}`);
+      return await response.json();
     },
-    {
-      id: '3',
-      employee: 'Mohammed Hassan',
-      type: 'Emergency Leave',
-      startDate: '2024-03-18',
-      endDate: '2024-03-18',
-      days: 1,
-      status: 'pending',
-      reason: 'Family emergency'
+    onSuccess: () => {
+      toast({
+        title: "Leave Policy Removed",
+        description: "The leave policy is no longer available for new requests.",
+      });
+      invalidateLeaveQueries();
     }
-  ];
+  });
 
   if (!user) {
     return <div>Loading...</div>;
   }
 
-  const getStatusBadge = (status: string) => {
+  const leaveStats = {
+    pending: leaveRequests.filter(r => r.status === 'PENDING').length,
+    approved: leaveRequests.filter(r => r.status === 'APPROVED').length,
+    rejected: leaveRequests.filter(r => r.status === 'REJECTED').length,
+    total: leaveRequests.length
+  };
+
+  const getEmployeeName = (employeeId: string) => {
+    const employee = employees.find(emp => emp.id === employeeId);
+    return employee?.personalInfo?.name || employee?.employeeCode || 'Unknown employee';
+  };
+
+  const getLeaveTypeName = (leaveTypeId: string) => {
+    return leaveTypes.find(type => type.id === leaveTypeId)?.name || 'Leave';
+  };
+
+  const getCurrentStepLabel = (request: LeaveRequest) => {
+    const chain = (request.approvalChain || []) as LeaveApprovalStep[];
+    const step = chain[request.currentStep || 0];
+    return step ? `Awaiting ${APPROVAL_LEVEL_LABELS[step.level]}` : null;
+  };
+
+  const approvedLeave = leaveRequests
+    .filter(r => r.status === 'APPROVED')
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  const handleCreatePolicy = () => {
+    const daysAllowed = parseInt(policyDays, 10);
+    if (!policyName.trim() || isNaN(daysAllowed) || daysAllowed < 0) {
+      toast({
+        title: "Invalid Policy",
+        description: "Enter a name and a non-negative number of days.",
+        variant: "destructive",
+      });
+      return;
+    }
+    createLeaveTypeMutation.mutate({ name: policyName.trim(), daysAllowed });
+  };
+
+  const renderRequestCard = (request: LeaveRequest) => (
+    <Card key={request.id} className="hover-elevate" data-testid={`card-leave-request-${request.id}`}>
+      <CardContent className="p-6">
+        <div className="flex items-start justify-between">
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <h3 className="font-semibold">{getEmployeeName(request.employeeId)}</h3>
+              {getStatusBadge(request.status)}
+              {request.status === 'PENDING' && getCurrentStepLabel(request) && (
+                <Badge variant="outline">{getCurrentStepLabel(request)}</Badge>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">{getLeaveTypeName(request.leaveTypeId)}</p>
+            <div className="flex items-center space-x-4 text-sm">
+              <span>{request.startDate} to {request.endDate}</span>
+              <span className="font-medium">{request.daysRequested} days</span>
+            </div>
+            {request.reason && <p className="text-sm">{request.reason}</p>}
+          </div>
+          {request.status === 'PENDING' && (
+            <div className="flex space-x-2">
+              <Button
+                size="sm"
+                className="bg-green-600"
+                disabled={reviewMutation.isPending}
+                onClick={() => reviewMutation.mutate({ id: request.id, action: 'approve' })}
+                data-testid={`button-approve-leave-${request.id}`}
+              >
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={reviewMutation.isPending}
+                onClick={() => reviewMutation.mutate({ id: request.id, action: 'reject' })}
+                data-testid={`button-reject-leave-${request.id}`}
+              >
+                Reject
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  const getStatusBadge = (status: string | null) => {
     switch (status) {
-      case 'pending':
+      case 'PENDING':
         return <Badge variant="secondary" className="text-orange-600">Pending</Badge>;
-      case 'approved':
+      case 'APPROVED':
         return <Badge variant="default" className="bg-green-600">Approved</Badge>;
-      case 'rejected':
+      case 'REJECTED':
         return <Badge variant="destructive">Rejected</Badge>;
+      case 'CANCELLED':
+        return <Badge variant="outline">Cancelled</Badge>;
       default:
         return <Badge>{status}</Badge>;
     }
@@ -85,7 +291,7 @@ export default function HRLeave() {
             Manage employee leave requests and policies
           </p>
         </div>
-        <Button data-testid="button-add-leave-policy">
+        <Button data-testid="button-add-leave-policy" onClick={() => setIsPolicyDialogOpen(true)}>
           <Plus className="w-4 h-4 mr-2" />
           Add Leave Policy
         </Button>
@@ -100,7 +306,7 @@ export default function HRLeave() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{leaveStats.total}</div>
-            <p className="text-xs text-muted-foreground">This month</p>
+            <p className="text-xs text-muted-foreground">All requests</p>
           </CardContent>
         </Card>
 
@@ -141,80 +347,218 @@ export default function HRLeave() {
       <Tabs defaultValue="requests" className="space-y-4">
         <TabsList>
           <TabsTrigger value="requests">Leave Requests</TabsTrigger>
+          <TabsTrigger value="inbox" data-testid="tab-leave-inbox">
+            My Approvals{approvalInbox.length > 0 ? ` (${approvalInbox.length})` : ''}
+          </TabsTrigger>
           <TabsTrigger value="policies">Leave Policies</TabsTrigger>
           <TabsTrigger value="calendar">Leave Calendar</TabsTrigger>
+          <TabsTrigger value="holidays" data-testid="tab-holidays">Holidays</TabsTrigger>
         </TabsList>
 
         <TabsContent value="requests" className="space-y-4">
-          <div className="space-y-4">
-            {mockLeaveRequests.map((request) => (
-              <Card key={request.id} className="hover-elevate" data-testid={`card-leave-request-${request.id}`}>
-                <CardContent className="p-6">
-                  <div className="flex items-start justify-between">
-                    <div className="space-y-2">
-                      <div className="flex items-center space-x-2">
-                        <h3 className="font-semibold">{request.employee}</h3>
-                        {getStatusBadge(request.status)}
-                      </div>
-                      <p className="text-sm text-muted-foreground">{request.type}</p>
-                      <div className="flex items-center space-x-4 text-sm">
-                        <span>{request.startDate} to {request.endDate}</span>
-                        <span className="font-medium">{request.days} days</span>
-                      </div>
-                      <p className="text-sm">{request.reason}</p>
-                    </div>
-                    {request.status === 'pending' && (
-                      <div className="flex space-x-2">
-                        <Button size="sm" className="bg-green-600">
-                          Approve
-                        </Button>
-                        <Button size="sm" variant="outline">
-                          Reject
-                        </Button>
-                      </div>
-                    )}
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+          {requestsLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading leave requests...</div>
+          ) : leaveRequests.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12">
+                <Calendar className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+                <h3 className="text-lg font-semibold mb-2">No Leave Requests</h3>
+                <p className="text-muted-foreground">
+                  Leave requests submitted by employees will appear here.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {leaveRequests.map(renderRequestCard)}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="inbox" className="space-y-4">
+          {approvalInbox.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12">
+                <Inbox className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Nothing Awaiting You</h3>
+                <p className="text-muted-foreground">
+                  Leave requests that need your approval will appear here.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {approvalInbox.map(renderRequestCard)}
+            </div>
+          )}
         </TabsContent>
 
         <TabsContent value="policies" className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {leaveTypes.map((type) => (
-              <Card key={type.id} className="hover-elevate" data-testid={`card-leave-type-${type.id}`}>
-                <CardHeader>
-                  <CardTitle className="flex items-center justify-between">
-                    <span>{type.name}</span>
-                    <Badge variant="outline">{type.allowance} days</Badge>
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-sm text-muted-foreground mb-4">
-                    Annual allowance for {type.name.toLowerCase()}
-                  </p>
-                  <Button variant="outline" size="sm" className="w-full">
-                    Edit Policy
-                  </Button>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+          {canManagePolicies && (
+            <Card data-testid="card-leave-approval-settings">
+              <CardHeader>
+                <CardTitle>Approval Chain</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Requests go to the reporting manager, then the department manager, then HR. Skipped or unassigned levels are left out.
+                </p>
+                {([
+                  ['skipReportingManager', 'Skip reporting manager'],
+                  ['skipDepartmentManager', 'Skip department manager'],
+                  ['skipHr', 'Skip HR'],
+                ] as const).map(([key, label]) => (
+                  <div key={key} className="flex items-center justify-between">
+                    <Label htmlFor={key}>{label}</Label>
+                    <Switch
+                      id={key}
+                      checked={!!approvalSettings[key]}
+                      onCheckedChange={(checked) => setApprovalSettings({ ...approvalSettings, [key]: checked })}
+                      data-testid={`switch-${key}`}
+                    />
+                  </div>
+                ))}
+                <div className="space-y-2">
+                  <Label htmlFor="auto-approve-days">Auto-approve requests shorter than (days)</Label>
+                  <Input
+                    id="auto-approve-days"
+                    type="number"
+                    min={0}
+                    value={approvalSettings.autoApproveUnderDays ?? ""}
+                    onChange={(e) => setApprovalSettings({
+                      ...approvalSettings,
+                      autoApproveUnderDays: e.target.value === "" ? undefined : parseInt(e.target.value, 10),
+                    })}
+                    data-testid="input-auto-approve-days"
+                  />
+                </div>
+                <Button
+                  onClick={() => saveApprovalSettingsMutation.mutate(approvalSettings)}
+                  disabled={saveApprovalSettingsMutation.isPending}
+                  data-testid="button-save-approval-settings"
+                >
+                  Save Approval Chain
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {leaveTypes.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12">
+                <h3 className="text-lg font-semibold mb-2">No Leave Policies</h3>
+                <p className="text-muted-foreground">
+                  Add a leave policy so employees can request leave.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {leaveTypes.map((type) => (
+                <Card key={type.id} className="hover-elevate" data-testid={`card-leave-type-${type.id}`}>
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                      <span>{type.name}</span>
+                      <Badge variant="outline">{type.daysAllowed} days</Badge>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      {describeEntitlement(type)}
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      disabled={deleteLeaveTypeMutation.isPending}
+                      onClick={() => deleteLeaveTypeMutation.mutate(type.id)}
+                      data-testid={`button-delete-leave-type-${type.id}`}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Remove Policy
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
         </TabsContent>
 
         <TabsContent value="calendar" className="space-y-4">
-          <Card>
-            <CardContent className="text-center py-12">
-              <Calendar className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
-              <h3 className="text-lg font-semibold mb-2">Leave Calendar</h3>
-              <p className="text-muted-foreground">
-                Visual calendar view of all approved leave requests.
-              </p>
-            </CardContent>
-          </Card>
+          {approvedLeave.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12">
+                <Calendar className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Leave Calendar</h3>
+                <p className="text-muted-foreground">
+                  Approved leave requests will appear here.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="p-6 space-y-3">
+                {approvedLeave.map((request) => (
+                  <div key={request.id} className="flex items-center justify-between border-b last:border-0 pb-3 last:pb-0">
+                    <div>
+                      <p className="font-medium">{getEmployeeName(request.employeeId)}</p>
+                      <p className="text-sm text-muted-foreground">{getLeaveTypeName(request.leaveTypeId)}</p>
+                    </div>
+                    <span className="text-sm">{request.startDate} to {request.endDate}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="holidays" className="space-y-4">
+          <HolidayCalendar canManage={canManagePolicies} />
         </TabsContent>
       </Tabs>
+
+      <Dialog open={isPolicyDialogOpen} onOpenChange={setIsPolicyDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Leave Policy</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="policy-name">Policy Name</Label>
+              <Input
+                id="policy-name"
+                value={policyName}
+                onChange={(e) => setPolicyName(e.target.value)}
+                placeholder="e.g. Annual Leave"
+                data-testid="input-policy-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-days">Days Allowed per Year</Label>
+              <Input
+                id="policy-days"
+                type="number"
+                min={0}
+                value={policyDays}
+                onChange={(e) => setPolicyDays(e.target.value)}
+                data-testid="input-policy-days"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPolicyDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreatePolicy}
+              disabled={createLeaveTypeMutation.isPending}
+              data-testid="button-save-leave-policy"
+            >
+              Save Policy
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, Clock, RefreshCw, UserMinus, XCircle } from "lucide-react";
+import type { EmployeeOffboarding, OffboardingChecklistItem } from "@shared/schema";
+
+type OffboardingCase = EmployeeOffboarding & { employeeCode: string | null; employeeName: string };
+
+interface SettlementSnapshot {
+  gratuity: { amount: number; gratuityDays: number; serviceYears: number; eligible: boolean };
+  unusedLeaveDays: number;
+  leaveEncashment: number;
+  outstandingSalaryDays: number;
+  outstandingSalary: number;
+  finalPayrollMonth?: string;
+  finalPayrollLocked?: boolean;
+  total: number;
+}
+
+function formatAmount(amount: number | string | null | undefined): string {
+  return `AED ${Number(amount || 0).toLocaleString('en-AE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function getStatusBadge(status: string | null) {
+  switch (status) {
+    case 'COMPLETED':
+      return <Badge className="bg-gray-100 text-gray-800">Completed</Badge>;
+    case 'CANCELLED':
+      return <Badge className="bg-red-100 text-red-800">Cancelled</Badge>;
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-800">In Progress</Badge>;
+  }
+}
+
+export default function HROffboarding() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState("IN_PROGRESS");
+  const today = new Date().toISOString().slice(0, 10);
+
+  const { data: offboardings = [], isLoading } = useQuery<OffboardingCase[]>({
+    queryKey: ["/api/offboardings", statusFilter],
+    queryFn: async () => {
+      const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`;
+      const response = await apiRequest('GET', `/api/offboardings${query}`);
+      return await response.json();
+    },
+    enabled: !!user
+  });
+
+  const handleError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/offboardings"] });
+  };
+
+  const checklistMutation = useMutation({
+    mutationFn: async ({ id, key, completed }: { id: string; key: string; completed: boolean }) => {
+      const response = await apiRequest('PATCH', `/api/offboardings/${id}/checklist`, { key, completed });
+      return await response.json();
+    },
+    onSuccess: invalidate,
+    onError: handleError("Checklist Update Failed"),
+  });
+
+  const settlementMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/offboardings/${id}/settlement`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Settlement Recalculated", description: "The final settlement reflects current leave and payroll." });
+      invalidate();
+    },
+    onError: handleError("Recalculation Failed"),
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/offboardings/${id}/complete`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Offboarding Completed", description: "The employee is terminated and their login deactivated." });
+      invalidate();
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/employees") });
+    },
+    onError: handleError("Completion Failed"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/offboardings/${id}/cancel`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Offboarding Cancelled", description: "The employee remains active." });
+      invalidate();
+    },
+    onError: handleError("Cancellation Failed"),
+  });
+
+  const inProgressCount = offboardings.filter(item => item.status === 'IN_PROGRESS').length;
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Offboarding</h2>
+          <p className="text-muted-foreground">
+            Resignations and terminations, exit checklists and final settlements
+          </p>
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-48" data-testid="select-offboarding-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="IN_PROGRESS">In Progress</SelectItem>
+            <SelectItem value="COMPLETED">Completed</SelectItem>
+            <SelectItem value="CANCELLED">Cancelled</SelectItem>
+            <SelectItem value="all">All</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading offboardings...</p>
+      ) : offboardings.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <UserMinus className="w-10 h-10 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              No offboardings here. Start one from the employee list with "Offboard Employee".
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {statusFilter === 'IN_PROGRESS' && (
+            <p className="text-sm text-muted-foreground">{inProgressCount} employee(s) currently leaving.</p>
+          )}
+          {offboardings.map(offboarding => {
+            const checklist = (offboarding.checklist || []) as OffboardingChecklistItem[];
+            const settlement = offboarding.settlement as SettlementSnapshot | null;
+            const isOpen = offboarding.status === 'IN_PROGRESS';
+            const servingNotice = offboarding.lastWorkingDate > today;
+
+            return (
+              <Card key={offboarding.id} data-testid={`card-offboarding-${offboarding.id}`}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div>
+                    <CardTitle>{offboarding.employeeName}</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {offboarding.employeeCode} · {offboarding.separationType === 'RESIGNATION' ? 'Resignation' : 'Termination'} ·
+                      notice given {offboarding.noticeDate} ({offboarding.noticePeriodDays} days) · last working day {offboarding.lastWorkingDate}
+                    </p>
+                    {offboarding.reason && <p className="text-sm mt-1">{offboarding.reason}</p>}
+                  </div>
+                  {getStatusBadge(offboarding.status)}
+                </CardHeader>
+                <CardContent className="grid gap-6 md:grid-cols-2">
+                  <div className="space-y-3">
+                    <h4 className="font-medium">Checklist</h4>
+                    {checklist.map(item => (
+                      <label key={item.key} className="flex items-start gap-3 text-sm">
+                        <Checkbox
+                          checked={item.completed}
+                          disabled={!isOpen || item.key === 'ACCESS_REVOCATION' || checklistMutation.isPending}
+                          onCheckedChange={(checked) => checklistMutation.mutate({ id: offboarding.id, key: item.key, completed: checked === true })}
+                          data-testid={`checkbox-${offboarding.id}-${item.key}`}
+                        />
+                        <span>
+                          {item.label}
+                          {item.key === 'ACCESS_REVOCATION' && !item.completed && (
+                            <span className="block text-xs text-muted-foreground">Done automatically on completion</span>
+                          )}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+
+                  <div className="space-y-2">
+                    <h4 className="font-medium">Final Settlement</h4>
+                    {settlement ? (
+                      <>
+                        <div className="flex justify-between text-sm">
+                          <span>Gratuity ({settlement.gratuity.gratuityDays.toFixed(2)} days)</span>
+                          <span>{formatAmount(settlement.gratuity.amount)}</span>
+                        </div>
+                        <div className="flex justify-between text-sm">
+                          <span>Leave encashment ({settlement.unusedLeaveDays} days)</span>
+                          <span>{formatAmount(settlement.leaveEncashment)}</span>
+                        </div>
+                        <div className="flex justify-between text-sm">
+                          <span>
+                            Outstanding salary ({settlement.finalPayrollLocked === false
+                              ? `paid with the ${settlement.finalPayrollMonth} payroll`
+                              : `${settlement.outstandingSalaryDays} days`})
+                          </span>
+                          <span>{formatAmount(settlement.outstandingSalary)}</span>
+                        </div>
+                        <div className="flex justify-between border-t pt-2 font-semibold">
+                          <span>Total</span>
+                          <span>{formatAmount(settlement.total)}</span>
+                        </div>
+                      </>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Not calculated yet.</p>
+                    )}
+                  </div>
+
+                  {isOpen && (
+                    <div className="md:col-span-2 flex flex-wrap items-center gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => settlementMutation.mutate(offboarding.id)}
+                        disabled={settlementMutation.isPending}
+                        data-testid={`button-recalculate-settlement-${offboarding.id}`}
+                      >
+                        <RefreshCw className="w-4 h-4 mr-2" />
+                        Recalculate Settlement
+                      </Button>
+                      <Button
+                        onClick={() => completeMutation.mutate(offboarding.id)}
+                        disabled={completeMutation.isPending || servingNotice}
+                        data-testid={`button-complete-offboarding-${offboarding.id}`}
+                      >
+                        <CheckCircle className="w-4 h-4 mr-2" />
+                        Complete Offboarding
+                      </Button>
+                      <Button
+                        variant="outline"
+                        className="text-destructive"
+                        onClick={() => cancelMutation.mutate(offboarding.id)}
+                        disabled={cancelMutation.isPending}
+                        data-testid={`button-cancel-offboarding-${offboarding.id}`}
+                      >
+                        <XCircle className="w-4 h-4 mr-2" />
+                        Cancel
+                      </Button>
+                      {servingNotice && (
+                        <span className="text-sm text-muted-foreground flex items-center gap-1">
+                          <Clock className="w-4 h-4" />
+                          Serving notice until {offboarding.lastWorkingDate}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,432 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import type { Department, Position } from "@shared/schema";
+
+interface PositionVacancy {
+  position: Position;
+  planned: number;
+  filled: number;
+  vacancies: number;
+  overfilled: number;
+  outOfBand: number;
+}
+
+interface VacancyReport {
+  departments: {
+    departmentId: string | null;
+    departmentName: string;
+    planned: number;
+    filled: number;
+    vacancies: number;
+    positions: PositionVacancy[];
+  }[];
+  totals: { planned: number; filled: number; vacancies: number };
+  unmatchedEmployees: number;
+}
+
+interface PositionForm {
+  title: string;
+  departmentId: string;
+  level: string;
+  grade: string;
+  plannedHeadcount: string;
+  salaryBandMin: string;
+  salaryBandMax: string;
+  jobDescription: string;
+}
+
+const EMPTY_FORM: PositionForm = {
+  title: "",
+  departmentId: "",
+  level: "",
+  grade: "",
+  plannedHeadcount: "1",
+  salaryBandMin: "",
+  salaryBandMax: "",
+  jobDescription: "",
+};
+
+function formatAmount(amount: number | string | null | undefined): string {
+  return `AED ${Number(amount || 0).toLocaleString('en-AE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatBand(position: Position): string {
+  if (!position.salaryBandMin && !position.salaryBandMax) return '—';
+  if (!position.salaryBandMax) return `From ${formatAmount(position.salaryBandMin)}`;
+  if (!position.salaryBandMin) return `Up to ${formatAmount(position.salaryBandMax)}`;
+  return `${formatAmount(position.salaryBandMin)} – ${formatAmount(position.salaryBandMax)}`;
+}
+
+export default function HRPositions() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { companySlug } = useParams<{ companySlug: string }>();
+  // Super admins work on the company in the URL
+  const companyQuery = companySlug ? `?companySlug=${companySlug}` : '';
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Position | null>(null);
+  const [form, setForm] = useState<PositionForm>(EMPTY_FORM);
+
+  const { data: report, isLoading } = useQuery<VacancyReport>({
+    queryKey: [`/api/positions/vacancies${companyQuery}`],
+    enabled: !!user
+  });
+
+  const { data: departments = [] } = useQuery<Department[]>({
+    queryKey: [`/api/departments${companyQuery}`],
+    enabled: !!user
+  });
+
+  const openDialog = (position: Position | null) => {
+    setEditing(position);
+    setForm(position ? {
+      title: position.title,
+      departmentId: position.departmentId,
+      level: position.level || "",
+      grade: position.grade || "",
+      plannedHeadcount: String(position.plannedHeadcount ?? 0),
+      salaryBandMin: position.salaryBandMin || "",
+      salaryBandMax: position.salaryBandMax || "",
+      jobDescription: position.jobDescription || "",
+    } : EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const updateForm = (field: keyof PositionForm, value: string) =>
+    setForm(current => ({ ...current, [field]: value }));
+
+  const invalidate = () => {
+    // Position lists are keyed by URL, some with a companySlug query string
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/positions") });
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/employees") });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        title: form.title.trim(),
+        departmentId: form.departmentId,
+        level: form.level.trim() || null,
+        grade: form.grade.trim() || null,
+        plannedHeadcount: parseInt(form.plannedHeadcount || "0", 10),
+        salaryBandMin: form.salaryBandMin.trim() || null,
+        salaryBandMax: form.salaryBandMax.trim() || null,
+        jobDescription: form.jobDescription.trim() || null,
+        companySlug,
+      };
+      const response = editing
+        ? await apiRequest('PUT', `/api/positions/${editing.id}`, body)
+        : await apiRequest('POST', '/api/positions', body);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: editing ? "Position Updated" : "Position Created",
+        description: editing && editing.title !== form.title.trim()
+          ? "Employees holding this position now show the new title."
+          : "The headcount plan has been updated.",
+      });
+      invalidate();
+      setDialogOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Could not save the position.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (positionId: string) => {
+      const response = await apiRequest('DELETE', `/api/positions/${positionId}${companyQuery}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Position Deleted",
+        description: "The position has been removed from the headcount plan.",
+      });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Could not delete the position.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleDelete = (position: Position) => {
+    if (window.confirm(`Delete the ${position.title} position?`)) {
+      deleteMutation.mutate(position.id);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Positions</h2>
+          <p className="text-muted-foreground">
+            Planned headcount, grades and salary bands, with the vacancies in each department
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)} disabled={departments.length === 0} data-testid="button-add-position">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Position
+        </Button>
+      </div>
+
+      {report && (
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Planned Headcount</CardDescription>
+              <CardTitle className="text-2xl" data-testid="text-planned-headcount">{report.totals.planned}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Filled</CardDescription>
+              <CardTitle className="text-2xl" data-testid="text-filled-headcount">{report.totals.filled}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Vacancies</CardDescription>
+              <CardTitle className="text-2xl text-green-600" data-testid="text-vacancies">{report.totals.vacancies}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+      )}
+
+      {report && report.unmatchedEmployees > 0 && (
+        <p className="text-sm text-muted-foreground" data-testid="text-unmatched-employees">
+          {report.unmatchedEmployees} active employee{report.unmatchedEmployees === 1 ? '' : 's'} hold a position title that is not in the plan.
+        </p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading positions...</p>
+      ) : !report || report.departments.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">No positions have been set up yet.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        report.departments.map(group => (
+          <Card key={group.departmentId || 'none'} data-testid={`card-positions-${group.departmentId || 'none'}`}>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>{group.departmentName}</span>
+                <span className="text-sm font-normal text-muted-foreground">
+                  {group.filled} of {group.planned} filled · {group.vacancies} vacant
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left">
+                      <th className="py-2">Position</th>
+                      <th className="py-2">Level</th>
+                      <th className="py-2">Grade</th>
+                      <th className="py-2">Salary Band</th>
+                      <th className="py-2 text-right">Planned</th>
+                      <th className="py-2 text-right">Filled</th>
+                      <th className="py-2 text-right">Vacant</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {group.positions.map(row => (
+                      <tr key={row.position.id} className="border-b" data-testid={`row-position-${row.position.id}`}>
+                        <td className="py-2 font-medium">
+                          {row.position.title}
+                          {row.overfilled > 0 && (
+                            <Badge variant="destructive" className="ml-2">+{row.overfilled} over plan</Badge>
+                          )}
+                          {row.outOfBand > 0 && (
+                            <Badge variant="outline" className="ml-2">{row.outOfBand} outside band</Badge>
+                          )}
+                        </td>
+                        <td className="py-2">{row.position.level || '—'}</td>
+                        <td className="py-2">{row.position.grade || '—'}</td>
+                        <td className="py-2">{formatBand(row.position)}</td>
+                        <td className="py-2 text-right">{row.planned}</td>
+                        <td className="py-2 text-right">{row.filled}</td>
+                        <td className="py-2 text-right">{row.vacancies}</td>
+                        <td className="py-2 text-right space-x-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openDialog(row.position)}
+                            data-testid={`button-edit-position-${row.position.id}`}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => handleDelete(row.position)}
+                            disabled={deleteMutation.isPending || row.filled > 0}
+                            title={row.filled > 0 ? "Positions with employees cannot be deleted" : undefined}
+                            data-testid={`button-delete-position-${row.position.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Position" : "Add Position"}</DialogTitle>
+            <DialogDescription>
+              The salary band is the monthly total salary range for the position.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="position-title">Title</Label>
+              <Input
+                id="position-title"
+                value={form.title}
+                onChange={(e) => updateForm('title', e.target.value)}
+                data-testid="input-position-title"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Department</Label>
+              <Select value={form.departmentId} onValueChange={(value) => updateForm('departmentId', value)}>
+                <SelectTrigger data-testid="select-position-department">
+                  <SelectValue placeholder="Select department" />
+                </SelectTrigger>
+                <SelectContent>
+                  {departments.map(department => (
+                    <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="position-level">Level</Label>
+                <Input
+                  id="position-level"
+                  value={form.level}
+                  onChange={(e) => updateForm('level', e.target.value)}
+                  placeholder="e.g. Senior"
+                  data-testid="input-position-level"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="position-grade">Grade</Label>
+                <Input
+                  id="position-grade"
+                  value={form.grade}
+                  onChange={(e) => updateForm('grade', e.target.value)}
+                  placeholder="e.g. G7"
+                  data-testid="input-position-grade"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="position-planned-headcount">Planned</Label>
+                <Input
+                  id="position-planned-headcount"
+                  type="number"
+                  min="0"
+                  value={form.plannedHeadcount}
+                  onChange={(e) => updateForm('plannedHeadcount', e.target.value)}
+                  data-testid="input-position-planned-headcount"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="position-band-min">Band Minimum (AED)</Label>
+                <Input
+                  id="position-band-min"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.salaryBandMin}
+                  onChange={(e) => updateForm('salaryBandMin', e.target.value)}
+                  data-testid="input-position-band-min"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="position-band-max">Band Maximum (AED)</Label>
+                <Input
+                  id="position-band-max"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.salaryBandMax}
+                  onChange={(e) => updateForm('salaryBandMax', e.target.value)}
+                  data-testid="input-position-band-max"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="position-description">Job Description</Label>
+              <Textarea
+                id="position-description"
+                value={form.jobDescription}
+                onChange={(e) => updateForm('jobDescription', e.target.value)}
+                placeholder="Optional"
+                data-testid="input-position-description"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} data-testid="button-cancel-position">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !form.title.trim() || !form.departmentId}
+              data-testid="button-save-position"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Position"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
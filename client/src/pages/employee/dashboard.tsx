@@ -20,6 +20,8 @@ import {
 } from "lucide-react";
 import Header from "@/components/Header";
 import Sidebar from "@/components/Sidebar";
+import AttendanceCheckIn from "@/components/AttendanceCheckIn";
+import MyPayslips from "@/components/MyPayslips";
 
 export default function EmployeeDashboard() {
   const { user } = useAuth();
@@ -244,6 +246,16 @@ export default function EmployeeDashboard() {
             </Card>
           </div>
 
+          {/* Attendance */}
+          <div className="mb-8">
+            <AttendanceCheckIn />
+          </div>
+
+          {/* Payslips */}
+          <div className="mb-8">
+            <MyPayslips />
+          </div>
+
           {/* Quick Actions */}
           <Card className="mb-8">
             <CardHeader>
@@ -52,6 +52,13 @@ export default function Home() {
     enabled: !!user
   });
 
+  // Expired documents and those expiring within 30 days; the report is limited to HR roles
+  const { data: documentExpiry } = useQuery<{ counts: { EXPIRED: number; WITHIN_30: number } }>({
+    queryKey: companySlug ? ["/api/document-expiry", companySlug] : ["/api/document-expiry"],
+    queryFn: () => fetch(`/api/document-expiry${companySlug ? `?companySlug=${companySlug}` : ''}`).then(r => r.json()),
+    enabled: !!user && ['SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'].includes(user?.role || '')
+  });
+
   // Calculate stats from real data
   const stats = {
     totalEmployees: employees.length,
@@ -64,7 +71,7 @@ export default function Home() {
       return empDetails?.employmentStatus === 'PROBATION';
     }).length,
     pendingDocuments: 12, // TODO: implement document tracking
-    expiringDocuments: 5, // TODO: implement document expiry tracking
+    expiringDocuments: documentExpiry?.counts ? documentExpiry.counts.EXPIRED + documentExpiry.counts.WITHIN_30 : 0,
     pendingLeave: 7, // TODO: implement leave tracking
     totalCompanies: 24, // TODO: implement for super admin
     recentActivities: [] // TODO: implement activity tracking
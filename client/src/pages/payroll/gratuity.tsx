@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Award, Calculator, RefreshCw, Users } from "lucide-react";
+
+interface GratuityCalculation {
+  employeeId: string;
+  startDate: string | null;
+  endDate: string;
+  totalServiceDays: number;
+  unpaidLeaveDays: number;
+  eligibleServiceDays: number;
+  serviceYears: number;
+  basicSalary: number;
+  dailyBasicWage: number;
+  gratuityDays: number;
+  cap: number;
+  amount: number;
+  eligible: boolean;
+}
+
+interface GratuityAccrualReport {
+  asOf: string;
+  totalLiability: number;
+  employees: (GratuityCalculation & { employeeCode: string | null; name: string })[];
+}
+
+interface FinalSettlement {
+  employeeId: string;
+  terminationDate: string;
+  reason: 'RESIGNATION' | 'TERMINATION';
+  gratuity: GratuityCalculation;
+  unusedLeaveDays: number;
+  leaveEncashment: number;
+  outstandingSalaryDays: number;
+  outstandingSalary: number;
+  finalPayrollMonth?: string;
+  finalPayrollLocked?: boolean;
+  total: number;
+}
+
+function formatAmount(amount: number | string | null | undefined): string {
+  return `AED ${Number(amount || 0).toLocaleString('en-AE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export default function Gratuity() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const today = new Date().toISOString().slice(0, 10);
+  const [asOf, setAsOf] = useState(today);
+  const [settlementEmployeeId, setSettlementEmployeeId] = useState("");
+  const [terminationDate, setTerminationDate] = useState(today);
+  const [reason, setReason] = useState<'RESIGNATION' | 'TERMINATION'>('TERMINATION');
+
+  const { data: report, isLoading } = useQuery<GratuityAccrualReport>({
+    queryKey: ["/api/gratuity/accrual", asOf],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/gratuity/accrual?asOf=${asOf}`);
+      return await response.json();
+    },
+    enabled: !!user && !!asOf
+  });
+
+  const { data: settlement, isFetching: isCalculating } = useQuery<FinalSettlement>({
+    queryKey: ["/api/employees", settlementEmployeeId, "final-settlement", terminationDate, reason],
+    queryFn: async () => {
+      const response = await apiRequest(
+        'GET',
+        `/api/employees/${settlementEmployeeId}/final-settlement?terminationDate=${terminationDate}&reason=${reason}`
+      );
+      return await response.json();
+    },
+    enabled: !!settlementEmployeeId && !!terminationDate
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/gratuity/accrual/refresh');
+      return await response.json();
+    },
+    onSuccess: (result: { updated: number }) => {
+      toast({
+        title: "Accruals Updated",
+        description: `Stored the accrued gratuity for ${result.updated} employee(s).`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Could not update gratuity accruals.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const employees = report?.employees || [];
+  const eligibleCount = employees.filter(entry => entry.eligible).length;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">End of Service</h1>
+          <p className="text-muted-foreground">
+            Gratuity accrual and final settlements under UAE Labour Law
+          </p>
+        </div>
+        <Button
+          onClick={() => refreshMutation.mutate()}
+          disabled={refreshMutation.isPending}
+          className="bg-orange-600 hover:bg-orange-700"
+          data-testid="button-refresh-gratuity"
+        >
+          <RefreshCw className="w-4 h-4 mr-2" />
+          {refreshMutation.isPending ? "Updating..." : "Update Employee Records"}
+        </Button>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Award className="w-5 h-5 text-orange-500" />
+              Total Liability
+            </CardTitle>
+            <CardDescription>Gratuity accrued as of {report?.asOf || asOf}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-gratuity-liability">{formatAmount(report?.totalLiability)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="w-5 h-5 text-blue-500" />
+              Eligible Employees
+            </CardTitle>
+            <CardDescription>One year of service or more</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{eligibleCount} / {employees.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calculator className="w-5 h-5 text-green-500" />
+              Report Date
+            </CardTitle>
+            <CardDescription>Accrual is calculated up to this date</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} data-testid="input-gratuity-as-of" />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Accrual Report</CardTitle>
+          <CardDescription>
+            21 days' basic salary per year for the first five years, 30 days after that, capped at two years' basic salary.
+            Unpaid leave does not count as service.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Calculating accruals...</p>
+          ) : employees.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No active employees.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="py-2">Employee</th>
+                    <th className="py-2">Start Date</th>
+                    <th className="py-2 text-right">Service (years)</th>
+                    <th className="py-2 text-right">Unpaid Leave</th>
+                    <th className="py-2 text-right">Basic Salary</th>
+                    <th className="py-2 text-right">Gratuity Days</th>
+                    <th className="py-2 text-right">Accrued</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {employees.map(entry => (
+                    <tr key={entry.employeeId} className="border-b" data-testid={`row-gratuity-${entry.employeeId}`}>
+                      <td className="py-2">
+                        <p className="font-medium">{entry.name}</p>
+                        <p className="text-xs text-muted-foreground">{entry.employeeCode}</p>
+                      </td>
+                      <td className="py-2">{entry.startDate || '-'}</td>
+                      <td className="py-2 text-right">{entry.serviceYears.toFixed(2)}</td>
+                      <td className="py-2 text-right">{entry.unpaidLeaveDays} days</td>
+                      <td className="py-2 text-right">{formatAmount(entry.basicSalary)}</td>
+                      <td className="py-2 text-right">{entry.gratuityDays.toFixed(2)}</td>
+                      <td className="py-2 text-right font-medium">
+                        {entry.eligible ? formatAmount(entry.amount) : <Badge className="bg-gray-100 text-gray-800">Under 1 year</Badge>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Final Settlement</CardTitle>
+          <CardDescription>Gratuity, unused annual leave and outstanding salary on the last working day</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Employee</Label>
+              <Select value={settlementEmployeeId} onValueChange={setSettlementEmployeeId}>
+                <SelectTrigger data-testid="select-settlement-employee">
+                  <SelectValue placeholder="Select employee" />
+                </SelectTrigger>
+                <SelectContent>
+                  {employees.map(entry => (
+                    <SelectItem key={entry.employeeId} value={entry.employeeId}>{entry.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="termination-date">Last Working Day</Label>
+              <Input
+                id="termination-date"
+                type="date"
+                value={terminationDate}
+                onChange={(e) => setTerminationDate(e.target.value)}
+                data-testid="input-termination-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={(value) => setReason(value as 'RESIGNATION' | 'TERMINATION')}>
+                <SelectTrigger data-testid="select-separation-reason">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="TERMINATION">Termination by employer</SelectItem>
+                  <SelectItem value="RESIGNATION">Resignation</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {!settlementEmployeeId ? (
+            <p className="text-sm text-muted-foreground">Select an employee to calculate the final settlement.</p>
+          ) : isCalculating && !settlement ? (
+            <p className="text-sm text-muted-foreground">Calculating...</p>
+          ) : settlement ? (
+            <div className="space-y-2 max-w-xl" data-testid="final-settlement">
+              <div className="flex justify-between">
+                <span>
+                  End-of-service gratuity ({settlement.gratuity.gratuityDays.toFixed(2)} days)
+                </span>
+                <span>{formatAmount(settlement.gratuity.amount)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Unused annual leave ({settlement.unusedLeaveDays} days)</span>
+                <span>{formatAmount(settlement.leaveEncashment)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>
+                  Outstanding salary ({settlement.finalPayrollLocked === false
+                    ? `paid with the ${settlement.finalPayrollMonth} payroll`
+                    : `${settlement.outstandingSalaryDays} days`})
+                </span>
+                <span>{formatAmount(settlement.outstandingSalary)}</span>
+              </div>
+              <div className="flex justify-between border-t pt-2 font-bold">
+                <span>Total Settlement</span>
+                <span data-testid="text-settlement-total">{formatAmount(settlement.total)}</span>
+              </div>
+              {!settlement.gratuity.eligible && (
+                <p className="text-sm text-muted-foreground">No gratuity is due for less than one year of continuous service.</p>
+              )}
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
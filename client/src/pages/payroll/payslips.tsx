@@ -1,27 +1,113 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { FileText, Download, Send } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { FileText, Download, Clock } from "lucide-react";
+import { downloadPayslip } from "@/components/MyPayslips";
+import type { Employee, PayrollItem, PayrollRun } from "@shared/schema";
+
+type PayrollRunDetail = PayrollRun & { items: PayrollItem[] };
+
+function formatAmount(amount: number | string | null | undefined): string {
+  return `AED ${Number(amount || 0).toLocaleString('en-AE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString('en-AE', { month: 'long', year: 'numeric' });
+}
 
 export default function Payslips() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const { data: runs = [], isLoading } = useQuery<PayrollRun[]>({
+    queryKey: ["/api/payroll-runs"],
+    enabled: !!user
+  });
+
+  // Payslips only exist for runs whose figures are locked
+  const issuedRuns = runs.filter(run => run.status === 'APPROVED' || run.status === 'PAID');
+  const activeRunId = selectedRunId || issuedRuns[0]?.id;
+
+  const { data: selectedRun } = useQuery<PayrollRunDetail>({
+    queryKey: ["/api/payroll-runs", activeRunId],
+    enabled: !!activeRunId
+  });
+
+  // Includes terminated employees so past runs keep their names
+  const { data: employees = [] } = useQuery<Employee[]>({
+    queryKey: ["/api/employees?includeDeleted=true"],
+    enabled: !!user
+  });
+
+  const getEmployee = (employeeId: string) => employees.find(emp => emp.id === employeeId);
+
+  const items = selectedRun?.items || [];
+  const generatedCount = items.filter(item => item.payslipDocumentId).length;
+  const pendingCount = items.length - generatedCount;
+
+  const generateMutation = useMutation({
+    mutationFn: async (runId: string) => {
+      const response = await apiRequest('POST', `/api/payroll-runs/${runId}/payslips`);
+      return await response.json();
+    },
+    onSuccess: (result: { generated: number }) => {
+      toast({
+        title: "Payslips Generated",
+        description: `${result.generated} payslip(s) created.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/payroll-runs"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Generation Failed",
+        description: error.message || "Could not generate payslips.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleDownload = async (item: PayrollItem) => {
+    setDownloadingId(item.id);
+    try {
+      await downloadPayslip(item.id, `Payslip-${selectedRun?.month}.pdf`);
+    } catch (error: any) {
+      toast({
+        title: "Download Failed",
+        description: error.message || "Could not download the payslip.",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
   return (
     <div className="p-6 space-y-6">
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Payslips</h1>
           <p className="text-muted-foreground">
-            Generate, manage, and distribute employee payslips
+            Payslips issued for approved payroll runs
           </p>
         </div>
-        <div className="flex gap-2">
-          <Button disabled className="bg-orange-100 text-orange-700 hover:bg-orange-100">
+        {selectedRun && (
+          <Button
+            onClick={() => generateMutation.mutate(selectedRun.id)}
+            disabled={generateMutation.isPending || pendingCount === 0}
+            className="bg-orange-600 hover:bg-orange-700"
+            data-testid="button-generate-payslips"
+          >
             <FileText className="w-4 h-4 mr-2" />
-            Generate Payslips
-          </Button>
-          <Button disabled variant="outline" className="border-orange-200 text-orange-700">
-            <Send className="w-4 h-4 mr-2" />
-            Send All
+            {generateMutation.isPending ? "Generating..." : "Generate Missing Payslips"}
           </Button>
-        </div>
+        )}
       </div>
 
       <div className="grid gap-6 md:grid-cols-3">
@@ -29,79 +115,136 @@ export default function Payslips() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <FileText className="w-5 h-5 text-blue-500" />
-              Generated This Month
+              Issued
             </CardTitle>
             <CardDescription>
-              Payslips ready for distribution
+              Payslips available to employees
             </CardDescription>
           </CardHeader>
-          <CardContent className="flex items-center justify-center h-24">
-            <div className="text-center">
-              <div className="text-2xl font-bold">0</div>
-              <p className="text-xs text-muted-foreground">Payslips generated</p>
-            </div>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-payslips-issued">{generatedCount}</div>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              <Send className="w-5 h-5 text-green-500" />
-              Sent to Employees
+              <Clock className="w-5 h-5 text-orange-500" />
+              Pending
             </CardTitle>
             <CardDescription>
-              Successfully delivered payslips
+              Employees in the run without a payslip
             </CardDescription>
           </CardHeader>
-          <CardContent className="flex items-center justify-center h-24">
-            <div className="text-center">
-              <div className="text-2xl font-bold">0</div>
-              <p className="text-xs text-muted-foreground">Payslips sent</p>
-            </div>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-payslips-pending">{pendingCount}</div>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              <Download className="w-5 h-5 text-orange-500" />
-              Pending Delivery
+              <Download className="w-5 h-5 text-green-500" />
+              Net Payroll
             </CardTitle>
             <CardDescription>
-              Payslips awaiting distribution
+              Total net pay for the selected month
             </CardDescription>
           </CardHeader>
-          <CardContent className="flex items-center justify-center h-24">
-            <div className="text-center">
-              <div className="text-2xl font-bold">0</div>
-              <p className="text-xs text-muted-foreground">Pending delivery</p>
-            </div>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatAmount(selectedRun?.totalNet)}</div>
           </CardContent>
         </Card>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Payslip Management</CardTitle>
-          <CardDescription>
-            Comprehensive payslip generation and distribution system
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="flex items-center justify-center h-40">
-          <div className="text-center space-y-4">
-            <div className="text-lg font-semibold text-orange-600">Coming Soon</div>
-            <p className="text-sm text-muted-foreground max-w-md">
-              Advanced payslip generation with customizable templates, automated distribution, 
-              and employee self-service access will be available here.
-            </p>
-            <div className="flex gap-2 justify-center">
-              <Button disabled size="sm" variant="outline">Generate</Button>
-              <Button disabled size="sm" variant="outline">Preview</Button>
-              <Button disabled size="sm" variant="outline">Download</Button>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Approved Runs</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading payroll runs...</p>
+            ) : issuedRuns.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Approve a payroll run to issue payslips.</p>
+            ) : (
+              issuedRuns.map(run => (
+                <button
+                  key={run.id}
+                  onClick={() => setSelectedRunId(run.id)}
+                  className={`w-full text-left border rounded-md p-3 ${run.id === activeRunId ? 'border-orange-500 bg-orange-50' : ''}`}
+                  data-testid={`button-select-run-${run.month}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{formatMonth(run.month)}</span>
+                    <Badge className={run.status === 'PAID' ? "bg-gray-100 text-gray-800" : "bg-green-100 text-green-800"}>
+                      {run.status === 'PAID' ? 'Paid' : 'Approved'}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{run.employeeCount} employees</p>
+                </button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{selectedRun ? `Payslips for ${formatMonth(selectedRun.month)}` : 'Payslips'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!selectedRun ? (
+              <p className="text-sm text-muted-foreground">Select an approved payroll run.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left">
+                      <th className="py-2">Employee</th>
+                      <th className="py-2 text-right">Gross</th>
+                      <th className="py-2 text-right">Deductions</th>
+                      <th className="py-2 text-right">Net Pay</th>
+                      <th className="py-2 text-right">Payslip</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {items.map(item => {
+                      const employee = getEmployee(item.employeeId);
+                      return (
+                        <tr key={item.id} className="border-b" data-testid={`row-payslip-${item.employeeId}`}>
+                          <td className="py-2">
+                            <p className="font-medium">{employee?.personalInfo?.name || employee?.employeeCode || 'Unknown employee'}</p>
+                            <p className="text-xs text-muted-foreground">{employee?.employeeCode}</p>
+                          </td>
+                          <td className="py-2 text-right">{formatAmount(parseFloat(item.grossSalary || '0') + parseFloat(item.overtimeAmount || '0'))}</td>
+                          <td className="py-2 text-right">{formatAmount(item.leaveDeduction)}</td>
+                          <td className="py-2 text-right font-medium">{formatAmount(item.netSalary)}</td>
+                          <td className="py-2 text-right">
+                            {item.payslipDocumentId ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDownload(item)}
+                                disabled={downloadingId === item.id}
+                                data-testid={`button-download-payslip-${item.employeeId}`}
+                              >
+                                <Download className="w-4 h-4 mr-1" />
+                                PDF
+                              </Button>
+                            ) : (
+                              <Badge className="bg-yellow-100 text-yellow-800">Not generated</Badge>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
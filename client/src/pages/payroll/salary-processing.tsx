@@ -1,8 +1,145 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Calculator, Clock, CheckCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Calculator, CheckCircle, Clock, Lock, RefreshCw, Trash2, Wallet } from "lucide-react";
+import WpsExport from "@/components/WpsExport";
+import type { Employee, PayrollItem, PayrollRun } from "@shared/schema";
+
+type PayrollRunDetail = PayrollRun & { items: PayrollItem[] };
+
+function formatAmount(amount: number | string | null | undefined): string {
+  return `AED ${Number(amount || 0).toLocaleString('en-AE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString('en-AE', { month: 'long', year: 'numeric' });
+}
+
+function getStatusBadge(status: string | null) {
+  switch (status) {
+    case 'REVIEWED':
+      return <Badge className="bg-blue-100 text-blue-800">Reviewed</Badge>;
+    case 'APPROVED':
+      return <Badge className="bg-green-100 text-green-800">Approved</Badge>;
+    case 'PAID':
+      return <Badge className="bg-gray-100 text-gray-800">Paid</Badge>;
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-800">Draft</Badge>;
+  }
+}
 
 export default function SalaryProcessing() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const canApprove = ['SUPER_ADMIN', 'COMPANY_ADMIN'].includes((user as any)?.role || '');
+
+  const { data: runs = [], isLoading } = useQuery<PayrollRun[]>({
+    queryKey: ["/api/payroll-runs"],
+    enabled: !!user
+  });
+
+  const activeRunId = selectedRunId || runs[0]?.id;
+
+  const { data: selectedRun } = useQuery<PayrollRunDetail>({
+    queryKey: ["/api/payroll-runs", activeRunId],
+    enabled: !!activeRunId
+  });
+
+  // Includes terminated employees so past runs keep their names
+  const { data: employees = [] } = useQuery<Employee[]>({
+    queryKey: ["/api/employees?includeDeleted=true"],
+    enabled: !!user
+  });
+
+  const getEmployeeName = (employeeId: string) => {
+    const employee = employees.find(emp => emp.id === employeeId);
+    return employee?.personalInfo?.name || employee?.employeeCode || 'Unknown employee';
+  };
+
+  const handleError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const createRunMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/payroll-runs', { month });
+      return await response.json();
+    },
+    onSuccess: (run: PayrollRun) => {
+      toast({
+        title: "Payroll Calculated",
+        description: `${run.employeeCount} employees processed for ${formatMonth(run.month)}.`,
+      });
+      setSelectedRunId(run.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/payroll-runs"] });
+    },
+    onError: handleError("Processing Failed"),
+  });
+
+  const recalculateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/payroll-runs/${id}/recalculate`, {});
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Payroll Recalculated",
+        description: "Figures were refreshed from current compensation, leave and overtime.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/payroll-runs"] });
+    },
+    onError: handleError("Recalculation Failed"),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: string }) => {
+      const response = await apiRequest('POST', `/api/payroll-runs/${id}/status`, { status });
+      return await response.json();
+    },
+    onSuccess: (run: PayrollRun) => {
+      toast({
+        title: "Payroll Updated",
+        description: `${formatMonth(run.month)} payroll is now ${run.status?.toLowerCase()}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/payroll-runs"] });
+    },
+    onError: handleError("Update Failed"),
+  });
+
+  const deleteRunMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/payroll-runs/${id}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Payroll Run Deleted",
+        description: "The draft run has been discarded.",
+      });
+      setSelectedRunId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/payroll-runs"] });
+    },
+    onError: handleError("Delete Failed"),
+  });
+
+  const pendingRuns = runs.filter(run => run.status === 'DRAFT' || run.status === 'REVIEWED');
+  const completedRuns = runs.filter(run => run.status === 'APPROVED' || run.status === 'PAID');
+  const isLocked = selectedRun?.status === 'APPROVED' || selectedRun?.status === 'PAID';
+  const isBusy = statusMutation.isPending || recalculateMutation.isPending || deleteRunMutation.isPending;
+
   return (
     <div className="p-6 space-y-6">
       <div className="flex items-center justify-between">
@@ -12,30 +149,39 @@ export default function SalaryProcessing() {
             Process employee salaries and manage payroll calculations
           </p>
         </div>
-        <Button disabled className="bg-orange-100 text-orange-700 hover:bg-orange-100">
-          <Calculator className="w-4 h-4 mr-2" />
-          Process Payroll
-        </Button>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="payroll-month">Month</Label>
+            <Input
+              id="payroll-month"
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              data-testid="input-payroll-month"
+            />
+          </div>
+          <Button
+            onClick={() => createRunMutation.mutate()}
+            disabled={!month || createRunMutation.isPending}
+            data-testid="button-process-payroll"
+          >
+            <Calculator className="w-4 h-4 mr-2" />
+            {createRunMutation.isPending ? "Processing..." : "Process Payroll"}
+          </Button>
+        </div>
       </div>
 
-      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+      <div className="grid gap-6 md:grid-cols-3">
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Clock className="w-5 h-5 text-orange-500" />
               Pending Processing
             </CardTitle>
-            <CardDescription>
-              Employees awaiting salary calculation
-            </CardDescription>
+            <CardDescription>Runs awaiting review or approval</CardDescription>
           </CardHeader>
-          <CardContent className="flex items-center justify-center h-32">
-            <div className="text-center space-y-2">
-              <div className="text-lg font-semibold text-orange-600">Coming Soon</div>
-              <p className="text-sm text-muted-foreground">
-                Salary processing workflow
-              </p>
-            </div>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-pending-runs">{pendingRuns.length}</div>
           </CardContent>
         </Card>
 
@@ -43,73 +189,207 @@ export default function SalaryProcessing() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <CheckCircle className="w-5 h-5 text-green-500" />
-              Processed This Month
+              Processed
             </CardTitle>
-            <CardDescription>
-              Successfully processed payrolls
-            </CardDescription>
+            <CardDescription>Approved and paid runs</CardDescription>
           </CardHeader>
-          <CardContent className="flex items-center justify-center h-32">
-            <div className="text-center space-y-2">
-              <div className="text-lg font-semibold text-orange-600">Coming Soon</div>
-              <p className="text-sm text-muted-foreground">
-                Processing history and reports
-              </p>
-            </div>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-completed-runs">{completedRuns.length}</div>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              <Calculator className="w-5 h-5 text-blue-500" />
-              Salary Calculator
+              <Wallet className="w-5 h-5 text-blue-500" />
+              Latest Net Payroll
             </CardTitle>
-            <CardDescription>
-              Advanced salary calculation tools
-            </CardDescription>
+            <CardDescription>{runs[0] ? formatMonth(runs[0].month) : 'No runs yet'}</CardDescription>
           </CardHeader>
-          <CardContent className="flex items-center justify-center h-32">
-            <div className="text-center space-y-2">
-              <div className="text-lg font-semibold text-orange-600">Coming Soon</div>
-              <p className="text-sm text-muted-foreground">
-                Automated calculation engine
-              </p>
-            </div>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatAmount(runs[0]?.totalNet)}</div>
           </CardContent>
         </Card>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>Salary Processing Features</CardTitle>
-          <CardDescription>
-            Comprehensive payroll processing capabilities will include:
-          </CardDescription>
+          <CardTitle>Payroll Runs</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid gap-4 md:grid-cols-2">
-            <div className="space-y-2">
-              <h4 className="font-semibold">Processing Features:</h4>
-              <ul className="text-sm text-muted-foreground space-y-1">
-                <li>• Automated salary calculations</li>
-                <li>• Overtime and bonus processing</li>
-                <li>• Tax and deduction management</li>
-                <li>• Bulk payroll processing</li>
-              </ul>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading payroll runs...</p>
+          ) : runs.length === 0 ? (
+            <div className="text-center py-8">
+              <Calculator className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No payroll has been processed yet. Pick a month and process payroll.</p>
             </div>
-            <div className="space-y-2">
-              <h4 className="font-semibold">Compliance & Reporting:</h4>
-              <ul className="text-sm text-muted-foreground space-y-1">
-                <li>• UAE labor law compliance</li>
-                <li>• End-of-service calculations</li>
-                <li>• WPS file generation</li>
-                <li>• Payroll audit trails</li>
-              </ul>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {runs.map(run => (
+                <Button
+                  key={run.id}
+                  variant={run.id === activeRunId ? "default" : "outline"}
+                  onClick={() => setSelectedRunId(run.id)}
+                  data-testid={`button-payroll-run-${run.month}`}
+                >
+                  {formatMonth(run.month)}
+                  <span className="ml-2">{getStatusBadge(run.status)}</span>
+                </Button>
+              ))}
             </div>
-          </div>
+          )}
         </CardContent>
       </Card>
+
+      {selectedRun && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                {formatMonth(selectedRun.month)} {getStatusBadge(selectedRun.status)}
+                {isLocked && <Lock className="w-4 h-4 text-muted-foreground" />}
+              </span>
+              <div className="flex gap-2">
+                {!isLocked && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => recalculateMutation.mutate(selectedRun.id)}
+                      data-testid="button-recalculate-payroll"
+                    >
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      Recalculate
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => deleteRunMutation.mutate(selectedRun.id)}
+                      data-testid="button-delete-payroll"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+                {selectedRun.status === 'DRAFT' && (
+                  <Button
+                    size="sm"
+                    disabled={isBusy}
+                    onClick={() => statusMutation.mutate({ id: selectedRun.id, status: 'REVIEWED' })}
+                    data-testid="button-review-payroll"
+                  >
+                    Mark Reviewed
+                  </Button>
+                )}
+                {selectedRun.status === 'REVIEWED' && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => statusMutation.mutate({ id: selectedRun.id, status: 'DRAFT' })}
+                      data-testid="button-reopen-payroll"
+                    >
+                      Back to Draft
+                    </Button>
+                    {canApprove && (
+                      <Button
+                        size="sm"
+                        disabled={isBusy}
+                        onClick={() => statusMutation.mutate({ id: selectedRun.id, status: 'APPROVED' })}
+                        data-testid="button-approve-payroll"
+                      >
+                        Approve & Lock
+                      </Button>
+                    )}
+                  </>
+                )}
+                {selectedRun.status === 'APPROVED' && canApprove && (
+                  <Button
+                    size="sm"
+                    disabled={isBusy}
+                    onClick={() => statusMutation.mutate({ id: selectedRun.id, status: 'PAID' })}
+                    data-testid="button-mark-payroll-paid"
+                  >
+                    Mark Paid
+                  </Button>
+                )}
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Employees</p>
+                <p className="text-xl font-bold">{selectedRun.employeeCount}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Gross</p>
+                <p className="text-xl font-bold">{formatAmount(selectedRun.totalGross)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Overtime</p>
+                <p className="text-xl font-bold text-green-600">{formatAmount(selectedRun.totalOvertime)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Deductions</p>
+                <p className="text-xl font-bold text-red-600">{formatAmount(selectedRun.totalDeductions)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Net Pay</p>
+                <p className="text-xl font-bold" data-testid="text-payroll-net">{formatAmount(selectedRun.totalNet)}</p>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2">Employee</th>
+                    <th className="py-2 text-right">Basic</th>
+                    <th className="py-2 text-right">Allowances</th>
+                    <th className="py-2 text-right">Gross</th>
+                    <th className="py-2 text-right">Unpaid Days</th>
+                    <th className="py-2 text-right">Deduction</th>
+                    <th className="py-2 text-right">Overtime</th>
+                    <th className="py-2 text-right">Net</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selectedRun.items.map(item => (
+                    <tr key={item.id} className="border-b" data-testid={`payroll-item-${item.employeeId}`}>
+                      <td className="py-2">
+                        {getEmployeeName(item.employeeId)}
+                        {item.payableDays < item.daysInMonth && (
+                          <span className="block text-xs text-muted-foreground">
+                            Pro-rated {item.payableDays}/{item.daysInMonth} days
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">{formatAmount(item.basicSalary)}</td>
+                      <td className="py-2 text-right">
+                        {formatAmount(
+                          Number(item.housingAllowance) + Number(item.transportAllowance) + Number(item.otherAllowance)
+                        )}
+                      </td>
+                      <td className="py-2 text-right">{formatAmount(item.grossSalary)}</td>
+                      <td className="py-2 text-right">{Number(item.unpaidLeaveDays)}</td>
+                      <td className="py-2 text-right text-red-600">{formatAmount(item.leaveDeduction)}</td>
+                      <td className="py-2 text-right text-green-600">{formatAmount(item.overtimeAmount)}</td>
+                      <td className="py-2 text-right font-medium">{formatAmount(item.netSalary)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedRun && <WpsExport run={selectedRun} />}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, TrendingUp, X } from "lucide-react";
+import type { SalaryRevision } from "@shared/schema";
+
+type SalaryRevisionRow = SalaryRevision & {
+  requestedByName: string | null;
+  approvedByName: string | null;
+  employeeCode: string | null;
+  employeeName: string | null;
+};
+
+const REASON_LABELS: Record<string, string> = {
+  PROMOTION: "Promotion",
+  ANNUAL_INCREMENT: "Annual increment",
+  CORRECTION: "Correction",
+};
+
+function formatAmount(amount: number | string | null | undefined): string {
+  return `AED ${Number(amount || 0).toLocaleString('en-AE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatPercentageChange(percentageChange: string | null): string {
+  if (percentageChange === null) return '—';
+  const value = parseFloat(percentageChange);
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
+
+export default function SalaryRevisions() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [status, setStatus] = useState("PENDING");
+
+  const { data: revisions = [], isLoading } = useQuery<SalaryRevisionRow[]>({
+    queryKey: ["/api/salary-revisions", status],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/salary-revisions${status === 'ALL' ? '' : `?status=${status}`}`);
+      return await response.json();
+    },
+    enabled: !!user
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'approve' | 'reject' }) => {
+      const response = await apiRequest('POST', `/api/salary-revisions/${id}/${action}`, {});
+      return await response.json();
+    },
+    onSuccess: (revision: SalaryRevision, { action }) => {
+      toast({
+        title: action === 'approve' ? "Revision Approved" : "Revision Rejected",
+        description: action === 'approve'
+          ? `The new salary applies from ${revision.effectiveDate}.`
+          : "The employee's salary is unchanged.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/salary-revisions"] });
+      // Employee lists are keyed by URL, some with a companySlug query string
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/employees") });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Review Failed",
+        description: error.message || "Could not update the salary revision.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Salary Revisions</h1>
+          <p className="text-muted-foreground">
+            Promotions, annual increments and corrections take effect in payroll once approved
+          </p>
+        </div>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-44" data-testid="select-revision-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="PENDING">Pending approval</SelectItem>
+            <SelectItem value="APPROVED">Approved</SelectItem>
+            <SelectItem value="REJECTED">Rejected</SelectItem>
+            <SelectItem value="ALL">All</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="w-5 h-5 text-green-500" />
+            Revisions
+          </CardTitle>
+          <CardDescription>
+            Revisions are proposed from the employee profile. HR managers cannot approve their own proposals.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading revisions...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No salary revisions to show.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="py-2">Employee</th>
+                    <th className="py-2">Effective</th>
+                    <th className="py-2">Reason</th>
+                    <th className="py-2 text-right">Previous</th>
+                    <th className="py-2 text-right">New</th>
+                    <th className="py-2 text-right">Change</th>
+                    <th className="py-2">Proposed By</th>
+                    <th className="py-2 text-right">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {revisions.map(revision => (
+                    <tr key={revision.id} className="border-b" data-testid={`row-salary-revision-${revision.id}`}>
+                      <td className="py-2">
+                        <p className="font-medium">{revision.employeeName || revision.employeeCode}</p>
+                        <p className="text-xs text-muted-foreground">{revision.employeeCode}</p>
+                      </td>
+                      <td className="py-2">{revision.effectiveDate}</td>
+                      <td className="py-2">
+                        {REASON_LABELS[revision.reason] || revision.reason}
+                        {revision.notes && <p className="text-xs text-muted-foreground">{revision.notes}</p>}
+                      </td>
+                      <td className="py-2 text-right">{formatAmount(revision.previousTotal)}</td>
+                      <td className="py-2 text-right">{formatAmount(revision.newTotal)}</td>
+                      <td className="py-2 text-right">{formatPercentageChange(revision.percentageChange)}</td>
+                      <td className="py-2">{revision.requestedByName || '—'}</td>
+                      <td className="py-2 text-right space-x-2">
+                        {revision.status === 'PENDING' ? (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => reviewMutation.mutate({ id: revision.id, action: 'approve' })}
+                              disabled={reviewMutation.isPending}
+                              data-testid={`button-approve-revision-${revision.id}`}
+                            >
+                              <Check className="w-4 h-4 mr-1" />
+                              Approve
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-destructive"
+                              onClick={() => reviewMutation.mutate({ id: revision.id, action: 'reject' })}
+                              disabled={reviewMutation.isPending}
+                              data-testid={`button-reject-revision-${revision.id}`}
+                            >
+                              <X className="w-4 h-4 mr-1" />
+                              Reject
+                            </Button>
+                          </>
+                        ) : (
+                          <Badge variant={revision.status === 'APPROVED' ? "default" : "destructive"}>
+                            {revision.status}{revision.approvedByName ? ` · ${revision.approvedByName}` : ''}
+                          </Badge>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
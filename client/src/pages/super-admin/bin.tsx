@@ -5,18 +5,68 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Building2, RotateCcw, Trash2, Calendar, Users, DollarSign } from "lucide-react";
+import { Building2, RotateCcw, Trash2, Calendar, Users, DollarSign, Download } from "lucide-react";
 import Header from "@/components/Header";
 import Sidebar from "@/components/Sidebar";
 import ErrorModal from "@/components/ErrorModal";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { Company } from "@shared/schema";
 
+interface CompanyPurgeReport {
+  company: { id: string; name: string; slug: string };
+  rowCounts: Record<string, number>;
+  totalRows: number;
+  files: { count: number; totalBytes: number; missing: number };
+}
+
+// Labels for the tables listed in the dry-run report
+const TABLE_LABELS: Record<string, string> = {
+  users: "User accounts",
+  employees: "Employees",
+  departments: "Departments",
+  positions: "Positions",
+  employeeDocuments: "Employee documents",
+  probationNotifications: "Probation notifications",
+  leaveTypes: "Leave types",
+  leaveRequests: "Leave requests",
+  leaveBalances: "Leave balances",
+  attendanceRecords: "Attendance records",
+  shiftTemplates: "Shift templates",
+  shiftAssignments: "Shift assignments",
+  overtimeRecords: "Overtime records",
+  officeLocations: "Office locations",
+  companyHolidays: "Company holidays",
+  payrollRuns: "Payroll runs",
+  payrollItems: "Payroll items",
+  employeeOffboardings: "Offboardings",
+  employeeHistory: "Employee change history",
+  salaryRevisions: "Salary revisions",
+  jobEvents: "Job events",
+  documentExpiryReminders: "Document expiry reminders",
+  companyLicenses: "Licenses",
+  companyModules: "Enabled modules",
+};
+
+async function downloadArchive(fileName: string) {
+  const response = await fetch(`/api/companies/archives/${encodeURIComponent(fileName)}`, { credentials: 'include' });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${response.statusText}`);
+  }
+  const blob = await response.blob();
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 export default function SuperAdminBin() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [restoringCompany, setRestoringCompany] = useState<Company | null>(null);
   const [hardDeletingCompany, setHardDeletingCompany] = useState<Company | null>(null);
+  const [lastArchive, setLastArchive] = useState<{ companyName: string; fileName: string } | null>(null);
   const [errorModal, setErrorModal] = useState<{
     isOpen: boolean;
     title: string;
@@ -75,6 +125,16 @@ export default function SuperAdminBin() {
     enabled: !!user && (user as any).role === 'SUPER_ADMIN'
   });
 
+  // Dry run of the hard delete for the company awaiting confirmation
+  const { data: purgePreview, isLoading: isPreviewLoading } = useQuery<{ dryRun: true; report: CompanyPurgeReport }>({
+    queryKey: ["/api/companies", hardDeletingCompany?.id, "hard-delete", "dry-run"],
+    queryFn: async () => {
+      const response = await apiRequest('DELETE', `/api/companies/${hardDeletingCompany?.id}/hard-delete?dryRun=true`);
+      return await response.json();
+    },
+    enabled: !!hardDeletingCompany
+  });
+
   // Restore company mutation
   const restoreCompanyMutation = useMutation({
     mutationFn: async (companyId: string) => {
@@ -101,13 +161,14 @@ export default function SuperAdminBin() {
       const response = await apiRequest('DELETE', `/api/companies/${companyId}/hard-delete`);
       return await response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { company: Company; archive: string }) => {
       toast({
         title: "Company Permanently Deleted",
-        description: "The company has been permanently removed from the database.",
+        description: "The company and all of its data have been removed. An archive was saved first.",
         variant: "destructive",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/companies/bin"] });
+      setLastArchive({ companyName: result.company.name, fileName: result.archive });
       setHardDeletingCompany(null);
     },
     onError: (error: any) => {
@@ -170,6 +231,25 @@ export default function SuperAdminBin() {
               </div>
             </div>
 
+            {lastArchive && (
+              <Card className="mb-6">
+                <CardContent className="p-4 flex items-center justify-between">
+                  <p className="text-sm">
+                    Archive of <strong>{lastArchive.companyName}</strong> saved as {lastArchive.fileName}
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => downloadArchive(lastArchive.fileName).catch(error => showErrorModal(error, "Download Archive"))}
+                    data-testid="button-download-archive"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Download Archive
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
             {error && (
               <Card className="mb-6 border-destructive">
                 <CardContent className="p-4">
@@ -306,8 +386,28 @@ export default function SuperAdminBin() {
                   ⚠️ This action cannot be undone. All company data will be permanently removed from the database.
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  This includes all employees, departments, and related data associated with this company.
+                  An archive of all company data and files is saved before anything is deleted.
                 </p>
+                {isPreviewLoading ? (
+                  <p className="text-sm text-muted-foreground">Counting company data...</p>
+                ) : purgePreview ? (
+                  <div className="rounded-md border p-3 text-sm" data-testid="purge-preview">
+                    <p className="font-medium mb-2">
+                      {purgePreview.report.totalRows} records and {purgePreview.report.files.count} stored file(s)
+                      ({(purgePreview.report.files.totalBytes / (1024 * 1024)).toFixed(1)} MB) will be deleted:
+                    </p>
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                      {Object.entries(purgePreview.report.rowCounts)
+                        .filter(([, count]) => count > 0)
+                        .map(([table, count]) => (
+                          <div key={table} className="flex justify-between">
+                            <span className="text-muted-foreground">{TABLE_LABELS[table] || table}</span>
+                            <span>{count}</span>
+                          </div>
+                        ))}
+                    </div>
+                  </div>
+                ) : null}
               </div>
             </AlertDialogDescription>
           </AlertDialogHeader>
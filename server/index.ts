@@ -1,6 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { scheduleLeaveAccrualJob } from "./services/leaveEntitlementService";
+import { scheduleAbsenceJob } from "./services/shiftService";
+import { scheduleEmployeeBinPurgeJob } from "./services/employeeBinService";
+import { scheduleSalaryRevisionJob } from "./services/salaryRevisionService";
+import { scheduleJobEventJob } from "./services/jobEventService";
+import { scheduleDocumentExpiryJob } from "./services/documentExpiryService";
 
 const app = express();
 app.use(express.json({ limit: '10mb' }));
@@ -69,4 +75,12 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Background jobs
+  scheduleLeaveAccrualJob();
+  scheduleAbsenceJob();
+  scheduleEmployeeBinPurgeJob();
+  scheduleSalaryRevisionJob();
+  scheduleJobEventJob();
+  scheduleDocumentExpiryJob();
 })();
@@ -1,12 +1,20 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { z } from "zod";
 import multer from "multer";
 import path from "path";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated, isAuthenticatedAny } from "./replitAuth";
-import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
-import { ObjectPermission } from "./objectAcl";
+import { 
+  getStorageDriver, 
+  getDocumentObjectName, 
+  getObjectNameFromURL, 
+  issueUploadObjectName, 
+  isUploadObjectNameIssuedTo, 
+  LocalStorageDriver, 
+  LOCAL_OBJECT_ROUTE, 
+  UPLOAD_URL_TTL_SEC 
+} from "./storageDrivers";
 import { 
   loadUserData, 
   requireRole, 
@@ -15,8 +23,136 @@ import {
   requireEmployeeAccess,
   type AuthenticatedRequest 
 } from "./roleAuth";
-import { insertEmployeeSchema, insertCompanySchema, insertDepartmentSchema, insertPositionSchema } from "@shared/schema";
+import { 
+  insertEmployeeSchema, 
+  updateEmployeeSchema, 
+  insertCompanySchema, 
+  insertDepartmentSchema, 
+  insertPositionSchema, 
+  updatePositionSchema, 
+  insertLeaveTypeSchema, 
+  insertLeaveRequestSchema,
+  insertCompanyHolidaySchema,
+  insertOfficeLocationSchema,
+  insertShiftTemplateSchema,
+  type LeaveApproval,
+  type LeaveApprovalStep,
+  type LeaveTypeRules,
+  type AttendanceLocation,
+  type AttendanceException,
+} from "@shared/schema";
 import { PasswordService } from "./services/passwordService";
+import { 
+  buildLeaveApprovalChain, 
+  canActOnStep, 
+  getLeaveApprovalSettings, 
+  isAutoApproved 
+} from "./services/leaveApprovalService";
+import { 
+  UAE_DEFAULT_LEAVE_TYPES, 
+  calculateLeaveEntitlement, 
+  recalculateCompanyLeaveBalances, 
+  recalculateLeaveBalance, 
+  rolloverCompanyLeaveBalances 
+} from "./services/leaveEntitlementService";
+import { 
+  calculateCompanyWorkingDays, 
+  getWorkCalendarSettings, 
+  preloadUaeFederalHolidays 
+} from "./services/workingDaysService";
+import { 
+  calculateWorkedMinutes, 
+  evaluateGeofence, 
+  getAttendanceDate, 
+  getAttendancePolicySettings, 
+  previousAttendanceDate 
+} from "./services/attendanceService";
+import { 
+  crossesMidnight, 
+  evaluateCheckIn, 
+  evaluateCheckOut, 
+  getRosteredShift, 
+  markAbsences 
+} from "./services/shiftService";
+import { 
+  canApproveOvertime, 
+  getMonthlyOvertimeSummary, 
+  getMonthRange, 
+  recordOvertimeForAttendance 
+} from "./services/overtimeService";
+import { importPunchLog } from "./services/punchImportService";
+import { 
+  PAYROLL_TRANSITIONS, 
+  calculatePayrollRun, 
+  isPayrollRunLocked 
+} from "./services/payrollService";
+import { buildSifFile, getWpsSettings, validateWpsExport } from "./services/wpsService";
+import { generatePayslipsForRun } from "./services/payslipService";
+import { 
+  calculateFinalSettlement, 
+  calculateGratuity, 
+  getGratuityAccrualReport, 
+  refreshGratuityAccruals 
+} from "./services/gratuityService";
+import { 
+  DEFAULT_NOTICE_PERIOD_DAYS, 
+  MAX_NOTICE_PERIOD_DAYS, 
+  cancelOffboarding, 
+  completeOffboarding, 
+  getOutstandingChecklistItems, 
+  refreshOffboardingSettlement, 
+  startOffboarding, 
+  updateChecklistItem 
+} from "./services/offboardingService";
+import { 
+  MAX_RETENTION_DAYS, 
+  MIN_RETENTION_DAYS, 
+  getEmployeeBinSettings, 
+  getPurgeDate, 
+  purgeEmployee 
+} from "./services/employeeBinService";
+import { 
+  getEmployeeTimeline, 
+  updateEmployeeProfile 
+} from "./services/employeeHistoryService";
+import { 
+  getArchivePath, 
+  previewCompanyPurge, 
+  purgeCompany 
+} from "./services/companyPurgeService";
+import { 
+  SALARY_REVISION_REASONS, 
+  approveSalaryRevision, 
+  getChangedSalaryComponents, 
+  getSalaryHistory, 
+  proposeSalaryRevision, 
+  withRecordedSalary 
+} from "./services/salaryRevisionService";
+import { 
+  JOB_EVENT_TYPES, 
+  buildJobEvent, 
+  changesAssignment, 
+  getHeadcountReport, 
+  getProfileEditJobEvent, 
+  recordJobEvent, 
+  withRecordedAssignment 
+} from "./services/jobEventService";
+import { 
+  getPositionHolders, 
+  getVacancyReport, 
+  updatePosition 
+} from "./services/positionService";
+import { 
+  MAX_REMINDER_DAYS, 
+  getDocumentExpiryReport, 
+  getDocumentExpirySettings 
+} from "./services/documentExpiryService";
+import { 
+  DOCUMENT_REVIEW_DECISIONS, 
+  getDocumentReviewQueue, 
+  getDocumentVersionHistory, 
+  reviewDocument 
+} from "./services/documentReviewService";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
@@ -41,6 +177,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Biometric punch logs are parsed in memory and never stored
+  const punchLogUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: 5 * 1024 * 1024, // 5MB limit
+    },
+    fileFilter: (req, file, cb) => {
+      const allowedTypes = /csv|txt|dat/;
+      if (allowedTypes.test(path.extname(file.originalname).toLowerCase())) {
+        return cb(null, true);
+      } else {
+        cb(new Error('Only .csv, .txt and .dat punch logs are allowed!'));
+      }
+    }
+  });
+  
   // Password authentication routes (before auth middleware)
   app.post("/api/auth/signin", async (req, res) => {
     try {
@@ -145,11 +297,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  // Object storage routes for document upload
+  // Object storage routes for document upload; the object name is signed for the requesting user
   app.post("/api/objects/upload", isAuthenticated, async (req, res) => {
     try {
-      const objectStorageService = new ObjectStorageService();
-      const uploadURL = await objectStorageService.getObjectEntityUploadURL();
+      const user = req.user as any;
+      const objectName = issueUploadObjectName(user.claims.sub);
+      const uploadURL = await getStorageDriver().getUploadURL(objectName, UPLOAD_URL_TTL_SEC);
       res.json({ uploadURL });
     } catch (error) {
       console.error("Error getting upload URL:", error);
@@ -157,6 +310,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Signed upload and download URLs of the local storage driver; the signature is the authorization
+  const getSignedLocalRequest = (req: any, method: "GET" | "PUT") => {
+    const driver = getStorageDriver();
+    if (!(driver instanceof LocalStorageDriver)) {
+      return null;
+    }
+    const query = req.query as Record<string, string | undefined>;
+    const request = {
+      method,
+      objectName: req.params.objectName,
+      expires: String(query.expires || ''),
+      signature: String(query.signature || ''),
+      contentType: query.contentType,
+      disposition: query.disposition,
+    };
+    return driver.verifySignedRequest(request) ? { driver, request } : null;
+  };
+
+  app.put(`${LOCAL_OBJECT_ROUTE}/:objectName`, express.raw({ type: () => true, limit: '10mb' }), async (req, res) => {
+    try {
+      const signed = getSignedLocalRequest(req, 'PUT');
+      if (!signed) {
+        return res.status(403).json({ error: "Invalid or expired upload URL" });
+      }
+      
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(400).json({ error: "Unsupported upload content type" });
+      }
+      
+      await signed.driver.putObject(signed.request.objectName, req.body);
+      res.status(200).end();
+    } catch (error) {
+      console.error("Local object upload error:", error);
+      res.status(500).json({ error: "Failed to store object" });
+    }
+  });
+
+  app.get(`${LOCAL_OBJECT_ROUTE}/:objectName`, async (req, res) => {
+    try {
+      const signed = getSignedLocalRequest(req, 'GET');
+      if (!signed) {
+        return res.status(403).json({ error: "Invalid or expired download URL" });
+      }
+      
+      const { objectName, contentType, disposition } = signed.request;
+      if (!(await signed.driver.statObject(objectName))) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      
+      const content = await signed.driver.getObject(objectName);
+      res.setHeader('Content-Type', contentType || 'application/octet-stream');
+      if (disposition) {
+        res.setHeader('Content-Disposition', disposition);
+      }
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      res.send(content);
+    } catch (error) {
+      console.error("Local object download error:", error);
+      res.status(500).json({ error: "Failed to read object" });
+    }
+  });
+
   // Get employee documents by specific employee ID (secure filtering)
   app.get("/api/employee-documents", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER'), async (req, res) => {
     try {
@@ -227,6 +442,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!deletedDocument) {
         return res.status(404).json({ error: "Document not found" });
       }
+      
+      // Deleting the current version makes the latest remaining one current again
+      if (deletedDocument.status === 'ACTIVE') {
+        const [previousVersion] = await storage.getEmployeeDocumentVersions(deletedDocument.employeeId, deletedDocument.documentType);
+        if (previousVersion) {
+          await storage.updateEmployeeDocument(previousVersion.id, { status: 'ACTIVE', updatedAt: new Date() });
+        }
+      }
 
       res.json({ message: "Document deleted successfully", document: deletedDocument });
     } catch (error) {
@@ -235,6 +458,158 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/employee-documents/:documentId/versions - Every upload of the document's type for the employee, newest first
+  app.get("/api/employee-documents/:documentId/versions", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER'), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const document = await storage.getEmployeeDocument(req.params.documentId);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      
+      const employee = await storage.getEmployee(document.employeeId);
+      if (!employee || (userData?.role !== 'SUPER_ADMIN' && employee.companyId !== userData?.companyId)) {
+        return res.status(403).json({ error: "Access denied - document belongs to different company" });
+      }
+      
+      res.json(await getDocumentVersionHistory(document));
+    } catch (error) {
+      console.error('Document versions error:', error);
+      res.status(500).json({ error: "Failed to fetch document versions" });
+    }
+  });
+
+  // GET /api/employee-documents/review-queue - Documents awaiting HR review across the company, oldest first
+  app.get("/api/employee-documents/review-queue", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const status = (req.query.status as string) || 'PENDING';
+      if (status !== 'ALL' && status !== 'PENDING' && !(DOCUMENT_REVIEW_DECISIONS as readonly string[]).includes(status)) {
+        return res.status(400).json({ error: "Invalid approval status" });
+      }
+      
+      res.json(await getDocumentReviewQueue(companyId, status === 'ALL' ? undefined : status));
+    } catch (error) {
+      console.error('Document review queue error:', error);
+      res.status(500).json({ error: "Failed to fetch document review queue" });
+    }
+  });
+
+  // POST /api/employee-documents/:documentId/approve - Accept a pending document
+  app.post("/api/employee-documents/:documentId/approve", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const { comments } = z.object({ comments: z.string().max(1000).optional() }).parse(req.body);
+      
+      const document = await storage.getEmployeeDocument(req.params.documentId);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      
+      const employee = await storage.getEmployee(document.employeeId);
+      if (!employee || (userData?.role !== 'SUPER_ADMIN' && employee.companyId !== userData?.companyId)) {
+        return res.status(403).json({ error: "Access denied - document belongs to different company" });
+      }
+      
+      if (document.approvalStatus !== 'PENDING') {
+        return res.status(409).json({ error: `Document is already ${document.approvalStatus?.toLowerCase().replace(/_/g, ' ')}` });
+      }
+      
+      const updatedDocument = await reviewDocument(document, 'APPROVED', user.claims.sub, comments);
+      res.json(updatedDocument);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to approve document" });
+    }
+  });
+
+  // POST /api/employee-documents/:documentId/reject - Reject a pending document; the reason is emailed to the uploader
+  app.post("/api/employee-documents/:documentId/reject", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const { comments } = z.object({ comments: z.string().trim().min(1, "A reason is required").max(1000) }).parse(req.body);
+      
+      const document = await storage.getEmployeeDocument(req.params.documentId);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      
+      const employee = await storage.getEmployee(document.employeeId);
+      if (!employee || (userData?.role !== 'SUPER_ADMIN' && employee.companyId !== userData?.companyId)) {
+        return res.status(403).json({ error: "Access denied - document belongs to different company" });
+      }
+      
+      if (document.approvalStatus !== 'PENDING') {
+        return res.status(409).json({ error: `Document is already ${document.approvalStatus?.toLowerCase().replace(/_/g, ' ')}` });
+      }
+      
+      const updatedDocument = await reviewDocument(document, 'REJECTED', user.claims.sub, comments);
+      res.json(updatedDocument);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to reject document" });
+    }
+  });
+
+  // POST /api/employee-documents/:documentId/request-resubmission - Ask for a corrected copy; the reason is emailed to the uploader
+  app.post("/api/employee-documents/:documentId/request-resubmission", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const { comments } = z.object({ comments: z.string().trim().min(1, "A reason is required").max(1000) }).parse(req.body);
+      
+      const document = await storage.getEmployeeDocument(req.params.documentId);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      
+      const employee = await storage.getEmployee(document.employeeId);
+      if (!employee || (userData?.role !== 'SUPER_ADMIN' && employee.companyId !== userData?.companyId)) {
+        return res.status(403).json({ error: "Access denied - document belongs to different company" });
+      }
+      
+      if (document.approvalStatus !== 'PENDING') {
+        return res.status(409).json({ error: `Document is already ${document.approvalStatus?.toLowerCase().replace(/_/g, ' ')}` });
+      }
+      
+      const updatedDocument = await reviewDocument(document, 'RESUBMISSION_REQUESTED', user.claims.sub, comments);
+      res.json(updatedDocument);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to request resubmission of document" });
+    }
+  });
+
   // Employee document upload completion endpoint
   app.put("/api/employee-documents", isAuthenticated, async (req, res) => {
     try {
@@ -250,6 +625,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const { category = 'general', employeeId, fileName, fileSize } = req.body;
+      const documentType = req.body.documentType || category;
       
       // Validate required fields
       if (!employeeId) {
@@ -260,20 +636,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "fileName is required for document upload" });
       }
       
-      // Set object ACL policy for document
-      const objectStorageService = new ObjectStorageService();
-      const objectPath = await objectStorageService.trySetObjectEntityAclPolicy(
-        req.body.documentURL,
-        {
-          owner: userId,
-          visibility: "private", // Employee documents are private
+      const userData = await storage.getUser(userId);
+      if (!userData) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      // A new version supersedes the employee's current document, so only their company may upload it
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      if (userData.role !== 'SUPER_ADMIN' && employee.companyId !== userData.companyId) {
+        return res.status(403).json({ error: "Access denied - employee belongs to different company" });
+      }
+      
+      // EMPLOYEES can only upload to their own record
+      if (userData.role === 'EMPLOYEE') {
+        const userEmployee = await storage.getEmployeeByUserId(userData.id);
+        if (!userEmployee || userEmployee.id !== employee.id) {
+          return res.status(403).json({ error: "Access denied - not your employee record" });
         }
-      );
+      }
+      
+      // Documents are private; access goes through /api/files, which checks the document's company and owner
+      const objectName = getObjectNameFromURL(req.body.documentURL);
+      if (!isUploadObjectNameIssuedTo(objectName, userId)) {
+        return res.status(403).json({ error: "Access denied - upload URL was not issued to you" });
+      }
+      if (!(await getStorageDriver().statObject(objectName))) {
+        return res.status(400).json({ error: "Uploaded file not found" });
+      }
+      const objectPath = `/objects/uploads/${objectName}`;
       
       // Store document metadata in database
       const documentData = {
         employeeId: employeeId,
-        documentType: category,
+        documentType: documentType,
         category: 'Employee Documents',
         fileName: fileName,
         filePath: objectPath,
@@ -283,7 +682,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         approvalStatus: 'PENDING'
       };
 
-      const document = await storage.createEmployeeDocument(documentData);
+      // Re-uploading a document type creates its next version
+      const document = await storage.createEmployeeDocumentVersion(documentData);
       
       // Return secure document reference
       res.json({
@@ -292,6 +692,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         filename: fileName,
         size: fileSize,
         category,
+        documentType,
+        version: document.version,
         uploadDate: document.uploadDate
       });
     } catch (error) {
@@ -338,20 +740,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Admin roles (SUPER_ADMIN, COMPANY_ADMIN, HR_MANAGER, DEPARTMENT_MANAGER) 
       // can access any document in their company
       
-      // Serve file securely with proper path handling
-      const filePath = path.join(__dirname, '..', 'uploads', path.basename(document.filePath));
-      
       // Set appropriate content type
       const ext = path.extname(document.fileName).toLowerCase();
+      let contentType: string | undefined;
       if (ext === '.pdf') {
-        res.setHeader('Content-Type', 'application/pdf');
+        contentType = 'application/pdf';
       } else if (['.jpg', '.jpeg'].includes(ext)) {
-        res.setHeader('Content-Type', 'image/jpeg');
+        contentType = 'image/jpeg';
       } else if (ext === '.png') {
-        res.setHeader('Content-Type', 'image/png');
+        contentType = 'image/png';
       }
       
-      res.sendFile(filePath);
+      // Hand the browser a short-lived signed URL of the storage driver
+      const downloadURL = await getStorageDriver().getDownloadURL(getDocumentObjectName(document.filePath), {
+        contentType,
+        fileName: document.fileName,
+      });
+      res.redirect(downloadURL);
     } catch (error) {
       console.error("File access error:", error);
       res.status(500).json({ error: "File access failed" });
@@ -777,21 +1182,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ?dryRun=true reports what would be removed without deleting anything
   app.delete("/api/companies/:id/hard-delete", requireRole('SUPER_ADMIN'), async (req, res) => {
     try {
       const { id } = req.params;
-      const deletedCompany = await storage.hardDeleteCompany(id);
+      const company = await storage.getCompany(id);
+      
+      if (!company) {
+        return res.status(404).json({ error: "Company not found" });
+      }
       
-      if (!deletedCompany) {
+      if (req.query.dryRun === 'true') {
+        const report = await previewCompanyPurge(id);
+        return res.json({ dryRun: true, report });
+      }
+      
+      // Only companies in the bin can be purged, so an active tenant is never lost in one step
+      if (company.isActive) {
+        return res.status(409).json({ error: "Move the company to the bin before deleting it permanently" });
+      }
+      
+      const outcome = await purgeCompany(id);
+      if (!outcome) {
         return res.status(404).json({ error: "Company not found" });
       }
       
-      res.json({ message: "Company permanently deleted", company: deletedCompany });
+      res.json({
+        message: "Company permanently deleted",
+        company: outcome.company,
+        report: outcome.report,
+        archive: outcome.archiveFileName,
+      });
     } catch (error) {
+      console.error('Hard delete company error:', error);
       res.status(500).json({ error: "Failed to permanently delete company" });
     }
   });
 
+  // Download an archive written before a company was purged
+  app.get("/api/companies/archives/:fileName", requireRole('SUPER_ADMIN'), async (req, res) => {
+    try {
+      const filePath = getArchivePath(req.params.fileName);
+      if (!filePath) {
+        return res.status(404).json({ error: "Archive not found" });
+      }
+      
+      res.setHeader('Content-Type', 'application/gzip');
+      res.download(filePath);
+    } catch (error) {
+      console.error('Archive download error:', error);
+      res.status(500).json({ error: "Failed to download archive" });
+    }
+  });
+
   app.post("/api/companies", requireRole('SUPER_ADMIN'), async (req, res) => {
     try {
       const validatedData = insertCompanySchema.parse(req.body);
@@ -1036,13 +1479,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Company context required" });
       }
       
-      const employees = await storage.getEmployees(companyId);
+      // Terminated employees are only needed to label historical records such as payroll
+      const employees = await storage.getEmployees(companyId, req.query.includeDeleted === 'true');
       res.json(employees);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch employees" });
     }
   });
 
+  // Bin routes for terminated (soft-deleted) employees
+  app.get("/api/employees/bin", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const company = await storage.getCompany(companyId);
+      const { retentionDays } = getEmployeeBinSettings(company?.settings);
+      const deletedEmployees = await storage.getDeletedEmployees(companyId);
+      res.json(deletedEmployees.map(employee => ({ ...employee, purgeDate: getPurgeDate(employee, retentionDays) })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch deleted employees" });
+    }
+  });
+
   app.get("/api/employees/:id", requireEmployeeAccess, async (req, res) => {
     try {
       const employee = await storage.getEmployee(req.params.id);
@@ -1150,6 +1624,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         laborCardInfo: validatedData.laborCardInfo ?? {},
         status: validatedData.status ?? 'ACTIVE',
       });
+      
+      // Gratuity is computed from the start date, never taken from the form
+      const accruedGratuity = calculateGratuity(employee, getAttendanceDate(), 0).amount;
+      if (employee.compensation?.endOfServiceGratuity !== accruedGratuity) {
+        const updatedEmployee = await storage.updateEmployee(employee.id, {
+          compensation: { ...(employee.compensation || {}), endOfServiceGratuity: accruedGratuity },
+        });
+        return res.status(201).json(updatedEmployee);
+      }
       res.status(201).json(employee);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1515,9 +1998,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Verify all employees exist and belong to the user's company
-      const updatePromises = [];
-      const updatedEmployees = [];
-
+      const employeesToMove = [];
       for (const employeeId of employeeIds) {
         const employee = await storage.getEmployee(employeeId);
         
@@ -1528,30 +2009,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (employee.companyId !== userCompanyId) {
           return res.status(403).json({ error: `Access denied - employee ${employeeId} belongs to different company` });
         }
-
-        // Update the employee's employment details
-        const currentEmploymentDetails = employee.employmentDetails as any;
-        const updatedEmploymentDetails = {
-          ...currentEmploymentDetails,
-          departmentId: departmentId
-        };
-
-        updatePromises.push(
-          storage.updateEmployee(employeeId, {
-            employmentDetails: updatedEmploymentDetails
-          })
-        );
+        
+        employeesToMove.push(employee);
       }
 
-      // Execute all updates
-      const results = await Promise.all(updatePromises);
-      
-      // Filter out any undefined results and add to updated employees
-      results.forEach(result => {
-        if (result) {
-          updatedEmployees.push(result);
+      // Each move is recorded as a transfer effective today
+      const updatedEmployees = [];
+      for (const employee of employeesToMove) {
+        if ((employee.employmentDetails?.departmentId || null) !== departmentId) {
+          await recordJobEvent(employee, {
+            eventType: 'TRANSFER',
+            effectiveDate: getAttendanceDate(),
+            toDepartmentId: departmentId,
+          }, userData?.id || '');
         }
-      });
+        const updatedEmployee = await storage.getEmployee(employee.id);
+        if (updatedEmployee) {
+          updatedEmployees.push(updatedEmployee);
+        }
+      }
 
       res.json({
         success: true,
@@ -1568,54 +2044,3512 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // DELETE /api/employees/:id - Delete employee
-  app.delete("/api/employees/:id", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+  // PUT /api/employees/:id - Update an employee profile, recording each changed field
+  app.put("/api/employees/:id", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
     try {
       const user = req.user as any;
       const userData = await storage.getUser(user.claims.sub);
-      const { id } = req.params;
       
-      let userCompanyId = userData?.companyId;
+      let companyId = userData?.companyId;
       
       // For super admins, get company context from headers, body, or query
-      if (userData?.role === 'SUPER_ADMIN' && !userCompanyId) {
-        const companySlug = req.headers['x-company-slug'] as string || req.query.companySlug as string;
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
         if (companySlug) {
           const company = await storage.getCompanyBySlug(companySlug);
-          userCompanyId = company?.id;
+          companyId = company?.id;
         }
       }
 
-      if (!userCompanyId) {
+      if (!companyId) {
         return res.status(400).json({ error: "Company context required" });
       }
 
-      // Verify employee exists and belongs to the user's company
-      const employee = await storage.getEmployee(id);
+      const employee = await storage.getEmployee(req.params.id);
       if (!employee) {
         return res.status(404).json({ error: "Employee not found" });
       }
       
-      if (employee.companyId !== userCompanyId) {
+      if (employee.companyId !== companyId) {
         return res.status(403).json({ error: "Access denied - employee belongs to different company" });
       }
 
-      // Delete the employee
-      const deletedEmployee = await storage.deleteEmployee(id);
-      if (!deletedEmployee) {
-        return res.status(404).json({ error: "Employee not found" });
+      if (employee.deletedAt) {
+        return res.status(409).json({ error: "Restore the employee from the bin before editing their profile" });
       }
       
-      res.json({ message: "Employee deleted successfully", employee: deletedEmployee });
-    } catch (error) {
+      const { companySlug, ...body } = req.body;
+      const updates = updateEmployeeSchema.parse(body);
+      
+      // Pay changes need an approved salary revision; the profile keeps the salary on record
+      if (updates.compensation) {
+        const salaryChanges = getChangedSalaryComponents(employee, updates.compensation);
+        if (salaryChanges.length > 0) {
+          return res.status(400).json({
+            error: "Salary changes must be submitted as a salary revision",
+            fields: salaryChanges,
+          });
+        }
+        updates.compensation = withRecordedSalary(employee, updates.compensation);
+      }
+      
+      if (updates.employeeCode && updates.employeeCode !== employee.employeeCode &&
+          !(await storage.isEmployeeCodeAvailable(companyId, updates.employeeCode))) {
+        return res.status(409).json({ error: "This employee ID is already in use" });
+      }
+      
+      // Department, position and manager changes are recorded as a job event effective today
+      let jobEvent = null;
+      if (updates.employmentDetails) {
+        jobEvent = getProfileEditJobEvent(employee, updates.employmentDetails);
+        updates.employmentDetails = withRecordedAssignment(employee, updates.employmentDetails);
+      }
+      
+      const result = await updateEmployeeProfile(employee, updates, userData!.id);
+      if (!result.employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      if (jobEvent) {
+        await recordJobEvent(result.employee, jobEvent, userData!.id);
+        return res.json(await storage.getEmployee(employee.id));
+      }
+      
+      res.json(result.employee);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Update employee error:', error);
+      res.status(500).json({ error: "Failed to update employee" });
+    }
+  });
+
+  // GET /api/employees/:id/history - Field-level change history, newest first
+  app.get("/api/employees/:id/history", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const employee = await storage.getEmployee(req.params.id);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && employee.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - employee belongs to different company" });
+      }
+      
+      res.json(await getEmployeeTimeline(employee.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch employee history" });
+    }
+  });
+
+  // GET /api/employees/:id/salary-revisions - Salary revisions of an employee, newest effective date first
+  app.get("/api/employees/:id/salary-revisions", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const employee = await storage.getEmployee(req.params.id);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && employee.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - employee belongs to different company" });
+      }
+      
+      res.json(await getSalaryHistory(employee.companyId, { employeeId: employee.id }));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch salary revisions" });
+    }
+  });
+
+  // POST /api/employees/:id/salary-revisions - Propose a salary revision for approval
+  app.post("/api/employees/:id/salary-revisions", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const salaryAmount = z.coerce.number().min(0).max(10000000);
+      const revision = z.object({
+        effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+        reason: z.enum(SALARY_REVISION_REASONS),
+        basicSalary: salaryAmount,
+        housingAllowance: salaryAmount.default(0),
+        transportAllowance: salaryAmount.default(0),
+        otherAllowance: salaryAmount.default(0),
+        notes: z.string().max(1000).optional(),
+      }).parse(req.body);
+      
+      const employee = await storage.getEmployee(req.params.id);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && employee.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - employee belongs to different company" });
+      }
+      
+      if (employee.deletedAt) {
+        return res.status(409).json({ error: "Employee has been terminated - restore them before revising their salary" });
+      }
+      
+      // Approved payroll cannot be recalculated, so a revision may not reach back into it
+      const run = await storage.getPayrollRunByMonth(employee.companyId, revision.effectiveDate.slice(0, 7));
+      if (run && isPayrollRunLocked(run)) {
+        return res.status(409).json({ error: `Payroll for ${run.month} is already ${run.status?.toLowerCase()} - choose a later effective date` });
+      }
+      
+      const created = await proposeSalaryRevision(employee, {
+        effectiveDate: revision.effectiveDate,
+        reason: revision.reason,
+        salary: {
+          basicSalary: revision.basicSalary,
+          housingAllowance: revision.housingAllowance,
+          transportAllowance: revision.transportAllowance,
+          otherAllowance: revision.otherAllowance,
+        },
+        notes: revision.notes,
+      }, userData?.id || '');
+      
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Salary revision error:', error);
+      res.status(500).json({ error: "Failed to create salary revision" });
+    }
+  });
+
+  // GET /api/salary-revisions - Salary revisions across the company, optionally by status
+  app.get("/api/salary-revisions", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const { status } = z.object({
+        status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+      }).parse(req.query);
+      
+      const [revisions, employees] = await Promise.all([
+        getSalaryHistory(companyId, { status }),
+        storage.getEmployees(companyId),
+      ]);
+      const employeesById = new Map(employees.map(employee => [employee.id, employee]));
+      
+      res.json(revisions.map(revision => {
+        const employee = employeesById.get(revision.employeeId);
+        return {
+          ...revision,
+          employeeCode: employee?.employeeCode || null,
+          employeeName: employee?.personalInfo?.name || null,
+        };
+      }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch salary revisions" });
+    }
+  });
+
+  // POST /api/salary-revisions/:id/approve - Approve a pending revision; nobody approves their own proposal or raise
+  app.post("/api/salary-revisions/:id/approve", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const { comments } = z.object({ comments: z.string().max(1000).optional() }).parse(req.body);
+      
+      const revision = await storage.getSalaryRevision(req.params.id);
+      if (!revision) {
+        return res.status(404).json({ error: "Salary revision not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && revision.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - salary revision belongs to different company" });
+      }
+      
+      if (revision.requestedBy === userData?.id) {
+        return res.status(403).json({ error: "A salary revision must be approved by someone other than who proposed it" });
+      }
+      
+      if (revision.status !== 'PENDING') {
+        return res.status(409).json({ error: `Salary revision is already ${revision.status?.toLowerCase()}` });
+      }
+      
+      const employee = await storage.getEmployee(revision.employeeId);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      if (employee.userId && employee.userId === userData?.id) {
+        return res.status(403).json({ error: "You cannot approve a revision of your own salary" });
+      }
+      
+      const run = await storage.getPayrollRunByMonth(revision.companyId, revision.effectiveDate.slice(0, 7));
+      if (run && isPayrollRunLocked(run)) {
+        return res.status(409).json({ error: `Payroll for ${run.month} is already ${run.status?.toLowerCase()} - reject this revision and propose a later effective date` });
+      }
+      
+      const approved = await approveSalaryRevision(revision, employee, userData?.id || '', comments);
+      if (!approved) {
+        return res.status(409).json({ error: "Salary revision was reviewed by someone else - reload and try again" });
+      }
+      
+      res.json(approved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Salary revision approval error:', error);
+      res.status(500).json({ error: "Failed to approve salary revision" });
+    }
+  });
+
+  // POST /api/salary-revisions/:id/reject - Reject a pending revision
+  app.post("/api/salary-revisions/:id/reject", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const { comments } = z.object({ comments: z.string().max(1000).optional() }).parse(req.body);
+      
+      const revision = await storage.getSalaryRevision(req.params.id);
+      if (!revision) {
+        return res.status(404).json({ error: "Salary revision not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && revision.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - salary revision belongs to different company" });
+      }
+      
+      if (revision.status !== 'PENDING') {
+        return res.status(409).json({ error: `Salary revision is already ${revision.status?.toLowerCase()}` });
+      }
+      
+      const updatedRevision = await storage.transitionSalaryRevision(revision.id, 'PENDING', {
+        status: 'REJECTED',
+        approvedBy: userData?.id || null,
+        approvedAt: new Date(),
+        comments: comments || null,
+      });
+      if (!updatedRevision) {
+        return res.status(409).json({ error: "Salary revision was reviewed by someone else - reload and try again" });
+      }
+      
+      res.json(updatedRevision);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Salary revision rejection error:', error);
+      res.status(500).json({ error: "Failed to reject salary revision" });
+    }
+  });
+
+  // GET /api/employees/:id/job-events - Promotions, transfers and manager changes, newest first
+  app.get("/api/employees/:id/job-events", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const employee = await storage.getEmployee(req.params.id);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && employee.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - employee belongs to different company" });
+      }
+      
+      res.json(await storage.getJobEvents(employee.companyId, { employeeId: employee.id }));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch job events" });
+    }
+  });
+
+  // POST /api/employees/:id/job-events - Record a job event; future-dated events are applied on their effective date
+  app.post("/api/employees/:id/job-events", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const input = z.object({
+        eventType: z.enum(JOB_EVENT_TYPES),
+        effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+        toDepartmentId: z.string().nullable().optional(),
+        toPosition: z.string().max(255).nullable().optional(),
+        toManagerId: z.string().nullable().optional(),
+        notes: z.string().max(1000).optional(),
+      }).parse(req.body);
+      
+      const employee = await storage.getEmployee(req.params.id);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && employee.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - employee belongs to different company" });
+      }
+      
+      if (employee.deletedAt) {
+        return res.status(409).json({ error: "Employee has been terminated - restore them before recording job changes" });
+      }
+      
+      if (input.toDepartmentId) {
+        const department = await storage.getDepartmentById(input.toDepartmentId);
+        if (!department || department.companyId !== employee.companyId) {
+          return res.status(400).json({ error: "Department not found in this company" });
+        }
+      }
+      
+      if (input.toManagerId) {
+        const manager = await storage.getEmployee(input.toManagerId);
+        if (!manager || manager.companyId !== employee.companyId || manager.deletedAt) {
+          return res.status(400).json({ error: "Manager not found in this company" });
+        }
+        if (manager.id === employee.id) {
+          return res.status(400).json({ error: "An employee cannot report to themselves" });
+        }
+      }
+      
+      if (!changesAssignment(await buildJobEvent(employee, input, userData?.id || ''))) {
+        return res.status(400).json({ error: "The event does not change the department, position or manager" });
+      }
+      
+      const event = await recordJobEvent(employee, input, userData?.id || '');
+      res.status(201).json(event);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Job event error:', error);
+      res.status(500).json({ error: "Failed to record job event" });
+    }
+  });
+
+  // POST /api/job-events/:id/cancel - Cancel a job event that has not taken effect yet
+  app.post("/api/job-events/:id/cancel", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const event = await storage.getJobEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ error: "Job event not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && event.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - job event belongs to different company" });
+      }
+      
+      if (event.status !== 'SCHEDULED') {
+        return res.status(409).json({ error: `Job event is already ${event.status?.toLowerCase()}` });
+      }
+      
+      const updatedEvent = await storage.updateJobEvent(event.id, { status: 'CANCELLED' });
+      res.json(updatedEvent);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to cancel job event" });
+    }
+  });
+
+  // GET /api/reports/headcount - Headcount per department with joiners, leavers, transfers and promotions
+  app.get("/api/reports/headcount", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const today = getAttendanceDate();
+      const { from, to } = z.object({
+        from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).default(`${today.slice(0, 7)}-01`),
+        to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).default(today),
+      }).refine(range => range.from <= range.to, "The start date must not be after the end date").parse(req.query);
+      
+      res.json(await getHeadcountReport(companyId, from, to));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to build headcount report" });
+    }
+  });
+
+  // DELETE /api/employees/:id - Delete employee
+  app.delete("/api/employees/:id", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      const { id } = req.params;
+      
+      let userCompanyId = userData?.companyId;
+      
+      // For super admins, get company context from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !userCompanyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          userCompanyId = company?.id;
+        }
+      }
+
+      if (!userCompanyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+
+      // Verify employee exists and belongs to the user's company
+      const employee = await storage.getEmployee(id);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      if (employee.companyId !== userCompanyId) {
+        return res.status(403).json({ error: "Access denied - employee belongs to different company" });
+      }
+
+      if (employee.deletedAt) {
+        return res.status(409).json({ error: "Employee is already terminated" });
+      }
+      
+      if (await storage.getOpenOffboarding(id)) {
+        return res.status(409).json({ error: "Employee has an offboarding in progress - complete it instead" });
+      }
+      
+      // Soft delete: keep the record and history, terminate today and deactivate the login
+      const deletedEmployee = await storage.terminateEmployee(id, getAttendanceDate());
+      if (!deletedEmployee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      res.json({ message: "Employee terminated successfully", employee: deletedEmployee });
+    } catch (error) {
       console.error('Delete employee error:', error);
       res.status(500).json({ error: "Failed to delete employee" });
     }
   });
 
-  // Position routes - Company Admins and HR only
-  app.get("/api/positions", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER'), requireCompany, async (req, res) => {
+  app.post("/api/employees/:id/restore", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, get company context from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+
+      const employee = await storage.getEmployee(req.params.id);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      if (employee.companyId !== companyId) {
+        return res.status(403).json({ error: "Access denied - employee belongs to different company" });
+      }
+
+      if (!employee.deletedAt) {
+        return res.status(409).json({ error: "Employee is not in the bin" });
+      }
+      
+      const restoredEmployee = await storage.restoreEmployee(employee.id);
+      if (!restoredEmployee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      res.json({ message: "Employee restored successfully", employee: restoredEmployee });
+    } catch (error) {
+      console.error('Restore employee error:', error);
+      res.status(500).json({ error: "Failed to restore employee" });
+    }
+  });
+
+  app.delete("/api/employees/:id/hard-delete", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, get company context from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+
+      const employee = await storage.getEmployee(req.params.id);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      if (employee.companyId !== companyId) {
+        return res.status(403).json({ error: "Access denied - employee belongs to different company" });
+      }
+
+      // Only binned employees can be purged, so an active record is never lost in one step
+      if (!employee.deletedAt) {
+        return res.status(409).json({ error: "Terminate the employee before deleting them permanently" });
+      }
+      
+      const deletedEmployee = await purgeEmployee(employee.id);
+      if (!deletedEmployee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      res.json({ message: "Employee permanently deleted", employee: deletedEmployee });
+    } catch (error) {
+      console.error('Hard delete employee error:', error);
+      res.status(500).json({ error: "Failed to permanently delete employee" });
+    }
+  });
+
+  // Employee bin retention - stored under companies.settings.employeeBin
+  app.get("/api/employee-bin/settings", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+      
+      res.json(getEmployeeBinSettings(company.settings));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch employee bin settings" });
+    }
+  });
+
+  app.put("/api/employee-bin/settings", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, get company context from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+
+      const employeeBin = z.object({
+        retentionDays: z.number().int().min(MIN_RETENTION_DAYS).max(MAX_RETENTION_DAYS),
+      }).parse(req.body);
+      
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+      
+      // Merge so the rest of companies.settings (modules, licensing) is preserved
+      const updatedCompany = await storage.updateCompany(companyId, {
+        settings: { ...(company.settings as Record<string, any> || {}), employeeBin },
+      });
+      
+      res.json(getEmployeeBinSettings(updatedCompany?.settings));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update employee bin settings" });
+    }
+  });
+
+  // Document expiry dashboard - visa, Emirates ID, passport, work permit, labor card and uploaded documents
+  app.get("/api/document-expiry", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const report = await getDocumentExpiryReport(companyId);
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to build document expiry report" });
+    }
+  });
+
+  // Document expiry reminder lead times - stored under companies.settings.documentExpiry
+  app.get("/api/document-expiry/settings", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+      
+      res.json(getDocumentExpirySettings(company.settings));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch document expiry settings" });
+    }
+  });
+
+  app.put("/api/document-expiry/settings", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, get company context from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+
+      const { reminderDays } = z.object({
+        reminderDays: z.array(z.number().int().min(1).max(MAX_REMINDER_DAYS)).min(1).max(10),
+      }).parse(req.body);
+      
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+      
+      // Merge so the rest of companies.settings (modules, licensing) is preserved
+      const documentExpiry = { reminderDays: Array.from(new Set(reminderDays)).sort((a, b) => b - a) };
+      const updatedCompany = await storage.updateCompany(companyId, {
+        settings: { ...(company.settings as Record<string, any> || {}), documentExpiry },
+      });
+      
+      res.json(getDocumentExpirySettings(updatedCompany?.settings));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update document expiry settings" });
+    }
+  });
+
+  // Position routes - Company Admins and HR only
+  app.get("/api/positions", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const positions = await storage.getPositions(companyId);
+      res.json(positions);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch positions" });
+    }
+  });
+
+  app.post("/api/positions", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const validatedData = insertPositionSchema.parse({
+        ...req.body,
+        companyId: companyId // Use resolved companyId, not userData.companyId
+      });
+      
+      const position = await storage.createPosition({
+        ...validatedData,
+        level: validatedData.level ?? null,
+        grade: validatedData.grade ?? null,
+        plannedHeadcount: validatedData.plannedHeadcount ?? 1,
+        salaryBandMin: validatedData.salaryBandMin ?? null,
+        salaryBandMax: validatedData.salaryBandMax ?? null,
+        jobDescription: validatedData.jobDescription ?? null,
+      });
+      res.status(201).json(position);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create position" });
+    }
+  });
+
+  // GET /api/positions/vacancies - Filled seats against planned headcount per department
+  app.get("/api/positions/vacancies", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const report = await getVacancyReport(companyId);
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to build vacancy report" });
+    }
+  });
+
+  // PUT /api/positions/:id - Update position; a new title is carried over to its holders
+  app.put("/api/positions/:id", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      const { id } = req.params;
+      
+      const existingPosition = await storage.getPosition(id);
+      if (!existingPosition) {
+        return res.status(404).json({ error: "Position not found" });
+      }
+      
+      // Verify the position belongs to the user's company
+      let userCompanyId = userData?.companyId;
+      if (userData?.role === 'SUPER_ADMIN' && !userCompanyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          userCompanyId = company?.id;
+        }
+      }
+      
+      if (existingPosition.companyId !== userCompanyId) {
+        return res.status(403).json({ error: "Access denied - position belongs to different company" });
+      }
+      
+      const { companySlug, ...updates } = req.body;
+      const validatedData = updatePositionSchema.parse(updates);
+      if (Object.keys(validatedData).length === 0) {
+        return res.status(400).json({ error: "No valid fields to update" });
+      }
+      
+      // The band is checked as a whole, so a one-sided update is compared with the stored bound
+      const salaryBandMin = validatedData.salaryBandMin !== undefined ? validatedData.salaryBandMin : existingPosition.salaryBandMin;
+      const salaryBandMax = validatedData.salaryBandMax !== undefined ? validatedData.salaryBandMax : existingPosition.salaryBandMax;
+      if (salaryBandMin && salaryBandMax && parseFloat(salaryBandMin) > parseFloat(salaryBandMax)) {
+        return res.status(400).json({ error: "Salary band minimum must not exceed the maximum" });
+      }
+      
+      if (validatedData.departmentId) {
+        const department = await storage.getDepartmentById(validatedData.departmentId);
+        if (!department || department.companyId !== existingPosition.companyId) {
+          return res.status(400).json({ error: "Department not found" });
+        }
+      }
+      
+      const updatedPosition = await updatePosition(existingPosition, validatedData, user.claims.sub);
+      if (!updatedPosition) {
+        return res.status(404).json({ error: "Position not found" });
+      }
+      
+      res.json(updatedPosition);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update position" });
+    }
+  });
+
+  // DELETE /api/positions/:id - Delete position that no active employee holds
+  app.delete("/api/positions/:id", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      const { id } = req.params;
+      
+      const existingPosition = await storage.getPosition(id);
+      if (!existingPosition) {
+        return res.status(404).json({ error: "Position not found" });
+      }
+      
+      // Verify the position belongs to the user's company
+      let userCompanyId = userData?.companyId;
+      if (userData?.role === 'SUPER_ADMIN' && !userCompanyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          userCompanyId = company?.id;
+        }
+      }
+      
+      if (existingPosition.companyId !== userCompanyId) {
+        return res.status(403).json({ error: "Access denied - position belongs to different company" });
+      }
+      
+      const holders = await getPositionHolders(existingPosition);
+      if (holders.length > 0) {
+        return res.status(400).json({ 
+          error: "Cannot delete position with assigned employees", 
+          employeeCount: holders.length 
+        });
+      }
+      
+      const deletedPosition = await storage.deletePosition(id);
+      if (!deletedPosition) {
+        return res.status(404).json({ error: "Position not found" });
+      }
+      
+      res.json({ message: "Position deleted successfully", position: deletedPosition });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete position" });
+    }
+  });
+
+  // Leave type routes - readable by everyone in the company, managed by Company Admins and HR
+  app.get("/api/leave-types", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      let leaveTypes = await storage.getLeaveTypes(companyId);
+      
+      // Seed the UAE statutory leave types if the company has never configured any
+      if (leaveTypes.length === 0 && (await storage.getLeaveTypes(companyId, true)).length === 0) {
+        for (const leaveType of UAE_DEFAULT_LEAVE_TYPES) {
+          await storage.createLeaveType({
+            companyId,
+            name: leaveType.name,
+            daysAllowed: leaveType.daysAllowed,
+            rules: leaveType.rules,
+            isActive: true,
+          });
+        }
+        
+        // Fetch leave types again after creation
+        leaveTypes = await storage.getLeaveTypes(companyId);
+      }
+      
+      res.json(leaveTypes);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch leave types" });
+    }
+  });
+
+  app.post("/api/leave-types", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const validatedData = insertLeaveTypeSchema.parse({
+        ...req.body,
+        companyId: companyId // Use resolved companyId, not userData.companyId
+      });
+      
+      const leaveType = await storage.createLeaveType({
+        ...validatedData,
+        rules: validatedData.rules ?? {},
+        isActive: validatedData.isActive ?? true,
+      });
+      res.status(201).json(leaveType);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create leave type" });
+    }
+  });
+
+  app.put("/api/leave-types/:id", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      const { id } = req.params;
+      
+      const existingLeaveType = await storage.getLeaveType(id);
+      if (!existingLeaveType) {
+        return res.status(404).json({ error: "Leave type not found" });
+      }
+      
+      // Verify the leave type belongs to the user's company
+      let userCompanyId = userData?.companyId;
+      if (userData?.role === 'SUPER_ADMIN' && !userCompanyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          userCompanyId = company?.id;
+        }
+      }
+      
+      if (existingLeaveType.companyId !== userCompanyId) {
+        return res.status(403).json({ error: "Access denied - leave type belongs to different company" });
+      }
+      
+      const validatedData = insertLeaveTypeSchema.omit({ companyId: true }).partial().parse(req.body);
+      
+      const leaveType = await storage.updateLeaveType(id, validatedData);
+      if (!leaveType) {
+        return res.status(404).json({ error: "Leave type not found" });
+      }
+      
+      res.json(leaveType);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update leave type" });
+    }
+  });
+
+  app.delete("/api/leave-types/:id", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      const { id } = req.params;
+      
+      const existingLeaveType = await storage.getLeaveType(id);
+      if (!existingLeaveType) {
+        return res.status(404).json({ error: "Leave type not found" });
+      }
+      
+      // Verify the leave type belongs to the user's company
+      let userCompanyId = userData?.companyId;
+      if (userData?.role === 'SUPER_ADMIN' && !userCompanyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          userCompanyId = company?.id;
+        }
+      }
+      
+      if (existingLeaveType.companyId !== userCompanyId) {
+        return res.status(403).json({ error: "Access denied - leave type belongs to different company" });
+      }
+      
+      const leaveType = await storage.deleteLeaveType(id);
+      res.json({ message: "Leave type deleted successfully", leaveType });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete leave type" });
+    }
+  });
+
+  // Leave approval chain settings - stored under companies.settings.leaveApproval
+  app.get("/api/leave-settings", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+      
+      res.json(getLeaveApprovalSettings(company.settings));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch leave settings" });
+    }
+  });
+
+  app.put("/api/leave-settings", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const leaveApproval = z.object({
+        skipReportingManager: z.boolean().optional(),
+        skipDepartmentManager: z.boolean().optional(),
+        skipHr: z.boolean().optional(),
+        autoApproveUnderDays: z.number().int().min(0).optional(),
+      }).parse(req.body);
+      
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+      
+      // Merge so the rest of companies.settings (modules, licensing) is preserved
+      const updatedCompany = await storage.updateCompany(companyId, {
+        settings: { ...(company.settings as Record<string, any> || {}), leaveApproval },
+      });
+      
+      res.json(getLeaveApprovalSettings(updatedCompany?.settings));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update leave settings" });
+    }
+  });
+
+  // Leave request routes - HR sees the whole company, employees only their own requests
+  app.get("/api/leave-requests", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const filters = {
+        employeeId: req.query.employeeId as string | undefined,
+        status: req.query.status as string | undefined,
+      };
+      
+      if (userData?.role === 'EMPLOYEE') {
+        const employee = await storage.getEmployeeByUserId(userData.id);
+        if (!employee) {
+          return res.status(404).json({ error: "Employee record not found" });
+        }
+        filters.employeeId = employee.id;
+      }
+      
+      const leaveRequests = await storage.getLeaveRequests(companyId, filters);
+      res.json(leaveRequests);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch leave requests" });
+    }
+  });
+
+  app.post("/api/leave-requests", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      if (!userData) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      let companyId = userData.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id ?? null;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      // Employees always submit for themselves; HR roles may submit on behalf of an employee
+      let employeeId = req.body.employeeId;
+      if (userData.role === 'EMPLOYEE' || !employeeId) {
+        const ownEmployee = await storage.getEmployeeByUserId(userData.id);
+        if (!ownEmployee) {
+          return res.status(400).json({ error: "employeeId is required" });
+        }
+        employeeId = ownEmployee.id;
+      }
+      
+      // Day counts are always computed server-side from the company calendar
+      const validatedData = insertLeaveRequestSchema.omit({ status: true, approvals: true, approvalChain: true, currentStep: true, daysRequested: true }).parse({ ...req.body, employeeId });
+      
+      if (validatedData.endDate < validatedData.startDate) {
+        return res.status(400).json({ error: "End date must be on or after start date" });
+      }
+      
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee || employee.companyId !== companyId) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      const leaveType = await storage.getLeaveType(validatedData.leaveTypeId);
+      if (!leaveType || leaveType.companyId !== companyId || !leaveType.isActive) {
+        return res.status(400).json({ error: "Invalid leave type" });
+      }
+      
+      const workingDays = await calculateCompanyWorkingDays(companyId, validatedData.startDate, validatedData.endDate);
+      const daysRequested = (leaveType.rules as LeaveTypeRules | null)?.dayCount === 'CALENDAR'
+        ? workingDays.calendarDays
+        : workingDays.workingDays;
+      if (daysRequested === 0) {
+        return res.status(400).json({ error: "Selected dates fall entirely on weekends or public holidays" });
+      }
+      
+      // Check the remaining balance for the leave year, accrued up to today
+      const year = new Date(validatedData.startDate).getFullYear();
+      const balance = await recalculateLeaveBalance(employee, leaveType, year);
+      const remaining = balance.balance;
+      if (daysRequested > remaining) {
+        return res.status(400).json({ 
+          error: "Insufficient leave balance", 
+          remaining, 
+          requested: daysRequested 
+        });
+      }
+      
+      // Route through reporting manager -> department manager -> HR as configured for the company
+      const company = await storage.getCompany(companyId);
+      const approvalSettings = getLeaveApprovalSettings(company?.settings);
+      const departmentId = employee.employmentDetails?.departmentId;
+      const department = departmentId ? await storage.getDepartmentById(departmentId) : undefined;
+      const approvalChain = buildLeaveApprovalChain(employee, department, approvalSettings);
+      
+      const leaveRequest = await storage.createLeaveRequest({
+        ...validatedData,
+        daysRequested,
+        reason: validatedData.reason ?? null,
+        status: 'PENDING',
+        approvals: [{
+          action: 'SUBMITTED',
+          by: userData.id,
+          role: userData.role,
+          at: new Date().toISOString(),
+        }],
+        approvalChain,
+        currentStep: 0,
+      });
+      
+      if (isAutoApproved(daysRequested, approvalChain, approvalSettings)) {
+        const approvedRequest = await storage.transitionLeaveRequest(leaveRequest.id, 'PENDING', 'APPROVED', {
+          action: 'APPROVED',
+          by: 'system',
+          role: 'SYSTEM',
+          at: new Date().toISOString(),
+          level: 'AUTO',
+        }, daysRequested);
+        return res.status(201).json(approvedRequest);
+      }
+      
+      res.status(201).json(leaveRequest);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Leave request creation error:', error);
+      res.status(500).json({ error: "Failed to create leave request" });
+    }
+  });
+
+  // GET /api/leave-requests/inbox - Pending requests whose current chain step awaits the caller
+  app.get("/api/leave-requests/inbox", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      if (!userData) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      let companyId = userData.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id ?? null;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const approverEmployee = await storage.getEmployeeByUserId(userData.id);
+      const includeHrSteps = ['SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'].includes(userData.role);
+      
+      const inbox = await storage.getLeaveApprovalInbox(companyId, approverEmployee?.id, includeHrSteps);
+      res.json(inbox);
+    } catch (error) {
+      console.error('Leave inbox error:', error);
+      res.status(500).json({ error: "Failed to fetch leave approval inbox" });
+    }
+  });
+
+  // Approve the current chain step; the final step approves the request and debits the balance
+  app.post("/api/leave-requests/:id/approve", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      const { id } = req.params;
+      
+      if (!userData) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      const leaveRequest = await storage.getLeaveRequest(id);
+      if (!leaveRequest) {
+        return res.status(404).json({ error: "Leave request not found" });
+      }
+      
+      const employee = await storage.getEmployee(leaveRequest.employeeId);
+      if (!employee || (userData.role !== 'SUPER_ADMIN' && employee.companyId !== userData.companyId)) {
+        return res.status(403).json({ error: "Access denied - leave request belongs to different company" });
+      }
+      
+      if (leaveRequest.status !== 'PENDING') {
+        return res.status(409).json({ error: `Cannot approve a ${leaveRequest.status?.toLowerCase()} leave request` });
+      }
+      
+      const approvalChain = (leaveRequest.approvalChain || []) as LeaveApprovalStep[];
+      const stepIndex = leaveRequest.currentStep || 0;
+      const currentStep = approvalChain[stepIndex];
+      const approverEmployee = await storage.getEmployeeByUserId(userData.id);
+      
+      if (approverEmployee?.id === leaveRequest.employeeId) {
+        return res.status(403).json({ error: "A leave request must be approved by someone other than who requested it" });
+      }
+      
+      // Requests submitted before approval chains existed are approved by HR directly
+      if (currentStep ? !canActOnStep(currentStep, userData.role, approverEmployee?.id, leaveRequest.employeeId) : userData.role === 'EMPLOYEE') {
+        return res.status(403).json({ error: "This leave request is not awaiting your approval" });
+      }
+      
+      const approval: LeaveApproval = {
+        action: 'APPROVED',
+        by: userData.id,
+        role: userData.role,
+        at: new Date().toISOString(),
+        level: currentStep?.level,
+        comments: req.body.comments,
+      };
+      
+      if (stepIndex < approvalChain.length - 1) {
+        const advancedRequest = await storage.advanceLeaveRequest(id, stepIndex, approval);
+        if (!advancedRequest) {
+          return res.status(409).json({ error: "Leave request was updated by someone else - reload and try again" });
+        }
+        return res.json(advancedRequest);
+      }
+      
+      // Re-check the balance in case other requests were approved since submission
+      const leaveType = await storage.getLeaveType(leaveRequest.leaveTypeId);
+      if (!leaveType) {
+        return res.status(400).json({ error: "Invalid leave type" });
+      }
+      const year = new Date(leaveRequest.startDate).getFullYear();
+      const balance = await recalculateLeaveBalance(employee, leaveType, year);
+      const remaining = balance.balance;
+      if (leaveRequest.daysRequested > remaining) {
+        return res.status(400).json({ 
+          error: "Insufficient leave balance", 
+          remaining, 
+          requested: leaveRequest.daysRequested 
+        });
+      }
+      
+      const updatedRequest = await storage.transitionLeaveRequest(id, 'PENDING', 'APPROVED', approval, leaveRequest.daysRequested, stepIndex);
+      if (!updatedRequest) {
+        return res.status(409).json({ error: "Leave request was updated by someone else - reload and try again" });
+      }
+      
+      res.json(updatedRequest);
+    } catch (error) {
+      console.error('Leave approval error:', error);
+      res.status(500).json({ error: "Failed to approve leave request" });
+    }
+  });
+
+  app.post("/api/leave-requests/:id/reject", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      const { id } = req.params;
+      
+      if (!userData) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      const leaveRequest = await storage.getLeaveRequest(id);
+      if (!leaveRequest) {
+        return res.status(404).json({ error: "Leave request not found" });
+      }
+      
+      const employee = await storage.getEmployee(leaveRequest.employeeId);
+      if (!employee || (userData.role !== 'SUPER_ADMIN' && employee.companyId !== userData.companyId)) {
+        return res.status(403).json({ error: "Access denied - leave request belongs to different company" });
+      }
+      
+      if (leaveRequest.status !== 'PENDING') {
+        return res.status(409).json({ error: `Cannot reject a ${leaveRequest.status?.toLowerCase()} leave request` });
+      }
+      
+      const approvalChain = (leaveRequest.approvalChain || []) as LeaveApprovalStep[];
+      const stepIndex = leaveRequest.currentStep || 0;
+      const currentStep = approvalChain[stepIndex];
+      const approverEmployee = await storage.getEmployeeByUserId(userData.id);
+      
+      if (approverEmployee?.id === leaveRequest.employeeId) {
+        return res.status(403).json({ error: "A leave request must be rejected by someone other than who requested it" });
+      }
+      
+      if (currentStep ? !canActOnStep(currentStep, userData.role, approverEmployee?.id, leaveRequest.employeeId) : userData.role === 'EMPLOYEE') {
+        return res.status(403).json({ error: "This leave request is not awaiting your approval" });
+      }
+      
+      // A rejection at any level ends the chain
+      const updatedRequest = await storage.transitionLeaveRequest(id, 'PENDING', 'REJECTED', {
+        action: 'REJECTED',
+        by: userData.id,
+        role: userData.role,
+        at: new Date().toISOString(),
+        level: currentStep?.level,
+        comments: req.body.comments,
+      }, 0, stepIndex);
+      if (!updatedRequest) {
+        return res.status(409).json({ error: "Leave request was updated by someone else - reload and try again" });
+      }
+      
+      res.json(updatedRequest);
+    } catch (error) {
+      console.error('Leave rejection error:', error);
+      res.status(500).json({ error: "Failed to reject leave request" });
+    }
+  });
+
+  // Cancel a leave request - approved requests credit the days back to the balance
+  app.post("/api/leave-requests/:id/cancel", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      const { id } = req.params;
+      
+      if (!userData) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      const leaveRequest = await storage.getLeaveRequest(id);
+      if (!leaveRequest) {
+        return res.status(404).json({ error: "Leave request not found" });
+      }
+      
+      const employee = await storage.getEmployee(leaveRequest.employeeId);
+      if (!employee || (userData.role !== 'SUPER_ADMIN' && employee.companyId !== userData.companyId)) {
+        return res.status(403).json({ error: "Access denied - leave request belongs to different company" });
+      }
+      
+      // Employees can only cancel their own requests
+      if (userData.role === 'EMPLOYEE' && employee.userId !== userData.id) {
+        return res.status(403).json({ error: "Access denied - not your leave request" });
+      }
+      
+      if (leaveRequest.status !== 'PENDING' && leaveRequest.status !== 'APPROVED') {
+        return res.status(409).json({ error: `Cannot cancel a ${leaveRequest.status?.toLowerCase()} leave request` });
+      }
+      
+      const updatedRequest = await storage.transitionLeaveRequest(id, leaveRequest.status, 'CANCELLED', {
+        action: 'CANCELLED',
+        by: userData.id,
+        role: userData.role,
+        at: new Date().toISOString(),
+        comments: req.body.comments,
+      }, leaveRequest.status === 'APPROVED' ? -leaveRequest.daysRequested : 0);
+      if (!updatedRequest) {
+        return res.status(409).json({ error: "Leave request was updated by someone else - reload and try again" });
+      }
+      
+      res.json(updatedRequest);
+    } catch (error) {
+      console.error('Leave cancellation error:', error);
+      res.status(500).json({ error: "Failed to cancel leave request" });
+    }
+  });
+
+  // GET /api/employees/:id/leave-balances - Remaining leave per type for a year
+  app.get("/api/employees/:id/leave-balances", requireEmployeeAccess, async (req, res) => {
+    try {
+      const employee = await storage.getEmployee(req.params.id);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      const year = req.query.year ? parseInt(req.query.year as string, 10) : new Date().getFullYear();
+      const [leaveTypes, balances] = await Promise.all([
+        storage.getLeaveTypes(employee.companyId),
+        storage.getLeaveBalances(employee.id, year),
+      ]);
+      
+      // Leave types without a balance row for the year have not been used yet
+      const result = leaveTypes.map(leaveType => {
+        const balance = balances.find(b => b.leaveTypeId === leaveType.id);
+        const entitlement = calculateLeaveEntitlement(employee, leaveType, year);
+        return {
+          leaveTypeId: leaveType.id,
+          leaveTypeName: leaveType.name,
+          year,
+          daysAllowed: leaveType.daysAllowed,
+          entitlement,
+          balance: balance ? balance.balance : entitlement,
+          used: balance?.used || 0,
+          carriedOver: balance?.carriedOver || 0,
+        };
+      });
+      
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch leave balances" });
+    }
+  });
+
+  // POST /api/leave-balances/recalculate - Re-run accrual for the company's active employees
+  app.post("/api/leave-balances/recalculate", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const { year } = z.object({
+        year: z.number().int().default(new Date().getFullYear()),
+      }).parse(req.body);
+      
+      const updated = await recalculateCompanyLeaveBalances(companyId, year);
+      res.json({ success: true, year, balancesUpdated: updated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Leave balance recalculation error:', error);
+      res.status(500).json({ error: "Failed to recalculate leave balances" });
+    }
+  });
+
+  // POST /api/leave-balances/rollover - Carry unused leave from one year into the next
+  app.post("/api/leave-balances/rollover", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const { fromYear } = z.object({
+        fromYear: z.number().int().default(new Date().getFullYear() - 1),
+      }).parse(req.body);
+      
+      const rolledOver = await rolloverCompanyLeaveBalances(companyId, fromYear);
+      res.json({ success: true, fromYear, toYear: fromYear + 1, balancesRolledOver: rolledOver });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Leave rollover error:', error);
+      res.status(500).json({ error: "Failed to roll over leave balances" });
+    }
+  });
+
+  // Holiday calendar routes - public holidays and weekend days used for working-day counts
+  app.get("/api/holidays", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const year = parseInt(req.query.year as string) || new Date().getFullYear();
+      const holidays = await storage.getCompanyHolidays(companyId, `${year}-01-01`, `${year}-12-31`);
+      res.json(holidays);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch holidays" });
+    }
+  });
+
+  app.post("/api/holidays", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const validatedData = insertCompanyHolidaySchema.parse({ ...req.body, companyId });
+      
+      const holiday = await storage.createCompanyHoliday({
+        ...validatedData,
+        emirate: validatedData.emirate || null,
+      });
+      res.status(201).json(holiday);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create holiday" });
+    }
+  });
+
+  // POST /api/holidays/preload - Add the UAE federal holidays for a year
+  app.post("/api/holidays/preload", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const { year } = z.object({
+        year: z.number().int().default(new Date().getFullYear()),
+      }).parse(req.body);
+      
+      const created = await preloadUaeFederalHolidays(companyId, year);
+      res.status(201).json({ success: true, year, holidaysAdded: created.length, holidays: created });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to preload holidays" });
+    }
+  });
+
+  app.put("/api/holidays/:id", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const holiday = await storage.getCompanyHoliday(id);
+      if (!holiday) {
+        return res.status(404).json({ error: "Holiday not found" });
+      }
+      
+      // Verify access to the holiday's company
+      if (userData?.role !== 'SUPER_ADMIN' && holiday.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - holiday belongs to different company" });
+      }
+      
+      const updates = insertCompanyHolidaySchema.omit({ companyId: true }).partial().parse(req.body);
+      const updatedHoliday = await storage.updateCompanyHoliday(id, updates);
+      res.json(updatedHoliday);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update holiday" });
+    }
+  });
+
+  app.delete("/api/holidays/:id", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const holiday = await storage.getCompanyHoliday(id);
+      if (!holiday) {
+        return res.status(404).json({ error: "Holiday not found" });
+      }
+      
+      // Verify access to the holiday's company
+      if (userData?.role !== 'SUPER_ADMIN' && holiday.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - holiday belongs to different company" });
+      }
+      
+      await storage.deleteCompanyHoliday(id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete holiday" });
+    }
+  });
+
+  app.get("/api/work-calendar", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+      
+      res.json(getWorkCalendarSettings(company.settings));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch work calendar" });
+    }
+  });
+
+  app.put("/api/work-calendar", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const workCalendar = z.object({
+        weekendDays: z.array(z.number().int().min(0).max(6)).max(6),
+        emirate: z.string().optional(),
+      }).parse(req.body);
+      
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+      
+      // Merge so the rest of companies.settings (modules, licensing) is preserved
+      const updatedCompany = await storage.updateCompany(companyId, {
+        settings: { ...(company.settings as Record<string, any> || {}), workCalendar },
+      });
+      
+      res.json(getWorkCalendarSettings(updatedCompany?.settings));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update work calendar" });
+    }
+  });
+
+  // GET /api/working-days?startDate=&endDate= - Working days in a range for the company calendar
+  app.get("/api/working-days", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const { startDate, endDate } = z.object({
+        startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+        endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+      }).parse(req.query);
+      
+      if (endDate < startDate) {
+        return res.status(400).json({ error: "End date must be on or after start date" });
+      }
+      
+      const result = await calculateCompanyWorkingDays(companyId, startDate, endDate);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to calculate working days" });
+    }
+  });
+
+  // Attendance routes - employees check themselves in and out; HR reviews by date range and department
+  const geoPointSchema = z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    accuracy: z.number().min(0).optional(),
+  });
+
+  app.post("/api/attendance/check-in", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      if (!userData) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      const employee = await storage.getEmployeeByUserId(userData.id);
+      if (!employee) {
+        return res.status(400).json({ error: "No employee profile linked to this account" });
+      }
+      
+      const coordinates = geoPointSchema.parse(req.body);
+      const now = new Date();
+      const date = getAttendanceDate(now);
+      
+      // One attendance record per employee per day
+      const existing = await storage.getAttendanceRecordForDate(employee.id, date);
+      if (existing?.checkIn) {
+        return res.status(409).json({ error: "Already checked in today", record: existing });
+      }
+      
+      // Apply the office geofence for the employee's work location
+      const [company, offices] = await Promise.all([
+        storage.getCompany(employee.companyId),
+        storage.getOfficeLocations(employee.companyId),
+      ]);
+      const geofence = evaluateGeofence(
+        coordinates,
+        'CHECK_IN',
+        employee.employmentDetails?.workLocation,
+        offices,
+        getAttendancePolicySettings(company?.settings)
+      );
+      if (!geofence.allowed) {
+        return res.status(403).json({ error: "Check-in is only allowed at an office location", details: geofence.exception?.message });
+      }
+      
+      const location: AttendanceLocation = {
+        checkIn: { ...coordinates, capturedAt: now.toISOString() },
+      };
+      const exceptions: AttendanceException[] = geofence.exception ? [geofence.exception] : [];
+      
+      // Late arrivals are measured against the rostered shift; unrostered days count as present
+      const shift = await getRosteredShift(employee.id, date);
+      const { status, lateMinutes } = shift
+        ? evaluateCheckIn(now, date, shift)
+        : { status: 'PRESENT', lateMinutes: 0 };
+      
+      const record = existing
+        ? await storage.updateAttendanceRecord(existing.id, {
+            checkIn: now,
+            status,
+            shiftTemplateId: shift?.id ?? null,
+            lateMinutes,
+            location,
+            exceptions,
+          })
+        : await storage.createAttendanceRecord({
+            employeeId: employee.id,
+            date,
+            checkIn: now,
+            checkOut: null,
+            breakTime: null,
+            totalHours: null,
+            status,
+            shiftTemplateId: shift?.id ?? null,
+            lateMinutes,
+            earlyLeaveMinutes: 0,
+            location,
+            exceptions,
+          });
+      
+      res.status(201).json(record);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      // A concurrent check-in created today's record first
+      if ((error as any).code === '23505' && (error as any).constraint === 'unique_attendance_record_per_employee_date') {
+        return res.status(409).json({ error: "Already checked in today" });
+      }
+      console.error('Check-in error:', error);
+      res.status(500).json({ error: "Failed to check in" });
+    }
+  });
+
+  app.post("/api/attendance/check-out", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      if (!userData) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      const employee = await storage.getEmployeeByUserId(userData.id);
+      if (!employee) {
+        return res.status(400).json({ error: "No employee profile linked to this account" });
+      }
+      
+      const { breakMinutes: reportedBreakMinutes, ...coordinates } = geoPointSchema.extend({
+        breakMinutes: z.number().int().min(0).optional(),
+      }).parse(req.body);
+      const now = new Date();
+      const today = getAttendanceDate(now);
+      
+      let record = await storage.getAttendanceRecordForDate(employee.id, today);
+      
+      // A night shift that started yesterday is checked out on the following calendar day
+      if (!record?.checkIn) {
+        const previous = await storage.getAttendanceRecordForDate(employee.id, previousAttendanceDate(today));
+        const previousShift = previous?.shiftTemplateId ? await storage.getShiftTemplate(previous.shiftTemplateId) : undefined;
+        if (previous?.checkIn && !previous.checkOut && previousShift && crossesMidnight(previousShift)) {
+          record = previous;
+        }
+      }
+      
+      if (!record?.checkIn) {
+        return res.status(400).json({ error: "You have not checked in today" });
+      }
+      if (record.checkOut) {
+        return res.status(409).json({ error: "Already checked out today", record });
+      }
+      
+      const [company, offices] = await Promise.all([
+        storage.getCompany(employee.companyId),
+        storage.getOfficeLocations(employee.companyId),
+      ]);
+      const geofence = evaluateGeofence(
+        coordinates,
+        'CHECK_OUT',
+        employee.employmentDetails?.workLocation,
+        offices,
+        getAttendancePolicySettings(company?.settings)
+      );
+      if (!geofence.allowed) {
+        return res.status(403).json({ error: "Check-out is only allowed at an office location", details: geofence.exception?.message });
+      }
+      
+      const location: AttendanceLocation = {
+        ...(record.location as AttendanceLocation | null || {}),
+        checkOut: { ...coordinates, capturedAt: now.toISOString() },
+      };
+      const exceptions = [
+        ...(record.exceptions as AttendanceException[] | null || []),
+        ...(geofence.exception ? [geofence.exception] : []),
+      ];
+      
+      // The shift's break applies when the employee does not report one
+      const shift = record.shiftTemplateId ? await storage.getShiftTemplate(record.shiftTemplateId) : undefined;
+      const breakMinutes = reportedBreakMinutes ?? shift?.breakMinutes ?? 0;
+      const { status, earlyLeaveMinutes } = shift
+        ? evaluateCheckOut(now, record.date, shift, record.status)
+        : { status: record.status, earlyLeaveMinutes: 0 };
+      
+      const updatedRecord = await storage.updateAttendanceRecord(record.id, {
+        checkOut: now,
+        breakTime: breakMinutes,
+        totalHours: calculateWorkedMinutes(record.checkIn, now, breakMinutes),
+        status,
+        earlyLeaveMinutes,
+        location,
+        exceptions,
+      });
+      
+      // Time beyond the scheduled hours goes to the manager for overtime approval
+      if (updatedRecord) {
+        try {
+          await recordOvertimeForAttendance(updatedRecord, employee);
+        } catch (overtimeError) {
+          console.error('Overtime calculation error:', overtimeError);
+        }
+      }
+      
+      res.json(updatedRecord);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Check-out error:', error);
+      res.status(500).json({ error: "Failed to check out" });
+    }
+  });
+
+  // GET /api/attendance/me - The caller's own records plus today's status
+  app.get("/api/attendance/me", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const employee = userData ? await storage.getEmployeeByUserId(userData.id) : undefined;
+      if (!employee) {
+        return res.status(400).json({ error: "No employee profile linked to this account" });
+      }
+      
+      const today = getAttendanceDate();
+      const endDate = req.query.endDate as string || today;
+      const startDate = req.query.startDate as string || `${today.slice(0, 8)}01`;
+      
+      const [records, todayRecord] = await Promise.all([
+        storage.getAttendanceRecords(companyId, { startDate, endDate, employeeId: employee.id }),
+        storage.getAttendanceRecordForDate(employee.id, today),
+      ]);
+      
+      res.json({ today: todayRecord || null, records });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch attendance" });
+    }
+  });
+
+  // GET /api/attendance?startDate=&endDate=&departmentId=&employeeId=&flagged= - HR attendance view
+  app.get("/api/attendance", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const today = getAttendanceDate();
+      const startDate = req.query.startDate as string || today;
+      const endDate = req.query.endDate as string || startDate;
+      if (endDate < startDate) {
+        return res.status(400).json({ error: "End date must be on or after start date" });
+      }
+      
+      let departmentId = req.query.departmentId as string | undefined;
+      
+      // Department managers only see their own department
+      if (userData?.role === 'DEPARTMENT_MANAGER') {
+        const ownEmployee = await storage.getEmployeeByUserId(userData.id);
+        departmentId = ownEmployee?.employmentDetails?.departmentId;
+        if (!departmentId) {
+          return res.json([]);
+        }
+      }
+      
+      const records = await storage.getAttendanceRecords(companyId, {
+        startDate,
+        endDate,
+        departmentId,
+        employeeId: req.query.employeeId as string | undefined,
+        flaggedOnly: req.query.flagged === 'true',
+      });
+      res.json(records);
+    } catch (error) {
+      console.error('Attendance fetch error:', error);
+      res.status(500).json({ error: "Failed to fetch attendance records" });
+    }
+  });
+
+  // POST /api/attendance/:id/resolve-exceptions - HR signs off flagged punches
+  app.post("/api/attendance/:id/resolve-exceptions", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const record = await storage.getAttendanceRecord(id);
+      if (!record) {
+        return res.status(404).json({ error: "Attendance record not found" });
+      }
+      
+      const employee = await storage.getEmployee(record.employeeId);
+      if (userData?.role !== 'SUPER_ADMIN' && employee?.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - attendance record belongs to different company" });
+      }
+      
+      const resolvedAt = new Date().toISOString();
+      const exceptions = (record.exceptions as AttendanceException[] | null || []).map(exception =>
+        exception.resolved ? exception : { ...exception, resolved: true, resolvedBy: userData?.id, resolvedAt }
+      );
+      
+      const updatedRecord = await storage.updateAttendanceRecord(id, { exceptions });
+      res.json(updatedRecord);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to resolve attendance exceptions" });
+    }
+  });
+
+  // Office location routes - geofenced sites for attendance check-in
+  app.get("/api/office-locations", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const locations = await storage.getOfficeLocations(companyId);
+      res.json(locations);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch office locations" });
+    }
+  });
+
+  app.post("/api/office-locations", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const validatedData = insertOfficeLocationSchema.parse({ ...req.body, companyId });
+      const location = await storage.createOfficeLocation({
+        ...validatedData,
+        isActive: true,
+      });
+      res.status(201).json(location);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create office location" });
+    }
+  });
+
+  app.put("/api/office-locations/:id", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const location = await storage.getOfficeLocation(id);
+      if (!location || !location.isActive) {
+        return res.status(404).json({ error: "Office location not found" });
+      }
+      
+      // Verify access to the location's company
+      if (userData?.role !== 'SUPER_ADMIN' && location.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - office location belongs to different company" });
+      }
+      
+      const updates = insertOfficeLocationSchema.omit({ companyId: true, isActive: true }).partial().parse(req.body);
+      const updatedLocation = await storage.updateOfficeLocation(id, updates);
+      res.json(updatedLocation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update office location" });
+    }
+  });
+
+  app.delete("/api/office-locations/:id", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const location = await storage.getOfficeLocation(id);
+      if (!location) {
+        return res.status(404).json({ error: "Office location not found" });
+      }
+      
+      // Verify access to the location's company
+      if (userData?.role !== 'SUPER_ADMIN' && location.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - office location belongs to different company" });
+      }
+      
+      await storage.deleteOfficeLocation(id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete office location" });
+    }
+  });
+
+  app.get("/api/attendance-policy", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+      
+      res.json(getAttendancePolicySettings(company.settings));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch attendance policy" });
+    }
+  });
+
+  app.put("/api/attendance-policy", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const attendancePolicy = z.object({
+        officeOutsideFence: z.enum(['FLAG', 'REJECT']).optional(),
+        hybridOutsideFence: z.enum(['ALLOW', 'FLAG']).optional(),
+      }).parse(req.body);
+      
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+      
+      // Merge so the rest of companies.settings (modules, licensing) is preserved
+      const updatedCompany = await storage.updateCompany(companyId, {
+        settings: { ...(company.settings as Record<string, any> || {}), attendancePolicy },
+      });
+      
+      res.json(getAttendancePolicySettings(updatedCompany?.settings));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update attendance policy" });
+    }
+  });
+
+  // Shift template routes
+  app.get("/api/shift-templates", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const templates = await storage.getShiftTemplates(companyId);
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch shift templates" });
+    }
+  });
+
+  app.post("/api/shift-templates", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const validatedData = insertShiftTemplateSchema.parse({ ...req.body, companyId });
+      const template = await storage.createShiftTemplate({
+        ...validatedData,
+        gracePeriodMinutes: validatedData.gracePeriodMinutes ?? 15,
+        earlyLeaveGraceMinutes: validatedData.earlyLeaveGraceMinutes ?? 0,
+        breakMinutes: validatedData.breakMinutes ?? 60,
+        isActive: true,
+      });
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create shift template" });
+    }
+  });
+
+  app.put("/api/shift-templates/:id", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const template = await storage.getShiftTemplate(id);
+      if (!template || !template.isActive) {
+        return res.status(404).json({ error: "Shift template not found" });
+      }
+      
+      // Verify access to the template's company
+      if (userData?.role !== 'SUPER_ADMIN' && template.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - shift template belongs to different company" });
+      }
+      
+      const updates = insertShiftTemplateSchema.omit({ companyId: true, isActive: true }).partial().parse(req.body);
+      const updatedTemplate = await storage.updateShiftTemplate(id, updates);
+      res.json(updatedTemplate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update shift template" });
+    }
+  });
+
+  app.delete("/api/shift-templates/:id", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const template = await storage.getShiftTemplate(id);
+      if (!template) {
+        return res.status(404).json({ error: "Shift template not found" });
+      }
+      
+      // Verify access to the template's company
+      if (userData?.role !== 'SUPER_ADMIN' && template.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - shift template belongs to different company" });
+      }
+      
+      await storage.deleteShiftTemplate(id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete shift template" });
+    }
+  });
+
+  // GET /api/shift-roster?startDate=&endDate=&employeeId= - Rostered shifts for a week
+  app.get("/api/shift-roster", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const { startDate, endDate } = z.object({
+        startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+        endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+      }).parse(req.query);
+      
+      const assignments = await storage.getShiftAssignments(companyId, startDate, endDate, req.query.employeeId as string | undefined);
+      res.json(assignments);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch shift roster" });
+    }
+  });
+
+  // GET /api/shift-roster/me - The caller's own rostered shifts
+  app.get("/api/shift-roster/me", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const employee = userData ? await storage.getEmployeeByUserId(userData.id) : undefined;
+      if (!employee) {
+        return res.status(400).json({ error: "No employee profile linked to this account" });
+      }
+      
+      const startDate = req.query.startDate as string || getAttendanceDate();
+      const endDate = req.query.endDate as string || startDate;
+      const assignments = await storage.getShiftAssignments(companyId, startDate, endDate, employee.id);
+      res.json(assignments);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch shift roster" });
+    }
+  });
+
+  // PUT /api/shift-roster - Assign an employee's shifts for a week (null shiftTemplateId = rest day)
+  app.put("/api/shift-roster", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const { employeeId, assignments } = z.object({
+        employeeId: z.string(),
+        assignments: z.array(z.object({
+          date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+          shiftTemplateId: z.string().nullable(),
+        })).min(1).max(7),
+      }).parse(req.body);
+      
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee || employee.companyId !== companyId) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      // Department managers can only roster their own department
+      if (userData?.role === 'DEPARTMENT_MANAGER') {
+        const ownEmployee = await storage.getEmployeeByUserId(userData.id);
+        if (!ownEmployee?.employmentDetails?.departmentId ||
+            ownEmployee.employmentDetails.departmentId !== employee.employmentDetails?.departmentId) {
+          return res.status(403).json({ error: "Access denied - employee belongs to different department" });
+        }
+      }
+      
+      const templates = await storage.getShiftTemplates(companyId);
+      const invalidShift = assignments.find(a => a.shiftTemplateId && !templates.some(t => t.id === a.shiftTemplateId));
+      if (invalidShift) {
+        return res.status(400).json({ error: "Invalid shift template", date: invalidShift.date });
+      }
+      
+      const roster = await storage.setEmployeeRoster(companyId, employeeId, assignments);
+      res.json(roster);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Roster update error:', error);
+      res.status(500).json({ error: "Failed to update shift roster" });
+    }
+  });
+
+  // POST /api/attendance/import - Import a biometric device punch log (CSV/TXT) and return a reconciliation report
+  app.post("/api/attendance/import", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, punchLogUpload.single('file'), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      if (!req.file) {
+        return res.status(400).json({ error: "A punch log file is required" });
+      }
+      
+      const dryRun = req.body.dryRun === 'true' || req.query.dryRun === 'true';
+      const report = await importPunchLog(companyId, req.file.buffer.toString('utf8'), dryRun);
+      
+      if (report.parsedPunches === 0) {
+        return res.status(400).json({ error: "No punches could be read from the file", report });
+      }
+      
+      res.json({ dryRun, fileName: req.file.originalname, ...report });
+    } catch (error) {
+      console.error('Punch log import error:', error);
+      res.status(500).json({ error: "Failed to import punch log" });
+    }
+  });
+
+  // POST /api/attendance/mark-absences - Record absences for rostered employees who did not check in
+  app.post("/api/attendance/mark-absences", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const { date } = z.object({
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).default(previousAttendanceDate(getAttendanceDate())),
+      }).parse(req.body);
+      
+      if (date >= getAttendanceDate()) {
+        return res.status(400).json({ error: "Absences can only be marked for past dates" });
+      }
+      
+      const marked = await markAbsences(companyId, date);
+      res.json({ success: true, date, recordsCreated: marked });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to mark absences" });
+    }
+  });
+
+  // GET /api/overtime - Overtime records for a month; managers see their team, employees their own
+  app.get("/api/overtime", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const { month, status, employeeId } = z.object({
+        month: z.string().regex(/^\d{4}-\d{2}$/).default(getAttendanceDate().slice(0, 7)),
+        status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+        employeeId: z.string().optional(),
+      }).parse(req.query);
+      
+      let records = await storage.getOvertimeRecords(companyId, { ...getMonthRange(month), status, employeeId });
+      
+      if (userData?.role === 'DEPARTMENT_MANAGER' || userData?.role === 'EMPLOYEE') {
+        const ownEmployee = await storage.getEmployeeByUserId(userData.id);
+        if (!ownEmployee) {
+          return res.json([]);
+        }
+        const [employees, departments] = await Promise.all([
+          storage.getEmployees(companyId),
+          storage.getDepartments(companyId),
+        ]);
+        const managedDepartmentIds = new Set(departments.filter(d => d.managerId === ownEmployee.id).map(d => d.id));
+        const visibleEmployeeIds = new Set(
+          employees
+            .filter(e =>
+              e.id === ownEmployee.id ||
+              e.employmentDetails?.reportingManagerId === ownEmployee.id ||
+              managedDepartmentIds.has(e.employmentDetails?.departmentId || '')
+            )
+            .map(e => e.id)
+        );
+        records = records.filter(record => visibleEmployeeIds.has(record.employeeId));
+      }
+      
+      res.json(records);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch overtime records" });
+    }
+  });
+
+  // GET /api/overtime/summary - Approved overtime per employee for a payroll month
+  app.get("/api/overtime/summary", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const { month } = z.object({
+        month: z.string().regex(/^\d{4}-\d{2}$/).default(getAttendanceDate().slice(0, 7)),
+      }).parse(req.query);
+      
+      const summary = await getMonthlyOvertimeSummary(companyId, month);
+      res.json({ month, employees: summary });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch overtime summary" });
+    }
+  });
+
+  // POST /api/overtime/:id/approve - Approve pending overtime (HR, reporting or department manager)
+  app.post("/api/overtime/:id/approve", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const { comments } = z.object({ comments: z.string().max(1000).optional() }).parse(req.body);
+      
+      const record = await storage.getOvertimeRecord(req.params.id);
+      if (!record) {
+        return res.status(404).json({ error: "Overtime record not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && record.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - overtime belongs to different company" });
+      }
+      
+      const employee = await storage.getEmployee(record.employeeId);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      const [ownEmployee, department] = await Promise.all([
+        userData ? storage.getEmployeeByUserId(userData.id) : undefined,
+        employee.employmentDetails?.departmentId ? storage.getDepartmentById(employee.employmentDetails.departmentId) : undefined,
+      ]);
+      if (!canApproveOvertime(userData?.role || '', ownEmployee?.id, employee, department)) {
+        return res.status(403).json({ error: "Only HR or the employee's manager can approve this overtime" });
+      }
+      
+      if (record.status !== 'PENDING') {
+        return res.status(409).json({ error: `Overtime is already ${record.status?.toLowerCase()}` });
+      }
+      
+      const updatedRecord = await storage.transitionOvertimeRecord(record.id, 'PENDING', {
+        status: 'APPROVED',
+        reviewedBy: userData?.id || null,
+        reviewedAt: new Date(),
+        comments: comments || null,
+      });
+      if (!updatedRecord) {
+        return res.status(409).json({ error: "Overtime was reviewed by someone else - reload and try again" });
+      }
+      
+      res.json(updatedRecord);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to approve overtime" });
+    }
+  });
+
+  // POST /api/overtime/:id/reject - Reject pending overtime (HR, reporting or department manager)
+  app.post("/api/overtime/:id/reject", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const { comments } = z.object({ comments: z.string().max(1000).optional() }).parse(req.body);
+      
+      const record = await storage.getOvertimeRecord(req.params.id);
+      if (!record) {
+        return res.status(404).json({ error: "Overtime record not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && record.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - overtime belongs to different company" });
+      }
+      
+      const employee = await storage.getEmployee(record.employeeId);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      const [ownEmployee, department] = await Promise.all([
+        userData ? storage.getEmployeeByUserId(userData.id) : undefined,
+        employee.employmentDetails?.departmentId ? storage.getDepartmentById(employee.employmentDetails.departmentId) : undefined,
+      ]);
+      if (!canApproveOvertime(userData?.role || '', ownEmployee?.id, employee, department)) {
+        return res.status(403).json({ error: "Only HR or the employee's manager can reject this overtime" });
+      }
+      
+      if (record.status !== 'PENDING') {
+        return res.status(409).json({ error: `Overtime is already ${record.status?.toLowerCase()}` });
+      }
+      
+      const updatedRecord = await storage.transitionOvertimeRecord(record.id, 'PENDING', {
+        status: 'REJECTED',
+        reviewedBy: userData?.id || null,
+        reviewedAt: new Date(),
+        comments: comments || null,
+      });
+      if (!updatedRecord) {
+        return res.status(409).json({ error: "Overtime was reviewed by someone else - reload and try again" });
+      }
+      
+      res.json(updatedRecord);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to reject overtime" });
+    }
+  });
+
+  // GET /api/payroll-runs - Payroll runs for the company, newest month first
+  app.get("/api/payroll-runs", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const runs = await storage.getPayrollRuns(companyId);
+      res.json(runs);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch payroll runs" });
+    }
+  });
+
+  // POST /api/payroll-runs - Create and calculate the draft run for a month
+  app.post("/api/payroll-runs", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const { month, notes } = z.object({
+        month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be YYYY-MM"),
+        notes: z.string().max(1000).optional(),
+      }).parse(req.body);
+      
+      const existing = await storage.getPayrollRunByMonth(companyId, month);
+      if (existing) {
+        return res.status(409).json({ error: `A payroll run already exists for ${month}`, run: existing });
+      }
+      
+      const run = await storage.createPayrollRun({
+        companyId,
+        month,
+        status: 'DRAFT',
+        employeeCount: 0,
+        totalGross: '0',
+        totalOvertime: '0',
+        totalDeductions: '0',
+        totalNet: '0',
+        calculatedAt: null,
+        createdBy: userData?.id || null,
+        reviewedBy: null,
+        reviewedAt: null,
+        approvedBy: null,
+        approvedAt: null,
+        paidAt: null,
+        notes: notes || null,
+      });
+      
+      const calculatedRun = await calculatePayrollRun(run);
+      res.status(201).json(calculatedRun);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      // Another request created the run for this month between the check above and the insert
+      if ((error as any).code === '23505' && (error as any).constraint === 'unique_payroll_run_per_company_month') {
+        return res.status(409).json({ error: "A payroll run already exists for this month" });
+      }
+      console.error('Payroll run creation error:', error);
+      res.status(500).json({ error: "Failed to create payroll run" });
+    }
+  });
+
+  // GET /api/payroll-runs/:id - A run with its per-employee items
+  app.get("/api/payroll-runs/:id", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const run = await storage.getPayrollRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Payroll run not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && run.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - payroll run belongs to different company" });
+      }
+      
+      const items = await storage.getPayrollItems(run.id);
+      res.json({ ...run, items });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch payroll run" });
+    }
+  });
+
+  // POST /api/payroll-runs/:id/recalculate - Refresh an unlocked run from current compensation, leave and overtime
+  app.post("/api/payroll-runs/:id/recalculate", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const run = await storage.getPayrollRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Payroll run not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && run.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - payroll run belongs to different company" });
+      }
+      
+      if (isPayrollRunLocked(run)) {
+        return res.status(409).json({ error: `Payroll run is ${run.status?.toLowerCase()} and locked` });
+      }
+      
+      // Recalculated figures need a fresh review
+      const draftRun = run.status === 'DRAFT'
+        ? run
+        : await storage.transitionPayrollRun(run.id, run.status || 'DRAFT', { status: 'DRAFT', reviewedBy: null, reviewedAt: null });
+      const calculatedRun = draftRun ? await calculatePayrollRun(draftRun) : undefined;
+      if (!calculatedRun) {
+        return res.status(409).json({ error: "Payroll run was updated by someone else - reload and try again" });
+      }
+      res.json(calculatedRun);
+    } catch (error) {
+      console.error('Payroll recalculation error:', error);
+      res.status(500).json({ error: "Failed to recalculate payroll run" });
+    }
+  });
+
+  // POST /api/payroll-runs/:id/status - Move a run through DRAFT -> REVIEWED -> APPROVED -> PAID
+  app.post("/api/payroll-runs/:id/status", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const { status } = z.object({
+        status: z.enum(['DRAFT', 'REVIEWED', 'APPROVED', 'PAID']),
+      }).parse(req.body);
+      
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const run = await storage.getPayrollRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Payroll run not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && run.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - payroll run belongs to different company" });
+      }
+      
+      const currentStatus = run.status || 'DRAFT';
+      if (!PAYROLL_TRANSITIONS[currentStatus]?.includes(status)) {
+        return res.status(409).json({ error: `Cannot move a ${currentStatus.toLowerCase()} payroll run to ${status.toLowerCase()}` });
+      }
+      
+      // Releasing money needs company-level sign-off
+      if ((status === 'APPROVED' || status === 'PAID') && userData?.role === 'HR_MANAGER') {
+        return res.status(403).json({ error: "Only company admins can approve or pay payroll" });
+      }
+      
+      const now = new Date();
+      const updates = status === 'REVIEWED'
+        ? { status, reviewedBy: userData?.id || null, reviewedAt: now }
+        : status === 'APPROVED'
+          ? { status, approvedBy: userData?.id || null, approvedAt: now }
+          : status === 'PAID'
+            ? { status, paidAt: now }
+            : { status, reviewedBy: null, reviewedAt: null };
+      
+      const updatedRun = await storage.transitionPayrollRun(run.id, currentStatus, updates);
+      if (!updatedRun) {
+        return res.status(409).json({ error: "Payroll run was updated by someone else - reload and try again" });
+      }
+      
+      // Payslips are issued as soon as the figures are locked
+      if (status === 'APPROVED') {
+        try {
+          await generatePayslipsForRun(updatedRun, userData?.id || '');
+        } catch (payslipError) {
+          console.error('Payslip generation error:', payslipError);
+        }
+      }
+      
+      res.json(updatedRun);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update payroll run status" });
+    }
+  });
+
+  // DELETE /api/payroll-runs/:id - Discard an unlocked run
+  app.delete("/api/payroll-runs/:id", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const run = await storage.getPayrollRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Payroll run not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && run.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - payroll run belongs to different company" });
+      }
+      
+      if (isPayrollRunLocked(run)) {
+        return res.status(409).json({ error: `Payroll run is ${run.status?.toLowerCase()} and locked` });
+      }
+      
+      await storage.deletePayrollRun(run.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete payroll run" });
+    }
+  });
+
+  // GET /api/wps-settings - Employer details used in WPS salary files
+  app.get("/api/wps-settings", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+      
+      res.json(getWpsSettings(company.settings));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch WPS settings" });
+    }
+  });
+
+  app.put("/api/wps-settings", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from headers, body, or query
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.headers['x-company-slug'] as string || req.body.companySlug || req.query.companySlug as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const wps = z.object({
+        molEstablishmentId: z.string().regex(/^\d{13}$/, "MOL establishment ID must be 13 digits"),
+        employerBankRoutingCode: z.string().regex(/^\d{9}$/, "Routing code must be 9 digits"),
+        employerReference: z.string().max(50).optional(),
+      }).parse(req.body);
+      
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+      
+      // Merge so the rest of companies.settings (modules, licensing) is preserved
+      const updatedCompany = await storage.updateCompany(companyId, {
+        settings: { ...(company.settings as Record<string, any> || {}), wps },
+      });
+      
+      res.json(getWpsSettings(updatedCompany?.settings));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update WPS settings" });
+    }
+  });
+
+  // GET /api/payroll-runs/:id/wps-validation - Company and per-employee problems blocking the SIF export
+  app.get("/api/payroll-runs/:id/wps-validation", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const run = await storage.getPayrollRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Payroll run not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && run.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - payroll run belongs to different company" });
+      }
+      
+      const [items, employees, company] = await Promise.all([
+        storage.getPayrollItems(run.id),
+        storage.getEmployees(run.companyId, true),
+        storage.getCompany(run.companyId),
+      ]);
+      
+      res.json(validateWpsExport(run, items, employees, getWpsSettings(company?.settings)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to validate WPS export" });
+    }
+  });
+
+  // GET /api/payroll-runs/:id/sif - Download the WPS Salary Information File for an approved run
+  app.get("/api/payroll-runs/:id/sif", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const run = await storage.getPayrollRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Payroll run not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && run.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - payroll run belongs to different company" });
+      }
+      
+      const [items, employees, company] = await Promise.all([
+        storage.getPayrollItems(run.id),
+        storage.getEmployees(run.companyId, true),
+        storage.getCompany(run.companyId),
+      ]);
+      const settings = getWpsSettings(company?.settings);
+      
+      const validation = validateWpsExport(run, items, employees, settings);
+      if (!validation.valid) {
+        return res.status(422).json({ error: "Payroll run is not ready for WPS export", ...validation });
+      }
+      
+      const { fileName, content } = buildSifFile(run, items, employees, settings);
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(content);
+    } catch (error) {
+      console.error('SIF export error:', error);
+      res.status(500).json({ error: "Failed to generate SIF file" });
+    }
+  });
+
+  // POST /api/payroll-runs/:id/payslips - Generate any payslips still missing for an approved run
+  app.post("/api/payroll-runs/:id/payslips", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const run = await storage.getPayrollRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Payroll run not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && run.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - payroll run belongs to different company" });
+      }
+      
+      if (!isPayrollRunLocked(run)) {
+        return res.status(409).json({ error: "Payslips are only issued for approved payroll runs" });
+      }
+      
+      const generated = await generatePayslipsForRun(run, userData?.id || '');
+      res.json({ generated });
+    } catch (error) {
+      console.error('Payslip generation error:', error);
+      res.status(500).json({ error: "Failed to generate payslips" });
+    }
+  });
+
+  // GET /api/payslips/me - The signed-in employee's issued payslips, newest month first
+  app.get("/api/payslips/me", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      if (!userData) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      const employee = await storage.getEmployeeByUserId(userData.id);
+      if (!employee) {
+        return res.json([]);
+      }
+      
+      const history = await storage.getEmployeePayrollItems(employee.id);
+      const payslips = history
+        .filter(({ item, run }) => item.payslipDocumentId && isPayrollRunLocked(run))
+        .map(({ item, run }) => ({
+          id: item.id,
+          month: run.month,
+          grossSalary: item.grossSalary,
+          overtimeAmount: item.overtimeAmount,
+          leaveDeduction: item.leaveDeduction,
+          netSalary: item.netSalary,
+        }));
+      res.json(payslips);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch payslips" });
+    }
+  });
+
+  // GET /api/payslips/:id/download - Payslip PDF for a payroll item, same access rules as /api/files
+  app.get("/api/payslips/:id/download", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER', 'DEPARTMENT_MANAGER', 'EMPLOYEE'), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      if (!userData) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      const item = await storage.getPayrollItem(req.params.id);
+      if (!item || !item.payslipDocumentId) {
+        return res.status(404).json({ error: "Payslip not found" });
+      }
+      
+      if (item.companyId !== userData.companyId) {
+        return res.status(403).json({ error: "Access denied - different company" });
+      }
+      
+      // EMPLOYEES can only download their own payslips
+      if (userData.role === 'EMPLOYEE') {
+        const userEmployee = await storage.getEmployeeByUserId(userData.id);
+        if (!userEmployee || userEmployee.id !== item.employeeId) {
+          return res.status(403).json({ error: "Access denied - not your payslip" });
+        }
+      }
+      
+      const run = await storage.getPayrollRun(item.payrollRunId);
+      if (!run || !isPayrollRunLocked(run)) {
+        return res.status(404).json({ error: "Payslip not found" });
+      }
+      
+      const document = await storage.getEmployeeDocument(item.payslipDocumentId);
+      if (!document) {
+        return res.status(404).json({ error: "Payslip not found" });
+      }
+      
+      // Sent through the server rather than redirected, so the page can read the file name header
+      const driver = getStorageDriver();
+      const objectName = getDocumentObjectName(document.filePath);
+      if (!(await driver.statObject(objectName))) {
+        return res.status(404).json({ error: "Payslip file not found" });
+      }
+      
+      const content = await driver.getObject(objectName);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${document.fileName}"`);
+      res.send(content);
+    } catch (error) {
+      console.error("Payslip download error:", error);
+      res.status(500).json({ error: "Payslip download failed" });
+    }
+  });
+
+  // GET /api/gratuity/accrual - End-of-service gratuity accrued by every active employee
+  app.get("/api/gratuity/accrual", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
     try {
+      const { asOf } = z.object({
+        asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      }).parse(req.query);
+      
       const user = req.user as any;
       const userData = await storage.getUser(user.claims.sub);
       
@@ -1634,14 +5568,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Company context required" });
       }
       
-      const positions = await storage.getPositions(companyId);
-      res.json(positions);
+      const reportDate = asOf || getAttendanceDate();
+      const [accruals, employees] = await Promise.all([
+        getGratuityAccrualReport(companyId, reportDate),
+        storage.getEmployees(companyId),
+      ]);
+      const employeesById = new Map(employees.map(employee => [employee.id, employee]));
+      
+      res.json({
+        asOf: reportDate,
+        totalLiability: Math.round(accruals.reduce((total, accrual) => total + accrual.amount, 0) * 100) / 100,
+        employees: accruals.map(accrual => {
+          const employee = employeesById.get(accrual.employeeId);
+          return {
+            ...accrual,
+            employeeCode: employee?.employeeCode || null,
+            name: employee?.personalInfo?.name || employee?.employeeCode || 'Unknown employee',
+          };
+        }),
+      });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch positions" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to calculate gratuity accrual" });
     }
   });
 
-  app.post("/api/positions", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+  // POST /api/gratuity/accrual/refresh - Store today's accrued gratuity on each employee's compensation
+  app.post("/api/gratuity/accrual/refresh", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
     try {
       const user = req.user as any;
       const userData = await storage.getUser(user.claims.sub);
@@ -1661,22 +5616,285 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Company context required" });
       }
       
-      const validatedData = insertPositionSchema.parse({
-        ...req.body,
-        companyId: companyId // Use resolved companyId, not userData.companyId
-      });
+      const updated = await refreshGratuityAccruals(companyId);
+      res.json({ updated });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to refresh gratuity accruals" });
+    }
+  });
+
+  // GET /api/employees/:id/final-settlement - Gratuity, leave encashment and final salary for a termination date
+  app.get("/api/employees/:id/final-settlement", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const employee = await storage.getEmployee(req.params.id);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
       
-      const position = await storage.createPosition({
-        ...validatedData,
-        level: validatedData.level ?? null,
-        jobDescription: validatedData.jobDescription ?? null,
-      });
-      res.status(201).json(position);
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      if (userData?.role !== 'SUPER_ADMIN' && employee.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - employee belongs to different company" });
+      }
+      
+      const { terminationDate, reason } = z.object({
+        terminationDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+        reason: z.enum(['RESIGNATION', 'TERMINATION']).default('TERMINATION'),
+      }).parse(req.query);
+      
+      const lastWorkingDay = terminationDate || employee.employmentDetails?.terminationDate?.slice(0, 10) || getAttendanceDate();
+      const startDate = employee.employmentDetails?.startDate?.slice(0, 10);
+      if (startDate && lastWorkingDay < startDate) {
+        return res.status(400).json({ error: "Termination date cannot be before the start date" });
+      }
+      
+      const settlement = await calculateFinalSettlement(employee, lastWorkingDay, reason);
+      res.json(settlement);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      res.status(500).json({ error: "Failed to create position" });
+      res.status(500).json({ error: "Failed to calculate final settlement" });
+    }
+  });
+
+  // GET /api/offboardings - Offboarding cases for the company, soonest last working day first
+  app.get("/api/offboardings", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      let companyId = userData?.companyId;
+      
+      // For super admins, try to get company from query parameter or header
+      if (userData?.role === 'SUPER_ADMIN' && !companyId) {
+        const companySlug = req.query.companySlug as string || req.headers['x-company-slug'] as string;
+        if (companySlug) {
+          const company = await storage.getCompanyBySlug(companySlug);
+          companyId = company?.id;
+        }
+      }
+      
+      if (!companyId) {
+        return res.status(400).json({ error: "Company context required" });
+      }
+      
+      const [offboardings, employees] = await Promise.all([
+        storage.getOffboardings(companyId, req.query.status as string | undefined),
+        storage.getEmployees(companyId, true),
+      ]);
+      const employeesById = new Map(employees.map(employee => [employee.id, employee]));
+      
+      res.json(offboardings.map(offboarding => {
+        const employee = employeesById.get(offboarding.employeeId);
+        return {
+          ...offboarding,
+          employeeCode: employee?.employeeCode || null,
+          employeeName: employee?.personalInfo?.name || employee?.employeeCode || 'Unknown employee',
+        };
+      }));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch offboardings" });
+    }
+  });
+
+  // POST /api/employees/:id/offboarding - Record a resignation or termination and open the checklist
+  app.post("/api/employees/:id/offboarding", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const input = z.object({
+        separationType: z.enum(['RESIGNATION', 'TERMINATION']),
+        reason: z.string().max(2000).optional(),
+        noticeDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+        noticePeriodDays: z.number().int().min(0).max(MAX_NOTICE_PERIOD_DAYS).default(DEFAULT_NOTICE_PERIOD_DAYS),
+        lastWorkingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      }).parse(req.body);
+      
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const employee = await storage.getEmployee(req.params.id);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && employee.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - employee belongs to different company" });
+      }
+      
+      if (employee.deletedAt) {
+        return res.status(409).json({ error: "Employee is already terminated" });
+      }
+      
+      if (await storage.getOpenOffboarding(employee.id)) {
+        return res.status(409).json({ error: "An offboarding is already in progress for this employee" });
+      }
+      
+      const startDate = employee.employmentDetails?.startDate?.slice(0, 10);
+      if (startDate && (input.lastWorkingDate || input.noticeDate) < startDate) {
+        return res.status(400).json({ error: "Last working day cannot be before the start date" });
+      }
+      if (input.lastWorkingDate && input.lastWorkingDate < input.noticeDate) {
+        return res.status(400).json({ error: "Last working day cannot be before the notice date" });
+      }
+      
+      const offboarding = await startOffboarding(employee, input, userData?.id || '');
+      res.status(201).json(offboarding);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Start offboarding error:', error);
+      res.status(500).json({ error: "Failed to start offboarding" });
+    }
+  });
+
+  // PATCH /api/offboardings/:id/checklist - Tick or untick a checklist step
+  app.patch("/api/offboardings/:id/checklist", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const { key, completed, notes } = z.object({
+        key: z.string().min(1),
+        completed: z.boolean(),
+        notes: z.string().max(1000).optional(),
+      }).parse(req.body);
+      
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const offboarding = await storage.getOffboarding(req.params.id);
+      if (!offboarding) {
+        return res.status(404).json({ error: "Offboarding not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && offboarding.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - offboarding belongs to different company" });
+      }
+      
+      if (offboarding.status !== 'IN_PROGRESS') {
+        return res.status(409).json({ error: `Offboarding is already ${offboarding.status?.toLowerCase()}` });
+      }
+      
+      const updated = await updateChecklistItem(offboarding, key, completed, userData?.id || '', notes);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update checklist" });
+    }
+  });
+
+  // POST /api/offboardings/:id/settlement - Recalculate the final settlement estimate
+  app.post("/api/offboardings/:id/settlement", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const offboarding = await storage.getOffboarding(req.params.id);
+      if (!offboarding) {
+        return res.status(404).json({ error: "Offboarding not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && offboarding.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - offboarding belongs to different company" });
+      }
+      
+      if (offboarding.status !== 'IN_PROGRESS') {
+        return res.status(409).json({ error: `Offboarding is already ${offboarding.status?.toLowerCase()}` });
+      }
+      
+      const employee = await storage.getEmployee(offboarding.employeeId);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      const updated = await refreshOffboardingSettlement(offboarding, employee);
+      res.json(updated);
+    } catch (error) {
+      console.error('Settlement recalculation error:', error);
+      res.status(500).json({ error: "Failed to recalculate settlement" });
+    }
+  });
+
+  // POST /api/offboardings/:id/complete - Terminate the employee once the checklist is done and notice served
+  app.post("/api/offboardings/:id/complete", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const offboarding = await storage.getOffboarding(req.params.id);
+      if (!offboarding) {
+        return res.status(404).json({ error: "Offboarding not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && offboarding.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - offboarding belongs to different company" });
+      }
+      
+      if (offboarding.status !== 'IN_PROGRESS') {
+        return res.status(409).json({ error: `Offboarding is already ${offboarding.status?.toLowerCase()}` });
+      }
+      
+      if (offboarding.lastWorkingDate > getAttendanceDate()) {
+        return res.status(409).json({ error: `The employee is serving notice until ${offboarding.lastWorkingDate}` });
+      }
+      
+      const outstanding = getOutstandingChecklistItems(offboarding);
+      if (outstanding.length > 0) {
+        return res.status(409).json({
+          error: "Complete the offboarding checklist first",
+          outstanding: outstanding.map(item => item.label),
+        });
+      }
+      
+      // The final month's salary is paid through payroll, so the settlement waits for that run to be locked
+      const finalMonth = offboarding.lastWorkingDate.slice(0, 7);
+      const finalRun = await storage.getPayrollRunByMonth(offboarding.companyId, finalMonth);
+      if (!finalRun || !isPayrollRunLocked(finalRun)) {
+        return res.status(409).json({ error: `Approve the ${finalMonth} payroll run first - it pays the final month's salary` });
+      }
+      
+      const employee = await storage.getEmployee(offboarding.employeeId);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      const completed = await completeOffboarding(offboarding, employee, userData?.id || '');
+      res.json(completed);
+    } catch (error) {
+      console.error('Complete offboarding error:', error);
+      res.status(500).json({ error: "Failed to complete offboarding" });
+    }
+  });
+
+  // POST /api/offboardings/:id/cancel - Withdraw an offboarding that is still in progress
+  app.post("/api/offboardings/:id/cancel", requireRole('SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'), requireCompany, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userData = await storage.getUser(user.claims.sub);
+      
+      const offboarding = await storage.getOffboarding(req.params.id);
+      if (!offboarding) {
+        return res.status(404).json({ error: "Offboarding not found" });
+      }
+      
+      if (userData?.role !== 'SUPER_ADMIN' && offboarding.companyId !== userData?.companyId) {
+        return res.status(403).json({ error: "Access denied - offboarding belongs to different company" });
+      }
+      
+      if (offboarding.status !== 'IN_PROGRESS') {
+        return res.status(409).json({ error: `Offboarding is already ${offboarding.status?.toLowerCase()}` });
+      }
+      
+      const employee = await storage.getEmployee(offboarding.employeeId);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      
+      const cancelled = await cancelOffboarding(offboarding, employee);
+      res.json(cancelled);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to cancel offboarding" });
     }
   });
 
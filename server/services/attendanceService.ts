@@ -0,0 +1,113 @@
+import type {
+  AttendanceException,
+  AttendancePolicySettings,
+  EmploymentDetails,
+  OfficeLocation,
+} from "@shared/schema";
+
+// Attendance days follow UAE local time so a late check-out never lands on the next UTC day
+const ATTENDANCE_TIMEZONE = 'Asia/Dubai';
+
+/**
+ * The attendance date (YYYY-MM-DD) a moment belongs to, in UAE local time
+ */
+export function getAttendanceDate(at: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: ATTENDANCE_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(at);
+}
+
+/**
+ * The instant a local HH:MM time occurs on an attendance date (UAE observes no daylight saving)
+ */
+export function toAttendanceInstant(date: string, time: string): Date {
+  return new Date(`${date}T${time}:00+04:00`);
+}
+
+/**
+ * The attendance date before the given one
+ */
+export function previousAttendanceDate(date: string): string {
+  const previous = new Date(`${date}T00:00:00Z`);
+  previous.setUTCDate(previous.getUTCDate() - 1);
+  return previous.toISOString().slice(0, 10);
+}
+
+/**
+ * Minutes worked between check-in and check-out, less unpaid break minutes
+ */
+export function calculateWorkedMinutes(checkIn: Date, checkOut: Date, breakMinutes: number = 0): number {
+  const elapsed = Math.floor((checkOut.getTime() - checkIn.getTime()) / 60000);
+  return Math.max(0, elapsed - breakMinutes);
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Read the geofence policy out of companies.settings
+ */
+export function getAttendancePolicySettings(companySettings: unknown): Required<AttendancePolicySettings> {
+  const settings = (companySettings || {}) as { attendancePolicy?: AttendancePolicySettings };
+  return {
+    officeOutsideFence: settings.attendancePolicy?.officeOutsideFence || 'FLAG',
+    hybridOutsideFence: settings.attendancePolicy?.hybridOutsideFence || 'ALLOW',
+  };
+}
+
+/**
+ * Great-circle distance in metres between two coordinates (haversine)
+ */
+export function distanceInMeters(from: { latitude: number; longitude: number }, to: { latitude: number; longitude: number }): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return Math.round(2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a)));
+}
+
+export interface GeofenceResult {
+  allowed: boolean;
+  exception?: AttendanceException;
+}
+
+/**
+ * Check a punch against the company's office sites.
+ * Office staff outside every fence are flagged or rejected per policy, hybrid staff
+ * are allowed or flagged, and remote staff are never fenced. No sites means no fence.
+ */
+export function evaluateGeofence(
+  point: { latitude: number; longitude: number },
+  punch: AttendanceException['punch'],
+  workLocation: EmploymentDetails['workLocation'],
+  offices: OfficeLocation[],
+  policy: Required<AttendancePolicySettings>
+): GeofenceResult {
+  if (offices.length === 0 || workLocation === 'remote') {
+    return { allowed: true };
+  }
+
+  const nearest = offices
+    .map(office => ({ office, distance: distanceInMeters(point, office) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  if (nearest.distance <= nearest.office.radiusMeters) {
+    return { allowed: true };
+  }
+
+  const rule = workLocation === 'hybrid' ? policy.hybridOutsideFence : policy.officeOutsideFence;
+  if (rule === 'ALLOW') {
+    return { allowed: true };
+  }
+
+  const exception: AttendanceException = {
+    type: 'OUTSIDE_GEOFENCE',
+    punch,
+    message: `${punch === 'CHECK_IN' ? 'Checked in' : 'Checked out'} ${nearest.distance}m from ${nearest.office.name} (allowed ${nearest.office.radiusMeters}m)`,
+    distanceMeters: nearest.distance,
+    officeLocationId: nearest.office.id,
+  };
+  return { allowed: rule !== 'REJECT', exception };
+}
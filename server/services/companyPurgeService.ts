@@ -0,0 +1,132 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { createGzip } from "zlib";
+import type { Company, EmployeeDocument } from "@shared/schema";
+import { storage, type CompanyTenantData, type TenantTableName } from "../storage";
+import { getDocumentObjectName, getStorageDriver } from "../storageDrivers";
+import { removeStoredFiles } from "./employeeBinService";
+
+// Archives hold personal data, so they stay on the server and are only downloadable by super admins
+const ARCHIVES_DIR = path.resolve('archives');
+
+export interface CompanyPurgeReport {
+  company: Pick<Company, 'id' | 'name' | 'slug'>;
+  rowCounts: Record<TenantTableName, number>;
+  totalRows: number;
+  files: {
+    count: number;
+    totalBytes: number;
+    missing: number; // document rows whose file is no longer in storage
+  };
+}
+
+export interface CompanyPurgeOutcome {
+  report: CompanyPurgeReport;
+  archiveFileName: string;
+  company: Company;
+}
+
+async function buildReport(data: CompanyTenantData): Promise<CompanyPurgeReport> {
+  const rowCounts = {} as Record<TenantTableName, number>;
+  let totalRows = 1; // the company row itself
+  for (const [name, rows] of Object.entries(data.tables) as Array<[TenantTableName, unknown[]]>) {
+    rowCounts[name] = rows.length;
+    totalRows += rows.length;
+  }
+
+  const driver = getStorageDriver();
+  const files = { count: 0, totalBytes: 0, missing: 0 };
+  for (const document of data.tables.employeeDocuments as EmployeeDocument[]) {
+    const stat = await driver.statObject(getDocumentObjectName(document.filePath));
+    if (stat) {
+      files.totalBytes += stat.size;
+      files.count++;
+    } else {
+      files.missing++;
+    }
+  }
+
+  return {
+    company: { id: data.company.id, name: data.company.name, slug: data.company.slug },
+    rowCounts,
+    totalRows,
+    files,
+  };
+}
+
+/**
+ * Dry run: what a hard delete of the company would remove
+ */
+export async function previewCompanyPurge(companyId: string): Promise<CompanyPurgeReport | undefined> {
+  const data = await storage.getCompanyTenantData(companyId);
+  return data ? await buildReport(data) : undefined;
+}
+
+/**
+ * Stream a gzipped archive of every company row and stored file, returning the archive file name.
+ * Each line is one JSON entry - the company, then one per table row, then one per stored file -
+ * so only one file is held in memory at a time.
+ */
+export async function exportCompanyArchive(data: CompanyTenantData): Promise<string> {
+  const driver = getStorageDriver();
+  async function* entries() {
+    yield JSON.stringify({ type: 'company', exportedAt: new Date().toISOString(), company: data.company }) + '\n';
+    for (const [table, rows] of Object.entries(data.tables)) {
+      for (const row of rows) {
+        yield JSON.stringify({ type: 'row', table, row }) + '\n';
+      }
+    }
+    for (const document of data.tables.employeeDocuments as EmployeeDocument[]) {
+      const objectName = getDocumentObjectName(document.filePath);
+      if (await driver.statObject(objectName)) {
+        yield JSON.stringify({
+          type: 'file',
+          documentId: document.id,
+          fileName: document.fileName,
+          content: (await driver.getObject(objectName)).toString('base64'),
+        }) + '\n';
+      }
+    }
+  }
+
+  await fs.promises.mkdir(ARCHIVES_DIR, { recursive: true });
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const fileName = `company-${data.company.slug}-${timestamp}.ndjson.gz`;
+  const filePath = path.join(ARCHIVES_DIR, fileName);
+  try {
+    await pipeline(Readable.from(entries()), createGzip(), fs.createWriteStream(filePath));
+  } catch (error) {
+    await fs.promises.rm(filePath, { force: true });
+    throw error;
+  }
+  return fileName;
+}
+
+/**
+ * Location of a stored archive, or null when there is no such archive
+ */
+export function getArchivePath(fileName: string): string | null {
+  const filePath = path.join(ARCHIVES_DIR, path.basename(fileName));
+  return fs.existsSync(filePath) ? filePath : null;
+}
+
+/**
+ * Delete all of the company's data in one transaction, archiving the deleted rows and files
+ * before it commits, then remove its stored files
+ */
+export async function purgeCompany(companyId: string): Promise<CompanyPurgeOutcome | undefined> {
+  let report: CompanyPurgeReport | undefined;
+  let archiveFileName = '';
+  const result = await storage.hardDeleteCompany(companyId, async (deleted) => {
+    report = await buildReport(deleted);
+    archiveFileName = await exportCompanyArchive(deleted);
+  });
+  if (!result || !report) {
+    return undefined;
+  }
+  await removeStoredFiles(result.documents);
+
+  return { report, archiveFileName, company: result.company };
+}
@@ -0,0 +1,281 @@
+import type { DocumentExpiryReminder, DocumentExpirySettings, Employee, EmployeeDocument } from "@shared/schema";
+import { storage } from "../storage";
+import { getAttendanceDate } from "./attendanceService";
+import { sendEmail } from "./emailService";
+
+// Reminders go out three months, two months and one month before a document expires
+export const DEFAULT_REMINDER_DAYS = [90, 60, 30];
+export const MAX_REMINDER_DAYS = 365;
+
+// Only documents expiring within this many days are reported
+const REPORT_WINDOW_DAYS = 90;
+
+export const EXPIRY_BUCKETS = ['EXPIRED', 'WITHIN_30', 'WITHIN_60', 'WITHIN_90'] as const;
+
+export type ExpiryBucket = typeof EXPIRY_BUCKETS[number];
+
+export interface ExpiringDocument {
+  employeeId: string;
+  employeeCode: string;
+  employeeName: string;
+  documentKey: string;
+  documentType: string;
+  documentNumber: string | null;
+  expiryDate: string;
+  daysLeft: number; // negative once expired
+  bucket: ExpiryBucket;
+  lastReminderDays: number | null; // lead time of the latest reminder sent for this expiry date
+}
+
+export interface DocumentExpiryReport {
+  asOf: string;
+  counts: Record<ExpiryBucket, number>;
+  documents: ExpiringDocument[];
+}
+
+// Compliance documents kept on the employee record, keyed as in document_expiry_reminders
+const EMPLOYEE_RECORD_DOCUMENTS = [
+  { key: 'VISA', label: 'Visa', documentType: 'visa', read: (employee: Employee) => employee.visaInfo },
+  { key: 'EMIRATES_ID', label: 'Emirates ID', documentType: 'emirates-id', read: (employee: Employee) => employee.emiratesIdInfo && { ...employee.emiratesIdInfo, number: employee.emiratesIdInfo.idNumber } },
+  { key: 'PASSPORT', label: 'Passport', documentType: 'passport', read: (employee: Employee) => employee.passportInfo },
+  { key: 'WORK_PERMIT', label: 'Work Permit', documentType: 'work-permit', read: (employee: Employee) => employee.workPermitInfo },
+  { key: 'LABOR_CARD', label: 'Labor Card', documentType: 'labor-card', read: (employee: Employee) => employee.laborCardInfo },
+];
+
+const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  'passport': 'Passport',
+  'emirates-id': 'Emirates ID',
+  'visa': 'Visa',
+  'work-permit': 'Work Permit',
+  'labor-card': 'Labor Card',
+  'contract': 'Employment Contract',
+  'offer-letter': 'Offer Letter',
+  'certificate': 'Certificate/Qualification',
+  'other': 'Other Document',
+};
+
+export function getDocumentExpirySettings(companySettings: unknown): Required<DocumentExpirySettings> {
+  const settings = (companySettings || {}) as { documentExpiry?: DocumentExpirySettings };
+  const reminderDays = settings.documentExpiry?.reminderDays;
+  return {
+    reminderDays: reminderDays && reminderDays.length > 0 ? reminderDays : DEFAULT_REMINDER_DAYS,
+  };
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+export function getExpiryBucket(daysLeft: number): ExpiryBucket | null {
+  if (daysLeft < 0) return 'EXPIRED';
+  if (daysLeft < 30) return 'WITHIN_30';
+  if (daysLeft < 60) return 'WITHIN_60';
+  if (daysLeft < REPORT_WINDOW_DAYS) return 'WITHIN_90';
+  return null;
+}
+
+/**
+ * Every expiry date an employee has on file: the compliance details on their record and
+ * their current uploaded documents. An upload matching a record document's type and expiry
+ * date is the same document and is listed once.
+ */
+function collectExpiryDates(employee: Employee, documents: EmployeeDocument[]) {
+  const entries: Array<{ documentKey: string; documentType: string; documentNumber: string | null; expiryDate: string }> = [];
+  for (const recordDocument of EMPLOYEE_RECORD_DOCUMENTS) {
+    const info = recordDocument.read(employee);
+    if (info?.expiryDate) {
+      entries.push({
+        documentKey: recordDocument.key,
+        documentType: recordDocument.label,
+        documentNumber: info.number || null,
+        expiryDate: info.expiryDate,
+      });
+    }
+  }
+  for (const document of documents) {
+    if (!document.expiryDate || document.status !== 'ACTIVE') continue;
+    const onRecord = EMPLOYEE_RECORD_DOCUMENTS.some(recordDocument =>
+      recordDocument.documentType === document.documentType &&
+      recordDocument.read(employee)?.expiryDate === document.expiryDate
+    );
+    if (!onRecord) {
+      entries.push({
+        documentKey: `DOCUMENT:${document.id}`,
+        documentType: DOCUMENT_TYPE_LABELS[document.documentType] || document.documentType,
+        documentNumber: document.fileName,
+        expiryDate: document.expiryDate,
+      });
+    }
+  }
+  return entries;
+}
+
+type DatedDocument = Omit<ExpiringDocument, 'bucket' | 'lastReminderDays'>;
+
+// Every expiry date of the company's current employees
+async function scanExpiryDates(companyId: string, asOf: string): Promise<DatedDocument[]> {
+  const [employees, documents] = await Promise.all([
+    storage.getEmployees(companyId),
+    storage.getAllEmployeeDocuments(companyId),
+  ]);
+
+  const dated: DatedDocument[] = [];
+  for (const employee of employees.filter(employee => employee.status !== 'TERMINATED')) {
+    const employeeDocuments = documents.filter(document => document.employeeId === employee.id);
+    for (const entry of collectExpiryDates(employee, employeeDocuments)) {
+      dated.push({
+        employeeId: employee.id,
+        employeeCode: employee.employeeCode,
+        employeeName: employee.personalInfo?.name || employee.employeeCode,
+        ...entry,
+        daysLeft: daysBetween(asOf, entry.expiryDate),
+      });
+    }
+  }
+  return dated;
+}
+
+function isSameExpiry(reminder: DocumentExpiryReminder, document: DatedDocument): boolean {
+  return reminder.employeeId === document.employeeId &&
+    reminder.documentKey === document.documentKey &&
+    reminder.expiryDate === document.expiryDate;
+}
+
+/**
+ * Documents of current employees that have expired or expire within 90 days, soonest first
+ */
+export async function getDocumentExpiryReport(companyId: string, asOf: string = getAttendanceDate()): Promise<DocumentExpiryReport> {
+  const [dated, reminders] = await Promise.all([
+    scanExpiryDates(companyId, asOf),
+    storage.getDocumentExpiryReminders(companyId),
+  ]);
+
+  const expiring: ExpiringDocument[] = [];
+  for (const document of dated) {
+    const bucket = getExpiryBucket(document.daysLeft);
+    if (!bucket) continue;
+    // Reminders are newest first
+    const lastReminder = reminders.find(reminder => isSameExpiry(reminder, document));
+    expiring.push({ ...document, bucket, lastReminderDays: lastReminder ? lastReminder.leadDays : null });
+  }
+
+  expiring.sort((a, b) => a.daysLeft - b.daysLeft || a.employeeName.localeCompare(b.employeeName));
+  const counts = { EXPIRED: 0, WITHIN_30: 0, WITHIN_60: 0, WITHIN_90: 0 };
+  for (const document of expiring) {
+    counts[document.bucket]++;
+  }
+  return { asOf, counts, documents: expiring };
+}
+
+/**
+ * The reminder due for a document: the shortest lead time it has come within, or 0 on and after
+ * expiry. A document first seen late is reminded once at its current tier rather than for every
+ * tier it has already passed.
+ */
+export function getDueReminderDays(daysLeft: number, reminderDays: number[]): number | null {
+  if (daysLeft <= 0) {
+    return 0;
+  }
+  const reached = reminderDays.filter(days => daysLeft <= days);
+  return reached.length > 0 ? Math.min(...reached) : null;
+}
+
+async function getEmployeeEmail(employee: Employee): Promise<string | null> {
+  const email = employee.contactInfo?.companyEmail || employee.contactInfo?.personalEmail;
+  if (email) {
+    return email;
+  }
+  const user = employee.userId ? await storage.getUser(employee.userId) : undefined;
+  return user?.email || null;
+}
+
+function describeExpiry(document: DatedDocument): string {
+  if (document.daysLeft < 0) return `expired on ${document.expiryDate}`;
+  if (document.daysLeft === 0) return `expires today (${document.expiryDate})`;
+  return `expires in ${document.daysLeft} day${document.daysLeft === 1 ? '' : 's'} on ${document.expiryDate}`;
+}
+
+/**
+ * Email HR and the employee about documents that have reached a reminder lead time. Each
+ * document, expiry date and lead time is reminded once. Returns how many reminders were sent.
+ */
+export async function sendDueExpiryReminders(companyId: string, asOf: string = getAttendanceDate()): Promise<number> {
+  const company = await storage.getCompany(companyId);
+  if (!company) {
+    return 0;
+  }
+  const { reminderDays } = getDocumentExpirySettings(company.settings);
+  const [dated, reminders, users] = await Promise.all([
+    scanExpiryDates(companyId, asOf),
+    storage.getDocumentExpiryReminders(companyId),
+    storage.getUsersByCompany(companyId),
+  ]);
+  const hrEmails = users
+    .filter(user => ['COMPANY_ADMIN', 'HR_MANAGER'].includes(user.role || '') && user.email)
+    .map(user => user.email as string);
+
+  let sent = 0;
+  for (const document of dated) {
+    const leadDays = getDueReminderDays(document.daysLeft, reminderDays);
+    if (leadDays === null) continue;
+    const alreadySent = reminders.some(reminder => isSameExpiry(reminder, document) && reminder.leadDays <= leadDays);
+    if (alreadySent) continue;
+
+    const employee = await storage.getEmployee(document.employeeId);
+    const employeeEmail = employee ? await getEmployeeEmail(employee) : null;
+    const recipients = Array.from(new Set([...hrEmails, ...(employeeEmail ? [employeeEmail] : [])]));
+    if (recipients.length === 0) continue;
+
+    const subject = `${document.documentType} ${document.daysLeft < 0 ? 'expired' : 'expiring'} - ${document.employeeName}`;
+    const text = `The ${document.documentType}${document.documentNumber ? ` (${document.documentNumber})` : ''} of ${document.employeeName} (${document.employeeCode}) ${describeExpiry(document)}.
+
+Please arrange the renewal and upload the renewed document.
+
+${company.name} HR`;
+    let delivered = false;
+    for (const to of recipients) {
+      delivered = await sendEmail({ to, from: 'noreply@erp-system.com', subject, text }) || delivered;
+    }
+    // Undelivered reminders are retried on the next run
+    if (!delivered) continue;
+
+    await storage.createDocumentExpiryReminder({
+      companyId,
+      employeeId: document.employeeId,
+      documentKey: document.documentKey,
+      expiryDate: document.expiryDate,
+      leadDays,
+      recipients,
+    });
+    sent++;
+  }
+  return sent;
+}
+
+/**
+ * Check hourly and, once a day, send the document expiry reminders that have become due
+ */
+export function scheduleDocumentExpiryJob(): void {
+  let lastRunDate: string | null = null;
+
+  const tick = async () => {
+    const today = getAttendanceDate();
+    if (lastRunDate === today) {
+      return;
+    }
+    lastRunDate = today;
+
+    const companies = await storage.getCompanies();
+    for (const company of companies) {
+      try {
+        await sendDueExpiryReminders(company.id, today);
+      } catch (error) {
+        console.error(`Document expiry reminders failed for company ${company.id}:`, error);
+      }
+    }
+  };
+
+  setInterval(() => {
+    tick().catch(error => console.error('Document expiry job error:', error));
+  }, 60 * 60 * 1000);
+}
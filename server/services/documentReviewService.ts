@@ -0,0 +1,120 @@
+import type { EmployeeDocument } from "@shared/schema";
+import { storage } from "../storage";
+import { sendEmail } from "./emailService";
+
+// Review outcomes; a document stays PENDING until HR records one
+export const DOCUMENT_REVIEW_DECISIONS = ['APPROVED', 'REJECTED', 'RESUBMISSION_REQUESTED'] as const;
+
+export type DocumentReviewDecision = typeof DOCUMENT_REVIEW_DECISIONS[number];
+
+export type ReviewQueueDocument = EmployeeDocument & {
+  employeeCode: string | null;
+  employeeName: string | null;
+  uploadedByName: string | null;
+  approvedByName: string | null;
+};
+
+export type DocumentVersion = EmployeeDocument & {
+  uploadedByName: string | null;
+  approvedByName: string | null;
+};
+
+// Reviewers may be super admins outside the company, so users are looked up by id
+async function loadUserNames(documents: EmployeeDocument[]): Promise<(userId: string | null) => string | null> {
+  const userIds = new Set(documents.flatMap(document => [document.uploadedBy, document.approvedBy]).filter(Boolean) as string[]);
+  const names = new Map<string, string | null>();
+  for (const userId of Array.from(userIds)) {
+    const user = await storage.getUser(userId);
+    names.set(userId, user ? [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email : null);
+  }
+  return (userId: string | null) => (userId ? names.get(userId) ?? null : null);
+}
+
+/**
+ * Every version of a document's type for its employee, newest first, with who uploaded and reviewed each
+ */
+export async function getDocumentVersionHistory(document: EmployeeDocument): Promise<DocumentVersion[]> {
+  const versions = await storage.getEmployeeDocumentVersions(document.employeeId, document.documentType);
+  const getUserName = await loadUserNames(versions);
+  return versions.map(version => ({
+    ...version,
+    uploadedByName: getUserName(version.uploadedBy),
+    approvedByName: getUserName(version.approvedBy),
+  }));
+}
+
+/**
+ * Current documents of the company with the given approval status, oldest upload first
+ */
+export async function getDocumentReviewQueue(companyId: string, approvalStatus?: string): Promise<ReviewQueueDocument[]> {
+  const [documents, employees] = await Promise.all([
+    storage.getAllEmployeeDocuments(companyId),
+    storage.getEmployees(companyId, true),
+  ]);
+  const queue = documents
+    .filter(document => document.status === 'ACTIVE' && (!approvalStatus || document.approvalStatus === approvalStatus))
+    .sort((a, b) => (a.uploadDate?.getTime() ?? 0) - (b.uploadDate?.getTime() ?? 0));
+
+  const getUserName = await loadUserNames(queue);
+
+  return queue.map(document => {
+    const employee = employees.find(candidate => candidate.id === document.employeeId);
+    return {
+      ...document,
+      employeeCode: employee?.employeeCode || null,
+      employeeName: employee?.personalInfo?.name || null,
+      uploadedByName: getUserName(document.uploadedBy),
+      approvedByName: getUserName(document.approvedBy),
+    };
+  });
+}
+
+/**
+ * Tell the uploader why their document was sent back
+ */
+async function notifyUploader(document: EmployeeDocument, decision: DocumentReviewDecision, comments: string): Promise<void> {
+  const [uploader, employee] = await Promise.all([
+    storage.getUser(document.uploadedBy),
+    storage.getEmployee(document.employeeId),
+  ]);
+  if (!uploader?.email) {
+    return;
+  }
+  const employeeName = employee?.personalInfo?.name || employee?.employeeCode || 'the employee';
+  const outcome = decision === 'REJECTED' ? 'has been rejected' : 'needs to be uploaded again';
+  const sent = await sendEmail({
+    to: uploader.email,
+    from: 'noreply@erp-system.com',
+    subject: `Document ${decision === 'REJECTED' ? 'rejected' : 'resubmission requested'} - ${document.fileName}`,
+    text: `The document "${document.fileName}" uploaded for ${employeeName} ${outcome}.
+
+Reason: ${comments}
+${decision === 'RESUBMISSION_REQUESTED' ? '\nPlease upload a corrected copy from the employee profile.\n' : ''}`,
+  });
+  if (!sent) {
+    console.error(`Failed to notify uploader of document ${document.id} review`);
+  }
+}
+
+/**
+ * Record HR's decision on a pending document. Rejections and resubmission requests carry
+ * a reason that is emailed to whoever uploaded the document.
+ */
+export async function reviewDocument(
+  document: EmployeeDocument,
+  decision: DocumentReviewDecision,
+  reviewedBy: string,
+  comments?: string
+): Promise<EmployeeDocument | undefined> {
+  const updatedDocument = await storage.updateEmployeeDocument(document.id, {
+    approvalStatus: decision,
+    approvedBy: reviewedBy,
+    approvedDate: new Date(),
+    comments: comments || null,
+    updatedAt: new Date(),
+  });
+  if (updatedDocument && decision !== 'APPROVED' && comments) {
+    await notifyUploader(updatedDocument, decision, comments);
+  }
+  return updatedDocument;
+}
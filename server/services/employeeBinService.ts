@@ -0,0 +1,104 @@
+import type { Employee, EmployeeBinSettings, EmployeeDocument } from "@shared/schema";
+import { storage } from "../storage";
+import { getDocumentObjectName, getStorageDriver } from "../storageDrivers";
+
+// Terminated employees stay restorable for a year unless the company chooses otherwise
+export const DEFAULT_RETENTION_DAYS = 365;
+export const MIN_RETENTION_DAYS = 30;
+export const MAX_RETENTION_DAYS = 3650;
+
+export function getEmployeeBinSettings(companySettings: unknown): Required<EmployeeBinSettings> {
+  const settings = (companySettings || {}) as { employeeBin?: EmployeeBinSettings };
+  return {
+    retentionDays: settings.employeeBin?.retentionDays ?? DEFAULT_RETENTION_DAYS,
+  };
+}
+
+/**
+ * Date on which a binned employee becomes due for permanent purge
+ */
+export function getPurgeDate(employee: Employee, retentionDays: number): string | null {
+  if (!employee.deletedAt) {
+    return null;
+  }
+  const purgeDate = new Date(employee.deletedAt);
+  purgeDate.setUTCDate(purgeDate.getUTCDate() + retentionDays);
+  return purgeDate.toISOString().slice(0, 10);
+}
+
+/**
+ * Delete the uploaded files behind documents whose rows are already gone
+ */
+export async function removeStoredFiles(documents: EmployeeDocument[]): Promise<void> {
+  const driver = getStorageDriver();
+  for (const document of documents) {
+    const objectName = getDocumentObjectName(document.filePath);
+    try {
+      await driver.deleteObject(objectName);
+    } catch (error) {
+      // A failed removal is logged and the purge still counts
+      console.error(`Failed to remove stored file ${objectName}:`, error);
+    }
+  }
+}
+
+/**
+ * Permanently delete an employee, their records and documents, then the stored files
+ */
+export async function purgeEmployee(employeeId: string): Promise<Employee | undefined> {
+  const result = await storage.hardDeleteEmployee(employeeId);
+  if (!result) {
+    return undefined;
+  }
+  await removeStoredFiles(result.documents);
+  return result.employee;
+}
+
+/**
+ * Purge every binned employee of the company whose retention period has run out
+ */
+export async function purgeExpiredEmployees(companyId: string, asOf: Date = new Date()): Promise<number> {
+  const company = await storage.getCompany(companyId);
+  const { retentionDays } = getEmployeeBinSettings(company?.settings);
+  const today = asOf.toISOString().slice(0, 10);
+
+  let purged = 0;
+  for (const employee of await storage.getDeletedEmployees(companyId)) {
+    const purgeDate = getPurgeDate(employee, retentionDays);
+    if (purgeDate && purgeDate <= today && await purgeEmployee(employee.id)) {
+      purged++;
+    }
+  }
+  return purged;
+}
+
+/**
+ * Check hourly and purge expired bin entries once a day
+ */
+export function scheduleEmployeeBinPurgeJob(): void {
+  let lastRunDate: string | null = null;
+
+  const tick = async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    if (lastRunDate === today) {
+      return;
+    }
+    lastRunDate = today;
+
+    const companies = await storage.getCompanies();
+    for (const company of companies) {
+      try {
+        const purged = await purgeExpiredEmployees(company.id);
+        if (purged > 0) {
+          console.log(`Purged ${purged} employee(s) from the bin of company ${company.id}`);
+        }
+      } catch (error) {
+        console.error(`Employee bin purge failed for company ${company.id}:`, error);
+      }
+    }
+  };
+
+  setInterval(() => {
+    tick().catch(error => console.error('Employee bin purge job error:', error));
+  }, 60 * 60 * 1000);
+}
@@ -0,0 +1,120 @@
+import type { Employee, EmployeeHistoryEntry, UpdateEmployee } from "@shared/schema";
+import { storage } from "../storage";
+
+// Values too large or too sensitive to copy into the history; the change itself is still recorded
+const UNRECORDED_VALUE_PATHS = ['personalInfo.profilePhotoUrl', 'personalInfo.profileThumbnails'];
+
+export interface FieldChange {
+  fieldPath: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export type EmployeeTimelineEntry = EmployeeHistoryEntry & { changedByName: string | null };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Missing and empty values are treated alike so re-saving an untouched form records nothing
+function normalize(value: unknown): unknown {
+  return value === undefined || value === '' ? null : value;
+}
+
+function collectChanges(path: string, before: unknown, after: unknown, changes: FieldChange[]): void {
+  if (isPlainObject(before) || isPlainObject(after)) {
+    const beforeObject = isPlainObject(before) ? before : {};
+    const afterObject = isPlainObject(after) ? after : {};
+    const keys = new Set([...Object.keys(beforeObject), ...Object.keys(afterObject)]);
+    for (const key of Array.from(keys)) {
+      collectChanges(path ? `${path}.${key}` : key, beforeObject[key], afterObject[key], changes);
+    }
+    return;
+  }
+
+  const oldValue = normalize(before);
+  const newValue = normalize(after);
+  if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+    return;
+  }
+  const recordValues = !UNRECORDED_VALUE_PATHS.some(excluded => path === excluded || path.startsWith(`${excluded}.`));
+  changes.push({
+    fieldPath: path,
+    oldValue: recordValues ? oldValue : null,
+    newValue: recordValues ? newValue : null,
+  });
+}
+
+/**
+ * Field-level differences between the stored employee and an update, keyed by JSON path
+ * such as compensation.basicSalary; only the fields present in the update are compared
+ */
+export function diffEmployee(employee: Employee, updates: Record<string, unknown>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const [field, value] of Object.entries(updates)) {
+    if (value === undefined) continue;
+    collectChanges(field, (employee as unknown as Record<string, unknown>)[field], value, changes);
+  }
+  return changes;
+}
+
+/**
+ * Apply a profile edit and record every changed field with who made it
+ */
+export async function updateEmployeeProfile(
+  employee: Employee,
+  updates: UpdateEmployee,
+  changedBy: string,
+  source: string = 'PROFILE_UPDATE'
+): Promise<{ employee: Employee | undefined; changes: FieldChange[] }> {
+  // Server-maintained values are never taken from the form
+  const merged: Record<string, unknown> = { ...updates };
+  if (updates.compensation) {
+    merged.compensation = {
+      ...updates.compensation,
+      endOfServiceGratuity: employee.compensation?.endOfServiceGratuity,
+    };
+  }
+  if (updates.employmentDetails) {
+    merged.employmentDetails = {
+      ...updates.employmentDetails,
+      terminationDate: employee.employmentDetails?.terminationDate,
+    };
+  }
+
+  const changes = diffEmployee(employee, merged);
+  if (changes.length === 0) {
+    return { employee, changes };
+  }
+
+  const updatedEmployee = await storage.updateEmployeeWithHistory(
+    employee.id,
+    merged,
+    changes.map(change => ({
+      companyId: employee.companyId,
+      employeeId: employee.id,
+      fieldPath: change.fieldPath,
+      oldValue: change.oldValue ?? null,
+      newValue: change.newValue ?? null,
+      source,
+      changedBy,
+    }))
+  );
+  return { employee: updatedEmployee, changes };
+}
+
+/**
+ * History entries newest first, with the name of whoever made each change
+ */
+export async function getEmployeeTimeline(employeeId: string): Promise<EmployeeTimelineEntry[]> {
+  const history = await storage.getEmployeeHistory(employeeId);
+  const names = new Map<string, string | null>();
+  for (const userId of Array.from(new Set(history.map(entry => entry.changedBy).filter(Boolean) as string[]))) {
+    const user = await storage.getUser(userId);
+    names.set(userId, user ? [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email : null);
+  }
+  return history.map(entry => ({
+    ...entry,
+    changedByName: entry.changedBy ? names.get(entry.changedBy) ?? null : null,
+  }));
+}
@@ -0,0 +1,229 @@
+import type { Compensation, Employee, LeaveRequest, LeaveType, LeaveTypeRules } from "@shared/schema";
+import { storage } from "../storage";
+import { getAttendanceDate } from "./attendanceService";
+import { calculateLeaveEntitlement } from "./leaveEntitlementService";
+import { getMonthRange } from "./overtimeService";
+import { calculateUnpaidLeaveDays, isPayrollRunLocked, roundMoney } from "./payrollService";
+
+// UAE Federal Decree-Law 33/2021 Art. 51: 21 days' basic wage per year for the first
+// five years, 30 days per year after that, capped at two years' wage, nothing before one year.
+// The same on resignation and termination; the old law's resignation reduction no longer applies.
+const FIRST_TIER_YEARS = 5;
+const FIRST_TIER_DAYS_PER_YEAR = 21;
+const SECOND_TIER_DAYS_PER_YEAR = 30;
+const CAP_MONTHS = 24;
+const MINIMUM_SERVICE_DAYS = 365;
+const DAYS_PER_YEAR = 365;
+const DAYS_PER_MONTH = 30; // daily basic wage is the monthly basic over 30 days
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type SeparationReason = 'RESIGNATION' | 'TERMINATION';
+
+export interface GratuityCalculation {
+  employeeId: string;
+  startDate: string | null;
+  endDate: string;
+  totalServiceDays: number;
+  unpaidLeaveDays: number;
+  eligibleServiceDays: number;
+  serviceYears: number;
+  basicSalary: number;
+  dailyBasicWage: number;
+  gratuityDays: number;
+  cap: number;
+  amount: number;
+  eligible: boolean;
+}
+
+export interface FinalSettlement {
+  employeeId: string;
+  terminationDate: string;
+  reason: SeparationReason;
+  gratuity: GratuityCalculation;
+  unusedLeaveDays: number;
+  leaveEncashment: number;
+  outstandingSalaryDays: number;
+  outstandingSalary: number;
+  finalPayrollMonth: string;
+  finalPayrollLocked: boolean; // until then the final month's salary is left to that month's payroll run
+  total: number;
+}
+
+/**
+ * Calendar days from one YYYY-MM-DD date to another, both inclusive
+ */
+function inclusiveDays(from: string, to: string): number {
+  const days = (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY + 1;
+  return Math.max(0, Math.round(days));
+}
+
+/**
+ * Calendar days of approved unpaid leave between two dates; these do not count as service
+ */
+export function countUnpaidLeaveDays(requests: LeaveRequest[], leaveTypes: LeaveType[], from: string, to: string): number {
+  const leaveTypesById = new Map(leaveTypes.map(type => [type.id, type]));
+  return requests.reduce((total, request) => {
+    const rules = (leaveTypesById.get(request.leaveTypeId)?.rules || {}) as LeaveTypeRules;
+    if (rules.paid !== false || request.startDate > to || request.endDate < from) {
+      return total;
+    }
+    const start = request.startDate > from ? request.startDate : from;
+    const end = request.endDate < to ? request.endDate : to;
+    return total + inclusiveDays(start, end);
+  }, 0);
+}
+
+/**
+ * Gratuity earned from the start date to endDate on the last basic salary, with unpaid leave
+ * excluded from service and partial years pro-rated
+ */
+export function calculateGratuity(
+  employee: Employee,
+  endDate: string,
+  unpaidLeaveDays: number
+): GratuityCalculation {
+  const compensation: Compensation = employee.compensation || {};
+  const startDate = employee.employmentDetails?.startDate?.slice(0, 10) || null;
+  const basicSalary = compensation.basicSalary || 0;
+  const dailyBasicWage = basicSalary / DAYS_PER_MONTH;
+
+  const totalServiceDays = startDate ? inclusiveDays(startDate, endDate) : 0;
+  const eligibleServiceDays = Math.max(0, totalServiceDays - unpaidLeaveDays);
+  const serviceYears = eligibleServiceDays / DAYS_PER_YEAR;
+  const eligible = eligibleServiceDays >= MINIMUM_SERVICE_DAYS;
+
+  const gratuityDays = eligible
+    ? Math.min(serviceYears, FIRST_TIER_YEARS) * FIRST_TIER_DAYS_PER_YEAR +
+      Math.max(0, serviceYears - FIRST_TIER_YEARS) * SECOND_TIER_DAYS_PER_YEAR
+    : 0;
+  const cap = basicSalary * CAP_MONTHS;
+  const amount = Math.min(gratuityDays * dailyBasicWage, cap);
+
+  return {
+    employeeId: employee.id,
+    startDate,
+    endDate,
+    totalServiceDays,
+    unpaidLeaveDays,
+    eligibleServiceDays,
+    serviceYears: Math.round(serviceYears * 100) / 100,
+    basicSalary,
+    dailyBasicWage: roundMoney(dailyBasicWage),
+    gratuityDays: Math.round(gratuityDays * 100) / 100,
+    cap: roundMoney(cap),
+    amount: roundMoney(amount),
+    eligible,
+  };
+}
+
+/**
+ * Gratuity liability for every active employee as of a date
+ */
+export async function getGratuityAccrualReport(companyId: string, asOf: string = getAttendanceDate()): Promise<GratuityCalculation[]> {
+  const [employees, leaveTypes, approvedLeave] = await Promise.all([
+    storage.getEmployees(companyId),
+    storage.getLeaveTypes(companyId, true),
+    storage.getLeaveRequests(companyId, { status: 'APPROVED' }),
+  ]);
+
+  return employees
+    .filter(employee => employee.status === 'ACTIVE')
+    .map(employee => {
+      const startDate = employee.employmentDetails?.startDate?.slice(0, 10);
+      const unpaidLeaveDays = startDate
+        ? countUnpaidLeaveDays(approvedLeave.filter(request => request.employeeId === employee.id), leaveTypes, startDate, asOf)
+        : 0;
+      return calculateGratuity(employee, asOf, unpaidLeaveDays);
+    });
+}
+
+/**
+ * Store each active employee's accrued gratuity in compensation.endOfServiceGratuity
+ */
+export async function refreshGratuityAccruals(companyId: string, asOf: string = getAttendanceDate()): Promise<number> {
+  const report = await getGratuityAccrualReport(companyId, asOf);
+  const employees = await storage.getEmployees(companyId);
+  const employeesById = new Map(employees.map(employee => [employee.id, employee]));
+
+  let updated = 0;
+  for (const accrual of report) {
+    const employee = employeesById.get(accrual.employeeId);
+    if (!employee || employee.compensation?.endOfServiceGratuity === accrual.amount) continue;
+    await storage.updateEmployee(employee.id, {
+      compensation: { ...(employee.compensation || {}), endOfServiceGratuity: accrual.amount },
+    });
+    updated++;
+  }
+  return updated;
+}
+
+/**
+ * Everything owed on the last working day: gratuity, unused annual leave at the daily basic wage,
+ * and salary for final-month days that the month's approved payroll run did not cover
+ */
+export async function calculateFinalSettlement(
+  employee: Employee,
+  terminationDate: string,
+  reason: SeparationReason
+): Promise<FinalSettlement> {
+  const [leaveTypes, approvedLeave] = await Promise.all([
+    storage.getLeaveTypes(employee.companyId, true),
+    storage.getLeaveRequests(employee.companyId, { status: 'APPROVED', employeeId: employee.id }),
+  ]);
+  const startDate = employee.employmentDetails?.startDate?.slice(0, 10);
+  const unpaidLeaveDays = startDate ? countUnpaidLeaveDays(approvedLeave, leaveTypes, startDate, terminationDate) : 0;
+  const gratuity = calculateGratuity(employee, terminationDate, unpaidLeaveDays);
+
+  // Unused annual leave for the final year, accrued up to the termination date
+  const year = parseInt(terminationDate.slice(0, 4));
+  let unusedLeaveDays = 0;
+  const annualLeaveType = leaveTypes.find(type => ((type.rules || {}) as LeaveTypeRules).entitlement === 'UAE_ANNUAL');
+  if (annualLeaveType) {
+    const balance = await storage.getLeaveBalance(employee.id, annualLeaveType.id, year);
+    const entitlement = calculateLeaveEntitlement(employee, annualLeaveType, year, new Date(`${terminationDate}T00:00:00`));
+    unusedLeaveDays = Math.max(0, entitlement + (balance?.carriedOver || 0) - (balance?.used || 0));
+  }
+  const leaveEncashment = unusedLeaveDays * gratuity.dailyBasicWage;
+
+  // The final month's salary is paid by that month's payroll run, pro-rated to the termination date.
+  // Only a locked run that left the employee out is made up here, so no day is paid twice.
+  const month = terminationDate.slice(0, 7);
+  const { startDate: monthStart, endDate: monthEnd } = getMonthRange(month);
+  const finalRun = await storage.getPayrollRunByMonth(employee.companyId, month);
+  const finalPayrollLocked = !!finalRun && isPayrollRunLocked(finalRun);
+  const finalItems = finalRun && finalPayrollLocked ? await storage.getPayrollItems(finalRun.id) : [];
+  let outstandingSalaryDays = 0;
+  let outstandingSalary = 0;
+  if (finalPayrollLocked && !finalItems.some(item => item.employeeId === employee.id)) {
+    const compensation: Compensation = employee.compensation || {};
+    const monthlyGross = (compensation.basicSalary || 0) + (compensation.housingAllowance || 0) +
+      (compensation.transportAllowance || 0) + (compensation.otherAllowance || 0);
+    const payStart = startDate && startDate > monthStart ? startDate : monthStart;
+    outstandingSalaryDays = inclusiveDays(payStart, terminationDate);
+
+    // Leave after the last working day is not deducted
+    const leaveUpToTermination = approvedLeave
+      .filter(request => request.startDate <= terminationDate)
+      .map(request => ({ ...request, endDate: request.endDate < terminationDate ? request.endDate : terminationDate }));
+    const unpaidDaysInMonth = await calculateUnpaidLeaveDays(employee.companyId, month, leaveUpToTermination, leaveTypes);
+
+    const daysInMonth = parseInt(monthEnd.slice(8, 10));
+    const earned = monthlyGross * outstandingSalaryDays / daysInMonth;
+    outstandingSalary = Math.max(0, earned - monthlyGross / DAYS_PER_MONTH * unpaidDaysInMonth);
+  }
+
+  return {
+    employeeId: employee.id,
+    terminationDate,
+    reason,
+    gratuity,
+    unusedLeaveDays,
+    leaveEncashment: roundMoney(leaveEncashment),
+    outstandingSalaryDays,
+    outstandingSalary: roundMoney(outstandingSalary),
+    finalPayrollMonth: month,
+    finalPayrollLocked,
+    total: roundMoney(gratuity.amount + leaveEncashment + outstandingSalary),
+  };
+}
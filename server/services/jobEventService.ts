@@ -0,0 +1,333 @@
+import type { Employee, EmploymentDetails, JobEvent } from "@shared/schema";
+import { storage } from "../storage";
+import { getAttendanceDate } from "./attendanceService";
+import { updateEmployeeProfile } from "./employeeHistoryService";
+
+// A position change is a new title that was not recorded as a promotion or demotion, such as a
+// profile edit; only PROMOTION counts towards promotions in the headcount report
+export const JOB_EVENT_TYPES = ['PROMOTION', 'TRANSFER', 'DEMOTION', 'POSITION_CHANGE', 'MANAGER_CHANGE'] as const;
+
+export type JobEventType = typeof JOB_EVENT_TYPES[number];
+
+export interface JobEventInput {
+  eventType: JobEventType;
+  effectiveDate: string;
+  toDepartmentId?: string | null;
+  toPosition?: string | null;
+  toManagerId?: string | null;
+  notes?: string;
+}
+
+interface JobAssignment {
+  departmentId: string | null;
+  position: string | null;
+  managerId: string | null;
+}
+
+export interface HeadcountReportRow {
+  departmentId: string | null;
+  departmentName: string;
+  opening: number;
+  joiners: number;
+  leavers: number;
+  transfersIn: number;
+  transfersOut: number;
+  promotions: number;
+  closing: number;
+}
+
+export interface HeadcountReport {
+  from: string;
+  to: string;
+  departments: HeadcountReportRow[];
+  totals: Omit<HeadcountReportRow, 'departmentId' | 'departmentName'>;
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+// Events that have happened or will happen, oldest first
+function sortActive(events: JobEvent[]): JobEvent[] {
+  return events
+    .filter(event => event.status !== 'CANCELLED')
+    .sort((a, b) =>
+      a.effectiveDate.localeCompare(b.effectiveDate) ||
+      (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0)
+    );
+}
+
+function getCurrentAssignment(employee: Employee): JobAssignment {
+  return {
+    departmentId: employee.employmentDetails?.departmentId || null,
+    position: employee.employmentDetails?.position || null,
+    managerId: employee.employmentDetails?.reportingManagerId || null,
+  };
+}
+
+/**
+ * Department, position and manager on a date. Before an event they are the event's
+ * "from" values; after the last applied event they are the employee record's.
+ */
+export function getAssignmentOn(employee: Employee, events: JobEvent[], date: string): JobAssignment {
+  const active = sortActive(events);
+  const next = active.find(event => event.effectiveDate > date);
+  if (next) {
+    return { departmentId: next.fromDepartmentId, position: next.fromPosition, managerId: next.fromManagerId };
+  }
+  const last = active[active.length - 1];
+  if (last && last.status === 'SCHEDULED') {
+    return { departmentId: last.toDepartmentId, position: last.toPosition, managerId: last.toManagerId };
+  }
+  return getCurrentAssignment(employee);
+}
+
+type AssignmentFields = Pick<EmploymentDetails, 'departmentId' | 'position' | 'reportingManagerId'>;
+
+/**
+ * The job event, effective today, that a profile edit's department, position and manager amount
+ * to: a transfer when the department changes, otherwise a position change when the position changes,
+ * otherwise a manager change. Null when none of them change; fields left out stay as they are.
+ */
+export function getProfileEditJobEvent(employee: Employee, employmentDetails: AssignmentFields): JobEventInput | null {
+  const current = getCurrentAssignment(employee);
+  const next: JobAssignment = {
+    departmentId: employmentDetails.departmentId !== undefined ? employmentDetails.departmentId || null : current.departmentId,
+    position: employmentDetails.position !== undefined ? employmentDetails.position || null : current.position,
+    managerId: employmentDetails.reportingManagerId !== undefined ? employmentDetails.reportingManagerId || null : current.managerId,
+  };
+  let eventType: JobEventType;
+  if (next.departmentId !== current.departmentId) {
+    eventType = 'TRANSFER';
+  } else if (next.position !== current.position) {
+    eventType = 'POSITION_CHANGE';
+  } else if (next.managerId !== current.managerId) {
+    eventType = 'MANAGER_CHANGE';
+  } else {
+    return null;
+  }
+  return {
+    eventType,
+    effectiveDate: getAttendanceDate(),
+    toDepartmentId: next.departmentId,
+    toPosition: next.position,
+    toManagerId: next.managerId,
+  };
+}
+
+/**
+ * A profile edit's employment details with the department, position and manager on record;
+ * changes to those are recorded as job events instead
+ */
+export function withRecordedAssignment<T extends AssignmentFields>(employee: Employee, employmentDetails: T): T {
+  return {
+    ...employmentDetails,
+    departmentId: employee.employmentDetails?.departmentId,
+    position: employee.employmentDetails?.position,
+    reportingManagerId: employee.employmentDetails?.reportingManagerId,
+  };
+}
+
+/**
+ * Build a job event with the assignment in force the day before it; values not given stay as they were
+ */
+export async function buildJobEvent(
+  employee: Employee,
+  input: JobEventInput,
+  createdBy: string
+): Promise<Omit<JobEvent, 'id' | 'createdAt' | 'updatedAt'>> {
+  const events = await storage.getJobEvents(employee.companyId, { employeeId: employee.id });
+  const from = getAssignmentOn(employee, events, shiftDate(input.effectiveDate, -1));
+  return {
+    companyId: employee.companyId,
+    employeeId: employee.id,
+    eventType: input.eventType,
+    effectiveDate: input.effectiveDate,
+    fromDepartmentId: from.departmentId,
+    toDepartmentId: input.toDepartmentId !== undefined ? input.toDepartmentId : from.departmentId,
+    fromPosition: from.position,
+    toPosition: input.toPosition !== undefined ? input.toPosition : from.position,
+    fromManagerId: from.managerId,
+    toManagerId: input.toManagerId !== undefined ? input.toManagerId : from.managerId,
+    notes: input.notes || null,
+    status: 'SCHEDULED',
+    createdBy,
+    appliedAt: null,
+  };
+}
+
+export function changesAssignment(event: Pick<JobEvent, 'fromDepartmentId' | 'toDepartmentId' | 'fromPosition' | 'toPosition' | 'fromManagerId' | 'toManagerId'>): boolean {
+  return event.fromDepartmentId !== event.toDepartmentId ||
+    event.fromPosition !== event.toPosition ||
+    event.fromManagerId !== event.toManagerId;
+}
+
+/**
+ * Record a job event and apply it straight away when it is already effective
+ */
+export async function recordJobEvent(employee: Employee, input: JobEventInput, createdBy: string): Promise<JobEvent> {
+  const event = await storage.createJobEvent(await buildJobEvent(employee, input, createdBy));
+  if (event.effectiveDate <= getAttendanceDate()) {
+    await applyDueJobEvents(employee);
+    return (await storage.getJobEvent(event.id)) || event;
+  }
+  return event;
+}
+
+/**
+ * Apply scheduled events that have become effective to employmentDetails, oldest first, each
+ * recorded in the change history. Returns how many were applied.
+ */
+export async function applyDueJobEvents(employee: Employee, asOf: string = getAttendanceDate()): Promise<number> {
+  const due = sortActive(await storage.getJobEvents(employee.companyId, { employeeId: employee.id, status: 'SCHEDULED' }))
+    .filter(event => event.effectiveDate <= asOf);
+
+  let current = employee;
+  for (const event of due) {
+    const result = await updateEmployeeProfile(
+      current,
+      {
+        employmentDetails: {
+          ...current.employmentDetails,
+          departmentId: event.toDepartmentId || undefined,
+          position: event.toPosition || undefined,
+          reportingManagerId: event.toManagerId || undefined,
+        },
+      },
+      event.createdBy || '',
+      'JOB_EVENT'
+    );
+    current = result.employee || current;
+    await storage.updateJobEvent(event.id, { status: 'APPLIED', appliedAt: new Date() });
+  }
+  return due.length;
+}
+
+// Last working day; employees binned before termination dates were recorded fall back to the bin date
+function getLastWorkingDate(employee: Employee): string | null {
+  return employee.employmentDetails?.terminationDate ||
+    (employee.deletedAt ? new Date(employee.deletedAt).toISOString().slice(0, 10) : null);
+}
+
+function isEmployedOn(employee: Employee, date: string): boolean {
+  const startDate = employee.employmentDetails?.startDate;
+  const lastWorkingDate = getLastWorkingDate(employee);
+  return (!startDate || startDate <= date) && (!lastWorkingDate || lastWorkingDate >= date);
+}
+
+/**
+ * Headcount per department at the start and end of a period, with the joiners, leavers,
+ * transfers and promotions in between
+ */
+export async function getHeadcountReport(companyId: string, from: string, to: string): Promise<HeadcountReport> {
+  const [employees, departments, events] = await Promise.all([
+    storage.getEmployees(companyId, true),
+    storage.getDepartments(companyId),
+    storage.getJobEvents(companyId),
+  ]);
+  const eventsByEmployee = new Map<string, JobEvent[]>();
+  for (const event of events) {
+    eventsByEmployee.set(event.employeeId, [...(eventsByEmployee.get(event.employeeId) || []), event]);
+  }
+
+  const rows = new Map<string | null, HeadcountReportRow>();
+  const row = (departmentId: string | null): HeadcountReportRow => {
+    const key = departments.some(department => department.id === departmentId) ? departmentId : null;
+    if (!rows.has(key)) {
+      rows.set(key, {
+        departmentId: key,
+        departmentName: departments.find(department => department.id === key)?.name || 'Unassigned',
+        opening: 0,
+        joiners: 0,
+        leavers: 0,
+        transfersIn: 0,
+        transfersOut: 0,
+        promotions: 0,
+        closing: 0,
+      });
+    }
+    return rows.get(key)!;
+  };
+  for (const department of departments) {
+    row(department.id);
+  }
+
+  const openingDate = shiftDate(from, -1);
+  for (const employee of employees) {
+    const employeeEvents = eventsByEmployee.get(employee.id) || [];
+    if (isEmployedOn(employee, openingDate)) {
+      row(getAssignmentOn(employee, employeeEvents, openingDate).departmentId).opening++;
+    }
+    if (isEmployedOn(employee, to)) {
+      row(getAssignmentOn(employee, employeeEvents, to).departmentId).closing++;
+    }
+
+    const startDate = employee.employmentDetails?.startDate;
+    if (startDate && startDate >= from && startDate <= to) {
+      row(getAssignmentOn(employee, employeeEvents, startDate).departmentId).joiners++;
+    }
+    // A leaver's first day off the books falls within the period
+    const lastWorkingDate = getLastWorkingDate(employee);
+    if (lastWorkingDate && lastWorkingDate >= openingDate && lastWorkingDate < to) {
+      row(getAssignmentOn(employee, employeeEvents, lastWorkingDate).departmentId).leavers++;
+    }
+
+    for (const event of sortActive(employeeEvents)) {
+      if (event.effectiveDate < from || event.effectiveDate > to) continue;
+      if (event.fromDepartmentId !== event.toDepartmentId) {
+        row(event.fromDepartmentId).transfersOut++;
+        row(event.toDepartmentId).transfersIn++;
+      }
+      if (event.eventType === 'PROMOTION') {
+        row(event.toDepartmentId).promotions++;
+      }
+    }
+  }
+
+  const departmentRows = Array.from(rows.values())
+    .sort((a, b) => (a.departmentId === null ? 1 : b.departmentId === null ? -1 : a.departmentName.localeCompare(b.departmentName)));
+  const totals = { opening: 0, joiners: 0, leavers: 0, transfersIn: 0, transfersOut: 0, promotions: 0, closing: 0 };
+  for (const departmentRow of departmentRows) {
+    for (const key of Object.keys(totals) as Array<keyof typeof totals>) {
+      totals[key] += departmentRow[key];
+    }
+  }
+  return { from, to, departments: departmentRows, totals };
+}
+
+/**
+ * Check hourly and, once a day, apply job events that have become effective
+ */
+export function scheduleJobEventJob(): void {
+  let lastRunDate: string | null = null;
+
+  const tick = async () => {
+    const today = getAttendanceDate();
+    if (lastRunDate === today) {
+      return;
+    }
+    lastRunDate = today;
+
+    const companies = await storage.getCompanies();
+    for (const company of companies) {
+      try {
+        const due = (await storage.getJobEvents(company.id, { status: 'SCHEDULED' }))
+          .filter(event => event.effectiveDate <= today);
+        for (const employeeId of Array.from(new Set(due.map(event => event.employeeId)))) {
+          const employee = await storage.getEmployee(employeeId);
+          if (employee && !employee.deletedAt) {
+            await applyDueJobEvents(employee, today);
+          }
+        }
+      } catch (error) {
+        console.error(`Job event job failed for company ${company.id}:`, error);
+      }
+    }
+  };
+
+  setInterval(() => {
+    tick().catch(error => console.error('Job event job error:', error));
+  }, 60 * 60 * 1000);
+}
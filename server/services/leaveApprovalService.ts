@@ -0,0 +1,83 @@
+import type {
+  Department,
+  Employee,
+  LeaveApprovalSettings,
+  LeaveApprovalStep,
+} from "@shared/schema";
+
+// Roles that may act on the HR level of the chain, and override any manager level
+const HR_APPROVER_ROLES = ['SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'];
+
+/**
+ * Read the leave approval configuration out of companies.settings
+ */
+export function getLeaveApprovalSettings(companySettings: unknown): LeaveApprovalSettings {
+  const settings = (companySettings || {}) as { leaveApproval?: LeaveApprovalSettings };
+  return settings.leaveApproval || {};
+}
+
+/**
+ * Resolve the approval chain for an employee's leave request:
+ * reporting manager -> department manager -> HR, minus skipped or missing levels.
+ * A manager never approves their own leave, and the same person is not asked twice.
+ */
+export function buildLeaveApprovalChain(
+  employee: Employee,
+  department: Department | undefined,
+  settings: LeaveApprovalSettings
+): LeaveApprovalStep[] {
+  const chain: LeaveApprovalStep[] = [];
+  const reportingManagerId = employee.employmentDetails?.reportingManagerId;
+  const departmentManagerId = department?.managerId;
+
+  const hasReportingManagerStep = !settings.skipReportingManager && !!reportingManagerId && reportingManagerId !== employee.id;
+  if (hasReportingManagerStep) {
+    chain.push({ level: 'REPORTING_MANAGER', approverEmployeeId: reportingManagerId });
+  }
+
+  // The department manager is only skipped as a duplicate when they already approve as reporting manager
+  if (
+    !settings.skipDepartmentManager &&
+    departmentManagerId &&
+    departmentManagerId !== employee.id &&
+    !(hasReportingManagerStep && departmentManagerId === reportingManagerId)
+  ) {
+    chain.push({ level: 'DEPARTMENT_MANAGER', approverEmployeeId: departmentManagerId });
+  }
+
+  if (!settings.skipHr) {
+    chain.push({ level: 'HR' });
+  }
+
+  return chain;
+}
+
+/**
+ * Whether a request of this length skips the chain entirely
+ */
+export function isAutoApproved(daysRequested: number, chain: LeaveApprovalStep[], settings: LeaveApprovalSettings): boolean {
+  if (chain.length === 0) {
+    return true;
+  }
+  return !!settings.autoApproveUnderDays && daysRequested < settings.autoApproveUnderDays;
+}
+
+/**
+ * Whether a user may act on the given chain step.
+ * Manager levels belong to the named approver; HR roles can act on every level.
+ * Nobody acts on their own leave request, whatever their role.
+ */
+export function canActOnStep(
+  step: LeaveApprovalStep | undefined,
+  userRole: string,
+  userEmployeeId: string | undefined,
+  requesterEmployeeId: string
+): boolean {
+  if (!step || userEmployeeId === requesterEmployeeId) {
+    return false;
+  }
+  if (HR_APPROVER_ROLES.includes(userRole)) {
+    return true;
+  }
+  return !!userEmployeeId && step.approverEmployeeId === userEmployeeId;
+}
@@ -0,0 +1,220 @@
+import type { Employee, LeaveBalance, LeaveType, LeaveTypeRules } from "@shared/schema";
+import { storage } from "../storage";
+
+// UAE Federal Decree-Law 33/2021 statutory allowances
+const UAE_SICK_LEAVE_DAYS = 90; // 15 full pay + 30 half pay + 45 unpaid
+const UAE_SICK_FULL_PAY_DAYS = 15;
+const UAE_SICK_HALF_PAY_DAYS = 30;
+const UAE_MATERNITY_LEAVE_DAYS = 60; // 45 full pay + 15 half pay
+const UAE_PARENTAL_LEAVE_DAYS = 5;
+
+// Statutory leave types created for companies that have none configured
+export const UAE_DEFAULT_LEAVE_TYPES: Array<{ name: string; daysAllowed: number; rules: LeaveTypeRules }> = [
+  { name: "Annual Leave", daysAllowed: 30, rules: { entitlement: 'UAE_ANNUAL', carryOverCap: 15 } },
+  { name: "Sick Leave", daysAllowed: UAE_SICK_LEAVE_DAYS, rules: { entitlement: 'UAE_SICK', carryOverCap: 0 } },
+  { name: "Maternity Leave", daysAllowed: UAE_MATERNITY_LEAVE_DAYS, rules: { entitlement: 'UAE_MATERNITY', carryOverCap: 0, dayCount: 'CALENDAR' } },
+  { name: "Parental Leave", daysAllowed: UAE_PARENTAL_LEAVE_DAYS, rules: { entitlement: 'UAE_PARENTAL', carryOverCap: 0 } },
+  { name: "Unpaid Leave", daysAllowed: 30, rules: { carryOverCap: 0, paid: false } },
+];
+
+/**
+ * Whole months of service completed between the start date and a given date
+ */
+export function completedServiceMonths(startDate: string, asOf: Date): number {
+  const start = new Date(startDate);
+  if (isNaN(start.getTime()) || asOf < start) {
+    return 0;
+  }
+  let months = (asOf.getFullYear() - start.getFullYear()) * 12 + (asOf.getMonth() - start.getMonth());
+  if (asOf.getDate() < start.getDate()) {
+    months -= 1;
+  }
+  return Math.max(0, months);
+}
+
+/**
+ * Cumulative annual leave earned over a length of service:
+ * nothing before 6 months, 2 days per month until the first year is complete,
+ * then 30 days per year accrued monthly.
+ */
+function cumulativeAnnualLeave(serviceMonths: number): number {
+  if (serviceMonths < 6) {
+    return 0;
+  }
+  if (serviceMonths < 12) {
+    return serviceMonths * 2;
+  }
+  return 30 + (serviceMonths - 12) * 2.5;
+}
+
+/**
+ * Annual leave accrued within a calendar year, up to asOf (or the year end)
+ */
+export function calculateAnnualLeaveEntitlement(startDate: string | undefined, year: number, asOf: Date = new Date()): number {
+  if (!startDate) {
+    return 0;
+  }
+  const yearStart = new Date(year, 0, 1);
+  const yearEnd = new Date(year, 11, 31);
+  const until = asOf < yearEnd ? asOf : yearEnd;
+  if (until < yearStart) {
+    return 0;
+  }
+
+  const earnedBeforeYear = cumulativeAnnualLeave(completedServiceMonths(startDate, yearStart));
+  const earnedByDate = cumulativeAnnualLeave(completedServiceMonths(startDate, until));
+  return Math.floor(earnedByDate - earnedBeforeYear);
+}
+
+/**
+ * Days an employee is entitled to for a leave type in a calendar year.
+ * Types without a statutory rule use the configured daysAllowed.
+ */
+export function calculateLeaveEntitlement(employee: Employee, leaveType: LeaveType, year: number, asOf: Date = new Date()): number {
+  const rules = (leaveType.rules || {}) as LeaveTypeRules;
+  const startDate = employee.employmentDetails?.startDate;
+
+  switch (rules.entitlement) {
+    case 'UAE_ANNUAL':
+      return calculateAnnualLeaveEntitlement(startDate, year, asOf);
+    case 'UAE_SICK': {
+      // Sick leave is not granted during probation
+      const probationEndDate = employee.probationInfo?.endDate || employee.employmentDetails?.probationEndDate;
+      if (probationEndDate && new Date(probationEndDate) > asOf) {
+        return 0;
+      }
+      return UAE_SICK_LEAVE_DAYS;
+    }
+    case 'UAE_MATERNITY':
+      return UAE_MATERNITY_LEAVE_DAYS;
+    case 'UAE_PARENTAL':
+      return UAE_PARENTAL_LEAVE_DAYS;
+    default:
+      return leaveType.daysAllowed;
+  }
+}
+
+/**
+ * Split sick leave days into pay tiers given the days already taken this year
+ */
+export function splitSickLeaveByPayTier(alreadyUsed: number, days: number): { fullPay: number; halfPay: number; unpaid: number } {
+  const fullPayRemaining = Math.max(0, UAE_SICK_FULL_PAY_DAYS - alreadyUsed);
+  const halfPayRemaining = Math.max(0, UAE_SICK_FULL_PAY_DAYS + UAE_SICK_HALF_PAY_DAYS - Math.max(alreadyUsed, UAE_SICK_FULL_PAY_DAYS));
+
+  const fullPay = Math.min(days, fullPayRemaining);
+  const halfPay = Math.min(days - fullPay, halfPayRemaining);
+  return { fullPay, halfPay, unpaid: days - fullPay - halfPay };
+}
+
+/**
+ * Recompute an employee's balance for one leave type and year, keeping days used and carried over
+ */
+export async function recalculateLeaveBalance(employee: Employee, leaveType: LeaveType, year: number, asOf: Date = new Date()): Promise<LeaveBalance> {
+  const existing = await storage.getLeaveBalance(employee.id, leaveType.id, year);
+  const entitlement = calculateLeaveEntitlement(employee, leaveType, year, asOf);
+  const used = existing?.used || 0;
+  const carriedOver = existing?.carriedOver || 0;
+
+  return await storage.upsertLeaveBalance({
+    employeeId: employee.id,
+    leaveTypeId: leaveType.id,
+    year,
+    balance: entitlement + carriedOver - used,
+    used,
+    carriedOver,
+  });
+}
+
+/**
+ * Recompute every active employee's balances for a company and year
+ */
+export async function recalculateCompanyLeaveBalances(companyId: string, year: number): Promise<number> {
+  const [employees, leaveTypes] = await Promise.all([
+    storage.getEmployees(companyId),
+    storage.getLeaveTypes(companyId),
+  ]);
+
+  let updated = 0;
+  for (const employee of employees.filter(emp => emp.status === 'ACTIVE')) {
+    for (const leaveType of leaveTypes) {
+      await recalculateLeaveBalance(employee, leaveType, year);
+      updated++;
+    }
+  }
+  return updated;
+}
+
+/**
+ * Year-end rollover: carry unused days (capped by leaveTypes.rules.carryOverCap)
+ * from fromYear into fromYear + 1 and open the new year's balances.
+ */
+export async function rolloverCompanyLeaveBalances(companyId: string, fromYear: number): Promise<number> {
+  const toYear = fromYear + 1;
+  const [employees, leaveTypes] = await Promise.all([
+    storage.getEmployees(companyId),
+    storage.getLeaveTypes(companyId),
+  ]);
+
+  let rolledOver = 0;
+  for (const employee of employees.filter(emp => emp.status === 'ACTIVE')) {
+    for (const leaveType of leaveTypes) {
+      const rules = (leaveType.rules || {}) as LeaveTypeRules;
+      // Settle the closing year at its full entitlement before carrying anything over
+      const closing = await recalculateLeaveBalance(employee, leaveType, fromYear, new Date(fromYear, 11, 31));
+      const carriedOver = Math.max(0, Math.min(closing.balance, rules.carryOverCap ?? 0));
+
+      const opening = await storage.getLeaveBalance(employee.id, leaveType.id, toYear);
+      const used = opening?.used || 0;
+      await storage.upsertLeaveBalance({
+        employeeId: employee.id,
+        leaveTypeId: leaveType.id,
+        year: toYear,
+        balance: calculateLeaveEntitlement(employee, leaveType, toYear, new Date(toYear, 0, 1)) + carriedOver - used,
+        used,
+        carriedOver,
+      });
+      rolledOver++;
+    }
+  }
+  return rolledOver;
+}
+
+/**
+ * Monthly accrual run for every active company; on 1 January the previous
+ * year is rolled over first so carried-over days land in the new year.
+ */
+export async function runLeaveAccrualJob(now: Date = new Date()): Promise<void> {
+  const companies = await storage.getCompanies();
+  for (const company of companies) {
+    try {
+      if (now.getMonth() === 0) {
+        await rolloverCompanyLeaveBalances(company.id, now.getFullYear() - 1);
+      }
+      await recalculateCompanyLeaveBalances(company.id, now.getFullYear());
+    } catch (error) {
+      console.error(`Leave accrual job failed for company ${company.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Check hourly and run the accrual job once on the 1st of each month
+ */
+export function scheduleLeaveAccrualJob(): void {
+  let lastRunKey: string | null = null;
+
+  const tick = async () => {
+    const now = new Date();
+    const runKey = `${now.getFullYear()}-${now.getMonth()}`;
+    if (now.getDate() !== 1 || lastRunKey === runKey) {
+      return;
+    }
+    lastRunKey = runKey;
+    console.log(`Running leave accrual job for ${runKey}`);
+    await runLeaveAccrualJob(now);
+  };
+
+  setInterval(() => {
+    tick().catch(error => console.error('Leave accrual job error:', error));
+  }, 60 * 60 * 1000);
+}
@@ -0,0 +1,152 @@
+import type { Employee, EmployeeOffboarding, OffboardingChecklistItem } from "@shared/schema";
+import { storage } from "../storage";
+import { calculateFinalSettlement, type SeparationReason } from "./gratuityService";
+
+// UAE Federal Decree-Law 33/2021 Art. 43: notice of at least 30 and at most 90 days
+export const DEFAULT_NOTICE_PERIOD_DAYS = 30;
+export const MAX_NOTICE_PERIOD_DAYS = 90;
+
+const DEFAULT_CHECKLIST: Array<Pick<OffboardingChecklistItem, 'key' | 'label'>> = [
+  { key: 'ASSET_RETURN', label: 'Company assets returned (laptop, phone, access card)' },
+  { key: 'VISA_CANCELLATION', label: 'Residence visa and labour card cancelled' },
+  { key: 'ACCESS_REVOCATION', label: 'System and building access revoked' },
+  { key: 'FINAL_SETTLEMENT', label: 'Final settlement paid (gratuity, leave encashment, outstanding salary)' },
+];
+
+// Completing the case deactivates the login, so this step is ticked automatically then
+const AUTOMATIC_CHECKLIST_KEYS = ['ACCESS_REVOCATION'];
+
+export interface StartOffboardingInput {
+  separationType: SeparationReason;
+  reason?: string;
+  noticeDate: string;
+  noticePeriodDays: number;
+  lastWorkingDate?: string;
+}
+
+export function buildOffboardingChecklist(): OffboardingChecklistItem[] {
+  return DEFAULT_CHECKLIST.map(item => ({ ...item, completed: false }));
+}
+
+/**
+ * Last working day once the notice period has been served, counted from the day notice was given
+ */
+export function calculateLastWorkingDate(noticeDate: string, noticePeriodDays: number): string {
+  const date = new Date(`${noticeDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + noticePeriodDays);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Checklist steps still open, ignoring those completion performs itself
+ */
+export function getOutstandingChecklistItems(offboarding: EmployeeOffboarding): OffboardingChecklistItem[] {
+  const checklist = (offboarding.checklist || []) as OffboardingChecklistItem[];
+  return checklist.filter(item => !item.completed && !AUTOMATIC_CHECKLIST_KEYS.includes(item.key));
+}
+
+/**
+ * Open an offboarding case with its checklist and a first settlement estimate,
+ * and record the last working day on the employee
+ */
+export async function startOffboarding(
+  employee: Employee,
+  input: StartOffboardingInput,
+  initiatedBy: string
+): Promise<EmployeeOffboarding> {
+  const lastWorkingDate = input.lastWorkingDate || calculateLastWorkingDate(input.noticeDate, input.noticePeriodDays);
+  const settlement = await calculateFinalSettlement(employee, lastWorkingDate, input.separationType);
+
+  const offboarding = await storage.createOffboarding({
+    companyId: employee.companyId,
+    employeeId: employee.id,
+    separationType: input.separationType,
+    reason: input.reason || null,
+    noticeDate: input.noticeDate,
+    noticePeriodDays: input.noticePeriodDays,
+    lastWorkingDate,
+    status: 'IN_PROGRESS',
+    checklist: buildOffboardingChecklist(),
+    settlement,
+    initiatedBy,
+    completedBy: null,
+    completedAt: null,
+  });
+
+  await storage.updateEmployee(employee.id, {
+    employmentDetails: { ...(employee.employmentDetails || {}), terminationDate: lastWorkingDate },
+  });
+  return offboarding;
+}
+
+/**
+ * Tick or untick a checklist step
+ */
+export async function updateChecklistItem(
+  offboarding: EmployeeOffboarding,
+  key: string,
+  completed: boolean,
+  userId: string,
+  notes?: string
+): Promise<EmployeeOffboarding | undefined> {
+  const checklist = ((offboarding.checklist || []) as OffboardingChecklistItem[]).map(item => {
+    if (item.key !== key) return item;
+    return {
+      ...item,
+      completed,
+      completedBy: completed ? userId : undefined,
+      completedAt: completed ? new Date().toISOString() : undefined,
+      notes: notes ?? item.notes,
+    };
+  });
+  return await storage.updateOffboarding(offboarding.id, { checklist });
+}
+
+/**
+ * Recalculate the settlement, e.g. after leave taken during the notice period
+ */
+export async function refreshOffboardingSettlement(
+  offboarding: EmployeeOffboarding,
+  employee: Employee
+): Promise<EmployeeOffboarding | undefined> {
+  const settlement = await calculateFinalSettlement(
+    employee,
+    offboarding.lastWorkingDate,
+    offboarding.separationType as SeparationReason
+  );
+  return await storage.updateOffboarding(offboarding.id, { settlement });
+}
+
+/**
+ * Close the case with a final settlement snapshot; the employee is terminated and their login deactivated
+ */
+export async function completeOffboarding(
+  offboarding: EmployeeOffboarding,
+  employee: Employee,
+  userId: string
+): Promise<EmployeeOffboarding | undefined> {
+  const settlement = await calculateFinalSettlement(
+    employee,
+    offboarding.lastWorkingDate,
+    offboarding.separationType as SeparationReason
+  );
+  const now = new Date().toISOString();
+  const checklist = ((offboarding.checklist || []) as OffboardingChecklistItem[]).map(item =>
+    AUTOMATIC_CHECKLIST_KEYS.includes(item.key) && !item.completed
+      ? { ...item, completed: true, completedBy: userId, completedAt: now }
+      : item
+  );
+  return await storage.completeOffboarding(offboarding.id, { checklist, settlement, completedBy: userId });
+}
+
+/**
+ * Withdraw the case (e.g. resignation retracted) and clear the recorded last working day
+ */
+export async function cancelOffboarding(
+  offboarding: EmployeeOffboarding,
+  employee: Employee
+): Promise<EmployeeOffboarding | undefined> {
+  const { terminationDate, ...employmentDetails } = employee.employmentDetails || {};
+  await storage.updateEmployee(employee.id, { employmentDetails });
+  return await storage.updateOffboarding(offboarding.id, { status: 'CANCELLED' });
+}
@@ -0,0 +1,212 @@
+import type { AttendanceRecord, Compensation, Department, Employee, OvertimeRecord } from "@shared/schema";
+import { storage } from "../storage";
+import { getAttendanceDate, previousAttendanceDate, toAttendanceInstant } from "./attendanceService";
+import { getShiftWindow } from "./shiftService";
+import { eachDate, getCompanyHolidayOn, getWorkCalendarSettings } from "./workingDaysService";
+
+// UAE Federal Decree-Law 33/2021: 8 ordinary hours a day; overtime at +25%, +50% between 10pm and 4am,
+// and +50% on rest days and public holidays
+const STANDARD_DAILY_MINUTES = 8 * 60;
+const REGULAR_OVERTIME_RATE = 1.25;
+const NIGHT_OVERTIME_RATE = 1.5;
+const REST_DAY_OVERTIME_RATE = 1.5;
+const NIGHT_START = '22:00';
+const NIGHT_END = '04:00';
+
+// Roles that approve overtime for anyone in the company
+const HR_APPROVER_ROLES = ['SUPER_ADMIN', 'COMPANY_ADMIN', 'HR_MANAGER'];
+
+export interface OvertimeSplit {
+  regularMinutes: number;
+  nightMinutes: number;
+  restDayMinutes: number;
+}
+
+export interface MonthlyOvertimeSummary {
+  employeeId: string;
+  approvedRecords: number;
+  pendingRecords: number;
+  regularMinutes: number;
+  nightMinutes: number;
+  restDayMinutes: number;
+  amount: number;
+}
+
+/**
+ * Hourly rate for overtime: basic salary over 30 days of 8 hours
+ */
+export function calculateHourlyRate(compensation: Compensation | undefined): number {
+  return (compensation?.basicSalary || 0) / 30 / 8;
+}
+
+/**
+ * Minutes between two instants that fall in the 10pm-4am night window
+ */
+export function nightMinutesBetween(from: Date, to: Date): number {
+  let minutes = 0;
+  for (const date of eachDate(previousAttendanceDate(getAttendanceDate(from)), getAttendanceDate(to))) {
+    const nightStart = toAttendanceInstant(date, NIGHT_START);
+    const nightEnd = new Date(toAttendanceInstant(date, NIGHT_END).getTime() + 24 * 60 * 60 * 1000);
+    const overlap = Math.min(to.getTime(), nightEnd.getTime()) - Math.max(from.getTime(), nightStart.getTime());
+    if (overlap > 0) {
+      minutes += Math.floor(overlap / 60000);
+    }
+  }
+  return minutes;
+}
+
+/**
+ * Split overtime into pay categories. Overtime is taken as the last minutes worked before check-out.
+ */
+export function splitOvertimeMinutes(overtimeMinutes: number, checkOut: Date, isRestDay: boolean): OvertimeSplit {
+  if (isRestDay) {
+    return { regularMinutes: 0, nightMinutes: 0, restDayMinutes: overtimeMinutes };
+  }
+  const overtimeStart = new Date(checkOut.getTime() - overtimeMinutes * 60000);
+  const nightMinutes = Math.min(overtimeMinutes, nightMinutesBetween(overtimeStart, checkOut));
+  return { regularMinutes: overtimeMinutes - nightMinutes, nightMinutes, restDayMinutes: 0 };
+}
+
+/**
+ * Overtime pay for a split at the given hourly rate, rounded to fils
+ */
+export function calculateOvertimeAmount(hourlyRate: number, split: OvertimeSplit): number {
+  const amount = hourlyRate * (
+    split.regularMinutes / 60 * REGULAR_OVERTIME_RATE +
+    split.nightMinutes / 60 * NIGHT_OVERTIME_RATE +
+    split.restDayMinutes / 60 * REST_DAY_OVERTIME_RATE
+  );
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Compare a completed attendance record with the scheduled hours and create or refresh
+ * its pending overtime record. Reviewed overtime is never recalculated.
+ */
+export async function recordOvertimeForAttendance(record: AttendanceRecord, employee: Employee): Promise<OvertimeRecord | undefined> {
+  if (!record.checkOut || record.totalHours == null) {
+    return undefined;
+  }
+
+  const existing = await storage.getOvertimeRecordByAttendance(record.id);
+  if (existing && existing.status !== 'PENDING') {
+    return existing;
+  }
+
+  const [assignment, holiday, company] = await Promise.all([
+    storage.getShiftAssignment(employee.id, record.date),
+    getCompanyHolidayOn(employee.companyId, record.date),
+    storage.getCompany(employee.companyId),
+  ]);
+  const shift = record.shiftTemplateId ? await storage.getShiftTemplate(record.shiftTemplateId) : undefined;
+
+  // Rostered rest days, public holidays and (for unrostered staff) weekend days
+  const weekendDays = getWorkCalendarSettings(company?.settings).weekendDays;
+  const isRestDay = !!holiday ||
+    (assignment ? !assignment.shiftTemplateId : weekendDays.includes(new Date(`${record.date}T00:00:00Z`).getUTCDay()));
+
+  let scheduledMinutes = 0;
+  if (!isRestDay) {
+    if (shift) {
+      const { start, end } = getShiftWindow(record.date, shift);
+      scheduledMinutes = Math.floor((end.getTime() - start.getTime()) / 60000) - (shift.breakMinutes ?? 0);
+    } else {
+      scheduledMinutes = STANDARD_DAILY_MINUTES;
+    }
+  }
+
+  const overtimeMinutes = record.totalHours - scheduledMinutes;
+  if (overtimeMinutes <= 0) {
+    if (existing) {
+      await storage.deleteOvertimeRecord(existing.id);
+    }
+    return undefined;
+  }
+
+  const hourlyRate = calculateHourlyRate(employee.compensation);
+  const split = splitOvertimeMinutes(overtimeMinutes, record.checkOut, isRestDay);
+  const overtimeData = {
+    scheduledMinutes,
+    workedMinutes: record.totalHours,
+    ...split,
+    hourlyRate: hourlyRate.toFixed(4),
+    amount: calculateOvertimeAmount(hourlyRate, split).toFixed(2),
+  };
+
+  if (existing) {
+    return await storage.updateOvertimeRecord(existing.id, overtimeData);
+  }
+  return await storage.createOvertimeRecord({
+    companyId: employee.companyId,
+    employeeId: employee.id,
+    attendanceRecordId: record.id,
+    date: record.date,
+    ...overtimeData,
+    status: 'PENDING',
+    reviewedBy: null,
+    reviewedAt: null,
+    comments: null,
+  });
+}
+
+/**
+ * Whether a user may approve an employee's overtime: HR roles, the reporting manager
+ * or the manager of the employee's department. Nobody approves their own overtime.
+ */
+export function canApproveOvertime(
+  userRole: string,
+  userEmployeeId: string | undefined,
+  employee: Employee,
+  department: Department | undefined
+): boolean {
+  if (userEmployeeId && userEmployeeId === employee.id) {
+    return false;
+  }
+  if (HR_APPROVER_ROLES.includes(userRole)) {
+    return true;
+  }
+  return !!userEmployeeId && (
+    employee.employmentDetails?.reportingManagerId === userEmployeeId ||
+    department?.managerId === userEmployeeId
+  );
+}
+
+/**
+ * First and last date of a YYYY-MM month
+ */
+export function getMonthRange(month: string): { startDate: string; endDate: string } {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return { startDate: `${month}-01`, endDate: `${month}-${String(lastDay).padStart(2, '0')}` };
+}
+
+/**
+ * Payroll-ready overtime per employee for a month; only approved overtime is paid
+ */
+export async function getMonthlyOvertimeSummary(companyId: string, month: string): Promise<MonthlyOvertimeSummary[]> {
+  const records = await storage.getOvertimeRecords(companyId, getMonthRange(month));
+
+  const summaries = new Map<string, MonthlyOvertimeSummary>();
+  for (const record of records) {
+    const summary = summaries.get(record.employeeId) || {
+      employeeId: record.employeeId,
+      approvedRecords: 0,
+      pendingRecords: 0,
+      regularMinutes: 0,
+      nightMinutes: 0,
+      restDayMinutes: 0,
+      amount: 0,
+    };
+    if (record.status === 'APPROVED') {
+      summary.approvedRecords++;
+      summary.regularMinutes += record.regularMinutes || 0;
+      summary.nightMinutes += record.nightMinutes || 0;
+      summary.restDayMinutes += record.restDayMinutes || 0;
+      summary.amount = Math.round((summary.amount + parseFloat(record.amount)) * 100) / 100;
+    } else if (record.status === 'PENDING') {
+      summary.pendingRecords++;
+    }
+    summaries.set(record.employeeId, summary);
+  }
+  return Array.from(summaries.values());
+}
@@ -0,0 +1,209 @@
+import type { Compensation, Employee, LeaveRequest, LeaveType, LeaveTypeRules, PayrollItem, PayrollRun, SalaryRevision } from "@shared/schema";
+import { storage } from "../storage";
+import { splitSickLeaveByPayTier } from "./leaveEntitlementService";
+import { getMonthlyOvertimeSummary, getMonthRange } from "./overtimeService";
+import { getSalaryOn, getSalaryPeriods, getSalaryTotal } from "./salaryRevisionService";
+import { calculateCompanyWorkingDays } from "./workingDaysService";
+
+// UAE practice: a day's pay is the monthly salary over 30 days
+const PAYROLL_DAYS_PER_MONTH = 30;
+
+// Allowed status moves; a run cannot be recalculated or deleted once APPROVED
+export const PAYROLL_TRANSITIONS: Record<string, string[]> = {
+  DRAFT: ['REVIEWED'],
+  REVIEWED: ['APPROVED', 'DRAFT'],
+  APPROVED: ['PAID'],
+  PAID: [],
+};
+
+export const LOCKED_PAYROLL_STATUSES = ['APPROVED', 'PAID'];
+
+export type PayrollItemData = Omit<PayrollItem, 'id' | 'payrollRunId' | 'createdAt' | 'updatedAt'>;
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function toMoney(amount: number): string {
+  return roundMoney(amount).toFixed(2);
+}
+
+function previousMonth(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const previous = new Date(Date.UTC(year, monthIndex - 2, 1));
+  return previous.toISOString().slice(0, 7);
+}
+
+/**
+ * Whether a run is locked against recalculation and deletion
+ */
+export function isPayrollRunLocked(run: PayrollRun): boolean {
+  return LOCKED_PAYROLL_STATUSES.includes(run.status || 'DRAFT');
+}
+
+/**
+ * Unpaid days an employee took in a month: every day of unpaid leave types,
+ * and half-pay (counted as 0.5) or unpaid sick days beyond the UAE full-pay allowance
+ */
+export async function calculateUnpaidLeaveDays(
+  companyId: string,
+  month: string,
+  requests: LeaveRequest[],
+  leaveTypes: LeaveType[]
+): Promise<number> {
+  const { startDate: monthStart, endDate: monthEnd } = getMonthRange(month);
+  const leaveTypesById = new Map(leaveTypes.map(type => [type.id, type]));
+
+  // Days of a request falling between two dates, counted the way the leave type counts them
+  const countDays = async (request: LeaveRequest, from: string, to: string): Promise<number> => {
+    const start = request.startDate > from ? request.startDate : from;
+    const end = request.endDate < to ? request.endDate : to;
+    if (start > end) return 0;
+    const rules = (leaveTypesById.get(request.leaveTypeId)?.rules || {}) as LeaveTypeRules;
+    const days = await calculateCompanyWorkingDays(companyId, start, end);
+    return rules.dayCount === 'CALENDAR' ? days.calendarDays : days.workingDays;
+  };
+
+  let unpaidDays = 0;
+  for (const request of requests) {
+    if (request.startDate > monthEnd || request.endDate < monthStart) continue;
+    const rules = (leaveTypesById.get(request.leaveTypeId)?.rules || {}) as LeaveTypeRules;
+
+    if (rules.paid === false) {
+      unpaidDays += await countDays(request, monthStart, monthEnd);
+    } else if (rules.entitlement === 'UAE_SICK') {
+      // Sick days already taken this year, including the part of this request before the month
+      const yearStart = `${request.startDate.slice(0, 4)}-01-01`;
+      const earlierRequests = requests.filter(other =>
+        other.id !== request.id &&
+        other.leaveTypeId === request.leaveTypeId &&
+        other.startDate >= yearStart &&
+        other.startDate < request.startDate
+      );
+      let alreadyUsed = earlierRequests.reduce((total, other) => total + other.daysRequested, 0);
+      if (request.startDate < monthStart) {
+        alreadyUsed += await countDays(request, request.startDate, getMonthRange(previousMonth(month)).endDate);
+      }
+      const { halfPay, unpaid } = splitSickLeaveByPayTier(alreadyUsed, await countDays(request, monthStart, monthEnd));
+      unpaidDays += halfPay * 0.5 + unpaid;
+    }
+  }
+  return unpaidDays;
+}
+
+/**
+ * Pay for one employee: the salary in force on each day of the month, pro-rated for joiners,
+ * leavers and mid-month revisions, less unpaid leave at gross / 30 per day, plus approved overtime
+ */
+export function calculatePayrollItem(
+  employee: Employee,
+  month: string,
+  unpaidLeaveDays: number,
+  overtime: { minutes: number; amount: number },
+  salaryRevisions: SalaryRevision[] = []
+): PayrollItemData {
+  const { startDate: monthStart, endDate: monthEnd } = getMonthRange(month);
+  const daysInMonth = parseInt(monthEnd.slice(8, 10));
+
+  const joinDate = employee.employmentDetails?.startDate;
+  const leaveDate = employee.employmentDetails?.terminationDate?.slice(0, 10);
+  const payableStart = joinDate && joinDate > monthStart ? joinDate : monthStart;
+  // Leavers are paid up to and including their last working day
+  const payableEnd = leaveDate && leaveDate < monthEnd ? leaveDate : monthEnd;
+  const payableDays = parseInt(payableEnd.slice(8, 10)) - parseInt(payableStart.slice(8, 10)) + 1;
+
+  // Month-end salary is what the item records and what a day of unpaid leave is worth
+  const monthEndSalary = getSalaryOn(employee, salaryRevisions, monthEnd);
+  const compensation: Compensation = {
+    ...employee.compensation,
+    ...monthEndSalary,
+    totalSalary: getSalaryTotal(monthEndSalary),
+  };
+
+  let basicSalary = 0;
+  let housingAllowance = 0;
+  let transportAllowance = 0;
+  let otherAllowance = 0;
+  for (const period of getSalaryPeriods(employee, salaryRevisions, payableStart, payableEnd)) {
+    const proration = (parseInt(period.endDate.slice(8, 10)) - parseInt(period.startDate.slice(8, 10)) + 1) / daysInMonth;
+    basicSalary += period.salary.basicSalary * proration;
+    housingAllowance += period.salary.housingAllowance * proration;
+    transportAllowance += period.salary.transportAllowance * proration;
+    otherAllowance += period.salary.otherAllowance * proration;
+  }
+  const monthlyGross = getSalaryTotal(monthEndSalary);
+  const grossSalary = basicSalary + housingAllowance + transportAllowance + otherAllowance;
+
+  const leaveDeduction = Math.min(grossSalary, monthlyGross / PAYROLL_DAYS_PER_MONTH * unpaidLeaveDays);
+  const netSalary = grossSalary - leaveDeduction + overtime.amount;
+
+  return {
+    companyId: employee.companyId,
+    employeeId: employee.id,
+    compensation,
+    basicSalary: toMoney(basicSalary),
+    housingAllowance: toMoney(housingAllowance),
+    transportAllowance: toMoney(transportAllowance),
+    otherAllowance: toMoney(otherAllowance),
+    payableDays,
+    daysInMonth,
+    grossSalary: toMoney(grossSalary),
+    unpaidLeaveDays: String(unpaidLeaveDays),
+    leaveDeduction: toMoney(leaveDeduction),
+    overtimeMinutes: overtime.minutes,
+    overtimeAmount: toMoney(overtime.amount),
+    netSalary: toMoney(netSalary),
+    payslipDocumentId: null,
+  };
+}
+
+/**
+ * Recalculate every active employee's pay for a draft run and store the items and totals.
+ * Resolves to undefined when the run has left DRAFT while it was being calculated.
+ */
+export async function calculatePayrollRun(run: PayrollRun): Promise<PayrollRun | undefined> {
+  const { startDate: monthStart, endDate: monthEnd } = getMonthRange(run.month);
+  const [employees, leaveTypes, approvedLeave, overtime, salaryRevisions] = await Promise.all([
+    storage.getEmployees(run.companyId),
+    storage.getLeaveTypes(run.companyId, true),
+    storage.getLeaveRequests(run.companyId, { status: 'APPROVED' }),
+    getMonthlyOvertimeSummary(run.companyId, run.month),
+    storage.getSalaryRevisions(run.companyId, { status: 'APPROVED' }),
+  ]);
+  const overtimeByEmployee = new Map(overtime.map(summary => [summary.employeeId, summary]));
+
+  // Employees who had joined by the end of the month and not left before it started
+  const payrollEmployees = employees.filter(employee =>
+    employee.status === 'ACTIVE' &&
+    (!employee.employmentDetails?.startDate || employee.employmentDetails.startDate <= monthEnd) &&
+    (!employee.employmentDetails?.terminationDate || employee.employmentDetails.terminationDate.slice(0, 10) >= monthStart)
+  );
+
+  const items: PayrollItemData[] = [];
+  for (const employee of payrollEmployees) {
+    const unpaidLeaveDays = await calculateUnpaidLeaveDays(
+      run.companyId,
+      run.month,
+      approvedLeave.filter(request => request.employeeId === employee.id),
+      leaveTypes
+    );
+    const employeeOvertime = overtimeByEmployee.get(employee.id);
+    items.push(calculatePayrollItem(employee, run.month, unpaidLeaveDays, {
+      minutes: employeeOvertime
+        ? employeeOvertime.regularMinutes + employeeOvertime.nightMinutes + employeeOvertime.restDayMinutes
+        : 0,
+      amount: employeeOvertime?.amount || 0,
+    }, salaryRevisions.filter(revision => revision.employeeId === employee.id)));
+  }
+
+  const sum = (field: 'grossSalary' | 'overtimeAmount' | 'leaveDeduction' | 'netSalary') =>
+    toMoney(items.reduce((total, item) => total + parseFloat(item[field] || '0'), 0));
+
+  return await storage.savePayrollCalculation(run.id, 'DRAFT', items, {
+    employeeCount: items.length,
+    totalGross: sum('grossSalary'),
+    totalOvertime: sum('overtimeAmount'),
+    totalDeductions: sum('leaveDeduction'),
+    totalNet: sum('netSalary'),
+  });
+}
@@ -0,0 +1,213 @@
+import { randomBytes } from "crypto";
+import type { Company, Compensation, Department, Employee, PayrollItem, PayrollRun } from "@shared/schema";
+import { storage } from "../storage";
+import { getStorageDriver } from "../storageDrivers";
+import { getAttendanceDate } from "./attendanceService";
+import { isPayrollRunLocked } from "./payrollService";
+import { PdfDocument } from "./pdfService";
+
+const BRAND_COLOR: [number, number, number] = [234, 88, 12];
+
+export interface YearToDateTotals {
+  grossSalary: number;
+  overtimeAmount: number;
+  leaveDeduction: number;
+  netSalary: number;
+}
+
+function formatAmount(amount: number | string | null | undefined): string {
+  return Number(amount || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-GB', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
+
+function maskIban(iban: string | undefined): string {
+  return iban && iban.length > 8 ? `${iban.slice(0, 4)} **** ${iban.slice(-4)}` : '-';
+}
+
+/**
+ * Totals for the employee's approved payroll from January up to and including the run's month
+ */
+export async function calculateYearToDate(employeeId: string, run: PayrollRun): Promise<YearToDateTotals> {
+  const history = await storage.getEmployeePayrollItems(employeeId);
+  const year = run.month.slice(0, 4);
+
+  const totals: YearToDateTotals = { grossSalary: 0, overtimeAmount: 0, leaveDeduction: 0, netSalary: 0 };
+  for (const { item, run: itemRun } of history) {
+    const counted = itemRun.id === run.id || isPayrollRunLocked(itemRun);
+    if (!counted || itemRun.month.slice(0, 4) !== year || itemRun.month > run.month) continue;
+    totals.grossSalary += parseFloat(item.grossSalary || '0');
+    totals.overtimeAmount += parseFloat(item.overtimeAmount || '0');
+    totals.leaveDeduction += parseFloat(item.leaveDeduction || '0');
+    totals.netSalary += parseFloat(item.netSalary || '0');
+  }
+  return totals;
+}
+
+/**
+ * Lay out one employee's payslip: earnings from the compensation snapshot, deductions, net pay and YTD
+ */
+export function renderPayslipPdf(
+  company: Company,
+  employee: Employee,
+  department: Department | undefined,
+  run: PayrollRun,
+  item: PayrollItem,
+  yearToDate: YearToDateTotals
+): Buffer {
+  const pdf = new PdfDocument();
+  const left = 50;
+  const right = pdf.width - 50;
+
+  // Company branding band
+  pdf.rect(0, 0, pdf.width, 90, BRAND_COLOR);
+  pdf.text(left, 45, company.name, { size: 20, bold: true, color: [255, 255, 255] });
+  pdf.text(left, 68, [company.city, company.country].filter(Boolean).join(', '), { size: 10, color: [255, 255, 255] });
+  pdf.text(right, 45, 'PAYSLIP', { size: 18, bold: true, color: [255, 255, 255], align: 'right' });
+  pdf.text(right, 68, formatMonth(run.month), { size: 11, color: [255, 255, 255], align: 'right' });
+
+  const bankDetails = (item.compensation as Compensation | null)?.bankDetails;
+  const details: Array<[string, string]> = [
+    ['Employee', employee.personalInfo?.name || '-'],
+    ['Employee Code', employee.employeeCode || '-'],
+    ['Position', employee.employmentDetails?.position || '-'],
+    ['Department', department?.name || '-'],
+    ['Paid Days', `${item.payableDays} of ${item.daysInMonth}`],
+    ['Bank Account', maskIban(bankDetails?.iban)],
+  ];
+  let y = 125;
+  details.forEach(([label, value], index) => {
+    const x = index % 2 === 0 ? left : 320;
+    pdf.text(x, y, label, { size: 9, color: [110, 110, 110] });
+    pdf.text(x + 90, y, value, { size: 10, bold: true });
+    if (index % 2 === 1) y += 20;
+  });
+
+  // Earnings and deductions side by side
+  y += 20;
+  pdf.rect(left, y, right - left, 22, [245, 245, 245]);
+  pdf.text(left + 8, y + 15, 'Earnings', { bold: true });
+  pdf.text(290, y + 15, 'AED', { bold: true, align: 'right' });
+  pdf.text(310, y + 15, 'Deductions', { bold: true });
+  pdf.text(right - 8, y + 15, 'AED', { bold: true, align: 'right' });
+
+  const earnings: Array<[string, string | null]> = [
+    ['Basic Salary', item.basicSalary],
+    ['Housing Allowance', item.housingAllowance],
+    ['Transport Allowance', item.transportAllowance],
+    ['Other Allowances', item.otherAllowance],
+    ['Overtime', item.overtimeAmount],
+  ];
+  const deductions: Array<[string, string | null]> = [
+    [`Unpaid Leave (${Number(item.unpaidLeaveDays || 0)} days)`, item.leaveDeduction],
+  ];
+
+  let rowY = y + 40;
+  earnings.forEach(([label, amount], index) => {
+    pdf.text(left + 8, rowY + index * 18, label);
+    pdf.text(290, rowY + index * 18, formatAmount(amount), { align: 'right' });
+  });
+  deductions.forEach(([label, amount], index) => {
+    pdf.text(310, rowY + index * 18, label);
+    pdf.text(right - 8, rowY + index * 18, formatAmount(amount), { align: 'right' });
+  });
+
+  rowY += earnings.length * 18 + 4;
+  pdf.line(left, rowY - 10, right, rowY - 10);
+  const totalEarnings = parseFloat(item.grossSalary || '0') + parseFloat(item.overtimeAmount || '0');
+  pdf.text(left + 8, rowY + 6, 'Total Earnings', { bold: true });
+  pdf.text(290, rowY + 6, formatAmount(totalEarnings), { bold: true, align: 'right' });
+  pdf.text(310, rowY + 6, 'Total Deductions', { bold: true });
+  pdf.text(right - 8, rowY + 6, formatAmount(item.leaveDeduction), { bold: true, align: 'right' });
+
+  // Net pay
+  y = rowY + 30;
+  pdf.rect(left, y, right - left, 34, [255, 237, 213]);
+  pdf.text(left + 8, y + 22, 'Net Pay', { size: 13, bold: true });
+  pdf.text(right - 8, y + 22, `AED ${formatAmount(item.netSalary)}`, { size: 13, bold: true, align: 'right' });
+
+  // Year to date
+  y += 65;
+  pdf.text(left, y, `Year to Date (${run.month.slice(0, 4)})`, { size: 11, bold: true });
+  y += 8;
+  pdf.line(left, y, right, y);
+  const ytdRows: Array<[string, number]> = [
+    ['Gross Salary', yearToDate.grossSalary],
+    ['Overtime', yearToDate.overtimeAmount],
+    ['Deductions', yearToDate.leaveDeduction],
+    ['Net Pay', yearToDate.netSalary],
+  ];
+  ytdRows.forEach(([label, amount], index) => {
+    pdf.text(left + 8, y + 18 + index * 18, label);
+    pdf.text(right - 8, y + 18 + index * 18, formatAmount(amount), { align: 'right' });
+  });
+
+  pdf.line(left, pdf.height - 60, right, pdf.height - 60);
+  pdf.text(left, pdf.height - 45, `Generated on ${getAttendanceDate()}. This is a system-generated payslip and needs no signature.`, {
+    size: 8,
+    color: [110, 110, 110],
+  });
+
+  return pdf.toBuffer();
+}
+
+/**
+ * Create payslip PDFs for every item of an approved run that does not have one yet,
+ * storing each as a PAYSLIP employee document
+ */
+export async function generatePayslipsForRun(run: PayrollRun, generatedBy: string): Promise<number> {
+  if (!isPayrollRunLocked(run)) {
+    return 0;
+  }
+
+  const [company, items, employees, departments] = await Promise.all([
+    storage.getCompany(run.companyId),
+    storage.getPayrollItems(run.id),
+    storage.getEmployees(run.companyId, true),
+    storage.getDepartments(run.companyId),
+  ]);
+  if (!company) {
+    return 0;
+  }
+  const employeesById = new Map(employees.map(employee => [employee.id, employee]));
+  const departmentsById = new Map(departments.map(department => [department.id, department]));
+
+  const driver = getStorageDriver();
+
+  let generated = 0;
+  for (const item of items.filter(item => !item.payslipDocumentId)) {
+    const employee = employeesById.get(item.employeeId);
+    if (!employee) continue;
+
+    const department = departmentsById.get(employee.employmentDetails?.departmentId || '');
+    const pdf = renderPayslipPdf(company, employee, department, run, item, await calculateYearToDate(employee.id, run));
+    // Generated payslips are stored alongside uploaded documents and served by the same file routes
+    const storedName = `payslip-${run.month}-${randomBytes(8).toString('hex')}.pdf`;
+    await driver.putObject(storedName, pdf, 'application/pdf');
+
+    const now = new Date();
+    const document = await storage.createEmployeeDocument({
+      employeeId: employee.id,
+      documentType: 'PAYSLIP',
+      category: 'Payslips',
+      fileName: `Payslip-${run.month}-${employee.employeeCode || employee.id}.pdf`,
+      filePath: storedName,
+      fileSize: pdf.length,
+      expiryDate: null,
+      status: 'ACTIVE',
+      version: 1,
+      uploadedBy: generatedBy,
+      approvalStatus: 'APPROVED',
+      approvedBy: generatedBy,
+      approvedDate: now,
+      comments: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await storage.updatePayrollItem(item.id, { payslipDocumentId: document.id });
+    generated++;
+  }
+  return generated;
+}
@@ -0,0 +1,95 @@
+// Minimal single-page PDF writer for generated statements (payslips, settlements).
+// Uses the built-in Helvetica fonts, so text is limited to Latin-1 characters.
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+
+type RgbColor = [number, number, number]; // 0-255
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: RgbColor;
+  align?: 'left' | 'right';
+}
+
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\xFF]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function toPdfColor([r, g, b]: RgbColor): string {
+  return [r, g, b].map(value => (value / 255).toFixed(3)).join(' ');
+}
+
+/**
+ * Approximate Helvetica text width; close enough to right-align figures
+ */
+function estimateTextWidth(text: string, size: number, bold: boolean): number {
+  return text.length * size * (bold ? 0.56 : 0.52);
+}
+
+export class PdfDocument {
+  private operations: string[] = [];
+
+  readonly width = PAGE_WIDTH;
+  readonly height = PAGE_HEIGHT;
+
+  /**
+   * Draw text with its baseline at y, measured from the top of the page
+   */
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): this {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const left = options.align === 'right' ? x - estimateTextWidth(text, size, bold) : x;
+    this.operations.push(
+      `BT ${toPdfColor(options.color ?? [0, 0, 0])} rg /${bold ? 'F2' : 'F1'} ${size} Tf ` +
+      `${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${escapePdfText(text)}) Tj ET`
+    );
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: RgbColor = [200, 200, 200]): this {
+    this.operations.push(
+      `${toPdfColor(color)} RG 0.75 w ${x1} ${PAGE_HEIGHT - y1} m ${x2} ${PAGE_HEIGHT - y2} l S`
+    );
+    return this;
+  }
+
+  /**
+   * Filled rectangle with its top-left corner at (x, y)
+   */
+  rect(x: number, y: number, width: number, height: number, fill: RgbColor): this {
+    this.operations.push(`${toPdfColor(fill)} rg ${x} ${PAGE_HEIGHT - y - height} ${width} ${height} re f`);
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    const content = this.operations.join('\n');
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        '/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    ];
+
+    // Byte offsets of every object for the cross-reference table
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      offsets.push(Buffer.byteLength(pdf, 'latin1'));
+      pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+    const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return Buffer.from(pdf, 'latin1');
+  }
+}
@@ -0,0 +1,157 @@
+import type { Employee, Position, UpdatePosition } from "@shared/schema";
+import { storage } from "../storage";
+import { updateEmployeeProfile } from "./employeeHistoryService";
+import { getSalaryComponents, getSalaryTotal } from "./salaryRevisionService";
+
+export interface PositionVacancy {
+  position: Position;
+  planned: number;
+  filled: number;
+  vacancies: number;
+  overfilled: number;
+  outOfBand: number; // holders whose total salary is outside the position's band
+}
+
+export interface DepartmentVacancies {
+  departmentId: string | null;
+  departmentName: string;
+  planned: number;
+  filled: number;
+  vacancies: number;
+  positions: PositionVacancy[];
+}
+
+export interface VacancyReport {
+  departments: DepartmentVacancies[];
+  totals: { planned: number; filled: number; vacancies: number };
+  unmatchedEmployees: number; // active employees whose position is not one of the company's positions
+}
+
+function normalizeTitle(title: string | null | undefined): string {
+  return (title || '').trim().toLowerCase();
+}
+
+/**
+ * The position an employee holds. employmentDetails.position is a free-text title (older
+ * records may hold a position ID); shared titles are told apart by the employee's department.
+ */
+export function findEmployeePosition(employee: Employee, positions: Position[]): Position | undefined {
+  const value = employee.employmentDetails?.position;
+  if (!value) {
+    return undefined;
+  }
+  const byId = positions.find(position => position.id === value);
+  if (byId) {
+    return byId;
+  }
+  const candidates = positions.filter(position => normalizeTitle(position.title) === normalizeTitle(value));
+  if (candidates.length <= 1) {
+    return candidates[0];
+  }
+  return candidates.find(position => position.departmentId === employee.employmentDetails?.departmentId);
+}
+
+/**
+ * Active employees holding a position
+ */
+export async function getPositionHolders(position: Position): Promise<Employee[]> {
+  const [employees, positions] = await Promise.all([
+    storage.getEmployees(position.companyId),
+    storage.getPositions(position.companyId),
+  ]);
+  return employees.filter(employee =>
+    employee.status === 'ACTIVE' && findEmployeePosition(employee, positions)?.id === position.id
+  );
+}
+
+function isOutsideBand(employee: Employee, position: Position): boolean {
+  const total = getSalaryTotal(getSalaryComponents(employee.compensation));
+  return (!!position.salaryBandMin && total < parseFloat(position.salaryBandMin)) ||
+    (!!position.salaryBandMax && total > parseFloat(position.salaryBandMax));
+}
+
+/**
+ * Update a position; a new title is carried over to the employees holding it so they stay matched
+ */
+export async function updatePosition(position: Position, updates: UpdatePosition, changedBy: string): Promise<Position | undefined> {
+  const holders = updates.title && updates.title !== position.title ? await getPositionHolders(position) : [];
+
+  const updatedPosition = await storage.updatePosition(position.id, updates);
+  for (const employee of holders) {
+    await updateEmployeeProfile(
+      employee,
+      { employmentDetails: { ...employee.employmentDetails, position: updates.title } },
+      changedBy,
+      'POSITION_UPDATE'
+    );
+  }
+  return updatedPosition;
+}
+
+/**
+ * Filled seats against planned headcount for every position, grouped by department
+ */
+export async function getVacancyReport(companyId: string): Promise<VacancyReport> {
+  const [positions, departments, employees] = await Promise.all([
+    storage.getPositions(companyId),
+    storage.getDepartments(companyId),
+    storage.getEmployees(companyId),
+  ]);
+
+  const holders = new Map<string, Employee[]>();
+  let unmatchedEmployees = 0;
+  for (const employee of employees.filter(employee => employee.status === 'ACTIVE')) {
+    const position = findEmployeePosition(employee, positions);
+    if (position) {
+      holders.set(position.id, [...(holders.get(position.id) || []), employee]);
+    } else {
+      unmatchedEmployees++;
+    }
+  }
+
+  const byDepartment = new Map<string | null, DepartmentVacancies>();
+  for (const position of positions.sort((a, b) => a.title.localeCompare(b.title))) {
+    const department = departments.find(candidate => candidate.id === position.departmentId);
+    const key = department ? department.id : null;
+    if (!byDepartment.has(key)) {
+      byDepartment.set(key, {
+        departmentId: key,
+        departmentName: department?.name || 'No department',
+        planned: 0,
+        filled: 0,
+        vacancies: 0,
+        positions: [],
+      });
+    }
+
+    const positionHolders = holders.get(position.id) || [];
+    const planned = position.plannedHeadcount ?? 0;
+    const filled = positionHolders.length;
+    const vacancy: PositionVacancy = {
+      position,
+      planned,
+      filled,
+      vacancies: Math.max(planned - filled, 0),
+      overfilled: Math.max(filled - planned, 0),
+      outOfBand: positionHolders.filter(employee => isOutsideBand(employee, position)).length,
+    };
+
+    const group = byDepartment.get(key)!;
+    group.positions.push(vacancy);
+    group.planned += vacancy.planned;
+    group.filled += vacancy.filled;
+    group.vacancies += vacancy.vacancies;
+  }
+
+  const groups = Array.from(byDepartment.values())
+    .sort((a, b) => (a.departmentId === null ? 1 : b.departmentId === null ? -1 : a.departmentName.localeCompare(b.departmentName)));
+  return {
+    departments: groups,
+    totals: {
+      planned: groups.reduce((total, group) => total + group.planned, 0),
+      filled: groups.reduce((total, group) => total + group.filled, 0),
+      vacancies: groups.reduce((total, group) => total + group.vacancies, 0),
+    },
+    unmatchedEmployees,
+  };
+}
@@ -0,0 +1,359 @@
+import type { AttendanceRecord, Employee } from "@shared/schema";
+import { storage } from "../storage";
+import { calculateWorkedMinutes, previousAttendanceDate, toAttendanceInstant } from "./attendanceService";
+import { evaluateCheckIn, evaluateCheckOut, getRosteredShift } from "./shiftService";
+import { recordOvertimeForAttendance } from "./overtimeService";
+
+// Repeated finger scans within this window count as one punch
+const DUPLICATE_PUNCH_WINDOW_MINUTES = 2;
+
+export interface ParsedPunch {
+  code: string;
+  date: string; // YYYY-MM-DD, device local (UAE) time
+  time: string; // HH:MM:SS
+  at: Date;
+  state?: 'IN' | 'OUT';
+  line: number;
+}
+
+export interface PunchLogReport {
+  totalLines: number;
+  parsedPunches: number;
+  recordsCreated: number;
+  recordsUpdated: number;
+  invalidLines: { line: number; content: string; reason: string }[];
+  unmatchedCodes: { code: string; punches: number }[];
+  duplicatePunches: { code: string; employeeId: string; date: string; time: string; line: number }[];
+  incompleteDays: { code: string; employeeId: string; date: string }[];
+}
+
+interface PunchColumns {
+  code: number;
+  date: number;
+  time?: number; // absent when the date column also holds the time
+  state?: number;
+}
+
+const CODE_HEADER = /^(user ?id|employee ?(code|id|no\.?)|emp ?(code|id|no\.?)|ac-?no\.?|enroll(ment)? ?(id|no\.?|number)?|pin|badge( ?no\.?)?|no\.?|id)$/i;
+const DATETIME_HEADER = /^(date[ /_-]?time|timestamp|punch ?time|check ?time|log ?time|att ?time)$/i;
+const DATE_HEADER = /^(date|punch ?date|log ?date)$/i;
+const TIME_HEADER = /^(time)$/i;
+const STATE_HEADER = /^(state|status|type|punch ?(state|type)|check ?type|in\/?out|io)$/i;
+
+function detectDelimiter(line: string): string {
+  if (line.includes('\t')) return '\t';
+  return (line.match(/;/g) || []).length > (line.match(/,/g) || []).length ? ';' : ',';
+}
+
+function splitLine(line: string, delimiter: string): string[] {
+  return line.split(delimiter).map(cell => cell.trim().replace(/^"(.*)"$/, '$1').trim());
+}
+
+function findColumns(header: string[]): PunchColumns | null {
+  const code = header.findIndex(cell => CODE_HEADER.test(cell));
+  const dateTime = header.findIndex(cell => DATETIME_HEADER.test(cell));
+  const date = header.findIndex(cell => DATE_HEADER.test(cell));
+  const time = header.findIndex(cell => TIME_HEADER.test(cell));
+  const state = header.findIndex(cell => STATE_HEADER.test(cell));
+  if (code === -1 || (dateTime === -1 && date === -1)) {
+    return null;
+  }
+  return {
+    code,
+    date: dateTime !== -1 ? dateTime : date,
+    time: dateTime === -1 && time !== -1 ? time : undefined,
+    state: state !== -1 ? state : undefined,
+  };
+}
+
+/**
+ * Parse a device date (YYYY-MM-DD, YYYY/MM/DD or DD/MM/YYYY) and time (HH:MM[:SS] [AM|PM])
+ */
+export function parsePunchDateTime(dateText: string, timeText?: string): { date: string; time: string } | null {
+  const combined = `${dateText} ${timeText || ''}`.trim().replace('T', ' ');
+  const match = combined.match(
+    /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})|^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})/
+  );
+  if (!match) return null;
+  const [year, month, day] = match[1]
+    ? [match[1], match[2], match[3]]
+    : [match[6], match[5], match[4]];
+
+  const timeMatch = combined.slice(match[0].length).match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?/i);
+  if (!timeMatch) return null;
+  let hours = parseInt(timeMatch[1]);
+  const meridiem = timeMatch[4]?.toUpperCase();
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const time = `${String(hours).padStart(2, '0')}:${timeMatch[2]}:${timeMatch[3] || '00'}`;
+  if (isNaN(new Date(`${date}T${time}Z`).getTime()) || hours > 23) {
+    return null;
+  }
+  return { date, time };
+}
+
+/**
+ * Punch direction from a device state: ZKTeco uses 0 for check-in and 1 for check-out;
+ * break and overtime states are treated as undirected punches
+ */
+function parsePunchState(value: string | undefined): 'IN' | 'OUT' | undefined {
+  const state = value?.replace(/[\s/_-]/g, '').toUpperCase();
+  if (!state) return undefined;
+  if (['0', 'IN', 'CIN', 'CHECKIN', 'I'].includes(state)) return 'IN';
+  if (['1', 'OUT', 'COUT', 'CHECKOUT', 'O'].includes(state)) return 'OUT';
+  return undefined;
+}
+
+/**
+ * Parse a CSV or TXT punch export. Files with a header row are mapped by column name;
+ * headerless files are read in ZKTeco attlog order (user ID, date time, verify mode, state).
+ */
+export function parsePunchLog(content: string): { punches: ParsedPunch[]; invalidLines: PunchLogReport['invalidLines']; totalLines: number } {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const punches: ParsedPunch[] = [];
+  const invalidLines: PunchLogReport['invalidLines'] = [];
+
+  const firstLineIndex = lines.findIndex(line => line.trim());
+  if (firstLineIndex === -1) {
+    return { punches, invalidLines, totalLines: 0 };
+  }
+  const delimiter = detectDelimiter(lines[firstLineIndex]);
+  const headerColumns = findColumns(splitLine(lines[firstLineIndex], delimiter));
+
+  let totalLines = 0;
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || (headerColumns && index === firstLineIndex)) return;
+    totalLines++;
+
+    const cells = splitLine(line, delimiter);
+    let code: string | undefined;
+    let parsed: { date: string; time: string } | null;
+    let state: string | undefined;
+    if (headerColumns) {
+      code = cells[headerColumns.code];
+      parsed = parsePunchDateTime(cells[headerColumns.date] || '', headerColumns.time !== undefined ? cells[headerColumns.time] : undefined);
+      state = headerColumns.state !== undefined ? cells[headerColumns.state] : undefined;
+    } else {
+      // attlog: "1\t2025-01-15 08:02:11\t1\t0\t1\t0"; some exports split date and time into two columns
+      code = cells[0];
+      if (/\d:\d/.test(cells[1] || '')) {
+        parsed = parsePunchDateTime(cells[1]);
+        state = cells[3];
+      } else {
+        parsed = parsePunchDateTime(cells[1] || '', cells[2]);
+        state = cells[4];
+      }
+    }
+
+    if (!code) {
+      invalidLines.push({ line: index + 1, content: line, reason: 'Missing user ID' });
+      return;
+    }
+    if (!parsed) {
+      invalidLines.push({ line: index + 1, content: line, reason: 'Unrecognised date or time' });
+      return;
+    }
+    punches.push({
+      code,
+      ...parsed,
+      at: new Date(toAttendanceInstant(parsed.date, parsed.time.slice(0, 5)).getTime() + parseInt(parsed.time.slice(6, 8)) * 1000),
+      state: parsePunchState(state),
+      line: index + 1,
+    });
+  });
+
+  return { punches, invalidLines, totalLines };
+}
+
+interface PunchDay {
+  date: string;
+  punches: ParsedPunch[];
+}
+
+/**
+ * Group one employee's punches into attendance days. An OUT punch that opens a day
+ * closes the previous day's unfinished night shift instead.
+ */
+export function pairPunches(punches: ParsedPunch[]): { days: PunchDay[]; duplicates: ParsedPunch[] } {
+  const sorted = [...punches].sort((a, b) => a.at.getTime() - b.at.getTime());
+  const unique: ParsedPunch[] = [];
+  const duplicates: ParsedPunch[] = [];
+  for (const punch of sorted) {
+    const last = unique[unique.length - 1];
+    if (last && punch.at.getTime() - last.at.getTime() < DUPLICATE_PUNCH_WINDOW_MINUTES * 60000) {
+      duplicates.push(punch);
+    } else {
+      unique.push(punch);
+    }
+  }
+
+  const days: PunchDay[] = [];
+  for (const punch of unique) {
+    const day = days[days.length - 1];
+    if (day && day.date === punch.date) {
+      day.punches.push(punch);
+      continue;
+    }
+    const closesNightShift = punch.state === 'OUT' && day &&
+      day.date === previousAttendanceDate(punch.date) &&
+      day.punches[day.punches.length - 1].state !== 'OUT';
+    if (closesNightShift) {
+      day.punches.push(punch);
+    } else {
+      days.push({ date: punch.date, punches: [punch] });
+    }
+  }
+  return { days, duplicates };
+}
+
+/**
+ * First check-in and last check-out of a day. With device states the first IN and last OUT
+ * are used; without them the first and last punch.
+ */
+function getDayBounds(day: PunchDay): { checkIn?: Date; checkOut?: Date } {
+  const ins = day.punches.filter(punch => punch.state !== 'OUT');
+  const outs = day.punches.filter(punch => punch.state !== 'IN');
+  const checkIn = ins[0]?.at;
+  const lastOut = outs[outs.length - 1]?.at;
+  const checkOut = lastOut && (!checkIn || lastOut.getTime() > checkIn.getTime()) ? lastOut : undefined;
+  return { checkIn, checkOut };
+}
+
+async function upsertAttendanceDay(employee: Employee, date: string, checkIn: Date | undefined, checkOut: Date | undefined): Promise<'created' | 'updated'> {
+  const existing = await storage.getAttendanceRecordForDate(employee.id, date);
+
+  // Keep the earliest check-in and latest check-out across the app and the device
+  const mergedCheckIn = [existing?.checkIn, checkIn]
+    .filter((at): at is Date => !!at)
+    .sort((a, b) => a.getTime() - b.getTime())[0];
+  const mergedCheckOut = [existing?.checkOut, checkOut]
+    .filter((at): at is Date => !!at)
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+
+  const shift = existing?.shiftTemplateId
+    ? await storage.getShiftTemplate(existing.shiftTemplateId)
+    : await getRosteredShift(employee.id, date);
+
+  let status = 'PRESENT';
+  let lateMinutes = 0;
+  let earlyLeaveMinutes = 0;
+  if (shift && mergedCheckIn) {
+    ({ status, lateMinutes } = evaluateCheckIn(mergedCheckIn, date, shift));
+  }
+  if (shift && mergedCheckOut) {
+    ({ status, earlyLeaveMinutes } = evaluateCheckOut(mergedCheckOut, date, shift, status));
+  }
+
+  const breakMinutes = existing?.breakTime ?? shift?.breakMinutes ?? 0;
+  const values = {
+    checkIn: mergedCheckIn || null,
+    checkOut: mergedCheckOut || null,
+    breakTime: mergedCheckOut ? breakMinutes : null,
+    totalHours: mergedCheckIn && mergedCheckOut ? calculateWorkedMinutes(mergedCheckIn, mergedCheckOut, breakMinutes) : null,
+    status,
+    shiftTemplateId: shift?.id || null,
+    lateMinutes,
+    earlyLeaveMinutes,
+  };
+
+  let record: AttendanceRecord | undefined;
+  if (existing) {
+    record = await storage.updateAttendanceRecord(existing.id, values);
+  } else {
+    try {
+      record = await storage.createAttendanceRecord({
+        employeeId: employee.id,
+        date,
+        ...values,
+        location: null,
+        exceptions: [],
+      });
+    } catch (error) {
+      // A check-in or another import created the day's record meanwhile - merge into it instead
+      if ((error as any).code === '23505') {
+        await upsertAttendanceDay(employee, date, checkIn, checkOut);
+        return 'updated';
+      }
+      throw error;
+    }
+  }
+
+  if (record?.checkOut) {
+    await recordOvertimeForAttendance(record, employee);
+  }
+  return existing ? 'updated' : 'created';
+}
+
+/**
+ * Import a biometric punch log for a company: match device user IDs to employee codes,
+ * pair punches into days and upsert attendance. With dryRun nothing is written.
+ */
+export async function importPunchLog(companyId: string, content: string, dryRun: boolean = false): Promise<PunchLogReport> {
+  const { punches, invalidLines, totalLines } = parsePunchLog(content);
+  const employees = await storage.getEmployees(companyId);
+  const employeesByCode = new Map(
+    employees
+      .filter(employee => employee.employeeCode)
+      .map(employee => [employee.employeeCode!.trim().toUpperCase(), employee])
+  );
+
+  const report: PunchLogReport = {
+    totalLines,
+    parsedPunches: punches.length,
+    recordsCreated: 0,
+    recordsUpdated: 0,
+    invalidLines,
+    unmatchedCodes: [],
+    duplicatePunches: [],
+    incompleteDays: [],
+  };
+
+  const punchesByCode = new Map<string, ParsedPunch[]>();
+  for (const punch of punches) {
+    const code = punch.code.toUpperCase();
+    punchesByCode.set(code, [...(punchesByCode.get(code) || []), punch]);
+  }
+
+  for (const [code, codePunches] of Array.from(punchesByCode.entries())) {
+    const employee = employeesByCode.get(code);
+    if (!employee) {
+      report.unmatchedCodes.push({ code: codePunches[0].code, punches: codePunches.length });
+      continue;
+    }
+
+    const { days, duplicates } = pairPunches(codePunches);
+    report.duplicatePunches.push(...duplicates.map(punch => ({
+      code: punch.code,
+      employeeId: employee.id,
+      date: punch.date,
+      time: punch.time,
+      line: punch.line,
+    })));
+
+    for (const day of days) {
+      const { checkIn, checkOut } = getDayBounds(day);
+      if (!checkIn || !checkOut) {
+        report.incompleteDays.push({ code: employee.employeeCode!, employeeId: employee.id, date: day.date });
+      }
+      if (dryRun) {
+        const existing = await storage.getAttendanceRecordForDate(employee.id, day.date);
+        if (existing) {
+          report.recordsUpdated++;
+        } else {
+          report.recordsCreated++;
+        }
+        continue;
+      }
+      if (await upsertAttendanceDay(employee, day.date, checkIn, checkOut) === 'created') {
+        report.recordsCreated++;
+      } else {
+        report.recordsUpdated++;
+      }
+    }
+  }
+
+  return report;
+}
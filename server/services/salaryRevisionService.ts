@@ -0,0 +1,289 @@
+import type { Compensation, Employee, SalaryComponents, SalaryRevision } from "@shared/schema";
+import { storage } from "../storage";
+import { getAttendanceDate } from "./attendanceService";
+import { updateEmployeeProfile } from "./employeeHistoryService";
+
+export const SALARY_REVISION_REASONS = ['PROMOTION', 'ANNUAL_INCREMENT', 'CORRECTION'] as const;
+
+export type SalaryRevisionReason = typeof SALARY_REVISION_REASONS[number];
+
+export interface SalaryRevisionInput {
+  effectiveDate: string;
+  reason: SalaryRevisionReason;
+  salary: SalaryComponents;
+  notes?: string;
+}
+
+export interface SalaryPeriod {
+  startDate: string;
+  endDate: string;
+  salary: SalaryComponents;
+}
+
+export type SalaryRevisionEntry = SalaryRevision & {
+  requestedByName: string | null;
+  approvedByName: string | null;
+};
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+export function getSalaryComponents(compensation: Compensation | null | undefined): SalaryComponents {
+  return {
+    basicSalary: compensation?.basicSalary || 0,
+    housingAllowance: compensation?.housingAllowance || 0,
+    transportAllowance: compensation?.transportAllowance || 0,
+    otherAllowance: compensation?.otherAllowance || 0,
+  };
+}
+
+const SALARY_COMPONENT_KEYS = ['basicSalary', 'housingAllowance', 'transportAllowance', 'otherAllowance'] as const;
+
+/**
+ * Salary components a profile edit would change. Pay only changes through salary revisions.
+ */
+export function getChangedSalaryComponents(employee: Employee, compensation: Compensation): string[] {
+  return SALARY_COMPONENT_KEYS
+    .filter(key => compensation[key] !== undefined && (compensation[key] || 0) !== (employee.compensation?.[key] || 0))
+    .map(key => `compensation.${key}`);
+}
+
+/**
+ * A profile edit's compensation with the salary on record, so components it leaves out are kept
+ */
+export function withRecordedSalary(employee: Employee, compensation: Compensation): Compensation {
+  const recorded = employee.compensation;
+  return {
+    ...compensation,
+    basicSalary: recorded?.basicSalary,
+    housingAllowance: recorded?.housingAllowance,
+    transportAllowance: recorded?.transportAllowance,
+    otherAllowance: recorded?.otherAllowance,
+    totalSalary: recorded?.totalSalary,
+  };
+}
+
+export function getSalaryTotal(salary: SalaryComponents): number {
+  return salary.basicSalary + salary.housingAllowance + salary.transportAllowance + salary.otherAllowance;
+}
+
+/**
+ * Percentage change of the total monthly salary, or null when there was no previous salary
+ */
+export function calculatePercentageChange(previousTotal: number, newTotal: number): string | null {
+  if (previousTotal <= 0) {
+    return null;
+  }
+  return ((newTotal - previousTotal) / previousTotal * 100).toFixed(2);
+}
+
+// Approved revisions oldest first; same-day revisions in the order they were approved
+function sortApproved(revisions: SalaryRevision[]): SalaryRevision[] {
+  return revisions
+    .filter(revision => revision.status === 'APPROVED')
+    .sort((a, b) =>
+      a.effectiveDate.localeCompare(b.effectiveDate) ||
+      (a.approvedAt?.getTime() ?? 0) - (b.approvedAt?.getTime() ?? 0)
+    );
+}
+
+/**
+ * Salary in force on a date. Before the first approved revision it is that revision's
+ * previous salary; the revision currently in force, once applied, defers to the employee
+ * record, which it was copied to.
+ */
+export function getSalaryOn(employee: Employee, revisions: SalaryRevision[], date: string): SalaryComponents {
+  const approved = sortApproved(revisions);
+  const inForce = approved.filter(revision => revision.effectiveDate <= date);
+  if (inForce.length === 0) {
+    return approved.length > 0
+      ? approved[0].previousCompensation as SalaryComponents
+      : getSalaryComponents(employee.compensation);
+  }
+
+  const revision = inForce[inForce.length - 1];
+  const current = approved.filter(other => other.effectiveDate <= getAttendanceDate()).pop();
+  if (revision.id === current?.id && revision.appliedAt) {
+    return getSalaryComponents(employee.compensation);
+  }
+  return revision.compensation as SalaryComponents;
+}
+
+/**
+ * Split a date range into the periods between salary changes, each with the salary paid in it
+ */
+export function getSalaryPeriods(
+  employee: Employee,
+  revisions: SalaryRevision[],
+  startDate: string,
+  endDate: string
+): SalaryPeriod[] {
+  const changeDates = Array.from(new Set(
+    sortApproved(revisions)
+      .map(revision => revision.effectiveDate)
+      .filter(date => date > startDate && date <= endDate)
+  ));
+
+  const periods: SalaryPeriod[] = [];
+  let periodStart = startDate;
+  for (const changeDate of [...changeDates, shiftDate(endDate, 1)]) {
+    periods.push({
+      startDate: periodStart,
+      endDate: shiftDate(changeDate, -1),
+      salary: getSalaryOn(employee, revisions, periodStart),
+    });
+    periodStart = changeDate;
+  }
+  return periods;
+}
+
+/**
+ * Previous salary, total and percentage change for a revision, measured against the
+ * salary in force the day before it takes effect
+ */
+async function measureRevision(employee: Employee, effectiveDate: string, salary: SalaryComponents) {
+  const revisions = await storage.getSalaryRevisions(employee.companyId, { employeeId: employee.id, status: 'APPROVED' });
+  const previousCompensation = getSalaryOn(employee, revisions, shiftDate(effectiveDate, -1));
+  const previousTotal = getSalaryTotal(previousCompensation);
+  const newTotal = getSalaryTotal(salary);
+  return {
+    previousCompensation,
+    previousTotal: previousTotal.toFixed(2),
+    newTotal: newTotal.toFixed(2),
+    percentageChange: calculatePercentageChange(previousTotal, newTotal),
+  };
+}
+
+/**
+ * Record a pending salary revision for approval
+ */
+export async function proposeSalaryRevision(
+  employee: Employee,
+  input: SalaryRevisionInput,
+  requestedBy: string
+): Promise<SalaryRevision> {
+  return await storage.createSalaryRevision({
+    companyId: employee.companyId,
+    employeeId: employee.id,
+    effectiveDate: input.effectiveDate,
+    reason: input.reason,
+    compensation: input.salary,
+    ...await measureRevision(employee, input.effectiveDate, input.salary),
+    status: 'PENDING',
+    notes: input.notes || null,
+    requestedBy,
+    approvedBy: null,
+    approvedAt: null,
+    comments: null,
+    appliedAt: null,
+  });
+}
+
+/**
+ * Approve a pending revision, re-measuring it against any revision approved since it was
+ * proposed, and update the employee's salary straight away if it is already effective.
+ * Resolves undefined when the revision is no longer pending.
+ */
+export async function approveSalaryRevision(
+  revision: SalaryRevision,
+  employee: Employee,
+  approvedBy: string,
+  comments?: string
+): Promise<SalaryRevision | undefined> {
+  const approved = await storage.transitionSalaryRevision(revision.id, 'PENDING', {
+    ...await measureRevision(employee, revision.effectiveDate, revision.compensation as SalaryComponents),
+    status: 'APPROVED',
+    approvedBy,
+    approvedAt: new Date(),
+    comments: comments || null,
+  });
+  if (approved && approved.effectiveDate <= getAttendanceDate()) {
+    await applyDueSalaryRevisions(employee);
+    return await storage.getSalaryRevision(revision.id);
+  }
+  return approved;
+}
+
+/**
+ * Copy the salary of the latest effective revision onto the employee record, recorded in the
+ * change history, and mark every due revision as applied. Returns how many were applied.
+ */
+export async function applyDueSalaryRevisions(employee: Employee, asOf: string = getAttendanceDate()): Promise<number> {
+  const approved = sortApproved(await storage.getSalaryRevisions(employee.companyId, { employeeId: employee.id, status: 'APPROVED' }))
+    .filter(revision => revision.effectiveDate <= asOf);
+  const due = approved.filter(revision => !revision.appliedAt);
+  if (due.length === 0) {
+    return 0;
+  }
+
+  const latest = approved[approved.length - 1];
+  const salary = latest.compensation as SalaryComponents;
+  await updateEmployeeProfile(
+    employee,
+    { compensation: { ...employee.compensation, ...salary, totalSalary: getSalaryTotal(salary) } },
+    latest.approvedBy || latest.requestedBy || '',
+    'SALARY_REVISION'
+  );
+
+  const appliedAt = new Date();
+  for (const revision of due) {
+    await storage.updateSalaryRevision(revision.id, { appliedAt });
+  }
+  return due.length;
+}
+
+/**
+ * Revisions newest first with the names of who requested and approved them
+ */
+export async function getSalaryHistory(companyId: string, filters: { employeeId?: string; status?: string } = {}): Promise<SalaryRevisionEntry[]> {
+  const revisions = await storage.getSalaryRevisions(companyId, filters);
+  const userIds = new Set(revisions.flatMap(revision => [revision.requestedBy, revision.approvedBy]).filter(Boolean) as string[]);
+  const names = new Map<string, string | null>();
+  for (const userId of Array.from(userIds)) {
+    const user = await storage.getUser(userId);
+    names.set(userId, user ? [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email : null);
+  }
+  return revisions.map(revision => ({
+    ...revision,
+    requestedByName: revision.requestedBy ? names.get(revision.requestedBy) ?? null : null,
+    approvedByName: revision.approvedBy ? names.get(revision.approvedBy) ?? null : null,
+  }));
+}
+
+/**
+ * Check hourly and, once a day, apply approved revisions that have become effective
+ */
+export function scheduleSalaryRevisionJob(): void {
+  let lastRunDate: string | null = null;
+
+  const tick = async () => {
+    const today = getAttendanceDate();
+    if (lastRunDate === today) {
+      return;
+    }
+    lastRunDate = today;
+
+    const companies = await storage.getCompanies();
+    for (const company of companies) {
+      try {
+        const pending = (await storage.getSalaryRevisions(company.id, { status: 'APPROVED' }))
+          .filter(revision => !revision.appliedAt && revision.effectiveDate <= today);
+        for (const employeeId of Array.from(new Set(pending.map(revision => revision.employeeId)))) {
+          const employee = await storage.getEmployee(employeeId);
+          if (employee && !employee.deletedAt) {
+            await applyDueSalaryRevisions(employee, today);
+          }
+        }
+      } catch (error) {
+        console.error(`Salary revision job failed for company ${company.id}:`, error);
+      }
+    }
+  };
+
+  setInterval(() => {
+    tick().catch(error => console.error('Salary revision job error:', error));
+  }, 60 * 60 * 1000);
+}
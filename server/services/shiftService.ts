@@ -0,0 +1,142 @@
+import type { ShiftTemplate } from "@shared/schema";
+import { storage } from "../storage";
+import { getAttendanceDate, previousAttendanceDate, toAttendanceInstant } from "./attendanceService";
+import { getCompanyHolidayOn } from "./workingDaysService";
+
+/**
+ * Night shifts end earlier in the day than they start
+ */
+export function crossesMidnight(shift: Pick<ShiftTemplate, 'startTime' | 'endTime'>): boolean {
+  return shift.endTime <= shift.startTime;
+}
+
+/**
+ * Start and end instants of a shift worked on an attendance date
+ */
+export function getShiftWindow(date: string, shift: Pick<ShiftTemplate, 'startTime' | 'endTime'>): { start: Date; end: Date } {
+  const start = toAttendanceInstant(date, shift.startTime);
+  const end = toAttendanceInstant(date, shift.endTime);
+  if (crossesMidnight(shift)) {
+    end.setTime(end.getTime() + 24 * 60 * 60 * 1000);
+  }
+  return { start, end };
+}
+
+/**
+ * Status on check-in: late once the grace period after the shift start has passed
+ */
+export function evaluateCheckIn(checkIn: Date, date: string, shift: ShiftTemplate): { status: 'PRESENT' | 'LATE'; lateMinutes: number } {
+  const { start } = getShiftWindow(date, shift);
+  const lateMinutes = Math.floor((checkIn.getTime() - start.getTime()) / 60000);
+  if (lateMinutes > (shift.gracePeriodMinutes ?? 0)) {
+    return { status: 'LATE', lateMinutes };
+  }
+  return { status: 'PRESENT', lateMinutes: 0 };
+}
+
+/**
+ * Status on check-out: leaving before the shift end (less its grace) is an early leave.
+ * A late arrival keeps its LATE status; the early minutes are still recorded.
+ */
+export function evaluateCheckOut(
+  checkOut: Date,
+  date: string,
+  shift: ShiftTemplate,
+  currentStatus: string | null
+): { status: string; earlyLeaveMinutes: number } {
+  const { end } = getShiftWindow(date, shift);
+  const earlyLeaveMinutes = Math.floor((end.getTime() - checkOut.getTime()) / 60000);
+  if (earlyLeaveMinutes > (shift.earlyLeaveGraceMinutes ?? 0)) {
+    return { status: currentStatus === 'LATE' ? 'LATE' : 'EARLY_LEAVE', earlyLeaveMinutes };
+  }
+  return { status: currentStatus || 'PRESENT', earlyLeaveMinutes: 0 };
+}
+
+/**
+ * The shift an employee is rostered on for a date, or undefined for rest days and unrostered days
+ */
+export async function getRosteredShift(employeeId: string, date: string): Promise<ShiftTemplate | undefined> {
+  const assignment = await storage.getShiftAssignment(employeeId, date);
+  if (!assignment?.shiftTemplateId) {
+    return undefined;
+  }
+  return await storage.getShiftTemplate(assignment.shiftTemplateId);
+}
+
+/**
+ * Create ABSENT (or ON_LEAVE) records for rostered employees with no attendance on a date.
+ * Public holidays are skipped; existing records are never overwritten.
+ */
+export async function markAbsences(companyId: string, date: string): Promise<number> {
+  if (await getCompanyHolidayOn(companyId, date)) {
+    return 0;
+  }
+
+  const [assignments, approvedLeave] = await Promise.all([
+    storage.getShiftAssignments(companyId, date, date),
+    storage.getLeaveRequests(companyId, { status: 'APPROVED' }),
+  ]);
+
+  let marked = 0;
+  for (const assignment of assignments.filter(a => a.shiftTemplateId)) {
+    if (await storage.getAttendanceRecordForDate(assignment.employeeId, date)) {
+      continue;
+    }
+    const onLeave = approvedLeave.some(request =>
+      request.employeeId === assignment.employeeId && request.startDate <= date && request.endDate >= date
+    );
+    try {
+      await storage.createAttendanceRecord({
+        employeeId: assignment.employeeId,
+        date,
+        checkIn: null,
+        checkOut: null,
+        breakTime: null,
+        totalHours: null,
+        status: onLeave ? 'ON_LEAVE' : 'ABSENT',
+        shiftTemplateId: assignment.shiftTemplateId,
+        lateMinutes: 0,
+        earlyLeaveMinutes: 0,
+        location: null,
+        exceptions: [],
+      });
+    } catch (error) {
+      // The employee checked in while absences were being marked
+      if ((error as any).code === '23505') {
+        continue;
+      }
+      throw error;
+    }
+    marked++;
+  }
+  return marked;
+}
+
+/**
+ * Check hourly and mark the previous day's absences once per day
+ */
+export function scheduleAbsenceJob(): void {
+  let lastRunDate: string | null = null;
+
+  const tick = async () => {
+    const today = getAttendanceDate();
+    if (lastRunDate === today) {
+      return;
+    }
+    lastRunDate = today;
+
+    const date = previousAttendanceDate(today);
+    const companies = await storage.getCompanies();
+    for (const company of companies) {
+      try {
+        await markAbsences(company.id, date);
+      } catch (error) {
+        console.error(`Absence job failed for company ${company.id}:`, error);
+      }
+    }
+  };
+
+  setInterval(() => {
+    tick().catch(error => console.error('Absence job error:', error));
+  }, 60 * 60 * 1000);
+}
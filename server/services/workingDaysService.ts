@@ -0,0 +1,182 @@
+import type { CompanyHoliday, WorkCalendarSettings } from "@shared/schema";
+import { storage } from "../storage";
+
+// UAE private sector weekend since 2022 (Saturday and Sunday)
+const DEFAULT_WEEKEND_DAYS = [6, 0];
+
+// UAE federal holidays on fixed Gregorian dates
+const UAE_FIXED_HOLIDAYS = [
+  { month: 1, day: 1, name: "New Year's Day" },
+  { month: 12, day: 1, name: "Commemoration Day" },
+  { month: 12, day: 2, name: "National Day" },
+  { month: 12, day: 3, name: "National Day Holiday" },
+];
+
+// Hijri-calendar federal holidays; dates are the expected ones and move with the moon sighting announcement
+const UAE_LUNAR_HOLIDAYS: Record<number, Array<{ date: string; name: string }>> = {
+  2025: [
+    { date: '2025-03-30', name: 'Eid Al Fitr' },
+    { date: '2025-03-31', name: 'Eid Al Fitr Holiday' },
+    { date: '2025-04-01', name: 'Eid Al Fitr Holiday' },
+    { date: '2025-06-05', name: 'Arafat Day' },
+    { date: '2025-06-06', name: 'Eid Al Adha' },
+    { date: '2025-06-07', name: 'Eid Al Adha Holiday' },
+    { date: '2025-06-08', name: 'Eid Al Adha Holiday' },
+    { date: '2025-06-27', name: 'Islamic New Year' },
+    { date: '2025-09-05', name: "Prophet Muhammad's Birthday" },
+  ],
+  2026: [
+    { date: '2026-03-20', name: 'Eid Al Fitr' },
+    { date: '2026-03-21', name: 'Eid Al Fitr Holiday' },
+    { date: '2026-03-22', name: 'Eid Al Fitr Holiday' },
+    { date: '2026-05-26', name: 'Arafat Day' },
+    { date: '2026-05-27', name: 'Eid Al Adha' },
+    { date: '2026-05-28', name: 'Eid Al Adha Holiday' },
+    { date: '2026-05-29', name: 'Eid Al Adha Holiday' },
+    { date: '2026-06-16', name: 'Islamic New Year' },
+    { date: '2026-08-25', name: "Prophet Muhammad's Birthday" },
+  ],
+  2027: [
+    { date: '2027-03-09', name: 'Eid Al Fitr' },
+    { date: '2027-03-10', name: 'Eid Al Fitr Holiday' },
+    { date: '2027-03-11', name: 'Eid Al Fitr Holiday' },
+    { date: '2027-05-15', name: 'Arafat Day' },
+    { date: '2027-05-16', name: 'Eid Al Adha' },
+    { date: '2027-05-17', name: 'Eid Al Adha Holiday' },
+    { date: '2027-05-18', name: 'Eid Al Adha Holiday' },
+    { date: '2027-06-06', name: 'Islamic New Year' },
+    { date: '2027-08-14', name: "Prophet Muhammad's Birthday" },
+  ],
+};
+
+export interface WorkingDaysResult {
+  workingDays: number;
+  calendarDays: number;
+  weekendDays: number;
+  holidays: Array<{ date: string; name: string }>;
+}
+
+/**
+ * Read the working week configuration out of companies.settings
+ */
+export function getWorkCalendarSettings(companySettings: unknown): WorkCalendarSettings & { weekendDays: number[] } {
+  const settings = (companySettings || {}) as { workCalendar?: WorkCalendarSettings };
+  const workCalendar = settings.workCalendar || {};
+  return {
+    ...workCalendar,
+    weekendDays: workCalendar.weekendDays?.length ? workCalendar.weekendDays : DEFAULT_WEEKEND_DAYS,
+  };
+}
+
+/**
+ * UAE federal public holidays for a year, for preloading a company calendar
+ */
+export function getUaeFederalHolidays(year: number): Array<{ date: string; name: string }> {
+  const fixed = UAE_FIXED_HOLIDAYS.map(holiday => ({
+    date: `${year}-${String(holiday.month).padStart(2, '0')}-${String(holiday.day).padStart(2, '0')}`,
+    name: holiday.name,
+  }));
+  return [...fixed, ...(UAE_LUNAR_HOLIDAYS[year] || [])].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Every YYYY-MM-DD date from start to end inclusive
+ */
+export function eachDate(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const current = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+  while (current <= end) {
+    dates.push(current.toISOString().slice(0, 10));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+/**
+ * Count working days in a date range, excluding weekend days and holidays
+ */
+export function countWorkingDays(
+  startDate: string,
+  endDate: string,
+  weekendDays: number[],
+  holidays: Array<{ date: string; name: string }>
+): WorkingDaysResult {
+  const holidayByDate = new Map(holidays.map(holiday => [holiday.date, holiday.name]));
+  const result: WorkingDaysResult = { workingDays: 0, calendarDays: 0, weekendDays: 0, holidays: [] };
+
+  for (const date of eachDate(startDate, endDate)) {
+    result.calendarDays++;
+    if (weekendDays.includes(new Date(`${date}T00:00:00Z`).getUTCDay())) {
+      result.weekendDays++;
+    } else if (holidayByDate.has(date)) {
+      result.holidays.push({ date, name: holidayByDate.get(date)! });
+    } else {
+      result.workingDays++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Holidays that apply to a company in a date range: nationwide ones plus those for its emirate
+ */
+export async function getApplicableHolidays(companyId: string, startDate: string, endDate: string, emirate?: string): Promise<CompanyHoliday[]> {
+  const holidays = await storage.getCompanyHolidays(companyId, startDate, endDate);
+  return holidays.filter(holiday => !holiday.emirate || holiday.emirate === emirate);
+}
+
+/**
+ * The company holiday falling on a date, if any
+ */
+export async function getCompanyHolidayOn(companyId: string, date: string): Promise<CompanyHoliday | undefined> {
+  const company = await storage.getCompany(companyId);
+  const calendar = getWorkCalendarSettings(company?.settings);
+  const [holiday] = await getApplicableHolidays(companyId, date, date, calendar.emirate);
+  return holiday;
+}
+
+/**
+ * Working days between two dates using the company's weekend and holiday calendar
+ */
+export async function calculateCompanyWorkingDays(companyId: string, startDate: string, endDate: string): Promise<WorkingDaysResult> {
+  const company = await storage.getCompany(companyId);
+  const calendar = getWorkCalendarSettings(company?.settings);
+  const holidays = await getApplicableHolidays(companyId, startDate, endDate, calendar.emirate);
+  return countWorkingDays(startDate, endDate, calendar.weekendDays, holidays);
+}
+
+/**
+ * The working dates in a range, for attendance and payroll day-by-day processing
+ */
+export async function getCompanyWorkingDates(companyId: string, startDate: string, endDate: string): Promise<string[]> {
+  const company = await storage.getCompany(companyId);
+  const calendar = getWorkCalendarSettings(company?.settings);
+  const holidayDates = new Set((await getApplicableHolidays(companyId, startDate, endDate, calendar.emirate)).map(holiday => holiday.date));
+  return eachDate(startDate, endDate).filter(date =>
+    !calendar.weekendDays.includes(new Date(`${date}T00:00:00Z`).getUTCDay()) && !holidayDates.has(date)
+  );
+}
+
+/**
+ * Insert the UAE federal holidays for a year, skipping dates already on the calendar
+ */
+export async function preloadUaeFederalHolidays(companyId: string, year: number): Promise<CompanyHoliday[]> {
+  const existing = await storage.getCompanyHolidays(companyId, `${year}-01-01`, `${year}-12-31`);
+  const existingDates = new Set(existing.filter(holiday => !holiday.emirate).map(holiday => holiday.date));
+
+  const created: CompanyHoliday[] = [];
+  for (const holiday of getUaeFederalHolidays(year)) {
+    if (existingDates.has(holiday.date)) {
+      continue;
+    }
+    created.push(await storage.createCompanyHoliday({
+      companyId,
+      name: holiday.name,
+      date: holiday.date,
+      type: 'FEDERAL',
+      emirate: null,
+    }));
+  }
+  return created;
+}
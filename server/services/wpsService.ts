@@ -0,0 +1,196 @@
+import type { Compensation, Employee, PayrollItem, PayrollRun, WpsSettings } from "@shared/schema";
+import { getAttendanceDate } from "./attendanceService";
+import { getMonthRange } from "./overtimeService";
+
+// MOHRE SIF: 13-digit establishment ID, 14-digit labour card person ID, 9-digit routing codes
+const ESTABLISHMENT_ID_PATTERN = /^\d{13}$/;
+const PERSON_ID_PATTERN = /^\d{14}$/;
+const ROUTING_CODE_PATTERN = /^\d{9}$/;
+const UAE_IBAN_PATTERN = /^AE\d{21}$/;
+
+export interface WpsEmployeeError {
+  employeeId: string;
+  employeeCode: string | null;
+  name: string;
+  errors: string[];
+}
+
+export interface WpsValidationResult {
+  valid: boolean;
+  companyErrors: string[];
+  employeeErrors: WpsEmployeeError[];
+}
+
+/**
+ * Read the WPS employer details out of companies.settings
+ */
+export function getWpsSettings(companySettings: unknown): WpsSettings {
+  const settings = (companySettings || {}) as { wps?: WpsSettings };
+  return {
+    molEstablishmentId: settings.wps?.molEstablishmentId || '',
+    employerBankRoutingCode: settings.wps?.employerBankRoutingCode || '',
+    employerReference: settings.wps?.employerReference || '',
+  };
+}
+
+/**
+ * UAE IBAN format plus the ISO 13616 mod-97 check
+ */
+export function isValidUaeIban(iban: string): boolean {
+  const normalized = iban.replace(/\s/g, '').toUpperCase();
+  if (!UAE_IBAN_PATTERN.test(normalized)) {
+    return false;
+  }
+  const rearranged = normalized.slice(4) + normalized.slice(0, 4);
+  const digits = rearranged.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + parseInt(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+function normalizeDigits(value: string | undefined): string {
+  return (value || '').replace(/[\s-]/g, '');
+}
+
+/**
+ * Problems that would make MOHRE or the bank reject an employee's EDR line
+ */
+export function validateWpsEmployee(item: PayrollItem, employee: Employee | undefined): string[] {
+  const errors: string[] = [];
+  if (!employee) {
+    return ['Employee record no longer exists'];
+  }
+
+  const bankDetails = (item.compensation as Compensation | null)?.bankDetails;
+  const iban = (bankDetails?.iban || '').replace(/\s/g, '').toUpperCase();
+  if (!iban) {
+    errors.push('IBAN is missing');
+  } else if (!isValidUaeIban(iban)) {
+    errors.push(`IBAN ${iban} is not a valid UAE IBAN`);
+  }
+
+  if (!ROUTING_CODE_PATTERN.test(normalizeDigits(bankDetails?.routingCode))) {
+    errors.push('Bank routing code must be 9 digits');
+  }
+
+  const personId = normalizeDigits(employee.laborCardInfo?.number);
+  if (!personId) {
+    errors.push('Labour card number (person ID) is missing');
+  } else if (!PERSON_ID_PATTERN.test(personId)) {
+    errors.push('Labour card number (person ID) must be 14 digits');
+  }
+
+  if (parseFloat(item.netSalary || '0') <= 0) {
+    errors.push('Net salary must be greater than zero');
+  }
+  return errors;
+}
+
+/**
+ * Check a payroll run, its employees and the company's WPS settings before export
+ */
+export function validateWpsExport(
+  run: PayrollRun,
+  items: PayrollItem[],
+  employees: Employee[],
+  settings: WpsSettings
+): WpsValidationResult {
+  const companyErrors: string[] = [];
+  if (run.status !== 'APPROVED' && run.status !== 'PAID') {
+    companyErrors.push('Only approved payroll runs can be exported');
+  }
+  if (!ESTABLISHMENT_ID_PATTERN.test(normalizeDigits(settings.molEstablishmentId))) {
+    companyErrors.push('MOL establishment ID must be 13 digits');
+  }
+  if (!ROUTING_CODE_PATTERN.test(normalizeDigits(settings.employerBankRoutingCode))) {
+    companyErrors.push('Employer bank routing code must be 9 digits');
+  }
+  if (items.length === 0) {
+    companyErrors.push('The payroll run has no employees');
+  }
+
+  const employeesById = new Map(employees.map(employee => [employee.id, employee]));
+  const employeeErrors: WpsEmployeeError[] = [];
+  for (const item of items) {
+    const employee = employeesById.get(item.employeeId);
+    const errors = validateWpsEmployee(item, employee);
+    if (errors.length > 0) {
+      employeeErrors.push({
+        employeeId: item.employeeId,
+        employeeCode: employee?.employeeCode || null,
+        name: employee?.personalInfo?.name || employee?.employeeCode || 'Unknown employee',
+        errors,
+      });
+    }
+  }
+
+  return { valid: companyErrors.length === 0 && employeeErrors.length === 0, companyErrors, employeeErrors };
+}
+
+/**
+ * Build the SIF file: one EDR line per employee and a closing SCR control line.
+ * Fixed income is salary after unpaid leave; overtime is reported as variable income.
+ */
+export function buildSifFile(
+  run: PayrollRun,
+  items: PayrollItem[],
+  employees: Employee[],
+  settings: WpsSettings,
+  createdAt: Date = new Date()
+): { fileName: string; content: string } {
+  const employeesById = new Map(employees.map(employee => [employee.id, employee]));
+  const { startDate: monthStart, endDate: monthEnd } = getMonthRange(run.month);
+
+  const edrLines = items.map(item => {
+    const employee = employeesById.get(item.employeeId);
+    const bankDetails = (item.compensation as Compensation | null)?.bankDetails;
+    const joinDate = employee?.employmentDetails?.startDate;
+    const payStart = joinDate && joinDate > monthStart ? joinDate : monthStart;
+    const fixedIncome = parseFloat(item.grossSalary || '0') - parseFloat(item.leaveDeduction || '0');
+    return [
+      'EDR',
+      normalizeDigits(employee?.laborCardInfo?.number),
+      normalizeDigits(bankDetails?.routingCode),
+      (bankDetails?.iban || '').replace(/\s/g, '').toUpperCase(),
+      payStart,
+      monthEnd,
+      item.payableDays,
+      fixedIncome.toFixed(2),
+      parseFloat(item.overtimeAmount || '0').toFixed(2),
+      Math.ceil(parseFloat(item.unpaidLeaveDays || '0')),
+    ].join(',');
+  });
+
+  // File date and time are UAE local time
+  const creationDate = getAttendanceDate(createdAt);
+  const creationTime = new Intl.DateTimeFormat('en-GB', {
+    timeZone: 'Asia/Dubai',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false,
+  }).format(createdAt).replace(/:/g, '');
+  const [year, month] = run.month.split('-');
+  const total = items.reduce((sum, item) => sum + parseFloat(item.netSalary || '0'), 0);
+  const employerId = normalizeDigits(settings.molEstablishmentId);
+
+  const scrLine = [
+    'SCR',
+    employerId,
+    normalizeDigits(settings.employerBankRoutingCode),
+    creationDate,
+    creationTime.slice(0, 4),
+    `${month}${year}`,
+    items.length,
+    total.toFixed(2),
+    'AED',
+    settings.employerReference || '',
+  ].join(',');
+
+  return {
+    fileName: `${employerId}${creationDate.slice(2).replace(/-/g, '')}${creationTime}.SIF`,
+    content: [...edrLines, scrLine].join('\r\n') + '\r\n',
+  };
+}
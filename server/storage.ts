@@ -8,6 +8,23 @@ import {
   companyModules,
   companyLicenses,
   employeeDocuments,
+  leaveTypes,
+  leaveRequests,
+  leaveBalances,
+  companyHolidays,
+  attendanceRecords,
+  officeLocations,
+  shiftTemplates,
+  shiftAssignments,
+  overtimeRecords,
+  payrollRuns,
+  payrollItems,
+  employeeOffboardings,
+  probationNotifications,
+  employeeHistory,
+  salaryRevisions,
+  jobEvents,
+  documentExpiryReminders,
   type User,
   type UpsertUser,
   type Company,
@@ -19,19 +36,58 @@ import {
   type CompanyLicense,
   type EmployeeDocument,
   type InsertEmployeeDocument,
+  type LeaveType,
+  type LeaveRequest,
+  type LeaveBalance,
+  type LeaveApproval,
+  type CompanyHoliday,
+  type AttendanceRecord,
+  type OfficeLocation,
+  type ShiftTemplate,
+  type ShiftAssignment,
+  type OvertimeRecord,
+  type PayrollRun,
+  type PayrollItem,
+  type EmployeeOffboarding,
+  type EmployeeHistoryEntry,
+  type SalaryRevision,
+  type JobEvent,
+  type DocumentExpiryReminder,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, inArray, sql } from "drizzle-orm";
+import { eq, ne, and, or, inArray, sql, desc, gte, lte, asc, isNull, isNotNull, type SQL } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
 import { randomBytes } from "crypto";
 import { PasswordService } from "./services/passwordService";
 import { sendCompanyAdminInvitation } from "./services/emailService";
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Company-scoped tables removed by a tenant purge
+export type TenantTableName =
+  | 'employeeDocuments' | 'probationNotifications' | 'leaveRequests' | 'leaveBalances' | 'attendanceRecords'
+  | 'overtimeRecords' | 'shiftAssignments' | 'shiftTemplates' | 'officeLocations' | 'companyHolidays'
+  | 'payrollItems' | 'payrollRuns' | 'employeeOffboardings' | 'employeeHistory' | 'salaryRevisions' | 'jobEvents'
+  | 'documentExpiryReminders' | 'leaveTypes' | 'users' | 'employees' | 'positions' | 'departments' | 'companyLicenses' | 'companyModules';
+
+export interface CompanyTenantData {
+  company: Company;
+  tables: Record<TenantTableName, Record<string, unknown>[]>;
+}
+
+export interface CompanyPurgeResult {
+  company: Company;
+  deletedCounts: Record<TenantTableName, number>;
+  documents: EmployeeDocument[];
+}
+
 // Interface for storage operations
 export interface IStorage {
   // User operations (required for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   listUsers(): Promise<User[]>;
+  getUsersByCompany(companyId: string): Promise<User[]>;
   createUser(user: Omit<User, 'createdAt' | 'updatedAt'>): Promise<User>;
   updateUserRole(userId: string, role: string): Promise<User>;
   updateUserAuth(userId: string, updates: {
@@ -57,15 +113,21 @@ export interface IStorage {
   // Bin operations for soft-deleted companies
   getDeletedCompanies(): Promise<Company[]>;
   restoreCompany(id: string): Promise<Company | undefined>;
-  hardDeleteCompany(id: string): Promise<Company | undefined>;
+  getCompanyTenantData(id: string): Promise<CompanyTenantData | undefined>;
+  hardDeleteCompany(id: string, archive: (deleted: CompanyTenantData) => Promise<void>): Promise<CompanyPurgeResult | undefined>;
   // Employee operations
-  getEmployees(companyId: string): Promise<Employee[]>;
+  getEmployees(companyId: string, includeDeleted?: boolean): Promise<Employee[]>;
   getEmployee(id: string): Promise<Employee | undefined>;
   getEmployeeBySlug(companyId: string, slug: string): Promise<Employee | undefined>;
   getEmployeesByDepartment(departmentId: string): Promise<Employee[]>;
   createEmployee(employee: Omit<Employee, 'id' | 'createdAt' | 'updatedAt' | 'deletedAt'>): Promise<Employee>;
   updateEmployee(id: string, updates: Partial<Omit<Employee, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Employee | undefined>;
   deleteEmployee(id: string): Promise<Employee | undefined>;
+  terminateEmployee(id: string, terminationDate: string): Promise<Employee | undefined>;
+  // Bin operations for terminated employees
+  getDeletedEmployees(companyId: string): Promise<Employee[]>;
+  restoreEmployee(id: string): Promise<Employee | undefined>;
+  hardDeleteEmployee(id: string): Promise<{ employee: Employee; documents: EmployeeDocument[] } | undefined>;
   getEmployeeByUserId(userId: string): Promise<Employee | undefined>;
   generateNextEmployeeId(companyId: string): Promise<string>;
   isEmployeeCodeAvailable(companyId: string, employeeCode: string): Promise<boolean>;
@@ -79,15 +141,129 @@ export interface IStorage {
   getChildDepartments(parentId: string): Promise<Department[]>;
   // Position operations
   getPositions(companyId: string): Promise<Position[]>;
+  getPosition(id: string): Promise<Position | undefined>;
   createPosition(position: Omit<Position, 'id' | 'createdAt' | 'updatedAt'>): Promise<Position>;
+  updatePosition(id: string, data: Partial<Omit<Position, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>>): Promise<Position | undefined>;
+  deletePosition(id: string): Promise<Position | undefined>;
   
   // Employee Document operations
   getEmployeeDocument(id: string): Promise<EmployeeDocument | undefined>;
   getEmployeeDocuments(employeeId: string): Promise<EmployeeDocument[]>;
+  getAllEmployeeDocuments(companyId: string): Promise<EmployeeDocument[]>;
   createEmployeeDocument(document: Omit<EmployeeDocument, 'id' | 'uploadDate'>): Promise<EmployeeDocument>;
+  createEmployeeDocumentVersion(document: Omit<EmployeeDocument, 'id' | 'uploadDate' | 'version'>): Promise<EmployeeDocument>;
+  getEmployeeDocumentVersions(employeeId: string, documentType: string): Promise<EmployeeDocument[]>;
   updateEmployeeDocument(id: string, updates: Partial<Omit<EmployeeDocument, 'id' | 'uploadDate'>>): Promise<EmployeeDocument | undefined>;
   deleteEmployeeDocument(id: string): Promise<EmployeeDocument | undefined>;
   
+  // Leave operations
+  getLeaveTypes(companyId: string, includeInactive?: boolean): Promise<LeaveType[]>;
+  getLeaveType(id: string): Promise<LeaveType | undefined>;
+  createLeaveType(leaveType: Omit<LeaveType, 'id' | 'createdAt' | 'updatedAt'>): Promise<LeaveType>;
+  updateLeaveType(id: string, updates: Partial<Omit<LeaveType, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>>): Promise<LeaveType | undefined>;
+  deleteLeaveType(id: string): Promise<LeaveType | undefined>;
+  getLeaveRequests(companyId: string, filters?: { employeeId?: string; status?: string }): Promise<LeaveRequest[]>;
+  getLeaveRequest(id: string): Promise<LeaveRequest | undefined>;
+  createLeaveRequest(request: Omit<LeaveRequest, 'id' | 'createdAt' | 'updatedAt'>): Promise<LeaveRequest>;
+  transitionLeaveRequest(id: string, fromStatus: string, status: string, approval: LeaveApproval, balanceChange?: number, fromStep?: number): Promise<LeaveRequest | undefined>;
+  advanceLeaveRequest(id: string, fromStep: number, approval: LeaveApproval): Promise<LeaveRequest | undefined>;
+  getLeaveApprovalInbox(companyId: string, approverEmployeeId: string | undefined, includeHrSteps: boolean): Promise<LeaveRequest[]>;
+  getLeaveBalances(employeeId: string, year: number): Promise<LeaveBalance[]>;
+  getLeaveBalance(employeeId: string, leaveTypeId: string, year: number): Promise<LeaveBalance | undefined>;
+  upsertLeaveBalance(balance: Omit<LeaveBalance, 'id' | 'createdAt' | 'updatedAt'>): Promise<LeaveBalance>;
+  
+  // Holiday calendar operations
+  getCompanyHolidays(companyId: string, startDate: string, endDate: string): Promise<CompanyHoliday[]>;
+  getCompanyHoliday(id: string): Promise<CompanyHoliday | undefined>;
+  createCompanyHoliday(holiday: Omit<CompanyHoliday, 'id' | 'createdAt' | 'updatedAt'>): Promise<CompanyHoliday>;
+  updateCompanyHoliday(id: string, updates: Partial<Omit<CompanyHoliday, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>>): Promise<CompanyHoliday | undefined>;
+  deleteCompanyHoliday(id: string): Promise<CompanyHoliday | undefined>;
+  
+  // Attendance operations
+  getAttendanceRecords(companyId: string, filters: { startDate: string; endDate: string; departmentId?: string; employeeId?: string; flaggedOnly?: boolean }): Promise<AttendanceRecord[]>;
+  getAttendanceRecord(id: string): Promise<AttendanceRecord | undefined>;
+  getAttendanceRecordForDate(employeeId: string, date: string): Promise<AttendanceRecord | undefined>;
+  createAttendanceRecord(record: Omit<AttendanceRecord, 'id' | 'createdAt' | 'updatedAt'>): Promise<AttendanceRecord>;
+  updateAttendanceRecord(id: string, updates: Partial<Omit<AttendanceRecord, 'id' | 'employeeId' | 'createdAt' | 'updatedAt'>>): Promise<AttendanceRecord | undefined>;
+  
+  // Office location operations
+  getOfficeLocations(companyId: string): Promise<OfficeLocation[]>;
+  getOfficeLocation(id: string): Promise<OfficeLocation | undefined>;
+  createOfficeLocation(location: Omit<OfficeLocation, 'id' | 'createdAt' | 'updatedAt'>): Promise<OfficeLocation>;
+  updateOfficeLocation(id: string, updates: Partial<Omit<OfficeLocation, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>>): Promise<OfficeLocation | undefined>;
+  deleteOfficeLocation(id: string): Promise<OfficeLocation | undefined>;
+  
+  // Shift and roster operations
+  getShiftTemplates(companyId: string): Promise<ShiftTemplate[]>;
+  getShiftTemplate(id: string): Promise<ShiftTemplate | undefined>;
+  createShiftTemplate(template: Omit<ShiftTemplate, 'id' | 'createdAt' | 'updatedAt'>): Promise<ShiftTemplate>;
+  updateShiftTemplate(id: string, updates: Partial<Omit<ShiftTemplate, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>>): Promise<ShiftTemplate | undefined>;
+  deleteShiftTemplate(id: string): Promise<ShiftTemplate | undefined>;
+  getShiftAssignments(companyId: string, startDate: string, endDate: string, employeeId?: string): Promise<ShiftAssignment[]>;
+  getShiftAssignment(employeeId: string, date: string): Promise<ShiftAssignment | undefined>;
+  setEmployeeRoster(companyId: string, employeeId: string, entries: Array<{ date: string; shiftTemplateId: string | null }>): Promise<ShiftAssignment[]>;
+  
+  // Overtime operations
+  getOvertimeRecords(companyId: string, filters: { startDate: string; endDate: string; employeeId?: string; status?: string }): Promise<OvertimeRecord[]>;
+  getOvertimeRecord(id: string): Promise<OvertimeRecord | undefined>;
+  getOvertimeRecordByAttendance(attendanceRecordId: string): Promise<OvertimeRecord | undefined>;
+  createOvertimeRecord(record: Omit<OvertimeRecord, 'id' | 'createdAt' | 'updatedAt'>): Promise<OvertimeRecord>;
+  updateOvertimeRecord(id: string, updates: Partial<Omit<OvertimeRecord, 'id' | 'companyId' | 'employeeId' | 'createdAt' | 'updatedAt'>>): Promise<OvertimeRecord | undefined>;
+  transitionOvertimeRecord(id: string, fromStatus: string, updates: Partial<Omit<OvertimeRecord, 'id' | 'companyId' | 'employeeId' | 'createdAt' | 'updatedAt'>>): Promise<OvertimeRecord | undefined>;
+  deleteOvertimeRecord(id: string): Promise<OvertimeRecord | undefined>;
+  
+  // Payroll operations
+  getPayrollRuns(companyId: string): Promise<PayrollRun[]>;
+  getPayrollRun(id: string): Promise<PayrollRun | undefined>;
+  getPayrollRunByMonth(companyId: string, month: string): Promise<PayrollRun | undefined>;
+  createPayrollRun(run: Omit<PayrollRun, 'id' | 'createdAt' | 'updatedAt'>): Promise<PayrollRun>;
+  updatePayrollRun(id: string, updates: Partial<Omit<PayrollRun, 'id' | 'companyId' | 'month' | 'createdAt' | 'updatedAt'>>): Promise<PayrollRun | undefined>;
+  transitionPayrollRun(id: string, fromStatus: string, updates: Partial<Omit<PayrollRun, 'id' | 'companyId' | 'month' | 'createdAt' | 'updatedAt'>>): Promise<PayrollRun | undefined>;
+  deletePayrollRun(id: string): Promise<PayrollRun | undefined>;
+  getPayrollItems(payrollRunId: string): Promise<PayrollItem[]>;
+  getPayrollItem(id: string): Promise<PayrollItem | undefined>;
+  getEmployeePayrollItems(employeeId: string): Promise<Array<{ item: PayrollItem; run: PayrollRun }>>;
+  updatePayrollItem(id: string, updates: Partial<Pick<PayrollItem, 'payslipDocumentId'>>): Promise<PayrollItem | undefined>;
+  savePayrollCalculation(
+    payrollRunId: string,
+    fromStatus: string,
+    items: Array<Omit<PayrollItem, 'id' | 'payrollRunId' | 'createdAt' | 'updatedAt'>>,
+    totals: Pick<PayrollRun, 'employeeCount' | 'totalGross' | 'totalOvertime' | 'totalDeductions' | 'totalNet'>
+  ): Promise<PayrollRun | undefined>;
+  
+  // Offboarding operations
+  getOffboardings(companyId: string, status?: string): Promise<EmployeeOffboarding[]>;
+  getOffboarding(id: string): Promise<EmployeeOffboarding | undefined>;
+  getOpenOffboarding(employeeId: string): Promise<EmployeeOffboarding | undefined>;
+  createOffboarding(offboarding: Omit<EmployeeOffboarding, 'id' | 'createdAt' | 'updatedAt'>): Promise<EmployeeOffboarding>;
+  updateOffboarding(id: string, updates: Partial<Omit<EmployeeOffboarding, 'id' | 'companyId' | 'employeeId' | 'createdAt' | 'updatedAt'>>): Promise<EmployeeOffboarding | undefined>;
+  completeOffboarding(id: string, updates: Pick<EmployeeOffboarding, 'checklist' | 'settlement' | 'completedBy'>): Promise<EmployeeOffboarding | undefined>;
+  
+  // Employee history operations
+  getEmployeeHistory(employeeId: string): Promise<EmployeeHistoryEntry[]>;
+  updateEmployeeWithHistory(
+    id: string,
+    updates: Partial<Omit<Employee, 'id' | 'createdAt' | 'updatedAt'>>,
+    changes: Array<Omit<EmployeeHistoryEntry, 'id' | 'changedAt'>>
+  ): Promise<Employee | undefined>;
+  
+  // Salary revision operations
+  getSalaryRevisions(companyId: string, filters?: { employeeId?: string; status?: string }): Promise<SalaryRevision[]>;
+  getSalaryRevision(id: string): Promise<SalaryRevision | undefined>;
+  createSalaryRevision(revision: Omit<SalaryRevision, 'id' | 'createdAt' | 'updatedAt'>): Promise<SalaryRevision>;
+  updateSalaryRevision(id: string, updates: Partial<Omit<SalaryRevision, 'id' | 'companyId' | 'employeeId' | 'createdAt' | 'updatedAt'>>): Promise<SalaryRevision | undefined>;
+  transitionSalaryRevision(id: string, fromStatus: string, updates: Partial<Omit<SalaryRevision, 'id' | 'companyId' | 'employeeId' | 'createdAt' | 'updatedAt'>>): Promise<SalaryRevision | undefined>;
+  
+  // Job event operations
+  getJobEvents(companyId: string, filters?: { employeeId?: string; status?: string }): Promise<JobEvent[]>;
+  getJobEvent(id: string): Promise<JobEvent | undefined>;
+  createJobEvent(event: Omit<JobEvent, 'id' | 'createdAt' | 'updatedAt'>): Promise<JobEvent>;
+  updateJobEvent(id: string, updates: Partial<Omit<JobEvent, 'id' | 'companyId' | 'employeeId' | 'createdAt' | 'updatedAt'>>): Promise<JobEvent | undefined>;
+  
+  // Document expiry reminder operations
+  getDocumentExpiryReminders(companyId: string, filters?: { employeeId?: string }): Promise<DocumentExpiryReminder[]>;
+  createDocumentExpiryReminder(reminder: Omit<DocumentExpiryReminder, 'id' | 'sentAt'>): Promise<DocumentExpiryReminder>;
+  
   // Module operations
   getAvailableModules(): Promise<AvailableModule[]>;
   getAvailableModulesByKeys(keys: string[]): Promise<AvailableModule[]>;
@@ -260,24 +436,90 @@ export class DatabaseStorage implements IStorage {
     return company;
   }
 
-  async hardDeleteCompany(id: string): Promise<Company | undefined> {
-    // Permanently delete company from database
-    // First delete all associated users (company admins, employees, etc.)
-    await db
-      .delete(users)
-      .where(eq(users.companyId, id));
-    
-    // Then delete the company itself
-    const [company] = await db
-      .delete(companies)
-      .where(eq(companies.id, id))
-      .returning();
-    return company;
+  async getCompanyTenantData(id: string): Promise<CompanyTenantData | undefined> {
+    const [company] = await db.select().from(companies).where(eq(companies.id, id));
+    if (!company) {
+      return undefined;
+    }
+    const tables = {} as CompanyTenantData['tables'];
+    for (const { name, table, where } of this.getTenantTables(db, id)) {
+      tables[name] = await db.select().from(table).where(where);
+    }
+    return { company, tables };
+  }
+
+  async hardDeleteCompany(id: string, archive: (deleted: CompanyTenantData) => Promise<void>): Promise<CompanyPurgeResult | undefined> {
+    // Permanently delete the company and every company-scoped row in one transaction.
+    // The deleted rows are archived before the transaction commits, so the archive holds exactly
+    // what was removed and a failed archive leaves everything in place.
+    // Stored files are removed by the caller once the transaction has committed.
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(companies).where(eq(companies.id, id)).for('update');
+      if (!existing) {
+        return undefined;
+      }
+      const tables = {} as CompanyTenantData['tables'];
+      const deletedCounts = {} as CompanyPurgeResult['deletedCounts'];
+      for (const { name, table, where } of this.getTenantTables(tx, id)) {
+        tables[name] = await tx.delete(table).where(where).returning();
+        deletedCounts[name] = tables[name].length;
+      }
+      const [company] = await tx
+        .delete(companies)
+        .where(eq(companies.id, id))
+        .returning();
+      await archive({ company, tables });
+      return { company, deletedCounts, documents: tables.employeeDocuments as EmployeeDocument[] };
+    });
+  }
+
+  // Every company-scoped table, children before parents. Tables keyed only by employee
+  // are matched through the company's employees; logins through companyId or the employee link.
+  private getTenantTables(executor: typeof db | Transaction, companyId: string): Array<{ name: TenantTableName; table: PgTable; where: SQL | undefined }> {
+    const companyEmployeeIds = executor
+      .select({ id: employees.id })
+      .from(employees)
+      .where(eq(employees.companyId, companyId));
+    const companyEmployeeUserIds = executor
+      .select({ id: employees.userId })
+      .from(employees)
+      .where(and(eq(employees.companyId, companyId), isNotNull(employees.userId)));
+
+    return [
+      { name: 'employeeDocuments', table: employeeDocuments, where: inArray(employeeDocuments.employeeId, companyEmployeeIds) },
+      { name: 'probationNotifications', table: probationNotifications, where: inArray(probationNotifications.employeeId, companyEmployeeIds) },
+      { name: 'leaveRequests', table: leaveRequests, where: inArray(leaveRequests.employeeId, companyEmployeeIds) },
+      { name: 'leaveBalances', table: leaveBalances, where: inArray(leaveBalances.employeeId, companyEmployeeIds) },
+      { name: 'attendanceRecords', table: attendanceRecords, where: inArray(attendanceRecords.employeeId, companyEmployeeIds) },
+      { name: 'overtimeRecords', table: overtimeRecords, where: eq(overtimeRecords.companyId, companyId) },
+      { name: 'shiftAssignments', table: shiftAssignments, where: eq(shiftAssignments.companyId, companyId) },
+      { name: 'shiftTemplates', table: shiftTemplates, where: eq(shiftTemplates.companyId, companyId) },
+      { name: 'officeLocations', table: officeLocations, where: eq(officeLocations.companyId, companyId) },
+      { name: 'companyHolidays', table: companyHolidays, where: eq(companyHolidays.companyId, companyId) },
+      { name: 'payrollItems', table: payrollItems, where: eq(payrollItems.companyId, companyId) },
+      { name: 'payrollRuns', table: payrollRuns, where: eq(payrollRuns.companyId, companyId) },
+      { name: 'employeeOffboardings', table: employeeOffboardings, where: eq(employeeOffboardings.companyId, companyId) },
+      { name: 'employeeHistory', table: employeeHistory, where: eq(employeeHistory.companyId, companyId) },
+      { name: 'salaryRevisions', table: salaryRevisions, where: eq(salaryRevisions.companyId, companyId) },
+      { name: 'jobEvents', table: jobEvents, where: eq(jobEvents.companyId, companyId) },
+      { name: 'documentExpiryReminders', table: documentExpiryReminders, where: eq(documentExpiryReminders.companyId, companyId) },
+      { name: 'leaveTypes', table: leaveTypes, where: eq(leaveTypes.companyId, companyId) },
+      { name: 'users', table: users, where: or(eq(users.companyId, companyId), inArray(users.id, companyEmployeeUserIds)) },
+      { name: 'employees', table: employees, where: eq(employees.companyId, companyId) },
+      { name: 'positions', table: positions, where: eq(positions.companyId, companyId) },
+      { name: 'departments', table: departments, where: eq(departments.companyId, companyId) },
+      { name: 'companyLicenses', table: companyLicenses, where: eq(companyLicenses.companyId, companyId) },
+      { name: 'companyModules', table: companyModules, where: eq(companyModules.companyId, companyId) },
+    ];
   }
 
   // Employee operations
-  async getEmployees(companyId: string): Promise<Employee[]> {
-    return await db.select().from(employees).where(eq(employees.companyId, companyId));
+  async getEmployees(companyId: string, includeDeleted: boolean = false): Promise<Employee[]> {
+    // Terminated employees keep their row (payroll and document history) but drop out of listings
+    const condition = includeDeleted
+      ? eq(employees.companyId, companyId)
+      : and(eq(employees.companyId, companyId), isNull(employees.deletedAt));
+    return await db.select().from(employees).where(condition);
   }
 
   async getEmployeesByDepartment(departmentId: string): Promise<Employee[]> {
@@ -325,6 +567,107 @@ export class DatabaseStorage implements IStorage {
     return employee;
   }
 
+  async terminateEmployee(id: string, terminationDate: string): Promise<Employee | undefined> {
+    return await db.transaction(async (tx) => this.applyTermination(tx, id, terminationDate));
+  }
+
+  // Soft delete: the employee is marked TERMINATED and their login is deactivated together
+  private async applyTermination(tx: Transaction, id: string, terminationDate: string): Promise<Employee | undefined> {
+    const [existing] = await tx.select().from(employees).where(eq(employees.id, id));
+    if (!existing) {
+      return undefined;
+    }
+    const [employee] = await tx
+      .update(employees)
+      .set({
+        status: 'TERMINATED',
+        employmentDetails: { ...(existing.employmentDetails as Record<string, any> || {}), terminationDate },
+        deletedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(employees.id, id))
+      .returning();
+    if (existing.userId) {
+      await tx
+        .update(users)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(eq(users.id, existing.userId));
+    }
+    return employee as Employee;
+  }
+
+  // Bin operations for terminated employees
+  async getDeletedEmployees(companyId: string): Promise<Employee[]> {
+    const deletedEmployees = await db
+      .select()
+      .from(employees)
+      .where(and(eq(employees.companyId, companyId), isNotNull(employees.deletedAt)))
+      .orderBy(desc(employees.deletedAt));
+    return deletedEmployees as Employee[];
+  }
+
+  async restoreEmployee(id: string): Promise<Employee | undefined> {
+    // Reverse applyTermination: active again, termination date cleared and login re-enabled
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(employees).where(eq(employees.id, id));
+      if (!existing) {
+        return undefined;
+      }
+      const { terminationDate, ...employmentDetails } = existing.employmentDetails as Record<string, any> || {};
+      const [employee] = await tx
+        .update(employees)
+        .set({ status: 'ACTIVE', employmentDetails, deletedAt: null, updatedAt: new Date() })
+        .where(eq(employees.id, id))
+        .returning();
+      if (existing.userId) {
+        await tx
+          .update(users)
+          .set({ isActive: true, updatedAt: new Date() })
+          .where(eq(users.id, existing.userId));
+      }
+      return employee as Employee;
+    });
+  }
+
+  async hardDeleteEmployee(id: string): Promise<{ employee: Employee; documents: EmployeeDocument[] } | undefined> {
+    // Permanently delete the employee with their personal records and login.
+    // Payroll items stay so approved run totals still add up; their payslip link is cleared.
+    // Stored files are removed by the caller once the transaction has committed.
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(employees).where(eq(employees.id, id));
+      if (!existing) {
+        return undefined;
+      }
+      const documents = await tx
+        .delete(employeeDocuments)
+        .where(eq(employeeDocuments.employeeId, id))
+        .returning();
+      await tx.delete(probationNotifications).where(eq(probationNotifications.employeeId, id));
+      await tx.delete(leaveRequests).where(eq(leaveRequests.employeeId, id));
+      await tx.delete(leaveBalances).where(eq(leaveBalances.employeeId, id));
+      await tx.delete(overtimeRecords).where(eq(overtimeRecords.employeeId, id));
+      await tx.delete(attendanceRecords).where(eq(attendanceRecords.employeeId, id));
+      await tx.delete(shiftAssignments).where(eq(shiftAssignments.employeeId, id));
+      await tx.delete(employeeOffboardings).where(eq(employeeOffboardings.employeeId, id));
+      await tx.delete(employeeHistory).where(eq(employeeHistory.employeeId, id));
+      await tx.delete(salaryRevisions).where(eq(salaryRevisions.employeeId, id));
+      await tx.delete(jobEvents).where(eq(jobEvents.employeeId, id));
+      await tx.delete(documentExpiryReminders).where(eq(documentExpiryReminders.employeeId, id));
+      await tx
+        .update(payrollItems)
+        .set({ payslipDocumentId: null, updatedAt: new Date() })
+        .where(eq(payrollItems.employeeId, id));
+      const [employee] = await tx
+        .delete(employees)
+        .where(eq(employees.id, id))
+        .returning();
+      if (existing.userId) {
+        await tx.delete(users).where(eq(users.id, existing.userId));
+      }
+      return { employee: employee as Employee, documents };
+    });
+  }
+
   async getEmployeeByUserId(userId: string): Promise<Employee | undefined> {
     const [employee] = await db.select().from(employees).where(eq(employees.userId, userId));
     return employee;
@@ -415,6 +758,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(positions).where(eq(positions.companyId, companyId));
   }
 
+  async getPosition(id: string): Promise<Position | undefined> {
+    const [position] = await db.select().from(positions).where(eq(positions.id, id));
+    return position;
+  }
+
   async createPosition(positionData: Omit<Position, 'id' | 'createdAt' | 'updatedAt'>): Promise<Position> {
     const [position] = await db
       .insert(positions)
@@ -423,6 +771,23 @@ export class DatabaseStorage implements IStorage {
     return position;
   }
 
+  async updatePosition(id: string, data: Partial<Omit<Position, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>>): Promise<Position | undefined> {
+    const [position] = await db
+      .update(positions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(positions.id, id))
+      .returning();
+    return position;
+  }
+
+  async deletePosition(id: string): Promise<Position | undefined> {
+    const [position] = await db
+      .delete(positions)
+      .where(eq(positions.id, id))
+      .returning();
+    return position;
+  }
+
   // Module operations
   async getAvailableModules(): Promise<AvailableModule[]> {
     return await db
@@ -523,6 +888,10 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users);
   }
 
+  async getUsersByCompany(companyId: string): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.companyId, companyId));
+  }
+
   async updateUserAuth(userId: string, updates: {
     passwordHash?: string | null;
     passwordUpdatedAt?: Date | null;
@@ -609,6 +978,40 @@ export class DatabaseStorage implements IStorage {
     return newDocument;
   }
 
+  async createEmployeeDocumentVersion(document: Omit<EmployeeDocument, 'id' | 'uploadDate' | 'version'>): Promise<EmployeeDocument> {
+    // A new upload of a type the employee already has becomes its next version and supersedes the current one
+    return await db.transaction(async (tx) => {
+      const previous = await tx
+        .select()
+        .from(employeeDocuments)
+        .where(and(
+          eq(employeeDocuments.employeeId, document.employeeId),
+          eq(employeeDocuments.documentType, document.documentType)
+        ));
+      await tx
+        .update(employeeDocuments)
+        .set({ status: 'SUPERSEDED', updatedAt: new Date() })
+        .where(and(
+          eq(employeeDocuments.employeeId, document.employeeId),
+          eq(employeeDocuments.documentType, document.documentType),
+          eq(employeeDocuments.status, 'ACTIVE')
+        ));
+      const [newDocument] = await tx
+        .insert(employeeDocuments)
+        .values({ ...document, version: Math.max(0, ...previous.map(existing => existing.version ?? 1)) + 1 })
+        .returning();
+      return newDocument;
+    });
+  }
+
+  async getEmployeeDocumentVersions(employeeId: string, documentType: string): Promise<EmployeeDocument[]> {
+    return await db
+      .select()
+      .from(employeeDocuments)
+      .where(and(eq(employeeDocuments.employeeId, employeeId), eq(employeeDocuments.documentType, documentType)))
+      .orderBy(desc(employeeDocuments.version));
+  }
+
   async updateEmployeeDocument(id: string, updates: Partial<Omit<EmployeeDocument, 'id' | 'uploadDate'>>): Promise<EmployeeDocument | undefined> {
     const [document] = await db
       .update(employeeDocuments)
@@ -626,6 +1029,848 @@ export class DatabaseStorage implements IStorage {
     return document;
   }
 
+  // Leave operations
+  async getLeaveTypes(companyId: string, includeInactive: boolean = false): Promise<LeaveType[]> {
+    if (includeInactive) {
+      return await db.select().from(leaveTypes).where(eq(leaveTypes.companyId, companyId));
+    }
+    return await db
+      .select()
+      .from(leaveTypes)
+      .where(and(eq(leaveTypes.companyId, companyId), eq(leaveTypes.isActive, true)));
+  }
+
+  async getLeaveType(id: string): Promise<LeaveType | undefined> {
+    const [leaveType] = await db.select().from(leaveTypes).where(eq(leaveTypes.id, id));
+    return leaveType;
+  }
+
+  async createLeaveType(leaveTypeData: Omit<LeaveType, 'id' | 'createdAt' | 'updatedAt'>): Promise<LeaveType> {
+    const [leaveType] = await db
+      .insert(leaveTypes)
+      .values(leaveTypeData)
+      .returning();
+    return leaveType;
+  }
+
+  async updateLeaveType(id: string, updates: Partial<Omit<LeaveType, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>>): Promise<LeaveType | undefined> {
+    const [leaveType] = await db
+      .update(leaveTypes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(leaveTypes.id, id))
+      .returning();
+    return leaveType;
+  }
+
+  async deleteLeaveType(id: string): Promise<LeaveType | undefined> {
+    // Soft delete - existing requests and balances keep referencing the type
+    const [leaveType] = await db
+      .update(leaveTypes)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(leaveTypes.id, id))
+      .returning();
+    return leaveType;
+  }
+
+  async getLeaveRequests(companyId: string, filters: { employeeId?: string; status?: string } = {}): Promise<LeaveRequest[]> {
+    const conditions = [eq(employees.companyId, companyId)];
+    if (filters.employeeId) {
+      conditions.push(eq(leaveRequests.employeeId, filters.employeeId));
+    }
+    if (filters.status) {
+      conditions.push(eq(leaveRequests.status, filters.status));
+    }
+
+    return await db
+      .select()
+      .from(leaveRequests)
+      .innerJoin(employees, eq(leaveRequests.employeeId, employees.id))
+      .where(and(...conditions))
+      .orderBy(desc(leaveRequests.createdAt))
+      .then(results => results.map(result => result.leave_requests));
+  }
+
+  async getLeaveRequest(id: string): Promise<LeaveRequest | undefined> {
+    const [request] = await db.select().from(leaveRequests).where(eq(leaveRequests.id, id));
+    return request;
+  }
+
+  async createLeaveRequest(requestData: Omit<LeaveRequest, 'id' | 'createdAt' | 'updatedAt'>): Promise<LeaveRequest> {
+    const [request] = await db
+      .insert(leaveRequests)
+      .values(requestData)
+      .returning();
+    return request;
+  }
+
+  async transitionLeaveRequest(id: string, fromStatus: string, status: string, approval: LeaveApproval, balanceChange: number = 0, fromStep?: number): Promise<LeaveRequest | undefined> {
+    // Status change, approval trail and balance movement must succeed or fail together
+    return await db.transaction(async (tx) => {
+      // Only the request still in fromStatus (and at fromStep of its chain) is updated, so a concurrent
+      // approval or cancellation that got there first leaves no row and the balance is not moved twice
+      const [request] = await tx
+        .update(leaveRequests)
+        .set({
+          status,
+          approvals: sql`COALESCE(${leaveRequests.approvals}, '[]'::jsonb) || ${JSON.stringify([approval])}::jsonb`,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(leaveRequests.id, id),
+          eq(leaveRequests.status, fromStatus),
+          fromStep !== undefined ? sql`COALESCE(${leaveRequests.currentStep}, 0) = ${fromStep}` : undefined
+        ))
+        .returning();
+
+      if (!request || balanceChange === 0) {
+        return request;
+      }
+
+      // Positive balanceChange debits the balance (approval), negative credits it back (cancellation)
+      const year = new Date(request.startDate).getFullYear();
+      const [existingBalance] = await tx
+        .select()
+        .from(leaveBalances)
+        .where(and(
+          eq(leaveBalances.employeeId, request.employeeId),
+          eq(leaveBalances.leaveTypeId, request.leaveTypeId),
+          eq(leaveBalances.year, year)
+        ));
+
+      if (existingBalance) {
+        await tx
+          .update(leaveBalances)
+          .set({
+            balance: existingBalance.balance - balanceChange,
+            used: (existingBalance.used || 0) + balanceChange,
+            updatedAt: new Date(),
+          })
+          .where(eq(leaveBalances.id, existingBalance.id));
+      } else {
+        // First movement for this year - open the balance at the type's allowance
+        const [leaveType] = await tx.select().from(leaveTypes).where(eq(leaveTypes.id, request.leaveTypeId));
+        await tx.insert(leaveBalances).values({
+          employeeId: request.employeeId,
+          leaveTypeId: request.leaveTypeId,
+          year,
+          balance: (leaveType?.daysAllowed || 0) - balanceChange,
+          used: balanceChange,
+          carriedOver: 0,
+        });
+      }
+
+      return request;
+    });
+  }
+
+  async advanceLeaveRequest(id: string, fromStep: number, approval: LeaveApproval): Promise<LeaveRequest | undefined> {
+    // Record an intermediate approval and move the request on to the next chain step,
+    // unless another approver has already acted on fromStep
+    const [request] = await db
+      .update(leaveRequests)
+      .set({
+        approvals: sql`COALESCE(${leaveRequests.approvals}, '[]'::jsonb) || ${JSON.stringify([approval])}::jsonb`,
+        currentStep: sql`COALESCE(${leaveRequests.currentStep}, 0) + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(leaveRequests.id, id),
+        eq(leaveRequests.status, 'PENDING'),
+        sql`COALESCE(${leaveRequests.currentStep}, 0) = ${fromStep}`
+      ))
+      .returning();
+    return request;
+  }
+
+  async getLeaveApprovalInbox(companyId: string, approverEmployeeId: string | undefined, includeHrSteps: boolean): Promise<LeaveRequest[]> {
+    // The step awaiting action is approvalChain[currentStep]
+    const currentStep = sql`${leaveRequests.approvalChain}->COALESCE(${leaveRequests.currentStep}, 0)`;
+    const stepConditions = [];
+    if (approverEmployeeId) {
+      stepConditions.push(sql`${currentStep}->>'approverEmployeeId' = ${approverEmployeeId}`);
+    }
+    if (includeHrSteps) {
+      stepConditions.push(sql`${currentStep}->>'level' = 'HR'`);
+    }
+    if (stepConditions.length === 0) {
+      return [];
+    }
+
+    return await db
+      .select()
+      .from(leaveRequests)
+      .innerJoin(employees, eq(leaveRequests.employeeId, employees.id))
+      .where(and(
+        eq(employees.companyId, companyId),
+        eq(leaveRequests.status, 'PENDING'),
+        or(...stepConditions),
+        // Approvers never act on their own requests
+        approverEmployeeId ? ne(leaveRequests.employeeId, approverEmployeeId) : undefined
+      ))
+      .orderBy(leaveRequests.createdAt)
+      .then(results => results.map(result => result.leave_requests));
+  }
+
+  async getLeaveBalances(employeeId: string, year: number): Promise<LeaveBalance[]> {
+    return await db
+      .select()
+      .from(leaveBalances)
+      .where(and(eq(leaveBalances.employeeId, employeeId), eq(leaveBalances.year, year)));
+  }
+
+  async getLeaveBalance(employeeId: string, leaveTypeId: string, year: number): Promise<LeaveBalance | undefined> {
+    const [balance] = await db
+      .select()
+      .from(leaveBalances)
+      .where(and(
+        eq(leaveBalances.employeeId, employeeId),
+        eq(leaveBalances.leaveTypeId, leaveTypeId),
+        eq(leaveBalances.year, year)
+      ));
+    return balance;
+  }
+
+  async upsertLeaveBalance(balanceData: Omit<LeaveBalance, 'id' | 'createdAt' | 'updatedAt'>): Promise<LeaveBalance> {
+    const existing = await this.getLeaveBalance(balanceData.employeeId, balanceData.leaveTypeId, balanceData.year);
+    if (existing) {
+      const [balance] = await db
+        .update(leaveBalances)
+        .set({ ...balanceData, updatedAt: new Date() })
+        .where(eq(leaveBalances.id, existing.id))
+        .returning();
+      return balance;
+    }
+
+    const [balance] = await db
+      .insert(leaveBalances)
+      .values(balanceData)
+      .returning();
+    return balance;
+  }
+
+  // Holiday calendar operations
+  async getCompanyHolidays(companyId: string, startDate: string, endDate: string): Promise<CompanyHoliday[]> {
+    return await db
+      .select()
+      .from(companyHolidays)
+      .where(and(
+        eq(companyHolidays.companyId, companyId),
+        gte(companyHolidays.date, startDate),
+        lte(companyHolidays.date, endDate)
+      ))
+      .orderBy(asc(companyHolidays.date));
+  }
+
+  async getCompanyHoliday(id: string): Promise<CompanyHoliday | undefined> {
+    const [holiday] = await db.select().from(companyHolidays).where(eq(companyHolidays.id, id));
+    return holiday;
+  }
+
+  async createCompanyHoliday(holidayData: Omit<CompanyHoliday, 'id' | 'createdAt' | 'updatedAt'>): Promise<CompanyHoliday> {
+    const [holiday] = await db
+      .insert(companyHolidays)
+      .values(holidayData)
+      .returning();
+    return holiday;
+  }
+
+  async updateCompanyHoliday(id: string, updates: Partial<Omit<CompanyHoliday, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>>): Promise<CompanyHoliday | undefined> {
+    const [holiday] = await db
+      .update(companyHolidays)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(companyHolidays.id, id))
+      .returning();
+    return holiday;
+  }
+
+  async deleteCompanyHoliday(id: string): Promise<CompanyHoliday | undefined> {
+    const [holiday] = await db
+      .delete(companyHolidays)
+      .where(eq(companyHolidays.id, id))
+      .returning();
+    return holiday;
+  }
+
+  // Attendance operations
+  async getAttendanceRecords(
+    companyId: string,
+    filters: { startDate: string; endDate: string; departmentId?: string; employeeId?: string; flaggedOnly?: boolean }
+  ): Promise<AttendanceRecord[]> {
+    const conditions = [
+      eq(employees.companyId, companyId),
+      gte(attendanceRecords.date, filters.startDate),
+      lte(attendanceRecords.date, filters.endDate),
+    ];
+    if (filters.departmentId) {
+      conditions.push(eq(sql`${employees.employmentDetails}->>'departmentId'`, filters.departmentId));
+    }
+    if (filters.employeeId) {
+      conditions.push(eq(attendanceRecords.employeeId, filters.employeeId));
+    }
+    if (filters.flaggedOnly) {
+      conditions.push(sql`jsonb_array_length(COALESCE(${attendanceRecords.exceptions}, '[]'::jsonb)) > 0`);
+    }
+
+    return await db
+      .select()
+      .from(attendanceRecords)
+      .innerJoin(employees, eq(attendanceRecords.employeeId, employees.id))
+      .where(and(...conditions))
+      .orderBy(desc(attendanceRecords.date), asc(attendanceRecords.checkIn))
+      .then(results => results.map(result => result.attendance_records));
+  }
+
+  async getAttendanceRecord(id: string): Promise<AttendanceRecord | undefined> {
+    const [record] = await db.select().from(attendanceRecords).where(eq(attendanceRecords.id, id));
+    return record;
+  }
+
+  async getAttendanceRecordForDate(employeeId: string, date: string): Promise<AttendanceRecord | undefined> {
+    const [record] = await db
+      .select()
+      .from(attendanceRecords)
+      .where(and(eq(attendanceRecords.employeeId, employeeId), eq(attendanceRecords.date, date)));
+    return record;
+  }
+
+  async createAttendanceRecord(recordData: Omit<AttendanceRecord, 'id' | 'createdAt' | 'updatedAt'>): Promise<AttendanceRecord> {
+    const [record] = await db
+      .insert(attendanceRecords)
+      .values(recordData)
+      .returning();
+    return record;
+  }
+
+  async updateAttendanceRecord(id: string, updates: Partial<Omit<AttendanceRecord, 'id' | 'employeeId' | 'createdAt' | 'updatedAt'>>): Promise<AttendanceRecord | undefined> {
+    const [record] = await db
+      .update(attendanceRecords)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(attendanceRecords.id, id))
+      .returning();
+    return record;
+  }
+
+  // Office location operations
+  async getOfficeLocations(companyId: string): Promise<OfficeLocation[]> {
+    return await db
+      .select()
+      .from(officeLocations)
+      .where(and(eq(officeLocations.companyId, companyId), eq(officeLocations.isActive, true)));
+  }
+
+  async getOfficeLocation(id: string): Promise<OfficeLocation | undefined> {
+    const [location] = await db.select().from(officeLocations).where(eq(officeLocations.id, id));
+    return location;
+  }
+
+  async createOfficeLocation(locationData: Omit<OfficeLocation, 'id' | 'createdAt' | 'updatedAt'>): Promise<OfficeLocation> {
+    const [location] = await db
+      .insert(officeLocations)
+      .values(locationData)
+      .returning();
+    return location;
+  }
+
+  async updateOfficeLocation(id: string, updates: Partial<Omit<OfficeLocation, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>>): Promise<OfficeLocation | undefined> {
+    const [location] = await db
+      .update(officeLocations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(officeLocations.id, id))
+      .returning();
+    return location;
+  }
+
+  async deleteOfficeLocation(id: string): Promise<OfficeLocation | undefined> {
+    // Soft delete - past attendance exceptions keep referencing the site
+    const [location] = await db
+      .update(officeLocations)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(officeLocations.id, id))
+      .returning();
+    return location;
+  }
+
+  // Shift and roster operations
+  async getShiftTemplates(companyId: string): Promise<ShiftTemplate[]> {
+    return await db
+      .select()
+      .from(shiftTemplates)
+      .where(and(eq(shiftTemplates.companyId, companyId), eq(shiftTemplates.isActive, true)))
+      .orderBy(asc(shiftTemplates.startTime));
+  }
+
+  async getShiftTemplate(id: string): Promise<ShiftTemplate | undefined> {
+    const [template] = await db.select().from(shiftTemplates).where(eq(shiftTemplates.id, id));
+    return template;
+  }
+
+  async createShiftTemplate(templateData: Omit<ShiftTemplate, 'id' | 'createdAt' | 'updatedAt'>): Promise<ShiftTemplate> {
+    const [template] = await db
+      .insert(shiftTemplates)
+      .values(templateData)
+      .returning();
+    return template;
+  }
+
+  async updateShiftTemplate(id: string, updates: Partial<Omit<ShiftTemplate, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>>): Promise<ShiftTemplate | undefined> {
+    const [template] = await db
+      .update(shiftTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(shiftTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteShiftTemplate(id: string): Promise<ShiftTemplate | undefined> {
+    // Soft delete - rostered days and attendance records keep referencing the template
+    const [template] = await db
+      .update(shiftTemplates)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(shiftTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async getShiftAssignments(companyId: string, startDate: string, endDate: string, employeeId?: string): Promise<ShiftAssignment[]> {
+    const conditions = [
+      eq(shiftAssignments.companyId, companyId),
+      gte(shiftAssignments.date, startDate),
+      lte(shiftAssignments.date, endDate),
+    ];
+    if (employeeId) {
+      conditions.push(eq(shiftAssignments.employeeId, employeeId));
+    }
+    return await db
+      .select()
+      .from(shiftAssignments)
+      .where(and(...conditions))
+      .orderBy(asc(shiftAssignments.date));
+  }
+
+  async getShiftAssignment(employeeId: string, date: string): Promise<ShiftAssignment | undefined> {
+    const [assignment] = await db
+      .select()
+      .from(shiftAssignments)
+      .where(and(eq(shiftAssignments.employeeId, employeeId), eq(shiftAssignments.date, date)));
+    return assignment;
+  }
+
+  async setEmployeeRoster(
+    companyId: string,
+    employeeId: string,
+    entries: Array<{ date: string; shiftTemplateId: string | null }>
+  ): Promise<ShiftAssignment[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+
+    // Replace the employee's assignments for the given dates in one go
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(shiftAssignments)
+        .where(and(
+          eq(shiftAssignments.employeeId, employeeId),
+          inArray(shiftAssignments.date, entries.map(entry => entry.date))
+        ));
+
+      return await tx
+        .insert(shiftAssignments)
+        .values(entries.map(entry => ({ companyId, employeeId, ...entry })))
+        .returning();
+    });
+  }
+
+  // Overtime operations
+  async getOvertimeRecords(
+    companyId: string,
+    filters: { startDate: string; endDate: string; employeeId?: string; status?: string }
+  ): Promise<OvertimeRecord[]> {
+    const conditions = [
+      eq(overtimeRecords.companyId, companyId),
+      gte(overtimeRecords.date, filters.startDate),
+      lte(overtimeRecords.date, filters.endDate),
+    ];
+    if (filters.employeeId) {
+      conditions.push(eq(overtimeRecords.employeeId, filters.employeeId));
+    }
+    if (filters.status) {
+      conditions.push(eq(overtimeRecords.status, filters.status));
+    }
+    return await db
+      .select()
+      .from(overtimeRecords)
+      .where(and(...conditions))
+      .orderBy(desc(overtimeRecords.date));
+  }
+
+  async getOvertimeRecord(id: string): Promise<OvertimeRecord | undefined> {
+    const [record] = await db.select().from(overtimeRecords).where(eq(overtimeRecords.id, id));
+    return record;
+  }
+
+  async getOvertimeRecordByAttendance(attendanceRecordId: string): Promise<OvertimeRecord | undefined> {
+    const [record] = await db
+      .select()
+      .from(overtimeRecords)
+      .where(eq(overtimeRecords.attendanceRecordId, attendanceRecordId));
+    return record;
+  }
+
+  async createOvertimeRecord(recordData: Omit<OvertimeRecord, 'id' | 'createdAt' | 'updatedAt'>): Promise<OvertimeRecord> {
+    const [record] = await db
+      .insert(overtimeRecords)
+      .values(recordData)
+      .returning();
+    return record;
+  }
+
+  async updateOvertimeRecord(id: string, updates: Partial<Omit<OvertimeRecord, 'id' | 'companyId' | 'employeeId' | 'createdAt' | 'updatedAt'>>): Promise<OvertimeRecord | undefined> {
+    const [record] = await db
+      .update(overtimeRecords)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(overtimeRecords.id, id))
+      .returning();
+    return record;
+  }
+
+  async transitionOvertimeRecord(id: string, fromStatus: string, updates: Partial<Omit<OvertimeRecord, 'id' | 'companyId' | 'employeeId' | 'createdAt' | 'updatedAt'>>): Promise<OvertimeRecord | undefined> {
+    // Only a record still in fromStatus is updated, so of two concurrent reviews only one succeeds
+    const [record] = await db
+      .update(overtimeRecords)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(overtimeRecords.id, id), eq(overtimeRecords.status, fromStatus)))
+      .returning();
+    return record;
+  }
+
+  async deleteOvertimeRecord(id: string): Promise<OvertimeRecord | undefined> {
+    const [record] = await db
+      .delete(overtimeRecords)
+      .where(eq(overtimeRecords.id, id))
+      .returning();
+    return record;
+  }
+
+  // Payroll operations
+  async getPayrollRuns(companyId: string): Promise<PayrollRun[]> {
+    return await db
+      .select()
+      .from(payrollRuns)
+      .where(eq(payrollRuns.companyId, companyId))
+      .orderBy(desc(payrollRuns.month));
+  }
+
+  async getPayrollRun(id: string): Promise<PayrollRun | undefined> {
+    const [run] = await db.select().from(payrollRuns).where(eq(payrollRuns.id, id));
+    return run;
+  }
+
+  async getPayrollRunByMonth(companyId: string, month: string): Promise<PayrollRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(payrollRuns)
+      .where(and(eq(payrollRuns.companyId, companyId), eq(payrollRuns.month, month)));
+    return run;
+  }
+
+  async createPayrollRun(runData: Omit<PayrollRun, 'id' | 'createdAt' | 'updatedAt'>): Promise<PayrollRun> {
+    const [run] = await db
+      .insert(payrollRuns)
+      .values(runData)
+      .returning();
+    return run;
+  }
+
+  async updatePayrollRun(id: string, updates: Partial<Omit<PayrollRun, 'id' | 'companyId' | 'month' | 'createdAt' | 'updatedAt'>>): Promise<PayrollRun | undefined> {
+    const [run] = await db
+      .update(payrollRuns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(payrollRuns.id, id))
+      .returning();
+    return run;
+  }
+
+  async transitionPayrollRun(id: string, fromStatus: string, updates: Partial<Omit<PayrollRun, 'id' | 'companyId' | 'month' | 'createdAt' | 'updatedAt'>>): Promise<PayrollRun | undefined> {
+    // Only a run still in fromStatus is updated, so a concurrent status change that got there first leaves no row
+    const [run] = await db
+      .update(payrollRuns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(payrollRuns.id, id), sql`COALESCE(${payrollRuns.status}, 'DRAFT') = ${fromStatus}`))
+      .returning();
+    return run;
+  }
+
+  async deletePayrollRun(id: string): Promise<PayrollRun | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(payrollItems).where(eq(payrollItems.payrollRunId, id));
+      const [run] = await tx
+        .delete(payrollRuns)
+        .where(eq(payrollRuns.id, id))
+        .returning();
+      return run;
+    });
+  }
+
+  async getPayrollItems(payrollRunId: string): Promise<PayrollItem[]> {
+    return await db
+      .select()
+      .from(payrollItems)
+      .where(eq(payrollItems.payrollRunId, payrollRunId));
+  }
+
+  async getPayrollItem(id: string): Promise<PayrollItem | undefined> {
+    const [item] = await db.select().from(payrollItems).where(eq(payrollItems.id, id));
+    return item;
+  }
+
+  async getEmployeePayrollItems(employeeId: string): Promise<Array<{ item: PayrollItem; run: PayrollRun }>> {
+    return await db
+      .select({ item: payrollItems, run: payrollRuns })
+      .from(payrollItems)
+      .innerJoin(payrollRuns, eq(payrollItems.payrollRunId, payrollRuns.id))
+      .where(eq(payrollItems.employeeId, employeeId))
+      .orderBy(desc(payrollRuns.month));
+  }
+
+  async updatePayrollItem(id: string, updates: Partial<Pick<PayrollItem, 'payslipDocumentId'>>): Promise<PayrollItem | undefined> {
+    const [item] = await db
+      .update(payrollItems)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(payrollItems.id, id))
+      .returning();
+    return item;
+  }
+
+  async savePayrollCalculation(
+    payrollRunId: string,
+    fromStatus: string,
+    items: Array<Omit<PayrollItem, 'id' | 'payrollRunId' | 'createdAt' | 'updatedAt'>>,
+    totals: Pick<PayrollRun, 'employeeCount' | 'totalGross' | 'totalOvertime' | 'totalDeductions' | 'totalNet'>
+  ): Promise<PayrollRun | undefined> {
+    // Replace the run's items and totals together so a run is never half calculated
+    return await db.transaction(async (tx) => {
+      // The run row is updated first and only while still in fromStatus; that locks it against a
+      // concurrent status change, and a run approved in the meantime keeps its items
+      const [run] = await tx
+        .update(payrollRuns)
+        .set({ ...totals, calculatedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(payrollRuns.id, payrollRunId), sql`COALESCE(${payrollRuns.status}, 'DRAFT') = ${fromStatus}`))
+        .returning();
+      if (!run) {
+        return undefined;
+      }
+      await tx.delete(payrollItems).where(eq(payrollItems.payrollRunId, payrollRunId));
+      if (items.length > 0) {
+        await tx.insert(payrollItems).values(items.map(item => ({ ...item, payrollRunId })));
+      }
+      return run;
+    });
+  }
+
+  // Offboarding operations
+  async getOffboardings(companyId: string, status?: string): Promise<EmployeeOffboarding[]> {
+    const conditions = [eq(employeeOffboardings.companyId, companyId)];
+    if (status) {
+      conditions.push(eq(employeeOffboardings.status, status));
+    }
+    return await db
+      .select()
+      .from(employeeOffboardings)
+      .where(and(...conditions))
+      .orderBy(asc(employeeOffboardings.lastWorkingDate));
+  }
+
+  async getOffboarding(id: string): Promise<EmployeeOffboarding | undefined> {
+    const [offboarding] = await db.select().from(employeeOffboardings).where(eq(employeeOffboardings.id, id));
+    return offboarding;
+  }
+
+  async getOpenOffboarding(employeeId: string): Promise<EmployeeOffboarding | undefined> {
+    const [offboarding] = await db
+      .select()
+      .from(employeeOffboardings)
+      .where(and(eq(employeeOffboardings.employeeId, employeeId), eq(employeeOffboardings.status, 'IN_PROGRESS')));
+    return offboarding;
+  }
+
+  async createOffboarding(offboardingData: Omit<EmployeeOffboarding, 'id' | 'createdAt' | 'updatedAt'>): Promise<EmployeeOffboarding> {
+    const [offboarding] = await db
+      .insert(employeeOffboardings)
+      .values(offboardingData)
+      .returning();
+    return offboarding;
+  }
+
+  async updateOffboarding(
+    id: string,
+    updates: Partial<Omit<EmployeeOffboarding, 'id' | 'companyId' | 'employeeId' | 'createdAt' | 'updatedAt'>>
+  ): Promise<EmployeeOffboarding | undefined> {
+    const [offboarding] = await db
+      .update(employeeOffboardings)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(employeeOffboardings.id, id))
+      .returning();
+    return offboarding;
+  }
+
+  async completeOffboarding(
+    id: string,
+    updates: Pick<EmployeeOffboarding, 'checklist' | 'settlement' | 'completedBy'>
+  ): Promise<EmployeeOffboarding | undefined> {
+    // Close the case, terminate the employee and deactivate their login in one step
+    return await db.transaction(async (tx) => {
+      const [offboarding] = await tx
+        .update(employeeOffboardings)
+        .set({ ...updates, status: 'COMPLETED', completedAt: new Date(), updatedAt: new Date() })
+        .where(eq(employeeOffboardings.id, id))
+        .returning();
+      if (!offboarding) {
+        return undefined;
+      }
+
+      await this.applyTermination(tx, offboarding.employeeId, offboarding.lastWorkingDate);
+      return offboarding;
+    });
+  }
+
+  // Employee history operations
+  async getEmployeeHistory(employeeId: string): Promise<EmployeeHistoryEntry[]> {
+    return await db
+      .select()
+      .from(employeeHistory)
+      .where(eq(employeeHistory.employeeId, employeeId))
+      .orderBy(desc(employeeHistory.changedAt));
+  }
+
+  async updateEmployeeWithHistory(
+    id: string,
+    updates: Partial<Omit<Employee, 'id' | 'createdAt' | 'updatedAt'>>,
+    changes: Array<Omit<EmployeeHistoryEntry, 'id' | 'changedAt'>>
+  ): Promise<Employee | undefined> {
+    // The update and its history rows are written together so the timeline never drifts from the record
+    return await db.transaction(async (tx) => {
+      const [employee] = await tx
+        .update(employees)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(employees.id, id))
+        .returning();
+      if (!employee) {
+        return undefined;
+      }
+      if (changes.length > 0) {
+        await tx.insert(employeeHistory).values(changes);
+      }
+      return employee as Employee;
+    });
+  }
+
+  // Salary revision operations
+  async getSalaryRevisions(companyId: string, filters: { employeeId?: string; status?: string } = {}): Promise<SalaryRevision[]> {
+    const conditions = [eq(salaryRevisions.companyId, companyId)];
+    if (filters.employeeId) {
+      conditions.push(eq(salaryRevisions.employeeId, filters.employeeId));
+    }
+    if (filters.status) {
+      conditions.push(eq(salaryRevisions.status, filters.status));
+    }
+    return await db
+      .select()
+      .from(salaryRevisions)
+      .where(and(...conditions))
+      .orderBy(desc(salaryRevisions.effectiveDate), desc(salaryRevisions.createdAt));
+  }
+
+  async getSalaryRevision(id: string): Promise<SalaryRevision | undefined> {
+    const [revision] = await db.select().from(salaryRevisions).where(eq(salaryRevisions.id, id));
+    return revision;
+  }
+
+  async createSalaryRevision(revisionData: Omit<SalaryRevision, 'id' | 'createdAt' | 'updatedAt'>): Promise<SalaryRevision> {
+    const [revision] = await db
+      .insert(salaryRevisions)
+      .values(revisionData)
+      .returning();
+    return revision;
+  }
+
+  async updateSalaryRevision(id: string, updates: Partial<Omit<SalaryRevision, 'id' | 'companyId' | 'employeeId' | 'createdAt' | 'updatedAt'>>): Promise<SalaryRevision | undefined> {
+    const [revision] = await db
+      .update(salaryRevisions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(salaryRevisions.id, id))
+      .returning();
+    return revision;
+  }
+
+  async transitionSalaryRevision(id: string, fromStatus: string, updates: Partial<Omit<SalaryRevision, 'id' | 'companyId' | 'employeeId' | 'createdAt' | 'updatedAt'>>): Promise<SalaryRevision | undefined> {
+    // Only a revision still in fromStatus is updated, so of two concurrent reviews only one succeeds
+    const [revision] = await db
+      .update(salaryRevisions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(salaryRevisions.id, id), eq(salaryRevisions.status, fromStatus)))
+      .returning();
+    return revision;
+  }
+
+  // Job event operations
+  async getJobEvents(companyId: string, filters: { employeeId?: string; status?: string } = {}): Promise<JobEvent[]> {
+    const conditions = [eq(jobEvents.companyId, companyId)];
+    if (filters.employeeId) {
+      conditions.push(eq(jobEvents.employeeId, filters.employeeId));
+    }
+    if (filters.status) {
+      conditions.push(eq(jobEvents.status, filters.status));
+    }
+    return await db
+      .select()
+      .from(jobEvents)
+      .where(and(...conditions))
+      .orderBy(desc(jobEvents.effectiveDate), desc(jobEvents.createdAt));
+  }
+
+  async getJobEvent(id: string): Promise<JobEvent | undefined> {
+    const [event] = await db.select().from(jobEvents).where(eq(jobEvents.id, id));
+    return event;
+  }
+
+  async createJobEvent(eventData: Omit<JobEvent, 'id' | 'createdAt' | 'updatedAt'>): Promise<JobEvent> {
+    const [event] = await db
+      .insert(jobEvents)
+      .values(eventData)
+      .returning();
+    return event;
+  }
+
+  async updateJobEvent(id: string, updates: Partial<Omit<JobEvent, 'id' | 'companyId' | 'employeeId' | 'createdAt' | 'updatedAt'>>): Promise<JobEvent | undefined> {
+    const [event] = await db
+      .update(jobEvents)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobEvents.id, id))
+      .returning();
+    return event;
+  }
+
+  // Document expiry reminder operations
+  async getDocumentExpiryReminders(companyId: string, filters: { employeeId?: string } = {}): Promise<DocumentExpiryReminder[]> {
+    const conditions = [eq(documentExpiryReminders.companyId, companyId)];
+    if (filters.employeeId) {
+      conditions.push(eq(documentExpiryReminders.employeeId, filters.employeeId));
+    }
+    return await db
+      .select()
+      .from(documentExpiryReminders)
+      .where(and(...conditions))
+      .orderBy(desc(documentExpiryReminders.sentAt));
+  }
+
+  async createDocumentExpiryReminder(reminderData: Omit<DocumentExpiryReminder, 'id' | 'sentAt'>): Promise<DocumentExpiryReminder> {
+    const [reminder] = await db
+      .insert(documentExpiryReminders)
+      .values(reminderData)
+      .returning();
+    return reminder;
+  }
+
   // Get all employee documents for a company (for centralized document management)
   async getAllEmployeeDocuments(companyId: string): Promise<EmployeeDocument[]> {
     return await db
@@ -0,0 +1,110 @@
+import path from "path";
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { LocalStorageDriver } from "./localDriver";
+import { S3StorageDriver } from "./s3Driver";
+import type { StorageDriver, StorageDriverName } from "./types";
+
+export { ObjectNotFoundError, type StorageDriver, type StorageDriverName, type DownloadURLOptions } from "./types";
+export { LocalStorageDriver, LOCAL_OBJECT_ROUTE } from "./localDriver";
+export { S3StorageDriver } from "./s3Driver";
+
+export const STORAGE_DRIVER_NAMES: StorageDriverName[] = ['local', 's3'];
+
+// Upload URLs stay valid long enough for a slow connection to finish a 10MB upload
+export const UPLOAD_URL_TTL_SEC = 900;
+
+function getSigningSecret(): string {
+  const signingSecret = process.env.STORAGE_SIGNING_SECRET || process.env.SESSION_SECRET;
+  if (!signingSecret) {
+    throw new Error("STORAGE_SIGNING_SECRET or SESSION_SECRET must be set to sign storage URLs and upload names.");
+  }
+  return signingSecret;
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} not set. It is required by the s3 storage driver.`);
+  }
+  return value;
+}
+
+/**
+ * Build a storage driver from the environment:
+ * - local: files in LOCAL_STORAGE_DIR (default ./uploads), URLs signed with STORAGE_SIGNING_SECRET or SESSION_SECRET
+ * - s3: S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY, with optional S3_ENDPOINT, S3_REGION,
+ *   S3_PREFIX (default "uploads") and S3_FORCE_PATH_STYLE
+ */
+export function createStorageDriver(name: StorageDriverName): StorageDriver {
+  if (name === 's3') {
+    const region = process.env.S3_REGION || 'us-east-1';
+    return new S3StorageDriver({
+      endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      region,
+      bucket: requireEnv('S3_BUCKET'),
+      accessKeyId: requireEnv('S3_ACCESS_KEY_ID'),
+      secretAccessKey: requireEnv('S3_SECRET_ACCESS_KEY'),
+      prefix: (process.env.S3_PREFIX ?? 'uploads').replace(/^\/+|\/+$/g, ''),
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    });
+  }
+
+  return new LocalStorageDriver(path.resolve(process.env.LOCAL_STORAGE_DIR || 'uploads'), getSigningSecret());
+}
+
+let activeDriver: StorageDriver | null = null;
+
+/**
+ * The driver selected by STORAGE_DRIVER (default local), shared by the whole server
+ */
+export function getStorageDriver(): StorageDriver {
+  if (!activeDriver) {
+    const name = (process.env.STORAGE_DRIVER || 'local') as StorageDriverName;
+    if (!STORAGE_DRIVER_NAMES.includes(name)) {
+      throw new Error(`Unknown STORAGE_DRIVER "${name}", expected one of ${STORAGE_DRIVER_NAMES.join(', ')}`);
+    }
+    activeDriver = createStorageDriver(name);
+  }
+  return activeDriver;
+}
+
+/**
+ * Name of the stored object behind a document. Uploads are recorded as /objects/uploads/<name>
+ * and generated files by their bare name.
+ */
+export function getDocumentObjectName(filePath: string): string {
+  return path.posix.basename(filePath);
+}
+
+/**
+ * Name of the object an upload URL points at, with or without its query string
+ */
+export function getObjectNameFromURL(url: string): string {
+  return decodeURIComponent(path.posix.basename(new URL(url, 'http://localhost').pathname));
+}
+
+function signUploadName(id: string, userId: string): string {
+  return createHmac('sha256', getSigningSecret()).update(`upload\n${id}\n${userId}`).digest('hex').slice(0, 32);
+}
+
+/**
+ * A fresh object name for a browser upload, signed for the user it is issued to
+ */
+export function issueUploadObjectName(userId: string): string {
+  const id = randomUUID();
+  return `${id}-${signUploadName(id, userId)}`;
+}
+
+/**
+ * Whether an object name was issued by issueUploadObjectName to this user, so an upload can only
+ * be registered by whoever requested its URL
+ */
+export function isUploadObjectNameIssuedTo(objectName: string, userId: string): boolean {
+  const match = objectName.match(/^([0-9a-f-]{36})-([0-9a-f]{32})$/);
+  if (!match) {
+    return false;
+  }
+  const expected = Buffer.from(signUploadName(match[1], userId));
+  const actual = Buffer.from(match[2]);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,123 @@
+import fs from "fs";
+import path from "path";
+import { createHmac, timingSafeEqual } from "crypto";
+import {
+  ObjectNotFoundError,
+  getContentDisposition,
+  type DownloadURLOptions,
+  type StorageDriver,
+} from "./types";
+
+// Signed URLs of the local driver are served by these routes
+export const LOCAL_OBJECT_ROUTE = "/api/storage/objects";
+
+export interface SignedObjectRequest {
+  method: "GET" | "PUT";
+  objectName: string;
+  expires: string;
+  signature: string;
+  contentType?: string;
+  disposition?: string;
+}
+
+/**
+ * Stores objects as files in one directory. Upload and download URLs point back at this
+ * server and carry an HMAC signature and expiry, so they work like S3 presigned URLs.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+
+  constructor(private readonly rootDir: string, private readonly signingSecret: string) {}
+
+  private resolvePath(objectName: string): string {
+    return path.join(this.rootDir, path.basename(objectName));
+  }
+
+  private sign(request: Omit<SignedObjectRequest, 'signature'>): string {
+    const payload = [request.method, path.basename(request.objectName), request.expires, request.contentType || '', request.disposition || ''].join('\n');
+    return createHmac('sha256', this.signingSecret).update(payload).digest('hex');
+  }
+
+  private signURL(request: Omit<SignedObjectRequest, 'signature' | 'expires'>, ttlSec: number): string {
+    const expires = String(Math.floor(Date.now() / 1000) + ttlSec);
+    const params = new URLSearchParams({ expires, signature: this.sign({ ...request, expires }) });
+    if (request.contentType) params.set('contentType', request.contentType);
+    if (request.disposition) params.set('disposition', request.disposition);
+    return `${LOCAL_OBJECT_ROUTE}/${encodeURIComponent(path.basename(request.objectName))}?${params}`;
+  }
+
+  /**
+   * Whether a request to a signed URL is genuine and has not expired
+   */
+  verifySignedRequest(request: SignedObjectRequest): boolean {
+    if (!/^\d+$/.test(request.expires) || Number(request.expires) < Date.now() / 1000) {
+      return false;
+    }
+    const expected = Buffer.from(this.sign(request));
+    const actual = Buffer.from(request.signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  async putObject(objectName: string, content: Buffer): Promise<void> {
+    await fs.promises.mkdir(this.rootDir, { recursive: true });
+    await fs.promises.writeFile(this.resolvePath(objectName), content);
+  }
+
+  async getObject(objectName: string): Promise<Buffer> {
+    try {
+      return await fs.promises.readFile(this.resolvePath(objectName));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new ObjectNotFoundError();
+      }
+      throw error;
+    }
+  }
+
+  async statObject(objectName: string): Promise<{ size: number } | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolvePath(objectName));
+      return stats.isFile() ? { size: stats.size } : null;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deleteObject(objectName: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.resolvePath(objectName));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  async listObjects(): Promise<string[]> {
+    try {
+      const entries = await fs.promises.readdir(this.rootDir, { withFileTypes: true });
+      return entries.filter(entry => entry.isFile()).map(entry => entry.name);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async getUploadURL(objectName: string, ttlSec: number): Promise<string> {
+    return this.signURL({ method: 'PUT', objectName }, ttlSec);
+  }
+
+  async getDownloadURL(objectName: string, options: DownloadURLOptions = {}): Promise<string> {
+    return this.signURL({
+      method: 'GET',
+      objectName,
+      contentType: options.contentType,
+      disposition: getContentDisposition(options),
+    }, options.ttlSec ?? 300);
+  }
+}
@@ -0,0 +1,133 @@
+import path from "path";
+import {
+  STORAGE_DRIVER_NAMES,
+  S3StorageDriver,
+  createStorageDriver,
+  type StorageDriver,
+  type StorageDriverName,
+} from "./index";
+
+/**
+ * Copy every stored object from one driver to another, e.g. before switching STORAGE_DRIVER:
+ *
+ *   npm run storage:migrate -- --from local --to s3 [--delete-source] [--dry-run]
+ *
+ * Objects already in the target with the same size are skipped, so an interrupted run can be
+ * repeated. With --delete-source an object is removed from the source once it is in the target.
+ *
+ * --from gcs reads documents uploaded before the storage drivers existed, from the Google Cloud
+ * Storage bucket under PRIVATE_OBJECT_DIR/uploads. GCS serves them through its S3 interoperability
+ * API, so it needs an HMAC key for a service account that can read the bucket, in GCS_HMAC_ACCESS_ID
+ * and GCS_HMAC_SECRET. It can only be migrated from.
+ */
+
+type MigrationSource = StorageDriverName | 'gcs';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+};
+
+interface MigrationOptions {
+  from: MigrationSource;
+  to: StorageDriverName;
+  deleteSource: boolean;
+  dryRun: boolean;
+}
+
+interface MigrationResult {
+  copied: number;
+  skipped: number;
+  failed: number;
+  deleted: number;
+}
+
+function parseArgs(args: string[]): MigrationOptions {
+  const valueOf = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const from = valueOf('--from') as MigrationSource;
+  const to = valueOf('--to') as StorageDriverName;
+  if (!(from === 'gcs' || STORAGE_DRIVER_NAMES.includes(from)) || !STORAGE_DRIVER_NAMES.includes(to) || from === to) {
+    throw new Error(`Usage: storage:migrate --from <${STORAGE_DRIVER_NAMES.join('|')}|gcs> --to <${STORAGE_DRIVER_NAMES.join('|')}> [--delete-source] [--dry-run]`);
+  }
+  return { from, to, deleteSource: args.includes('--delete-source'), dryRun: args.includes('--dry-run') };
+}
+
+// PRIVATE_OBJECT_DIR is /<bucket>/<directory>, and uploads were stored as <directory>/uploads/<id>
+function createGcsSourceDriver(): S3StorageDriver {
+  const [bucket, ...directory] = (process.env.PRIVATE_OBJECT_DIR || '').split('/').filter(Boolean);
+  const accessKeyId = process.env.GCS_HMAC_ACCESS_ID;
+  const secretAccessKey = process.env.GCS_HMAC_SECRET;
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error("PRIVATE_OBJECT_DIR, GCS_HMAC_ACCESS_ID and GCS_HMAC_SECRET must be set to migrate from gcs.");
+  }
+  return new S3StorageDriver({
+    endpoint: 'https://storage.googleapis.com',
+    region: 'auto',
+    bucket,
+    accessKeyId,
+    secretAccessKey,
+    prefix: [...directory, 'uploads'].join('/'),
+    forcePathStyle: true,
+  });
+}
+
+async function migrateObjects(
+  source: StorageDriver,
+  target: StorageDriver,
+  { deleteSource = false, dryRun = false }: { deleteSource?: boolean; dryRun?: boolean } = {}
+): Promise<MigrationResult> {
+  const result: MigrationResult = { copied: 0, skipped: 0, failed: 0, deleted: 0 };
+  const objectNames = await source.listObjects();
+  console.log(`${objectNames.length} objects in the source storage`);
+
+  for (const objectName of objectNames) {
+    try {
+      const [sourceStat, targetStat] = await Promise.all([
+        source.statObject(objectName),
+        target.statObject(objectName),
+      ]);
+      if (!sourceStat) continue;
+
+      if (targetStat && targetStat.size === sourceStat.size) {
+        result.skipped++;
+      } else if (dryRun) {
+        console.log(`Would copy ${objectName} (${sourceStat.size} bytes)`);
+        result.copied++;
+      } else {
+        const content = await source.getObject(objectName);
+        await target.putObject(objectName, content, CONTENT_TYPES[path.extname(objectName).toLowerCase()]);
+        result.copied++;
+      }
+
+      if (deleteSource && !dryRun) {
+        await source.deleteObject(objectName);
+        result.deleted++;
+      }
+    } catch (error) {
+      console.error(`Failed to migrate ${objectName}:`, error);
+      result.failed++;
+    }
+  }
+  return result;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const source = options.from === 'gcs' ? createGcsSourceDriver() : createStorageDriver(options.from);
+  const result = await migrateObjects(source, createStorageDriver(options.to), options);
+  console.log(
+    `${options.dryRun ? 'Dry run: ' : ''}${result.copied} copied, ${result.skipped} already present, ` +
+    `${result.failed} failed${options.deleteSource ? `, ${result.deleted} removed from ${options.from}` : ''}`
+  );
+  process.exit(result.failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,183 @@
+import { createHash, createHmac } from "crypto";
+import {
+  ObjectNotFoundError,
+  getContentDisposition,
+  type DownloadURLOptions,
+  type StorageDriver,
+} from "./types";
+
+export interface S3DriverConfig {
+  endpoint: string; // e.g. https://s3.eu-central-1.amazonaws.com or http://localhost:9000 for MinIO
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix: string; // key prefix the objects are stored under, without slashes at either end
+  forcePathStyle: boolean; // MinIO and most self-hosted services need bucket-in-path URLs
+}
+
+// Presigned URLs the server uses for its own requests only need to outlive the request
+const INTERNAL_TTL_SEC = 60;
+
+// RFC 3986 encoding as required by AWS Signature Version 4
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function hmac(key: string | Buffer, value: string): Buffer {
+  return createHmac('sha256', key).update(value).digest();
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Stores objects in an S3-compatible bucket (AWS S3, MinIO, or Google Cloud Storage through
+ * its interoperability API). Every request, the server's own included, is a presigned URL,
+ * so no SDK is needed.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+
+  constructor(private readonly config: S3DriverConfig) {}
+
+  private getKey(objectName: string): string {
+    const name = objectName.split('/').pop() as string;
+    return this.config.prefix ? `${this.config.prefix}/${name}` : name;
+  }
+
+  /**
+   * Presign a request with AWS Signature Version 4 query parameters. An empty key addresses the bucket.
+   */
+  presign(
+    method: "GET" | "PUT" | "HEAD" | "DELETE",
+    key: string,
+    ttlSec: number,
+    query: Record<string, string> = {},
+    now: Date = new Date()
+  ): string {
+    const { endpoint, region, bucket, accessKeyId, secretAccessKey, forcePathStyle } = this.config;
+    const baseURL = new URL(endpoint);
+    const host = forcePathStyle ? baseURL.host : `${bucket}.${baseURL.host}`;
+    const keyPath = key.split('/').map(encodeRfc3986).join('/');
+    const canonicalUri = forcePathStyle ? `/${bucket}/${keyPath}` : `/${keyPath}`;
+
+    const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const params: Record<string, string> = {
+      ...query,
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(ttlSec),
+      'X-Amz-SignedHeaders': 'host',
+    };
+    const canonicalQuery = Object.keys(params)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(params[name])}`)
+      .join('&');
+
+    const canonicalRequest = [method, canonicalUri, canonicalQuery, `host:${host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n');
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      createHash('sha256').update(canonicalRequest).digest('hex'),
+    ].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return `${baseURL.protocol}//${host}${canonicalUri}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  private async request(method: "GET" | "PUT" | "HEAD" | "DELETE", key: string, init: RequestInit = {}, query: Record<string, string> = {}): Promise<Response> {
+    return fetch(this.presign(method, key, INTERNAL_TTL_SEC, query), { ...init, method });
+  }
+
+  async putObject(objectName: string, content: Buffer, contentType?: string): Promise<void> {
+    const response = await this.request('PUT', this.getKey(objectName), {
+      body: content,
+      headers: contentType ? { 'Content-Type': contentType } : undefined,
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to store object ${objectName}, status ${response.status}`);
+    }
+  }
+
+  async getObject(objectName: string): Promise<Buffer> {
+    const response = await this.request('GET', this.getKey(objectName));
+    if (response.status === 404) {
+      throw new ObjectNotFoundError();
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to read object ${objectName}, status ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async statObject(objectName: string): Promise<{ size: number } | null> {
+    const response = await this.request('HEAD', this.getKey(objectName));
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to read object ${objectName}, status ${response.status}`);
+    }
+    return { size: Number(response.headers.get('content-length') || 0) };
+  }
+
+  async deleteObject(objectName: string): Promise<void> {
+    const response = await this.request('DELETE', this.getKey(objectName));
+    // S3 answers 204 whether or not the object existed
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to delete object ${objectName}, status ${response.status}`);
+    }
+  }
+
+  async listObjects(): Promise<string[]> {
+    const prefix = this.config.prefix ? `${this.config.prefix}/` : '';
+    const names: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.request('GET', '', {}, {
+        'list-type': '2',
+        delimiter: '/',
+        prefix,
+        ...(continuationToken ? { 'continuation-token': continuationToken } : {}),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to list objects, status ${response.status}`);
+      }
+      const xml = await response.text();
+      for (const match of Array.from(xml.matchAll(/<Key>([^<]*)<\/Key>/g))) {
+        const name = decodeXml(match[1]).slice(prefix.length);
+        if (name) {
+          names.push(name);
+        }
+      }
+      const truncated = /<IsTruncated>true<\/IsTruncated>/.test(xml);
+      const token = xml.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/);
+      continuationToken = truncated && token ? decodeXml(token[1]) : undefined;
+    } while (continuationToken);
+    return names;
+  }
+
+  async getUploadURL(objectName: string, ttlSec: number): Promise<string> {
+    return this.presign('PUT', this.getKey(objectName), ttlSec);
+  }
+
+  async getDownloadURL(objectName: string, options: DownloadURLOptions = {}): Promise<string> {
+    const query: Record<string, string> = {};
+    const disposition = getContentDisposition(options);
+    if (options.contentType) query['response-content-type'] = options.contentType;
+    if (disposition) query['response-content-disposition'] = disposition;
+    return this.presign('GET', this.getKey(objectName), options.ttlSec ?? 300, query);
+  }
+}
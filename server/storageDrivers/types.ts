@@ -0,0 +1,40 @@
+export type StorageDriverName = 'local' | 's3';
+
+export class ObjectNotFoundError extends Error {
+  constructor() {
+    super("Object not found");
+    this.name = "ObjectNotFoundError";
+    Object.setPrototypeOf(this, ObjectNotFoundError.prototype);
+  }
+}
+
+export interface DownloadURLOptions {
+  ttlSec?: number;
+  contentType?: string;
+  // Suggested file name; the browser shows the file inline unless attachment is set
+  fileName?: string;
+  attachment?: boolean;
+}
+
+// Objects are addressed by a flat name, the last path segment of a document's filePath
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  putObject(objectName: string, content: Buffer, contentType?: string): Promise<void>;
+  // Throws ObjectNotFoundError when there is no such object
+  getObject(objectName: string): Promise<Buffer>;
+  // Size of the object, or null when there is no such object
+  statObject(objectName: string): Promise<{ size: number } | null>;
+  // Deleting a missing object is not an error
+  deleteObject(objectName: string): Promise<void>;
+  listObjects(): Promise<string[]>;
+  getUploadURL(objectName: string, ttlSec: number): Promise<string>;
+  getDownloadURL(objectName: string, options?: DownloadURLOptions): Promise<string>;
+}
+
+export function getContentDisposition({ fileName, attachment }: DownloadURLOptions): string | undefined {
+  if (!fileName && !attachment) {
+    return undefined;
+  }
+  const type = attachment ? 'attachment' : 'inline';
+  return fileName ? `${type}; filename="${fileName.replace(/["\\\r\n]/g, '_')}"` : type;
+}
@@ -10,6 +10,8 @@ import {
   integer,
   date,
   serial,
+  doublePrecision,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -91,6 +93,10 @@ export const positions = pgTable("positions", {
   title: varchar("title", { length: 255 }).notNull(),
   departmentId: varchar("department_id").notNull(),
   level: varchar("level", { length: 50 }),
+  grade: varchar("grade", { length: 50 }), // pay grade, e.g. G7
+  plannedHeadcount: integer("planned_headcount").default(1), // budgeted seats
+  salaryBandMin: text("salary_band_min"), // monthly total salary range; using text for decimal precision
+  salaryBandMax: text("salary_band_max"),
   jobDescription: text("job_description"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -127,7 +133,8 @@ export const employees = pgTable("employees", {
   // { 
   //   position, departmentId, reportingManagerId, startDate, tenure (calculated),
   //   employmentStatus, probationEndDate (auto-calculated), employmentType: 'full-time'|'part-time'|'contract',
-  //   workLocation: 'office'|'remote'|'hybrid', probationMonths
+  //   workLocation: 'office'|'remote'|'hybrid', probationMonths,
+  //   contractType: 'permanent'|'fixed-term'|'temporary', terminationDate
   // }
   
   // Probation Information
@@ -231,6 +238,8 @@ export const leaveRequests = pgTable("leave_requests", {
   reason: text("reason"),
   status: varchar("status", { length: 50 }).default("PENDING"),
   approvals: jsonb("approvals").default(sql`'[]'::jsonb`),
+  approvalChain: jsonb("approval_chain").default(sql`'[]'::jsonb`), // LeaveApprovalStep[] resolved at submission
+  currentStep: integer("current_step").default(0), // index into approvalChain awaiting action
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -257,12 +266,225 @@ export const attendanceRecords = pgTable("attendance_records", {
   checkOut: timestamp("check_out"),
   breakTime: integer("break_time"), // in minutes
   totalHours: integer("total_hours"), // in minutes
-  status: varchar("status", { length: 50 }).default("PRESENT"),
+  status: varchar("status", { length: 50 }).default("PRESENT"), // PRESENT, LATE, EARLY_LEAVE, ABSENT, ON_LEAVE
+  shiftTemplateId: varchar("shift_template_id"), // shift the record was evaluated against
+  lateMinutes: integer("late_minutes").default(0),
+  earlyLeaveMinutes: integer("early_leave_minutes").default(0),
   location: jsonb("location"),
+  exceptions: jsonb("exceptions").default(sql`'[]'::jsonb`), // AttendanceException[] raised by policy checks
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("unique_attendance_record_per_employee_date").on(table.employeeId, table.date)]);
+
+// Shift Templates
+export const shiftTemplates = pgTable("shift_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  startTime: varchar("start_time", { length: 5 }).notNull(), // HH:MM local time
+  endTime: varchar("end_time", { length: 5 }).notNull(), // HH:MM; earlier than startTime for night shifts
+  gracePeriodMinutes: integer("grace_period_minutes").default(15), // late after start + grace
+  earlyLeaveGraceMinutes: integer("early_leave_grace_minutes").default(0),
+  breakMinutes: integer("break_minutes").default(60), // unpaid break deducted when none is reported
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Shift Assignments (weekly roster, one row per employee per day)
+export const shiftAssignments = pgTable("shift_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  employeeId: varchar("employee_id").notNull(),
+  date: date("date").notNull(),
+  shiftTemplateId: varchar("shift_template_id"), // null marks a rest day
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Overtime Records (one per attendance record that exceeds the scheduled hours)
+export const overtimeRecords = pgTable("overtime_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  employeeId: varchar("employee_id").notNull(),
+  attendanceRecordId: varchar("attendance_record_id").notNull(),
+  date: date("date").notNull(),
+  scheduledMinutes: integer("scheduled_minutes").notNull(),
+  workedMinutes: integer("worked_minutes").notNull(),
+  regularMinutes: integer("regular_minutes").default(0), // paid at 125%
+  nightMinutes: integer("night_minutes").default(0), // 10pm-4am, paid at 150%
+  restDayMinutes: integer("rest_day_minutes").default(0), // rest days and public holidays, paid at 150%
+  hourlyRate: text("hourly_rate").notNull(), // basic salary / 30 / 8 at calculation time
+  amount: text("amount").notNull(), // Using text for decimal precision
+  status: varchar("status", { length: 20 }).default("PENDING"), // PENDING, APPROVED, REJECTED
+  reviewedBy: varchar("reviewed_by"), // users.id
+  reviewedAt: timestamp("reviewed_at"),
+  comments: text("comments"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Office Locations (geofences for attendance check-in)
+export const officeLocations = pgTable("office_locations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  radiusMeters: integer("radius_meters").notNull().default(200),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Company Holidays (public holidays excluded from working-day counts)
+export const companyHolidays = pgTable("company_holidays", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  date: date("date").notNull(),
+  type: varchar("type", { length: 20 }).default("FEDERAL"), // FEDERAL, EMIRATE, COMPANY
+  emirate: varchar("emirate", { length: 50 }), // only applies in this emirate; null applies everywhere
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Payroll Runs (one per company and month)
+export const payrollRuns = pgTable("payroll_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  month: varchar("month", { length: 7 }).notNull(), // YYYY-MM
+  status: varchar("status", { length: 20 }).default("DRAFT"), // DRAFT, REVIEWED, APPROVED, PAID; locked from APPROVED
+  employeeCount: integer("employee_count").default(0),
+  totalGross: text("total_gross").default("0"), // Using text for decimal precision
+  totalOvertime: text("total_overtime").default("0"),
+  totalDeductions: text("total_deductions").default("0"),
+  totalNet: text("total_net").default("0"),
+  calculatedAt: timestamp("calculated_at"),
+  createdBy: varchar("created_by"), // users.id
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  approvedBy: varchar("approved_by"),
+  approvedAt: timestamp("approved_at"),
+  paidAt: timestamp("paid_at"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("unique_payroll_run_per_company_month").on(table.companyId, table.month)]);
+
+// Payroll Items (one employee's pay within a run)
+export const payrollItems = pgTable("payroll_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  payrollRunId: varchar("payroll_run_id").notNull(),
+  companyId: varchar("company_id").notNull(),
+  employeeId: varchar("employee_id").notNull(),
+  compensation: jsonb("compensation").default(sql`'{}'::jsonb`), // Compensation snapshot at calculation time
+  basicSalary: text("basic_salary").default("0"),
+  housingAllowance: text("housing_allowance").default("0"),
+  transportAllowance: text("transport_allowance").default("0"),
+  otherAllowance: text("other_allowance").default("0"),
+  payableDays: integer("payable_days").notNull(), // days employed in the month
+  daysInMonth: integer("days_in_month").notNull(),
+  grossSalary: text("gross_salary").default("0"), // allowances and basic, pro-rated for joiners
+  unpaidLeaveDays: text("unpaid_leave_days").default("0"), // half-pay sick days count as 0.5
+  leaveDeduction: text("leave_deduction").default("0"),
+  overtimeMinutes: integer("overtime_minutes").default(0),
+  overtimeAmount: text("overtime_amount").default("0"), // approved overtime only
+  netSalary: text("net_salary").default("0"),
+  payslipDocumentId: varchar("payslip_document_id"), // employeeDocuments.id of the generated PDF
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Employee Offboarding (resignation or termination, one open case per employee)
+export const employeeOffboardings = pgTable("employee_offboardings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  employeeId: varchar("employee_id").notNull(),
+  separationType: varchar("separation_type", { length: 20 }).notNull(), // RESIGNATION, TERMINATION
+  reason: text("reason"),
+  noticeDate: date("notice_date").notNull(), // date notice was given
+  noticePeriodDays: integer("notice_period_days").notNull(),
+  lastWorkingDate: date("last_working_date").notNull(),
+  status: varchar("status", { length: 20 }).default("IN_PROGRESS"), // IN_PROGRESS, COMPLETED, CANCELLED
+  checklist: jsonb("checklist").default(sql`'[]'::jsonb`), // OffboardingChecklistItem[]
+  settlement: jsonb("settlement"), // final settlement snapshot, refreshed until completion
+  initiatedBy: varchar("initiated_by"), // users.id
+  completedBy: varchar("completed_by"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("idx_offboarding_company_employee").on(table.companyId, table.employeeId)]);
+
+// Employee History (one row per changed field, shown as a timeline on the profile)
+export const employeeHistory = pgTable("employee_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  employeeId: varchar("employee_id").notNull(),
+  fieldPath: varchar("field_path", { length: 255 }).notNull(), // JSON path such as compensation.basicSalary
+  oldValue: jsonb("old_value"),
+  newValue: jsonb("new_value"),
+  source: varchar("source", { length: 50 }).default("PROFILE_UPDATE"), // what made the change
+  changedBy: varchar("changed_by"), // users.id
+  changedAt: timestamp("changed_at").defaultNow(),
+}, (table) => [index("idx_employee_history_employee").on(table.employeeId, table.changedAt)]);
+
+// Salary Revisions (effective-dated compensation changes; approved rows form the salary history)
+export const salaryRevisions = pgTable("salary_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  employeeId: varchar("employee_id").notNull(),
+  effectiveDate: date("effective_date").notNull(), // first day the new salary is paid
+  reason: varchar("reason", { length: 30 }).notNull(), // PROMOTION, ANNUAL_INCREMENT, CORRECTION
+  previousCompensation: jsonb("previous_compensation").notNull(), // SalaryComponents in force before the revision
+  compensation: jsonb("compensation").notNull(), // SalaryComponents from the effective date
+  previousTotal: text("previous_total").notNull(), // Using text for decimal precision
+  newTotal: text("new_total").notNull(),
+  percentageChange: text("percentage_change"), // of the total monthly salary, e.g. "7.50"; null when there was no previous salary
+  status: varchar("status", { length: 20 }).default("PENDING"), // PENDING, APPROVED, REJECTED
+  notes: text("notes"),
+  requestedBy: varchar("requested_by"), // users.id
+  approvedBy: varchar("approved_by"), // users.id of whoever approved or rejected
+  approvedAt: timestamp("approved_at"),
+  comments: text("comments"), // approver's comments
+  appliedAt: timestamp("applied_at"), // when the salary was copied onto employees.compensation
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("idx_salary_revisions_employee").on(table.employeeId, table.effectiveDate)]);
+
+// Job Events (promotions, transfers and manager changes, applied to employmentDetails on the effective date)
+export const jobEvents = pgTable("job_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  employeeId: varchar("employee_id").notNull(),
+  eventType: varchar("event_type", { length: 20 }).notNull(), // PROMOTION, TRANSFER, DEMOTION, POSITION_CHANGE, MANAGER_CHANGE
+  effectiveDate: date("effective_date").notNull(),
+  fromDepartmentId: varchar("from_department_id"), // values in force the day before the event
+  toDepartmentId: varchar("to_department_id"),
+  fromPosition: varchar("from_position", { length: 255 }),
+  toPosition: varchar("to_position", { length: 255 }),
+  fromManagerId: varchar("from_manager_id"), // employees.id of the reporting manager
+  toManagerId: varchar("to_manager_id"),
+  notes: text("notes"),
+  status: varchar("status", { length: 20 }).default("SCHEDULED"), // SCHEDULED, APPLIED, CANCELLED
+  createdBy: varchar("created_by"), // users.id
+  appliedAt: timestamp("applied_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("idx_job_events_employee").on(table.employeeId, table.effectiveDate)]);
+
+// Document Expiry Reminders (one row per document, expiry date and lead time, so each reminder goes out once)
+export const documentExpiryReminders = pgTable("document_expiry_reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  employeeId: varchar("employee_id").notNull(),
+  documentKey: varchar("document_key", { length: 100 }).notNull(), // VISA, EMIRATES_ID, PASSPORT, WORK_PERMIT, LABOR_CARD or DOCUMENT:<employee_documents.id>
+  expiryDate: date("expiry_date").notNull(),
+  leadDays: integer("lead_days").notNull(), // 0 once the document has expired
+  recipients: jsonb("recipients").$type<string[]>().notNull(),
+  sentAt: timestamp("sent_at").defaultNow(),
+}, (table) => [index("idx_document_expiry_reminders_employee").on(table.employeeId, table.documentKey)]);
+
 // Relations
 export const usersRelations = relations(users, ({ one, many }) => ({
   company: one(companies, {
@@ -383,8 +605,10 @@ const employmentDetailsSchema = z.object({
   employmentStatus: z.string().optional(),
   probationEndDate: z.string().optional(),
   employmentType: z.enum(['full-time', 'part-time', 'contract']).optional(),
+  contractType: z.enum(['permanent', 'fixed-term', 'temporary']).optional(),
   workLocation: z.enum(['office', 'remote', 'hybrid']).optional(),
   probationMonths: z.number().optional(),
+  terminationDate: z.string().optional(),
 }).default({});
 
 const compensationSchema = z.object({
@@ -401,6 +625,7 @@ const compensationSchema = z.object({
     bankName: z.string().optional(),
     accountNumber: z.string().optional(),
     iban: z.string().optional(),
+    routingCode: z.string().optional(),
   }).optional(),
   endOfServiceGratuity: z.number().optional(),
 }).default({});
@@ -494,11 +719,53 @@ export const insertEmployeeSchema = createInsertSchema(employees).omit({
   workPermitInfo: workPermitInfoSchema,
   laborCardInfo: laborCardInfoSchema,
 });
+// Profile edits; company, login, slug and status are changed only through their own workflows
+export const updateEmployeeSchema = insertEmployeeSchema.omit({
+  companyId: true,
+  userId: true,
+  slug: true,
+  status: true,
+}).partial();
 export const insertDepartmentSchema = createInsertSchema(departments).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertPositionSchema = createInsertSchema(positions).omit({ id: true, createdAt: true, updatedAt: true });
+const salaryBandAmount = z.string().regex(/^\d+(\.\d{1,2})?$/, "Salary must be a positive amount").nullable().optional();
+const positionFields = {
+  plannedHeadcount: z.number().int().min(0).max(10000).optional(),
+  salaryBandMin: salaryBandAmount,
+  salaryBandMax: salaryBandAmount,
+};
+const isValidSalaryBand = (position: { salaryBandMin?: string | null; salaryBandMax?: string | null }) =>
+  !position.salaryBandMin || !position.salaryBandMax || parseFloat(position.salaryBandMin) <= parseFloat(position.salaryBandMax);
+const salaryBandError = { message: "Salary band minimum must not exceed the maximum", path: ["salaryBandMax"] };
+export const insertPositionSchema = createInsertSchema(positions).omit({ id: true, createdAt: true, updatedAt: true })
+  .extend(positionFields)
+  .refine(isValidSalaryBand, salaryBandError);
+export const updatePositionSchema = createInsertSchema(positions).omit({ id: true, companyId: true, createdAt: true, updatedAt: true })
+  .extend(positionFields)
+  .partial()
+  .refine(isValidSalaryBand, salaryBandError);
 export const insertEmployeeDocumentSchema = createInsertSchema(employeeDocuments).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertLeaveTypeSchema = createInsertSchema(leaveTypes).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  daysAllowed: z.number().int().min(0),
+});
 export const insertLeaveRequestSchema = createInsertSchema(leaveRequests).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertAttendanceRecordSchema = createInsertSchema(attendanceRecords).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertOfficeLocationSchema = createInsertSchema(officeLocations).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  radiusMeters: z.number().int().min(10).max(10000),
+});
+const shiftTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:MM format");
+export const insertShiftTemplateSchema = createInsertSchema(shiftTemplates).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  startTime: shiftTimeSchema,
+  endTime: shiftTimeSchema,
+  gracePeriodMinutes: z.number().int().min(0).max(240).optional(),
+  earlyLeaveGraceMinutes: z.number().int().min(0).max(240).optional(),
+  breakMinutes: z.number().int().min(0).max(480).optional(),
+});
+export const insertCompanyHolidaySchema = createInsertSchema(companyHolidays).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  type: z.enum(['FEDERAL', 'EMIRATE', 'COMPANY']).default('COMPANY'),
+});
 
 // JSONB Structure Interfaces
 export interface PersonalInfo {
@@ -555,8 +822,10 @@ export interface EmploymentDetails {
   employmentStatus?: string;
   probationEndDate?: string;
   employmentType?: 'full-time' | 'part-time' | 'contract';
+  contractType?: 'permanent' | 'fixed-term' | 'temporary';
   workLocation?: 'office' | 'remote' | 'hybrid';
   probationMonths?: number;
+  terminationDate?: string; // last working day, set on termination
 }
 
 export interface ProbationInfo {
@@ -582,8 +851,107 @@ export interface Compensation {
     bankName?: string;
     accountNumber?: string;
     iban?: string;
+    routingCode?: string; // 9-digit bank routing (agent) code used in WPS files
   };
-  endOfServiceGratuity?: number;
+  endOfServiceGratuity?: number; // accrued to date, computed by the server
+}
+
+// Pay components changed by a salary revision (stored in salaryRevisions.compensation)
+export type SalaryComponents = Required<Pick<Compensation, 'basicSalary' | 'housingAllowance' | 'transportAllowance' | 'otherAllowance'>>;
+
+// Leave type configuration (stored in leaveTypes.rules)
+export interface LeaveTypeRules {
+  entitlement?: 'FIXED' | 'UAE_ANNUAL' | 'UAE_SICK' | 'UAE_MATERNITY' | 'UAE_PARENTAL'; // defaults to FIXED (daysAllowed)
+  carryOverCap?: number; // max unused days carried into the next year, 0 or unset = none
+  dayCount?: 'WORKING' | 'CALENDAR'; // how requested days are counted; defaults to working days
+  paid?: boolean; // false for unpaid leave, deducted in payroll; defaults to true
+}
+
+// Leave approval chain step (stored in leaveRequests.approvalChain)
+export interface LeaveApprovalStep {
+  level: 'REPORTING_MANAGER' | 'DEPARTMENT_MANAGER' | 'HR';
+  approverEmployeeId?: string; // employees.id for manager levels, unset for HR
+}
+
+// Leave approval trail entry (stored in leaveRequests.approvals)
+export interface LeaveApproval {
+  action: 'SUBMITTED' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+  by: string; // users.id of the actor, or 'system' for auto-approval
+  role: string;
+  at: string; // ISO timestamp
+  level?: LeaveApprovalStep['level'] | 'AUTO';
+  comments?: string;
+}
+
+// Per-company leave approval configuration (stored in companies.settings.leaveApproval)
+export interface LeaveApprovalSettings {
+  skipReportingManager?: boolean;
+  skipDepartmentManager?: boolean;
+  skipHr?: boolean;
+  autoApproveUnderDays?: number; // requests shorter than this are approved on submission
+}
+
+// Offboarding checklist entry (stored in employeeOffboardings.checklist)
+export interface OffboardingChecklistItem {
+  key: 'ASSET_RETURN' | 'VISA_CANCELLATION' | 'ACCESS_REVOCATION' | 'FINAL_SETTLEMENT' | string;
+  label: string;
+  completed: boolean;
+  completedBy?: string; // users.id
+  completedAt?: string; // ISO timestamp
+  notes?: string;
+}
+
+// Coordinates captured on check-in/out (stored in attendanceRecords.location)
+export interface AttendanceGeoPoint {
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // metres, as reported by the device
+  capturedAt: string; // ISO timestamp
+}
+
+export interface AttendanceLocation {
+  checkIn?: AttendanceGeoPoint;
+  checkOut?: AttendanceGeoPoint;
+}
+
+// Policy exception raised on an attendance record (stored in attendanceRecords.exceptions)
+export interface AttendanceException {
+  type: 'OUTSIDE_GEOFENCE';
+  punch: 'CHECK_IN' | 'CHECK_OUT';
+  message: string;
+  distanceMeters?: number; // distance to the nearest office site
+  officeLocationId?: string;
+  resolved?: boolean;
+  resolvedBy?: string; // users.id
+  resolvedAt?: string; // ISO timestamp
+}
+
+// Per-company geofence rules (stored in companies.settings.attendancePolicy)
+export interface AttendancePolicySettings {
+  officeOutsideFence?: 'FLAG' | 'REJECT'; // office-based employees checking in away from every site
+  hybridOutsideFence?: 'ALLOW' | 'FLAG'; // hybrid employees; remote employees are never fenced
+}
+
+// Wage Protection System employer details (stored in companies.settings.wps)
+export interface WpsSettings {
+  molEstablishmentId?: string; // 13-digit MOHRE establishment (employer) ID
+  employerBankRoutingCode?: string; // 9-digit routing code of the employer's paying bank
+  employerReference?: string; // optional reference printed on the salary control record
+}
+
+// Per-company working week and holiday region (stored in companies.settings.workCalendar)
+export interface WorkCalendarSettings {
+  weekendDays?: number[]; // 0 = Sunday ... 6 = Saturday
+  emirate?: string; // emirate-specific holidays for this emirate also apply
+}
+
+// Terminated employee retention before permanent purge (stored in companies.settings.employeeBin)
+export interface EmployeeBinSettings {
+  retentionDays?: number; // days a terminated employee stays restorable
+}
+
+export interface DocumentExpirySettings {
+  reminderDays?: number[]; // days before expiry on which HR and the employee are reminded
 }
 
 export interface VisaInfo {
@@ -659,20 +1027,39 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertCompany = z.infer<typeof insertCompanySchema>;
 export type InsertEmployee = z.infer<typeof insertEmployeeSchema>;
+export type UpdateEmployee = z.infer<typeof updateEmployeeSchema>;
 export type InsertDepartment = z.infer<typeof insertDepartmentSchema>;
 export type InsertPosition = z.infer<typeof insertPositionSchema>;
+export type UpdatePosition = z.infer<typeof updatePositionSchema>;
 export type InsertEmployeeDocument = z.infer<typeof insertEmployeeDocumentSchema>;
+export type InsertLeaveType = z.infer<typeof insertLeaveTypeSchema>;
 export type InsertLeaveRequest = z.infer<typeof insertLeaveRequestSchema>;
 export type InsertAttendanceRecord = z.infer<typeof insertAttendanceRecordSchema>;
+export type InsertCompanyHoliday = z.infer<typeof insertCompanyHolidaySchema>;
+export type InsertOfficeLocation = z.infer<typeof insertOfficeLocationSchema>;
+export type InsertShiftTemplate = z.infer<typeof insertShiftTemplateSchema>;
 
 export type Company = typeof companies.$inferSelect;
 export type Employee = EmployeeWithDetails; // Use the enhanced type instead
 export type Department = typeof departments.$inferSelect;
 export type Position = typeof positions.$inferSelect;
 export type EmployeeDocument = typeof employeeDocuments.$inferSelect;
+export type LeaveType = typeof leaveTypes.$inferSelect;
 export type LeaveRequest = typeof leaveRequests.$inferSelect;
 export type LeaveBalance = typeof leaveBalances.$inferSelect;
 export type AttendanceRecord = typeof attendanceRecords.$inferSelect;
+export type CompanyHoliday = typeof companyHolidays.$inferSelect;
+export type OfficeLocation = typeof officeLocations.$inferSelect;
+export type ShiftTemplate = typeof shiftTemplates.$inferSelect;
+export type ShiftAssignment = typeof shiftAssignments.$inferSelect;
+export type OvertimeRecord = typeof overtimeRecords.$inferSelect;
+export type PayrollRun = typeof payrollRuns.$inferSelect;
+export type PayrollItem = typeof payrollItems.$inferSelect;
+export type EmployeeOffboarding = typeof employeeOffboardings.$inferSelect;
+export type EmployeeHistoryEntry = typeof employeeHistory.$inferSelect;
+export type SalaryRevision = typeof salaryRevisions.$inferSelect;
+export type JobEvent = typeof jobEvents.$inferSelect;
+export type DocumentExpiryReminder = typeof documentExpiryReminders.$inferSelect;
 
 // Company Licenses Table
 export const companyLicenses = pgTable("company_licenses", {